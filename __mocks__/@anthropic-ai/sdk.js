@@ -1,17 +1,21 @@
 // Manual mock for @anthropic-ai/sdk
 
 const mockCreate = jest.fn()
+const mockStream = jest.fn()
 
 class Anthropic {
-  constructor() {
+  constructor(options = {}) {
+    this.maxRetries = options.maxRetries ?? 2
     this.messages = {
       create: mockCreate,
+      stream: mockStream,
     }
   }
 }
 
 // Export a singleton instance that tests can access
 Anthropic.mockCreate = mockCreate
+Anthropic.mockStream = mockStream
 
 module.exports = Anthropic
 module.exports.default = Anthropic
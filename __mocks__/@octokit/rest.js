@@ -5,6 +5,14 @@ const mockOctokit = jest.fn().mockImplementation(() => ({
     createForAuthenticatedUser: jest.fn(),
     getContent: jest.fn(),
     createOrUpdateFileContents: jest.fn(),
+    get: jest.fn(),
+  },
+  git: {
+    getRef: jest.fn(),
+    createRef: jest.fn(),
+  },
+  pulls: {
+    create: jest.fn(),
   },
   users: {
     getAuthenticated: jest.fn(),
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Cassette Replay Integration Tests
+ *
+ * Runs the real Anthropic client and Vercel helpers against the recorded
+ * exchanges in __tests__/fixtures/cassettes/generate-and-deploy.json,
+ * with no network access and no real credentials.
+ */
+
+import { getLLMProvider, __clearProviderCache } from '@/lib/llm-provider'
+import { deployToVercel, waitForDeployment } from '@/lib/vercel'
+import { __resetCassettes } from '@/lib/cassette'
+
+// Use the real SDK so its HTTP requests reach the cassette
+jest.unmock('@anthropic-ai/sdk')
+
+describe('Cassette replay', () => {
+  const originalEnv = process.env
+  const originalFetch = global.fetch
+  const networkFetch = jest.fn()
+
+  beforeAll(() => {
+    process.env = {
+      ...originalEnv,
+      CASSETTE_MODE: 'replay',
+      CASSETTE_NAME: 'generate-and-deploy',
+      AI_PROVIDER: 'anthropic',
+      ANTHROPIC_MODEL: 'claude-sonnet-4-20250514',
+    }
+    delete process.env.CASSETTE_DIR
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.ANTHROPIC_BASE_URL
+    global.fetch = networkFetch
+    __resetCassettes()
+    __clearProviderCache()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+    global.fetch = originalFetch
+    __clearProviderCache()
+  })
+
+  it('should replay an AI completion', async () => {
+    const result = await getLLMProvider().complete({
+      operation: 'readme',
+      prompt: 'Write a one-line README for Bakery Orders.',
+      maxTokens: 256,
+    })
+
+    expect(result.text).toBe(
+      '# Bakery Orders\n\nTake custom cake orders online.'
+    )
+    expect(result.usage).toEqual({ inputTokens: 18, outputTokens: 12 })
+  })
+
+  it('should replay a deployment from project creation to ready', async () => {
+    const deployment = await deployToVercel(
+      'vercel-token',
+      'bakery-orders',
+      'octocat/bakery-orders'
+    )
+    const ready = await waitForDeployment('vercel-token', deployment.id)
+
+    expect(deployment.readyState).toBe('QUEUED')
+    expect(ready).toMatchObject({
+      id: deployment.id,
+      readyState: 'READY',
+      url: 'bakery-orders.vercel.app',
+    })
+  })
+
+  it('should never reach the network', () => {
+    expect(networkFetch).not.toHaveBeenCalled()
+  })
+})
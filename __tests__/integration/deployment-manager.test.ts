@@ -10,9 +10,13 @@ import {
   cancelDeployment,
   retryDeployment,
   cleanupFailedDeployments,
+  monitorDeploymentJob,
+  failMonitoredDeployment,
+  DEPLOYMENT_POLL_INTERVAL_MS,
 } from '@/lib/deployment-manager'
 import { prisma } from '@/lib/prisma'
 import * as vercel from '@/lib/vercel'
+import { enqueueJob, PermanentJobError, type Job } from '@/lib/job-queue'
 
 // Mock Prisma
 jest.mock('@/lib/prisma', () => ({
@@ -22,6 +26,9 @@ jest.mock('@/lib/prisma', () => ({
       update: jest.fn(),
       updateMany: jest.fn(),
     },
+    user: {
+      findUnique: jest.fn(),
+    },
   },
 }))
 
@@ -29,6 +36,17 @@ jest.mock('@/lib/prisma', () => ({
 jest.mock('@/lib/vercel', () => ({
   deployToVercel: jest.fn(),
   waitForDeployment: jest.fn(),
+  getDeploymentStatus: jest.fn(),
+}))
+
+jest.mock('@/lib/encryption', () => ({
+  decryptToken: jest.fn(async (token: string) => `decrypted-${token}`),
+}))
+
+// Keep the queue logic, mock storage
+jest.mock('@/lib/job-queue', () => ({
+  ...jest.requireActual('@/lib/job-queue'),
+  enqueueJob: jest.fn(),
 }))
 
 const mockPrismaProjectFindUnique = prisma.project
@@ -42,9 +60,12 @@ const mockPrismaProjectUpdateMany = prisma.project
 const mockDeployToVercel = vercel.deployToVercel as jest.MockedFunction<
   typeof vercel.deployToVercel
 >
-const mockWaitForDeployment = vercel.waitForDeployment as jest.MockedFunction<
-  typeof vercel.waitForDeployment
->
+const mockGetVercelDeployment =
+  vercel.getDeploymentStatus as jest.MockedFunction<
+    typeof vercel.getDeploymentStatus
+  >
+const mockPrismaUserFindUnique = prisma.user.findUnique as jest.Mock
+const mockEnqueueJob = enqueueJob as jest.Mock
 
 describe('Deployment Manager', () => {
   beforeEach(() => {
@@ -52,6 +73,7 @@ describe('Deployment Manager', () => {
     jest.spyOn(console, 'log').mockImplementation(() => {})
     jest.spyOn(console, 'error').mockImplementation(() => {})
     jest.spyOn(console, 'warn').mockImplementation(() => {})
+    mockEnqueueJob.mockResolvedValue({ id: 'job-789' })
   })
 
   afterEach(() => {
@@ -88,6 +110,7 @@ describe('Deployment Manager', () => {
       expect(result.deploymentUrl).toBe(
         'https://test-project-abc123.vercel.app'
       )
+      expect(result.jobId).toBe('job-789')
 
       // Verify deployment status was updated to 'GENERATING' (mapped from 'deploying')
       expect(mockPrismaProjectUpdate).toHaveBeenCalledWith({
@@ -253,104 +276,162 @@ describe('Deployment Manager', () => {
   })
 
   describe('Background Monitoring', () => {
+    const building = {
+      id: 'deployment-123',
+      url: 'test-project-final.vercel.app',
+      name: 'test-project',
+      state: 'BUILDING',
+      ready: 0,
+      readyState: 'BUILDING',
+      inspectorUrl: 'https://vercel.com/inspector',
+    }
+
+    const monitorJob = (overrides: Partial<Job> = {}): Job => ({
+      id: 'job-789',
+      type: 'MONITOR_DEPLOYMENT',
+      status: 'RUNNING',
+      userId: 'user-456',
+      projectId: 'project-123',
+      payload: {
+        projectId: 'project-123',
+        deploymentId: 'deployment-123',
+        startedAt: new Date().toISOString(),
+      },
+      result: null,
+      progress: 0,
+      progressMessage: null,
+      attempts: 1,
+      maxAttempts: 3,
+      runAt: new Date(),
+      lockedAt: new Date(),
+      lockedBy: 'worker-1',
+      lastError: null,
+      finishedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    })
+
+    const progress = jest.fn().mockResolvedValue(undefined)
+
     beforeEach(() => {
-      // Mock setTimeout for background monitoring
-      jest.useFakeTimers()
+      mockPrismaUserFindUnique.mockResolvedValue({
+        vercelToken: 'encrypted-token',
+      })
+      mockPrismaProjectUpdate.mockResolvedValue({} as any)
     })
 
-    afterEach(() => {
-      jest.useRealTimers()
+    it('should queue a job to follow the deployment', async () => {
+      mockDeployToVercel.mockResolvedValue(building)
+      mockPrismaProjectUpdate.mockResolvedValue({} as any)
+
+      await startDeployment({ ...mockContext, maxRetries: 2 })
+
+      expect(mockEnqueueJob).toHaveBeenCalledWith({
+        type: 'MONITOR_DEPLOYMENT',
+        userId: 'user-456',
+        projectId: 'project-123',
+        payload: {
+          projectId: 'project-123',
+          deploymentId: 'deployment-123',
+          startedAt: expect.any(String),
+        },
+        maxAttempts: 2,
+      })
     })
 
     it('should update status on successful deployment', async () => {
-      jest.useRealTimers() // Use real timers for this async test
-      const mockCompletedDeployment = {
-        id: 'deployment-123',
-        url: 'test-project-final.vercel.app',
-        name: 'test-project',
+      mockGetVercelDeployment.mockResolvedValue({
+        ...building,
         state: 'READY',
         ready: 1,
         readyState: 'READY',
-        inspectorUrl: 'https://vercel.com/inspector',
-      }
-
-      mockDeployToVercel.mockResolvedValue({
-        id: 'deployment-123',
-        url: 'test-project-temp.vercel.app',
-        name: 'test-project',
-        state: 'BUILDING',
-        ready: 0,
-        readyState: 'BUILDING',
-        inspectorUrl: 'https://vercel.com/inspector',
       })
 
-      mockWaitForDeployment.mockResolvedValue(mockCompletedDeployment)
-      mockPrismaProjectUpdate.mockResolvedValue({} as any)
+      const outcome = await monitorDeploymentJob(monitorJob(), progress)
+
+      expect(outcome.status).toBe('done')
+      expect(mockGetVercelDeployment).toHaveBeenCalledWith(
+        'decrypted-encrypted-token',
+        'deployment-123'
+      )
+      expect(mockPrismaProjectUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'DEPLOYED',
+            deployment: 'https://test-project-final.vercel.app',
+          }),
+        })
+      )
+    })
 
-      // Start deployment
-      const startPromise = startDeployment(mockContext)
+    it('should check a building deployment again later', async () => {
+      mockGetVercelDeployment.mockResolvedValue(building)
 
-      // Fast-forward to allow background monitoring to complete
-      // Using real timers, so no need for jest.runAllTimers()
+      const outcome = await monitorDeploymentJob(monitorJob(), progress)
 
-      const result = await startPromise
+      expect(outcome).toEqual({
+        status: 'pending',
+        checkAgainInMs: DEPLOYMENT_POLL_INTERVAL_MS,
+      })
+      expect(progress).toHaveBeenCalledWith(50, 'Building on Vercel (BUILDING)')
+    })
 
-      expect(result.success).toBe(true)
+    it('should handle monitoring failure with retry', async () => {
+      mockGetVercelDeployment.mockRejectedValue(new Error('Timeout error'))
 
-      // Allow background monitoring to complete
-      await new Promise(resolve => setTimeout(resolve, 0))
+      const failure = await monitorDeploymentJob(monitorJob(), progress).catch(
+        error => error
+      )
 
-      // Verify final status update
+      // Left to the queue to retry
+      expect(failure.message).toBe('Timeout error')
+      expect(failure).not.toBeInstanceOf(PermanentJobError)
       expect(mockPrismaProjectUpdate).toHaveBeenCalledWith(
         expect.objectContaining({
           data: expect.objectContaining({
-            status: 'DEPLOYED',
-            deployment: 'https://test-project-final.vercel.app',
+            status: 'READY',
           }),
         })
       )
     })
 
-    it('should handle monitoring failure with retry', async () => {
-      jest.useRealTimers() // Use real timers for this async test
-      const mockInitialDeployment = {
-        id: 'deployment-123',
-        url: 'test-project-temp.vercel.app',
-        name: 'test-project',
-        state: 'BUILDING',
-        ready: 0,
-        readyState: 'BUILDING',
-        inspectorUrl: 'https://vercel.com/inspector',
-      }
+    it('should fail for good when the deployment errors', async () => {
+      mockGetVercelDeployment.mockResolvedValue({
+        ...building,
+        readyState: 'ERROR',
+      })
 
-      mockDeployToVercel.mockResolvedValue(mockInitialDeployment)
+      await expect(
+        monitorDeploymentJob(monitorJob(), progress)
+      ).rejects.toThrow(PermanentJobError)
 
-      // First attempt fails with retryable error, second succeeds
-      mockWaitForDeployment
-        .mockRejectedValueOnce(new Error('Timeout error'))
-        .mockResolvedValueOnce({
-          ...mockInitialDeployment,
-          readyState: 'READY',
-          url: 'test-project-final.vercel.app',
+      // Failed maps to READY
+      expect(mockPrismaProjectUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'READY',
+          }),
         })
+      )
+    })
 
-      mockPrismaProjectUpdate.mockResolvedValue({} as any)
-
-      // Start deployment with max retries
-      const result = await startDeployment({ ...mockContext, maxRetries: 2 })
+    it('should give up after the last attempt', async () => {
+      mockGetVercelDeployment.mockRejectedValue(new Error('Timeout error'))
 
-      expect(result.success).toBe(true)
+      await expect(
+        monitorDeploymentJob(monitorJob({ attempts: 3 }), progress)
+      ).rejects.toThrow(PermanentJobError)
+    })
 
-      // Allow monitoring and retry to complete
-      // Using real timers, so no need for jest.runAllTimers()
-      await new Promise(resolve => setTimeout(resolve, 0))
+    it('should mark the deployment failed once its job is dead-lettered', async () => {
+      await failMonitoredDeployment(monitorJob())
 
-      // Verify retry status update (retrying maps to GENERATING, then failure maps to READY)
+      // Failed maps to READY
       expect(mockPrismaProjectUpdate).toHaveBeenCalledWith(
         expect.objectContaining({
-          data: expect.objectContaining({
-            status: 'GENERATING',
-          }),
+          where: { id: 'project-123' },
+          data: expect.objectContaining({ status: 'READY' }),
         })
       )
     })
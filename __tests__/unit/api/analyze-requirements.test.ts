@@ -0,0 +1,148 @@
+/**
+ * /api/projects/[id]/analyze-requirements API Tests
+ *
+ * Tests for POST /api/projects/[id]/analyze-requirements
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/requirements-analysis', () => ({
+  analyzeRequirements: jest.fn(),
+}))
+
+import { POST } from '@/app/api/projects/[id]/analyze-requirements/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { analyzeRequirements } from '@/lib/requirements-analysis'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockAnalyze = analyzeRequirements as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+describe('POST /api/projects/[id]/analyze-requirements', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await POST({} as NextRequest, context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return 404 when project not found', async () => {
+    mockFindUniqueProject.mockResolvedValue(null)
+
+    const response = await POST({} as NextRequest, context)
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should return 400 when no requirements are answered', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test',
+      requirements: [{ id: 'req1', question: 'Q1', answer: null }],
+    })
+
+    const response = await POST({} as NextRequest, context)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('No requirements answered yet')
+    expect(mockAnalyze).not.toHaveBeenCalled()
+  })
+
+  it('should analyze every requirement and return the findings', async () => {
+    const analysis = {
+      completeness: 50,
+      summary: 'One question still needs an answer.',
+      findings: [
+        {
+          type: 'gap',
+          severity: 'medium',
+          requirementIds: ['req2'],
+          message: 'This question has not been answered yet.',
+          suggestion: 'Answer: "Q2"',
+        },
+      ],
+    }
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test',
+      description: 'A test app',
+      requirements: [
+        { id: 'req1', question: 'Q1', answer: 'A1', order: 0 },
+        { id: 'req2', question: 'Q2', answer: null, order: 1 },
+      ],
+    })
+    mockAnalyze.mockResolvedValue({
+      data: analysis,
+      fallbackUsed: false,
+      attempts: 1,
+    })
+
+    const response = await POST({} as NextRequest, context)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockAnalyze).toHaveBeenCalledWith(
+      'Test',
+      'A test app',
+      [
+        { id: 'req1', question: 'Q1', answer: 'A1' },
+        { id: 'req2', question: 'Q2', answer: null },
+      ],
+      { userId: 'user123', projectId: 'project123', bypassCache: false }
+    )
+    expect(data).toEqual({ analysis, fallbackUsed: false })
+  })
+
+  it('should return 500 when the analysis fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test',
+      requirements: [{ id: 'req1', question: 'Q1', answer: 'A1' }],
+    })
+    mockAnalyze.mockRejectedValue(new Error('provider down'))
+
+    const response = await POST({} as NextRequest, context)
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,383 @@
+/**
+ * /api/projects/[id]/chat/stream API Tests
+ *
+ * Tests for POST /api/projects/[id]/chat/stream
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    requirement: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    aiUsage: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/ai', () => ({
+  classifyProjectType: jest.fn(),
+  streamRequirementsQuestions: jest.fn(),
+  streamFollowUpQuestion: jest.fn(),
+  generateTopicQuestions: jest.fn(),
+  suggestAnswers: jest.fn(),
+}))
+
+import { POST } from '@/app/api/projects/[id]/chat/stream/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import {
+  classifyProjectType,
+  streamRequirementsQuestions,
+  streamFollowUpQuestion,
+} from '@/lib/ai'
+import { readSSEStream, type SSEMessage } from '@/lib/sse'
+import { __clearProviderCache } from '@/lib/llm-provider'
+import { getQuestionFlow } from '@/lib/question-flows'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockUpdateProject = prisma.project.update as jest.Mock
+const mockFindUniqueRequirement = prisma.requirement.findUnique as jest.Mock
+const mockFindMany = prisma.requirement.findMany as jest.Mock
+const mockUpdate = prisma.requirement.update as jest.Mock
+const mockCreate = prisma.requirement.create as jest.Mock
+const mockDeleteMany = prisma.requirement.deleteMany as jest.Mock
+const mockClassifyProjectType = classifyProjectType as jest.Mock
+const mockStreamQuestions = streamRequirementsQuestions as jest.Mock
+const mockStreamFollowUp = streamFollowUpQuestion as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+const requirementId = 'clh1234567890abcdefghijk'
+
+function requestWith(body: unknown) {
+  return { json: async () => body } as NextRequest
+}
+
+async function readEvents(response: Response) {
+  const events: SSEMessage[] = []
+  await readSSEStream(response.body!, message => events.push(message))
+  return events
+}
+
+describe('POST /api/projects/[id]/chat/stream', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockClassifyProjectType.mockResolvedValue('OTHER')
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await POST(requestWith({ action: 'start' }), context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return 400 for invalid actions', async () => {
+    const response = await POST(requestWith({ action: 'dance' }), context)
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 404 when project not found', async () => {
+    mockFindUniqueProject.mockResolvedValue(null)
+
+    const response = await POST(requestWith({ action: 'start' }), context)
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should persist and emit each question as it streams', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      description: null,
+      requirements: [],
+    })
+    mockStreamQuestions.mockImplementation(
+      async (_name, _desc, _type, handlers) => {
+        handlers.onToken('["Q1"')
+        await handlers.onQuestion('Q1', 'requirements-questions@1')
+        await handlers.onQuestion('Q2', null)
+        return { data: ['Q1', 'Q2'], fallbackUsed: false, attempts: 1 }
+      }
+    )
+    mockCreate.mockImplementation(async ({ data }) => ({ id: 'r', ...data }))
+    mockFindMany.mockResolvedValue([{ id: 'r1' }, { id: 'r2' }])
+
+    const response = (await POST(
+      requestWith({ action: 'start' }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    expect(events.map(e => e.event)).toEqual([
+      'token',
+      'requirement',
+      'requirement',
+      'done',
+    ])
+    expect(mockCreate).toHaveBeenNthCalledWith(2, {
+      data: {
+        projectId: 'project123',
+        question: 'Q2',
+        answer: null,
+        order: 1,
+        promptVersion: null,
+      },
+    })
+    expect(events[3].data).toMatchObject({
+      requirements: [{ id: 'r1' }, { id: 'r2' }],
+      fallbackUsed: false,
+      projectType: 'OTHER',
+    })
+    expect(mockUpdateProject).toHaveBeenCalledWith({
+      where: { id: 'project123' },
+      data: { projectType: 'OTHER' },
+    })
+  })
+
+  it('should save the answer and stream the follow-up question', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirements: [],
+    })
+    mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+    mockFindMany.mockResolvedValue([
+      { id: requirementId, question: 'Q1', answer: 'A1', order: 0 },
+    ])
+    mockStreamFollowUp.mockImplementation(
+      async (_name, _history, _type, onToken) => {
+        onToken('Next?')
+        return 'Next?'
+      }
+    )
+    mockCreate.mockResolvedValue({ id: 'req2', question: 'Next?', order: 1 })
+
+    const response = (await POST(
+      requestWith({ action: 'answer', requirementId, answer: 'A1' }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: requirementId },
+      data: { answer: 'A1', skipped: false },
+    })
+    expect(events.map(e => e.event)).toEqual(['token', 'requirement', 'done'])
+    expect(events[2].data).toMatchObject({ completed: false })
+  })
+
+  it('should keep asking when the model says COMPLETE below the minimum', async () => {
+    const originalProvider = process.env.AI_PROVIDER
+    // The fake provider always answers follow-ups with COMPLETE
+    process.env.AI_PROVIDER = 'fake'
+    __clearProviderCache()
+    mockStreamFollowUp.mockImplementation(
+      jest.requireActual('@/lib/ai').streamFollowUpQuestion
+    )
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirements: [],
+    })
+    mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+    mockFindMany.mockResolvedValue([
+      { id: requirementId, question: 'Q1', answer: 'A1', order: 0 },
+    ])
+    mockCreate.mockImplementation(async ({ data }) => ({ id: 'req2', ...data }))
+
+    const response = (await POST(
+      requestWith({ action: 'answer', requirementId, answer: 'A1' }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    process.env.AI_PROVIDER = originalProvider
+    __clearProviderCache()
+    const question = getQuestionFlow('OTHER').questions[0]
+    expect(events.map(e => e.event)).toEqual(['token', 'requirement', 'done'])
+    expect(events[0].data).toEqual({ text: question })
+    expect(events[2].data).toMatchObject({
+      completed: false,
+      nextQuestion: { question },
+    })
+  })
+
+  it('should pass the question limits to the follow-up', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      minQuestions: 1,
+      maxQuestions: 4,
+      user: { plan: 'FREE' },
+      requirements: [],
+    })
+    mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+    mockFindMany.mockResolvedValue([
+      { id: requirementId, question: 'Q1', answer: 'A1', order: 0 },
+    ])
+    mockStreamFollowUp.mockResolvedValue(null)
+
+    const response = (await POST(
+      requestWith({ action: 'answer', requirementId, answer: 'A1' }),
+      context
+    )) as Response
+    await readEvents(response)
+
+    expect(mockStreamFollowUp).toHaveBeenCalledWith(
+      'Test Project',
+      [{ question: 'Q1', answer: 'A1' }],
+      undefined,
+      expect.any(Function),
+      { limits: { minQuestions: 1, maxQuestions: 4 }, skippedQuestions: [] },
+      { userId: 'user123', projectId: 'project123' }
+    )
+  })
+
+  it('should stream a follow-up after a skipped question', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirements: [],
+    })
+    mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+    mockFindMany.mockResolvedValue([
+      { id: requirementId, question: 'Q1', answer: null, skipped: true },
+    ])
+    mockStreamFollowUp.mockResolvedValue(null)
+
+    const response = (await POST(
+      requestWith({ action: 'skip', requirementId }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: requirementId },
+      data: { answer: null, skipped: true },
+    })
+    expect(mockStreamFollowUp).toHaveBeenCalledWith(
+      'Test Project',
+      [],
+      undefined,
+      expect.any(Function),
+      {
+        limits: { minQuestions: 3, maxQuestions: 10 },
+        skippedQuestions: ['Q1'],
+      },
+      { userId: 'user123', projectId: 'project123' }
+    )
+    expect(events.at(-1)?.data).toMatchObject({ message: 'Question skipped' })
+  })
+
+  it('should not stream follow-ups after the user finished', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirementsClosedAt: new Date(),
+      requirements: [],
+    })
+    mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+    mockFindMany.mockResolvedValue([
+      { id: requirementId, question: 'Q1', answer: 'A1', order: 0 },
+    ])
+
+    const response = (await POST(
+      requestWith({ action: 'answer', requirementId, answer: 'A1' }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    expect(mockStreamFollowUp).not.toHaveBeenCalled()
+    expect(events.at(-1)?.data).toMatchObject({ completed: true })
+  })
+
+  it('should finish with JSON instead of a stream', async () => {
+    const answered = ['Q1', 'Q2', 'Q3'].map((question, order) => ({
+      id: `r${order}`,
+      question,
+      answer: 'A',
+      order,
+    }))
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirements: [...answered, { id: 'r3', question: 'Q4', answer: null }],
+    })
+    mockFindMany.mockResolvedValue(answered)
+
+    const response = await POST(requestWith({ action: 'finish' }), context)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockDeleteMany).toHaveBeenCalledWith({
+      where: { projectId: 'project123', answer: null, skipped: false },
+    })
+    expect(data).toEqual({
+      message: 'Requirements completed',
+      requirements: answered,
+      completed: true,
+    })
+  })
+
+  it('should emit an error event when streaming fails', async () => {
+    mockFindUniqueProject.mockResolvedValue({
+      id: 'project123',
+      name: 'Test Project',
+      requirements: [],
+    })
+    mockStreamQuestions.mockRejectedValue(new Error('provider down'))
+
+    const response = (await POST(
+      requestWith({ action: 'start' }),
+      context
+    )) as Response
+    const events = await readEvents(response)
+
+    expect(events).toEqual([
+      { event: 'error', data: { error: 'Internal server error' } },
+    ])
+  })
+})
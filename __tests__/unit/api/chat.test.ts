@@ -28,6 +28,7 @@ jest.mock('@/lib/prisma', () => ({
   prisma: {
     project: {
       findUnique: jest.fn(),
+      update: jest.fn(),
     },
     requirement: {
       createMany: jest.fn(),
@@ -35,37 +36,56 @@ jest.mock('@/lib/prisma', () => ({
       findUnique: jest.fn(),
       update: jest.fn(),
       create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    aiUsage: {
+      create: jest.fn(),
     },
   },
 }))
 
 jest.mock('@/lib/ai', () => ({
+  classifyProjectType: jest.fn(),
   generateRequirementsQuestions: jest.fn(),
   generateFollowUpQuestion: jest.fn(),
+  generateTopicQuestions: jest.fn(),
+  suggestAnswers: jest.fn(),
 }))
 
 import { POST } from '@/app/api/projects/[id]/chat/route'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import {
+  classifyProjectType,
   generateRequirementsQuestions,
   generateFollowUpQuestion,
+  generateTopicQuestions,
+  suggestAnswers,
 } from '@/lib/ai'
 import { NextRequest } from 'next/server'
+import { AIUnavailableError } from '@/lib/ai-resilience'
+import { __clearProviderCache } from '@/lib/llm-provider'
+import { getQuestionFlow } from '@/lib/question-flows'
 
 const mockGetServerSession = getServerSession as jest.Mock
 const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockUpdateProject = prisma.project.update as jest.Mock
 const mockFindUniqueRequirement = prisma.requirement.findUnique as jest.Mock
 const mockCreateMany = prisma.requirement.createMany as jest.Mock
 const mockFindMany = prisma.requirement.findMany as jest.Mock
 const mockUpdate = prisma.requirement.update as jest.Mock
 const mockCreate = prisma.requirement.create as jest.Mock
+const mockClassifyProjectType = classifyProjectType as jest.Mock
 const mockGenerateQuestions = generateRequirementsQuestions as jest.Mock
 const mockGenerateFollowUp = generateFollowUpQuestion as jest.Mock
+const mockGenerateTopicQuestions = generateTopicQuestions as jest.Mock
+const mockSuggestAnswers = suggestAnswers as jest.Mock
+const mockDeleteMany = prisma.requirement.deleteMany as jest.Mock
 
 describe('POST /api/projects/[id]/chat', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockClassifyProjectType.mockResolvedValue('SAAS')
   })
 
   describe('Authentication', () => {
@@ -112,7 +132,11 @@ describe('POST /api/projects/[id]/chat', () => {
         userId,
         requirements: [],
       })
-      mockGenerateQuestions.mockResolvedValue(['Q1', 'Q2'])
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['Q1', 'Q2'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
       mockCreateMany.mockResolvedValue({ count: 2 })
       mockFindMany.mockResolvedValue([])
 
@@ -145,10 +169,11 @@ describe('POST /api/projects/[id]/chat', () => {
         userId: 'user123',
         requirements: [],
       })
-      mockGenerateQuestions.mockResolvedValue([
-        'What is your target audience?',
-        'What features do you need?',
-      ])
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['What is your target audience?', 'What features do you need?'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
       mockCreateMany.mockResolvedValue({ count: 2 })
       mockFindMany.mockResolvedValue([
         {
@@ -180,7 +205,9 @@ describe('POST /api/projects/[id]/chat', () => {
       expect(data.requirements).toHaveLength(2)
       expect(mockGenerateQuestions).toHaveBeenCalledWith(
         'My App',
-        'A great app'
+        'A great app',
+        'SAAS',
+        { userId: 'user123', projectId: 'project123' }
       )
     })
 
@@ -227,7 +254,12 @@ describe('POST /api/projects/[id]/chat', () => {
         userId: 'user123',
         requirements: [],
       })
-      mockGenerateQuestions.mockResolvedValue(['Q1', 'Q2', 'Q3'])
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['Q1', 'Q2', 'Q3'],
+        fallbackUsed: false,
+        attempts: 1,
+        promptVersion: 'requirements-questions@1',
+      })
       mockCreateMany.mockResolvedValue({ count: 3 })
       mockFindMany.mockResolvedValue([])
 
@@ -245,18 +277,21 @@ describe('POST /api/projects/[id]/chat', () => {
             question: 'Q1',
             answer: null,
             order: 0,
+            promptVersion: 'requirements-questions@1',
           },
           {
             projectId: 'project123',
             question: 'Q2',
             answer: null,
             order: 1,
+            promptVersion: 'requirements-questions@1',
           },
           {
             projectId: 'project123',
             question: 'Q3',
             answer: null,
             order: 2,
+            promptVersion: 'requirements-questions@1',
           },
         ],
       })
@@ -273,7 +308,86 @@ describe('POST /api/projects/[id]/chat', () => {
         userId: 'user123',
         requirements: [],
       })
-      mockGenerateQuestions.mockResolvedValue(['Q1'])
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['Q1'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
+      mockCreateMany.mockResolvedValue({ count: 1 })
+      mockFindMany.mockResolvedValue([])
+
+      const mockRequest = {
+        json: async () => ({ action: 'start' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      await POST(mockRequest, context)
+
+      expect(mockGenerateQuestions).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        'SAAS',
+        { userId: 'user123', projectId: 'project123' }
+      )
+    })
+
+    it('should classify and save the project type when none is set', async () => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Sock Shop',
+        description: 'Sell socks online',
+        projectType: null,
+        userId: 'user123',
+        requirements: [],
+      })
+      mockClassifyProjectType.mockResolvedValue('ECOMMERCE')
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['Q1'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
+      mockCreateMany.mockResolvedValue({ count: 1 })
+      mockFindMany.mockResolvedValue([])
+
+      const mockRequest = {
+        json: async () => ({ action: 'start' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(mockClassifyProjectType).toHaveBeenCalledWith(
+        'Sock Shop',
+        'Sell socks online',
+        { userId: 'user123', projectId: 'project123' }
+      )
+      expect(mockUpdateProject).toHaveBeenCalledWith({
+        where: { id: 'project123' },
+        data: { projectType: 'ECOMMERCE' },
+      })
+      expect(data.projectType).toBe('ECOMMERCE')
+    })
+
+    it('should use the project type chosen by the user', async () => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        projectType: 'BLOG',
+        userId: 'user123',
+        requirements: [],
+      })
+      mockGenerateQuestions.mockResolvedValue({
+        data: ['Q1'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
       mockCreateMany.mockResolvedValue({ count: 1 })
       mockFindMany.mockResolvedValue([])
 
@@ -284,7 +398,14 @@ describe('POST /api/projects/[id]/chat', () => {
 
       await POST(mockRequest, context)
 
-      expect(mockGenerateQuestions).toHaveBeenCalledWith('Test', undefined)
+      expect(mockClassifyProjectType).not.toHaveBeenCalled()
+      expect(mockUpdateProject).not.toHaveBeenCalled()
+      expect(mockGenerateQuestions).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        'BLOG',
+        expect.any(Object)
+      )
     })
   })
 
@@ -333,7 +454,7 @@ describe('POST /api/projects/[id]/chat', () => {
       expect(data.message).toBe('Answer saved')
       expect(mockUpdate).toHaveBeenCalledWith({
         where: { id: 'req1' },
-        data: { answer: 'My answer' },
+        data: { answer: 'My answer', skipped: false },
       })
     })
 
@@ -497,9 +618,13 @@ describe('POST /api/projects/[id]/chat', () => {
       const data = await response.json()
 
       expect(response.status).toBe(200)
-      expect(mockGenerateFollowUp).toHaveBeenCalledWith('Test', [
-        { question: 'Q1', answer: 'A1' },
-      ])
+      expect(mockGenerateFollowUp).toHaveBeenCalledWith(
+        'Test',
+        [{ question: 'Q1', answer: 'A1' }],
+        undefined,
+        { limits: { minQuestions: 3, maxQuestions: 10 }, skippedQuestions: [] },
+        { userId: 'user123', projectId: 'project123' }
+      )
       expect(data.nextQuestion).toBeDefined()
     })
 
@@ -578,6 +703,341 @@ describe('POST /api/projects/[id]/chat', () => {
 
       expect(data.completed).toBe(true)
     })
+
+    it('should keep asking when the model says COMPLETE below the minimum', async () => {
+      const requirementId = 'clh1234567890abcdefghijk'
+      const originalProvider = process.env.AI_PROVIDER
+      // The fake provider always answers follow-ups with COMPLETE
+      process.env.AI_PROVIDER = 'fake'
+      __clearProviderCache()
+      mockGenerateFollowUp.mockImplementation(
+        jest.requireActual('@/lib/ai').generateFollowUpQuestion
+      )
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        userId: 'user123',
+        requirements: [],
+      })
+      mockFindUniqueRequirement.mockResolvedValue({ id: requirementId })
+      mockFindMany.mockResolvedValue([
+        { id: requirementId, question: 'Q1', answer: 'A1', order: 0 },
+      ])
+      mockCreate.mockImplementation(async ({ data }) => ({
+        id: 'req2',
+        ...data,
+      }))
+
+      const response = await POST(
+        {
+          json: async () => ({ action: 'answer', requirementId, answer: 'A1' }),
+        } as NextRequest,
+        { params: Promise.resolve({ id: 'project123' }) }
+      )
+      const data = await response.json()
+
+      process.env.AI_PROVIDER = originalProvider
+      __clearProviderCache()
+      expect(data.completed).toBe(false)
+      expect(data.nextQuestion.question).toBe(
+        getQuestionFlow('OTHER').questions[0]
+      )
+    })
+  })
+
+  describe('Action: finish', () => {
+    const answered = ['Q1', 'Q2', 'Q3'].map((question, order) => ({
+      id: `req${order}`,
+      question,
+      answer: `A${order}`,
+      order,
+    }))
+
+    beforeEach(() => {
+      // Drop queued results left by earlier tests
+      mockFindMany.mockReset()
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+    })
+
+    it('should drop unanswered questions and stop the chat', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        requirements: [
+          ...answered,
+          { id: 'req3', question: 'Q4', answer: null, order: 3 },
+        ],
+      })
+      mockFindMany.mockResolvedValue(answered)
+
+      const mockRequest = {
+        json: async () => ({ action: 'finish' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockDeleteMany).toHaveBeenCalledWith({
+        where: { projectId: 'project123', answer: null, skipped: false },
+      })
+      expect(mockUpdateProject).toHaveBeenCalledWith({
+        where: { id: 'project123' },
+        data: { requirementsClosedAt: expect.any(Date) },
+      })
+      expect(data.requirements).toEqual(answered)
+      expect(data.completed).toBe(true)
+    })
+
+    it('should require the minimum number of answers', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        minQuestions: 4,
+        requirements: answered,
+      })
+
+      const mockRequest = {
+        json: async () => ({ action: 'finish' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Answer at least 4 questions before finishing')
+      expect(mockDeleteMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Action: expand', () => {
+    const answered = Array.from({ length: 8 }, (_, order) => ({
+      id: `req${order}`,
+      question: `Q${order}`,
+      answer: `A${order}`,
+      order,
+    }))
+
+    beforeEach(() => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+    })
+
+    it('should add questions on the topic up to the limit', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        requirements: answered,
+      })
+      mockGenerateTopicQuestions.mockResolvedValue({
+        data: ['How do you charge?', 'Any refunds?'],
+        fallbackUsed: false,
+        attempts: 1,
+        promptVersion: 'expand-questions@1',
+      })
+      mockFindMany.mockResolvedValue(answered)
+
+      const mockRequest = {
+        json: async () => ({ action: 'expand', topic: 'payments', count: 5 }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+
+      expect(response.status).toBe(200)
+      // 8 of the default 10 questions are used, so only 2 more are asked for
+      expect(mockGenerateTopicQuestions).toHaveBeenCalledWith(
+        'Test',
+        answered.map(r => ({ question: r.question, answer: r.answer })),
+        'payments',
+        2,
+        { userId: 'user123', projectId: 'project123' }
+      )
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            question: 'How do you charge?',
+            order: 8,
+            promptVersion: 'expand-questions@1',
+          }),
+          expect.objectContaining({ question: 'Any refunds?', order: 9 }),
+        ],
+      })
+    })
+
+    it('should return 400 when the question limit is reached', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        maxQuestions: 8,
+        requirements: answered,
+      })
+
+      const mockRequest = {
+        json: async () => ({ action: 'expand', topic: 'payments' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('This project is limited to 8 questions')
+      expect(mockGenerateTopicQuestions).not.toHaveBeenCalled()
+    })
+
+    it('should reject more than 5 questions at once', async () => {
+      const mockRequest = {
+        json: async () => ({ action: 'expand', topic: 'payments', count: 6 }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+
+      expect(response.status).toBe(400)
+      expect(mockFindUniqueProject).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Action: skip', () => {
+    const requirementId = 'clh1234567890abcdefghijk'
+
+    beforeEach(() => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        requirements: [],
+      })
+      mockFindUniqueRequirement.mockResolvedValue({
+        id: requirementId,
+        projectId: 'project123',
+        question: 'How will you handle payments?',
+        answer: null,
+      })
+    })
+
+    it('should mark the question skipped and ask a follow-up', async () => {
+      mockFindMany.mockReset()
+      mockFindMany.mockResolvedValueOnce([
+        { id: 'req0', question: 'Who is it for?', answer: 'Bakers' },
+        {
+          id: requirementId,
+          question: 'How will you handle payments?',
+          answer: null,
+          skipped: true,
+        },
+      ])
+      mockGenerateFollowUp.mockResolvedValue({
+        data: 'Do you want to take card payments?',
+        fallbackUsed: false,
+        attempts: 1,
+      })
+      mockCreate.mockResolvedValue({ id: 'req2' })
+      mockFindMany.mockResolvedValue([])
+
+      const mockRequest = {
+        json: async () => ({ action: 'skip', requirementId }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.message).toBe('Question skipped')
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: requirementId },
+        data: { answer: null, skipped: true },
+      })
+      expect(mockGenerateFollowUp).toHaveBeenCalledWith(
+        'Test',
+        [{ question: 'Who is it for?', answer: 'Bakers' }],
+        undefined,
+        {
+          limits: { minQuestions: 3, maxQuestions: 10 },
+          skippedQuestions: ['How will you handle payments?'],
+        },
+        { userId: 'user123', projectId: 'project123' }
+      )
+    })
+  })
+
+  describe('Action: suggest', () => {
+    const requirementId = 'clh1234567890abcdefghijk'
+
+    beforeEach(() => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+    })
+
+    it('should return suggested answers for the question', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        projectType: 'ECOMMERCE',
+        requirements: [
+          { id: 'req0', question: 'Who is it for?', answer: 'Bakers' },
+          { id: requirementId, question: 'How will they pay?', answer: null },
+        ],
+      })
+      mockSuggestAnswers.mockResolvedValue({
+        data: ['Card payments', 'Cash on pickup'],
+        fallbackUsed: false,
+        attempts: 1,
+      })
+
+      const mockRequest = {
+        json: async () => ({ action: 'suggest', requirementId }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({
+        suggestions: ['Card payments', 'Cash on pickup'],
+        fallbackUsed: false,
+      })
+      expect(mockSuggestAnswers).toHaveBeenCalledWith(
+        'Test',
+        'How will they pay?',
+        [{ question: 'Who is it for?', answer: 'Bakers' }],
+        'ECOMMERCE',
+        { userId: 'user123', projectId: 'project123' }
+      )
+      expect(mockUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for a question from another project', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        requirements: [],
+      })
+
+      const mockRequest = {
+        json: async () => ({ action: 'suggest', requirementId }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+
+      expect(response.status).toBe(404)
+      expect(mockSuggestAnswers).not.toHaveBeenCalled()
+    })
   })
 
   describe('Invalid action', () => {
@@ -622,5 +1082,29 @@ describe('POST /api/projects/[id]/chat', () => {
       expect(response.status).toBe(500)
       expect(data.error).toBe('Internal server error')
     })
+
+    it('should return 503 while the AI service is unavailable', async () => {
+      mockGetServerSession.mockResolvedValue({
+        user: { id: 'user123', email: 'test@example.com' },
+      })
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        projectType: 'OTHER',
+        requirements: [],
+      })
+      mockGenerateQuestions.mockRejectedValue(new AIUnavailableError())
+
+      const mockRequest = {
+        json: async () => ({ action: 'start' }),
+      } as NextRequest
+      const context = { params: Promise.resolve({ id: 'project123' }) }
+
+      const response = await POST(mockRequest, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.error).toMatch(/temporarily unavailable/)
+    })
   })
 })
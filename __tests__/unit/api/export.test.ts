@@ -0,0 +1,199 @@
+/**
+ * /api/projects/[id]/export API Tests
+ *
+ * Tests for POST /api/projects/[id]/export
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/project-generator', () => ({
+  ProjectGenerationError: class ProjectGenerationError extends Error {},
+}))
+
+// Keep the pure helpers, mock generation and storage
+jest.mock('@/lib/generation-preview', () => ({
+  ...jest.requireActual('@/lib/generation-preview'),
+  generateProjectFiles: jest.fn(),
+  getGenerationPreview: jest.fn(),
+}))
+
+import { POST } from '@/app/api/projects/[id]/export/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import {
+  generateProjectFiles,
+  getGenerationPreview,
+} from '@/lib/generation-preview'
+import { NextRequest } from 'next/server'
+import { gunzipSync } from 'zlib'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockGenerateFiles = generateProjectFiles as jest.Mock
+const mockGetPreview = getGenerationPreview as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const project = {
+  id: 'project123',
+  name: 'Recipe Box',
+  description: 'Save recipes',
+  techStack: '{"stack":"Next.js"}',
+  requirements: [
+    {
+      question: 'Who uses it?',
+      answer: 'Home cooks',
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    },
+  ],
+}
+
+const generated = {
+  templateId: 'nextjs',
+  files: [
+    { path: 'README.md', content: '# Recipe Box' },
+    { path: 'docs/REQUIREMENTS.md', content: '# Requirements' },
+  ],
+  promptVersions: { 'README.md': 'readme@1' },
+  attempts: [],
+}
+
+function requestWith(body?: unknown) {
+  return {
+    headers: new Headers(),
+    json: async () => {
+      if (body === undefined) throw new SyntaxError('Unexpected end of JSON')
+      return body
+    },
+  } as unknown as NextRequest
+}
+
+// Bytes of the archive as text, enough to find file names
+async function archiveText(response: Response): Promise<string> {
+  return Buffer.from(await response.arrayBuffer()).toString('latin1')
+}
+
+describe('POST /api/projects/[id]/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockFindUniqueProject.mockResolvedValue(project)
+    mockGenerateFiles.mockResolvedValue(generated)
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await POST(requestWith(), context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return 400 for unknown formats', async () => {
+    const response = await POST(requestWith({ format: 'rar' }), context)
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 404 for projects of other users', async () => {
+    mockFindUniqueProject.mockResolvedValue(null)
+
+    const response = await POST(requestWith(), context)
+
+    expect(response.status).toBe(404)
+    expect(mockGenerateFiles).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 when the tech stack is missing', async () => {
+    mockFindUniqueProject.mockResolvedValue({ ...project, techStack: null })
+
+    const response = await POST(requestWith(), context)
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should download a ZIP of the generated files by default', async () => {
+    const response = await POST(requestWith(), context)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/zip')
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="recipe-box.zip"'
+    )
+    const text = await archiveText(response)
+    expect(text).toContain('recipe-box/README.md')
+    expect(text).toContain('recipe-box/docs/REQUIREMENTS.md')
+    expect(text).toContain('recipe-box/shipsensei.json')
+    expect(mockGenerateFiles).toHaveBeenCalledWith(
+      project,
+      [expect.objectContaining({ answer: 'Home cooks' })],
+      'EXPORT',
+      expect.objectContaining({ userId: 'user123', projectId: 'project123' })
+    )
+  })
+
+  it('should download tar.gz archives', async () => {
+    const response = await POST(requestWith({ format: 'tar.gz' }), context)
+
+    expect(response.headers.get('Content-Type')).toBe('application/gzip')
+    const tar = gunzipSync(Buffer.from(await response.arrayBuffer()))
+    expect(tar.toString('utf8', 0, 20)).toBe('recipe-box/README.md')
+  })
+
+  it('should export the reviewed files of a preview', async () => {
+    mockGetPreview.mockResolvedValue({
+      ...generated,
+      id: 'preview1',
+      files: [
+        { path: 'README.md', content: '# Edited', excluded: false },
+        { path: 'docs/REQUIREMENTS.md', content: '# PRD', excluded: true },
+      ],
+    })
+
+    const response = await POST(requestWith({ previewId: 'preview1' }), context)
+    const text = await archiveText(response)
+
+    expect(mockGetPreview).toHaveBeenCalledWith('project123', 'preview1')
+    expect(mockGenerateFiles).not.toHaveBeenCalled()
+    expect(text).toContain('recipe-box/README.md')
+    expect(text).not.toContain('REQUIREMENTS.md')
+  })
+
+  it('should return 404 for unknown previews', async () => {
+    mockGetPreview.mockResolvedValue(null)
+
+    const response = await POST(requestWith({ previewId: 'missing' }), context)
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -29,45 +29,113 @@ jest.mock('@/lib/prisma', () => ({
     project: {
       findUnique: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     },
   },
 }))
 
-jest.mock('@/lib/github', () => ({
-  createRepository: jest.fn(),
-  createFiles: jest.fn(),
+jest.mock('@/lib/github-auth', () => ({
+  validateGitHubAccess: jest.fn(),
 }))
 
-jest.mock('@/lib/project-generator', () => ({
-  generateProjectTemplate: jest.fn(),
+jest.mock('@/lib/generation-preview', () => ({
+  getGenerationPreview: jest.fn(),
+  lockGenerationPreview: jest.fn(),
+  unlockGenerationPreview: jest.fn(),
+}))
+
+// Keep the summaries, mock storage
+jest.mock('@/lib/job-queue', () => ({
+  ...jest.requireActual('@/lib/job-queue'),
+  enqueueJob: jest.fn(),
+  findUnfinishedJob: jest.fn(),
 }))
 
 import { POST } from '@/app/api/projects/[id]/generate/route'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
-import { createRepository, createFiles } from '@/lib/github'
-import { generateProjectTemplate } from '@/lib/project-generator'
+import { validateGitHubAccess } from '@/lib/github-auth'
+import {
+  getGenerationPreview,
+  lockGenerationPreview,
+  unlockGenerationPreview,
+} from '@/lib/generation-preview'
+import { enqueueJob, findUnfinishedJob } from '@/lib/job-queue'
 import { NextRequest } from 'next/server'
 
 const mockGetServerSession = getServerSession as jest.Mock
 const mockFindUnique = prisma.project.findUnique as jest.Mock
 const mockUpdate = prisma.project.update as jest.Mock
-const mockCreateRepository = createRepository as jest.Mock
-const mockCreateFiles = createFiles as jest.Mock
-const mockGenerateTemplate = generateProjectTemplate as jest.Mock
+const mockUpdateMany = prisma.project.updateMany as jest.Mock
+const mockValidateGitHubAccess = validateGitHubAccess as jest.Mock
+const mockGetGenerationPreview = getGenerationPreview as jest.Mock
+const mockLockPreview = lockGenerationPreview as jest.Mock
+const mockEnqueueJob = enqueueJob as jest.Mock
+const mockFindUnfinishedJob = findUnfinishedJob as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const mockProject = {
+  id: 'project123',
+  name: 'My Awesome App',
+  description: 'A great app',
+  userId: 'user123',
+  status: 'DRAFT',
+  techStack: '{"stack":"Next.js"}',
+  repository: null as string | null,
+  requirements: [{ id: 'req1', question: 'What?', answer: 'An app' }],
+}
+
+const queuedJob = {
+  id: 'job123',
+  type: 'GENERATE_PROJECT',
+  status: 'QUEUED',
+  userId: 'user123',
+  projectId: 'project123',
+  payload: {},
+  result: null,
+  progress: 0,
+  progressMessage: null,
+  attempts: 0,
+  maxAttempts: 3,
+  runAt: new Date('2026-10-18T12:00:00Z'),
+  lockedAt: null,
+  lockedBy: null,
+  lastError: null,
+  finishedAt: null,
+  createdAt: new Date('2026-10-18T12:00:00Z'),
+  updatedAt: new Date('2026-10-18T12:00:00Z'),
+}
+
+function requestWith(body: unknown = {}, headers: Record<string, string> = {}) {
+  return {
+    json: async () => body,
+    headers: new Headers(headers),
+  } as unknown as NextRequest
+}
 
 describe('POST /api/projects/[id]/generate', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockValidateGitHubAccess.mockResolvedValue({
+      hasAccess: true,
+      token: 'github-token',
+    })
+    mockFindUnique.mockResolvedValue(mockProject)
+    mockFindUnfinishedJob.mockResolvedValue(null)
+    mockUpdateMany.mockResolvedValue({ count: 1 })
+    mockUpdate.mockResolvedValue({})
+    mockEnqueueJob.mockResolvedValue(queuedJob)
+    mockLockPreview.mockResolvedValue(true)
   })
 
   it('should return 401 when user is not authenticated', async () => {
     mockGetServerSession.mockResolvedValue(null)
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
-
-    const response = await POST(mockRequest, context)
+    const response = await POST({} as NextRequest, context)
     const data = await response.json()
 
     expect(response.status).toBe(401)
@@ -75,15 +143,14 @@ describe('POST /api/projects/[id]/generate', () => {
   })
 
   it('should return 400 when GitHub access token is missing', async () => {
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      // No accessToken
+    mockValidateGitHubAccess.mockResolvedValue({
+      hasAccess: false,
+      token: null,
+      error:
+        'GitHub access token not found. Please re-authenticate with GitHub.',
     })
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
-
-    const response = await POST(mockRequest, context)
+    const response = await POST({} as NextRequest, context)
     const data = await response.json()
 
     expect(response.status).toBe(400)
@@ -91,38 +158,35 @@ describe('POST /api/projects/[id]/generate', () => {
   })
 
   it('should return 404 when project not found', async () => {
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
     mockFindUnique.mockResolvedValue(null)
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'nonexistent' }) }
-
-    const response = await POST(mockRequest, context)
+    const response = await POST(requestWith(), context)
     const data = await response.json()
 
     expect(response.status).toBe(404)
     expect(data.error).toBe('Project not found')
   })
 
+  it('should check ownership before generation', async () => {
+    mockFindUnique.mockResolvedValue(null)
+
+    await POST(requestWith(), context)
+
+    expect(mockFindUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'project123', userId: 'user123' },
+      })
+    )
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
+  })
+
   it('should return 400 when no requirements are completed', async () => {
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
     mockFindUnique.mockResolvedValue({
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
+      ...mockProject,
       requirements: [{ id: 'req1', question: 'Q1', answer: null }],
     })
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
-
-    const response = await POST(mockRequest, context)
+    const response = await POST(requestWith(), context)
     const data = await response.json()
 
     expect(response.status).toBe(400)
@@ -130,334 +194,217 @@ describe('POST /api/projects/[id]/generate', () => {
   })
 
   it('should return 400 when tech stack recommendation is missing', async () => {
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue({
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: null, // Missing
-      requirements: [{ id: 'req1', question: 'Q1', answer: 'A1' }],
-    })
+    mockFindUnique.mockResolvedValue({ ...mockProject, techStack: null })
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
-
-    const response = await POST(mockRequest, context)
+    const response = await POST(requestWith(), context)
     const data = await response.json()
 
     expect(response.status).toBe(400)
     expect(data.error).toBe('Tech stack recommendation required')
   })
 
-  it('should generate project successfully', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'My Awesome App',
-      description: 'A great app',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'What?', answer: 'An app' }],
-    }
-
-    const mockRepo = {
-      url: 'https://github.com/user/my-awesome-app',
-      owner: 'user',
-    }
-
-    const mockTemplate = {
-      files: [
-        { path: 'README.md', content: '# My App' },
-        { path: 'package.json', content: '{}' },
-      ],
-    }
-
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue({ ...mockProject, status: 'ready' })
-    mockCreateRepository.mockResolvedValue(mockRepo)
-    mockGenerateTemplate.mockResolvedValue(mockTemplate)
-    mockCreateFiles.mockResolvedValue(undefined)
-
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
-
-    const response = await POST(mockRequest, context)
+  it('should return 400 for an unknown mode', async () => {
+    const response = await POST(requestWith({ mode: 'replace' }), context)
     const data = await response.json()
 
-    expect(response.status).toBe(200)
-    expect(data.message).toBe('Project generated successfully')
-    expect(data.repository).toEqual(mockRepo)
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Invalid input')
   })
 
-  it('should sanitize repository name', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'My Awesome App!!!',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    }
+  it('should queue a generation job and respond 202', async () => {
+    const response = await POST(requestWith(), context)
+    const data = await response.json()
 
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
+    expect(response.status).toBe(202)
+    expect(data.message).toBe(
+      'Project generation queued. It runs in the background; poll the job for progress.'
+    )
+    expect(data.statusUrl).toBe('/api/jobs/job123')
+    expect(data.job).toMatchObject({
+      id: 'job123',
+      status: 'QUEUED',
+      progress: 0,
     })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue(mockProject)
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/repo',
-      owner: 'user',
+    expect(data.job).not.toHaveProperty('payload')
+    expect(mockEnqueueJob).toHaveBeenCalledWith({
+      type: 'GENERATE_PROJECT',
+      userId: 'user123',
+      projectId: 'project123',
+      payload: {
+        projectId: 'project123',
+        mode: 'create',
+        bypassCache: false,
+        originalStatus: 'DRAFT',
+      },
     })
-    mockGenerateTemplate.mockResolvedValue({ files: [] })
-    mockCreateFiles.mockResolvedValue(undefined)
-
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+  })
 
-    await POST(mockRequest, context)
+  it('should update project status to generating before queueing', async () => {
+    await POST(requestWith(), context)
 
-    expect(mockCreateRepository).toHaveBeenCalledWith(
-      'github-token',
-      'my-awesome-app', // Sanitized: lowercase, no special chars
-      expect.any(String),
-      false
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'project123', status: { not: 'GENERATING' } },
+      data: { status: 'GENERATING' },
+    })
+    expect(mockUpdateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockEnqueueJob.mock.invocationCallOrder[0]
     )
   })
 
-  it('should update project status to generating before generation', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    }
+  it('should ask the job for new AI output on Cache-Control: no-cache', async () => {
+    await POST(requestWith({}, { 'cache-control': 'no-cache' }), context)
 
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue(mockProject)
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/repo',
-      owner: 'user',
-    })
-    mockGenerateTemplate.mockResolvedValue({ files: [] })
-    mockCreateFiles.mockResolvedValue(undefined)
+    expect(mockEnqueueJob.mock.calls[0][0].payload.bypassCache).toBe(true)
+  })
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+  it('should regenerate through a pull request once the project has a repository', async () => {
+    mockFindUnique.mockResolvedValue({
+      ...mockProject,
+      status: 'READY',
+      repository: 'https://github.com/user/my-awesome-app',
+    })
 
-    await POST(mockRequest, context)
+    const response = await POST(requestWith(), context)
+    const data = await response.json()
 
-    expect(mockUpdate).toHaveBeenNthCalledWith(1, {
-      where: { id: 'project123' },
-      data: { status: 'generating' },
+    expect(response.status).toBe(202)
+    expect(data.message).toMatch(
+      /^Regeneration queued\. It runs in the background/
+    )
+    expect(mockEnqueueJob.mock.calls[0][0].payload).toMatchObject({
+      mode: 'update',
+      originalStatus: 'READY',
     })
   })
 
-  it('should update project status to ready after success', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    }
-
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue(mockProject)
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/repo',
-      owner: 'user',
+  it('should return 409 when creating a repository the project already has', async () => {
+    mockFindUnique.mockResolvedValue({
+      ...mockProject,
+      repository: 'https://github.com/user/my-awesome-app',
     })
-    mockGenerateTemplate.mockResolvedValue({ files: [] })
-    mockCreateFiles.mockResolvedValue(undefined)
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+    const response = await POST(requestWith({ mode: 'create' }), context)
 
-    await POST(mockRequest, context)
-
-    expect(mockUpdate).toHaveBeenNthCalledWith(2, {
-      where: { id: 'project123' },
-      data: {
-        repository: expect.any(String),
-        status: 'ready',
-      },
-      include: expect.any(Object),
-    })
+    expect(response.status).toBe(409)
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
   })
 
-  it('should revert status on generation error', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    }
+  it('should return 400 when updating a project without a repository', async () => {
+    const response = await POST(requestWith({ mode: 'update' }), context)
+    const data = await response.json()
 
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Project has no repository to update')
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
+  })
+
+  it('should push a reviewed preview and lock its files', async () => {
+    mockGetGenerationPreview.mockResolvedValue({
+      id: 'preview1',
+      pushQueuedAt: null,
+      pushedAt: null,
     })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValueOnce(mockProject) // First update to "generating"
-    mockUpdate.mockResolvedValueOnce(mockProject) // Revert to "ready"
-    mockCreateRepository.mockRejectedValue(new Error('GitHub API error'))
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+    await POST(requestWith({ previewId: 'preview1' }), context)
+
+    expect(mockGetGenerationPreview).toHaveBeenCalledWith(
+      'project123',
+      'preview1'
+    )
+    expect(mockLockPreview).toHaveBeenCalledWith('preview1')
+    expect(mockEnqueueJob.mock.calls[0][0].payload.previewId).toBe('preview1')
+  })
+
+  it('should return 409 when a concurrent request locked the preview first', async () => {
+    mockGetGenerationPreview.mockResolvedValue({
+      id: 'preview1',
+      pushQueuedAt: null,
+      pushedAt: null,
+    })
+    mockLockPreview.mockResolvedValue(false)
 
-    await POST(mockRequest, context)
+    const response = await POST(requestWith({ previewId: 'preview1' }), context)
 
+    expect(response.status).toBe(409)
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
     expect(mockUpdate).toHaveBeenCalledWith({
       where: { id: 'project123' },
-      data: { status: 'ready' },
+      data: { status: 'DRAFT' },
     })
   })
 
-  it('should pass answered requirements to template generator', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [
-        { id: 'req1', question: 'Q1', answer: 'A1' },
-        { id: 'req2', question: 'Q2', answer: null }, // Unanswered
-        { id: 'req3', question: 'Q3', answer: 'A3' },
-      ],
-    }
-
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue(mockProject)
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/repo',
-      owner: 'user',
+  it('should unlock the preview when queueing fails', async () => {
+    mockGetGenerationPreview.mockResolvedValue({
+      id: 'preview1',
+      pushQueuedAt: null,
+      pushedAt: null,
     })
-    mockGenerateTemplate.mockResolvedValue({ files: [] })
-    mockCreateFiles.mockResolvedValue(undefined)
-
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+    mockEnqueueJob.mockRejectedValue(new Error('Database unavailable'))
 
-    await POST(mockRequest, context)
+    const response = await POST(requestWith({ previewId: 'preview1' }), context)
 
-    expect(mockGenerateTemplate).toHaveBeenCalledWith('Test', '', [
-      { question: 'Q1', answer: 'A1' },
-      { question: 'Q3', answer: 'A3' },
-    ])
+    expect(response.status).toBe(500)
+    expect(unlockGenerationPreview).toHaveBeenCalledWith('preview1')
   })
 
-  it('should create files in GitHub repository', async () => {
-    const mockProject = {
-      id: 'project123',
-      name: 'Test',
-      userId: 'user123',
-      techStack: '{"stack":"Next.js"}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    }
+  it('should return 409 for a preview that was already pushed', async () => {
+    mockGetGenerationPreview.mockResolvedValue({
+      id: 'preview1',
+      pushedAt: new Date(),
+    })
 
-    const mockTemplate = {
-      files: [
-        { path: 'README.md', content: '# Test' },
-        { path: 'package.json', content: '{}' },
-      ],
-    }
+    const response = await POST(requestWith({ previewId: 'preview1' }), context)
 
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue(mockProject)
-    mockUpdate.mockResolvedValue(mockProject)
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/test',
-      owner: 'user',
-    })
-    mockGenerateTemplate.mockResolvedValue(mockTemplate)
-    mockCreateFiles.mockResolvedValue(undefined)
+    expect(response.status).toBe(409)
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
+  })
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+  it('should return 409 with the unfinished job when one is queued', async () => {
+    mockFindUnfinishedJob.mockResolvedValue(queuedJob)
 
-    await POST(mockRequest, context)
+    const response = await POST(requestWith(), context)
+    const data = await response.json()
 
-    expect(mockCreateFiles).toHaveBeenCalledWith(
-      'github-token',
-      'user',
-      'test',
-      mockTemplate.files
+    expect(response.status).toBe(409)
+    expect(data.job.id).toBe('job123')
+    expect(mockFindUnfinishedJob).toHaveBeenCalledWith(
+      'project123',
+      'GENERATE_PROJECT'
     )
+    expect(mockUpdateMany).not.toHaveBeenCalled()
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
   })
 
-  it('should return 500 on error', async () => {
-    mockGetServerSession.mockResolvedValue({
-      user: { id: 'user123', email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockRejectedValue(new Error('Database error'))
-
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: 'project123' }) }
+  it('should return 409 while the project is generating', async () => {
+    mockFindUnique.mockResolvedValue({ ...mockProject, status: 'GENERATING' })
 
-    const response = await POST(mockRequest, context)
-    const data = await response.json()
+    const response = await POST(requestWith(), context)
 
-    expect(response.status).toBe(500)
-    expect(data.error).toBeDefined()
+    expect(response.status).toBe(409)
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
   })
 
-  it('should check ownership before generation', async () => {
-    const userId = 'user123'
-    const projectId = 'project123'
+  it('should return 409 when a concurrent request started generating first', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 })
 
-    mockGetServerSession.mockResolvedValue({
-      user: { id: userId, email: 'test@example.com' },
-      accessToken: 'github-token',
-    })
-    mockFindUnique.mockResolvedValue({
-      id: projectId,
-      userId,
-      techStack: '{}',
-      requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
-    })
-    mockUpdate.mockResolvedValue({})
-    mockCreateRepository.mockResolvedValue({
-      url: 'https://github.com/user/repo',
-      owner: 'user',
-    })
-    mockGenerateTemplate.mockResolvedValue({ files: [] })
-    mockCreateFiles.mockResolvedValue(undefined)
+    const response = await POST(requestWith(), context)
 
-    const mockRequest = {} as NextRequest
-    const context = { params: Promise.resolve({ id: projectId }) }
+    expect(response.status).toBe(409)
+    expect(mockEnqueueJob).not.toHaveBeenCalled()
+  })
 
-    await POST(mockRequest, context)
+  it('should revert status when queueing fails', async () => {
+    mockFindUnique.mockResolvedValue({ ...mockProject, status: 'READY' })
+    mockEnqueueJob.mockRejectedValue(new Error('Database unavailable'))
 
-    expect(mockFindUnique).toHaveBeenCalledWith({
-      where: {
-        id: projectId,
-        userId,
-      },
-      include: expect.any(Object),
+    const response = await POST(requestWith(), context)
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.error).toBe('Database unavailable')
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'project123' },
+      data: { status: 'READY' },
     })
   })
 })
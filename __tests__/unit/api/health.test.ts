@@ -17,6 +17,7 @@ jest.mock('next/server', () => ({
 
 import { GET } from '@/app/api/health/route'
 import { prisma } from '@/lib/prisma'
+import { getCircuitStatuses } from '@/lib/ai-resilience'
 
 // Mock Prisma
 jest.mock('@/lib/prisma', () => ({
@@ -25,7 +26,12 @@ jest.mock('@/lib/prisma', () => ({
   },
 }))
 
+jest.mock('@/lib/ai-resilience', () => ({
+  getCircuitStatuses: jest.fn(() => []),
+}))
+
 const mockQueryRaw = prisma.$queryRaw as jest.Mock
+const mockGetCircuitStatuses = getCircuitStatuses as jest.Mock
 
 describe('GET /api/health', () => {
   beforeEach(() => {
@@ -90,4 +96,42 @@ describe('GET /api/health', () => {
     expect(data).toHaveProperty('checks')
     expect(data.checks).toHaveProperty('database')
   })
+
+  it('should report AI circuit breakers without failing the check', async () => {
+    mockQueryRaw.mockResolvedValue([{ 1: 1 }])
+    mockGetCircuitStatuses.mockReturnValueOnce([
+      {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        state: 'open',
+        failures: 5,
+        openedAt: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        state: 'closed',
+        failures: 0,
+        openedAt: null,
+      },
+    ])
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.checks.ai).toBe('degraded')
+    expect(data.circuits).toHaveLength(2)
+    expect(data.circuits[0]).toMatchObject({ state: 'open', failures: 5 })
+  })
+
+  it('should report AI as available before any call', async () => {
+    mockQueryRaw.mockResolvedValue([{ 1: 1 }])
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(data.checks.ai).toBe('available')
+    expect(data.circuits).toEqual([])
+  })
 })
@@ -0,0 +1,195 @@
+/**
+ * /api/jobs API Tests
+ *
+ * Tests for GET /api/jobs/[id] and the /api/jobs/worker route
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}))
+
+// Keep the summaries, mock storage and processing
+jest.mock('@/lib/job-queue', () => ({
+  ...jest.requireActual('@/lib/job-queue'),
+  getJob: jest.fn(),
+  processJobs: jest.fn(),
+}))
+
+jest.mock('@/lib/generation-jobs', () => ({
+  runGenerateProjectJob: jest.fn(),
+}))
+
+jest.mock('@/lib/deployment-manager', () => ({
+  monitorDeploymentJob: jest.fn(),
+}))
+
+jest.mock('@/lib/ai-cache', () => ({
+  purgeExpiredCompletions: jest.fn(),
+}))
+
+import { GET as GET_JOB } from '@/app/api/jobs/[id]/route'
+import { GET as RUN_WORKER } from '@/app/api/jobs/worker/route'
+import { getServerSession } from 'next-auth'
+import { getJob, processJobs } from '@/lib/job-queue'
+import { purgeExpiredCompletions } from '@/lib/ai-cache'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockGetJob = getJob as jest.Mock
+const mockProcessJobs = processJobs as jest.Mock
+const mockPurgeExpiredCompletions = purgeExpiredCompletions as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'job1' }) }
+
+const job = {
+  id: 'job1',
+  type: 'GENERATE_PROJECT',
+  status: 'RUNNING',
+  userId: 'user123',
+  projectId: 'project123',
+  payload: { projectId: 'project123' },
+  result: null,
+  progress: 60,
+  progressMessage: 'Pushing 12 files to GitHub',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date('2026-10-18T12:00:00Z'),
+  lockedAt: new Date('2026-10-18T12:00:00Z'),
+  lockedBy: 'worker-1',
+  lastError: null,
+  finishedAt: null,
+  createdAt: new Date('2026-10-18T12:00:00Z'),
+  updatedAt: new Date('2026-10-18T12:00:30Z'),
+}
+
+function workerRequest(authorization?: string, query = '') {
+  return {
+    headers: new Headers(authorization ? { authorization } : {}),
+    nextUrl: new URL(`http://localhost/api/jobs/worker${query}`),
+  } as unknown as NextRequest
+}
+
+describe('GET /api/jobs/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user123' } })
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await GET_JOB({} as NextRequest, context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return 404 for jobs of other users', async () => {
+    mockGetJob.mockResolvedValue(null)
+
+    const response = await GET_JOB({} as NextRequest, context)
+
+    expect(response.status).toBe(404)
+    expect(mockGetJob).toHaveBeenCalledWith('job1', 'user123')
+  })
+
+  it('should return the progress without the payload', async () => {
+    mockGetJob.mockResolvedValue(job)
+
+    const response = await GET_JOB({} as NextRequest, context)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.job).toMatchObject({
+      id: 'job1',
+      status: 'RUNNING',
+      progress: 60,
+      progressMessage: 'Pushing 12 files to GitHub',
+      error: null,
+    })
+    expect(data.job).not.toHaveProperty('payload')
+  })
+})
+
+describe('/api/jobs/worker', () => {
+  const originalSecret = process.env.CRON_SECRET
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.CRON_SECRET = 'cron-secret'
+    mockProcessJobs.mockResolvedValue([
+      { id: 'job1', type: 'GENERATE_PROJECT', status: 'SUCCEEDED' },
+    ])
+    mockPurgeExpiredCompletions.mockResolvedValue(0)
+  })
+
+  afterAll(() => {
+    process.env.CRON_SECRET = originalSecret
+  })
+
+  it('should reject requests without the cron secret', async () => {
+    const response = await RUN_WORKER(workerRequest('Bearer wrong'))
+
+    expect(response.status).toBe(401)
+    expect(mockProcessJobs).not.toHaveBeenCalled()
+  })
+
+  it('should reject every request when no secret is configured', async () => {
+    delete process.env.CRON_SECRET
+
+    const response = await RUN_WORKER(workerRequest('Bearer '))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should process a batch of jobs with every handler', async () => {
+    const response = await RUN_WORKER(workerRequest('Bearer cron-secret'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.processed).toHaveLength(1)
+    const [workerId, handlers, limit] = mockProcessJobs.mock.calls[0]
+    expect(workerId).toMatch(/^worker-/)
+    expect(Array.from(handlers.keys())).toEqual([
+      'GENERATE_PROJECT',
+      'MONITOR_DEPLOYMENT',
+    ])
+    expect(limit).toBe(3)
+  })
+
+  it('should cap the requested batch size', async () => {
+    await RUN_WORKER(workerRequest('Bearer cron-secret', '?limit=50'))
+
+    expect(mockProcessJobs.mock.calls[0][2]).toBe(10)
+  })
+
+  it('should purge expired AI cache entries', async () => {
+    mockPurgeExpiredCompletions.mockResolvedValue(7)
+
+    const response = await RUN_WORKER(workerRequest('Bearer cron-secret'))
+    const data = await response.json()
+
+    expect(data.expiredCacheEntries).toBe(7)
+  })
+})
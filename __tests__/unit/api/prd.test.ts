@@ -0,0 +1,214 @@
+/**
+ * /api/projects/[id]/prd API Tests
+ *
+ * Tests for GET and POST /api/projects/[id]/prd
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/requirements-document', () => ({
+  generateRequirementsDocument: jest.fn(),
+  getRequirementsDocument: jest.fn(),
+  listRequirementsDocumentVersions: jest.fn(),
+  renderRequirementsMarkdown: jest.fn(),
+  saveRequirementsDocument: jest.fn(),
+}))
+
+import { GET, POST } from '@/app/api/projects/[id]/prd/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import {
+  generateRequirementsDocument,
+  getRequirementsDocument,
+  listRequirementsDocumentVersions,
+  renderRequirementsMarkdown,
+  saveRequirementsDocument,
+} from '@/lib/requirements-document'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockGenerate = generateRequirementsDocument as jest.Mock
+const mockGetDocument = getRequirementsDocument as jest.Mock
+const mockListVersions = listRequirementsDocumentVersions as jest.Mock
+const mockRenderMarkdown = renderRequirementsMarkdown as jest.Mock
+const mockSave = saveRequirementsDocument as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const document = {
+  id: 'doc1',
+  projectId: 'project123',
+  version: 2,
+  content: { summary: 'A recipe box' },
+  promptVersion: 'requirements-document@1',
+  createdAt: new Date('2026-01-02T00:00:00Z'),
+}
+
+function requestFor(query = '') {
+  return {
+    url: `http://localhost:3000/api/projects/project123/prd${query}`,
+  } as NextRequest
+}
+
+describe('/api/projects/[id]/prd', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+  })
+
+  describe('GET', () => {
+    it('should return 401 when user is not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null)
+
+      const response = await GET(requestFor(), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 400 for an unknown format', async () => {
+      const response = await GET(requestFor('?format=pdf'), context)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 when no document has been generated', async () => {
+      mockFindUniqueProject.mockResolvedValue({ id: 'project123' })
+      mockGetDocument.mockResolvedValue(null)
+
+      const response = await GET(requestFor(), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error).toBe('Requirements document not found')
+    })
+
+    it('should return the requested version as JSON', async () => {
+      mockFindUniqueProject.mockResolvedValue({ id: 'project123' })
+      mockGetDocument.mockResolvedValue(document)
+      mockListVersions.mockResolvedValue([{ version: 2 }, { version: 1 }])
+
+      const response = await GET(requestFor('?version=2'), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockGetDocument).toHaveBeenCalledWith('project123', 2)
+      expect(data.document).toEqual(document)
+      expect(data.versions).toEqual([{ version: 2 }, { version: 1 }])
+    })
+
+    it('should download the document as Markdown', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Recipe Box!',
+      })
+      mockGetDocument.mockResolvedValue(document)
+      mockRenderMarkdown.mockReturnValue('# Recipe Box!: Product Requirements')
+
+      const response = (await GET(
+        requestFor('?format=markdown'),
+        context
+      )) as Response
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('content-type')).toBe(
+        'text/markdown; charset=utf-8'
+      )
+      expect(response.headers.get('content-disposition')).toBe(
+        'attachment; filename="recipe-box-requirements-v2.md"'
+      )
+      await expect(response.text()).resolves.toBe(
+        '# Recipe Box!: Product Requirements'
+      )
+      expect(mockRenderMarkdown).toHaveBeenCalledWith('Recipe Box!', document)
+    })
+  })
+
+  describe('POST', () => {
+    it('should return 404 when project not found', async () => {
+      mockFindUniqueProject.mockResolvedValue(null)
+
+      const response = await POST(requestFor(), context)
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 400 when no requirements are answered', async () => {
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        requirements: [{ question: 'Q1', answer: null }],
+      })
+
+      const response = await POST(requestFor(), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('No requirements completed')
+      expect(mockGenerate).not.toHaveBeenCalled()
+    })
+
+    it('should generate and store a new version from the answers', async () => {
+      const result = {
+        data: document.content,
+        fallbackUsed: false,
+        attempts: 1,
+        promptVersion: 'requirements-document@1',
+      }
+      mockFindUniqueProject.mockResolvedValue({
+        id: 'project123',
+        name: 'Test',
+        description: null,
+        requirements: [
+          { question: 'Q1', answer: 'A1' },
+          { question: 'Q2', answer: null },
+        ],
+      })
+      mockGenerate.mockResolvedValue(result)
+      mockSave.mockResolvedValue(document)
+
+      const response = await POST(requestFor(), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(mockGenerate).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        [{ question: 'Q1', answer: 'A1' }],
+        { userId: 'user123', projectId: 'project123', bypassCache: false }
+      )
+      expect(mockSave).toHaveBeenCalledWith('project123', result)
+      expect(data).toEqual({ document, fallbackUsed: false })
+    })
+  })
+})
@@ -0,0 +1,489 @@
+/**
+ * /api/projects/[id]/preview API Tests
+ *
+ * Tests for GET and POST /api/projects/[id]/preview and
+ * GET and PATCH /api/projects/[id]/preview/files
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/project-generator', () => ({
+  ProjectGenerationError: class ProjectGenerationError extends Error {
+    constructor(
+      message: string,
+      public validationErrors: unknown[],
+      public attempts: unknown[] = []
+    ) {
+      super(message)
+    }
+  },
+}))
+
+jest.mock('@/lib/code-repair', () => ({
+  validateGeneratedFile: jest.fn(),
+}))
+
+// Keep the pure helpers, mock generation and storage
+jest.mock('@/lib/generation-preview', () => ({
+  ...jest.requireActual('@/lib/generation-preview'),
+  generateProjectFiles: jest.fn(),
+  getGenerationPreview: jest.fn(),
+  saveGenerationPreview: jest.fn(),
+  updateGenerationPreviewFiles: jest.fn(),
+}))
+
+import { GET, POST } from '@/app/api/projects/[id]/preview/route'
+import {
+  GET as GET_FILE,
+  PATCH,
+} from '@/app/api/projects/[id]/preview/files/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { ProjectGenerationError } from '@/lib/project-generator'
+import { validateGeneratedFile } from '@/lib/code-repair'
+import {
+  generateProjectFiles,
+  getGenerationPreview,
+  saveGenerationPreview,
+  previewContentHash,
+  updateGenerationPreviewFiles,
+} from '@/lib/generation-preview'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockGenerateFiles = generateProjectFiles as jest.Mock
+const mockGetPreview = getGenerationPreview as jest.Mock
+const mockSavePreview = saveGenerationPreview as jest.Mock
+const mockUpdateFiles = updateGenerationPreviewFiles as jest.Mock
+const mockValidate = validateGeneratedFile as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const project = {
+  id: 'project123',
+  name: 'Recipe Box',
+  description: 'Save recipes',
+  techStack: '{"stack":"Next.js"}',
+  requirements: [
+    {
+      question: 'Who uses it?',
+      answer: 'Home cooks',
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    },
+    { question: 'Budget?', answer: null, updatedAt: new Date() },
+  ],
+}
+
+const preview = {
+  id: 'preview1',
+  projectId: 'project123',
+  templateId: 'nextjs',
+  files: [
+    {
+      path: 'README.md',
+      content: '# Recipe Box',
+      excluded: false,
+      edited: false,
+    },
+    {
+      path: 'src/app/page.tsx',
+      content: 'export default function Home() {}',
+      excluded: false,
+      edited: false,
+    },
+  ],
+  promptVersions: { 'README.md': 'readme@1' },
+  attempts: [],
+  createdAt: new Date('2026-01-02T00:00:00Z'),
+  updatedAt: new Date('2026-01-02T00:00:00Z'),
+  version: 0,
+  pushQueuedAt: null,
+  pushedAt: null,
+}
+
+function requestFor(query = '', body?: unknown) {
+  return {
+    url: `http://localhost:3000/api/projects/project123/preview/files${query}`,
+    headers: new Headers(),
+    json: async () => body,
+  } as unknown as NextRequest
+}
+
+describe('/api/projects/[id]/preview', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockFindUniqueProject.mockResolvedValue(project)
+  })
+
+  describe('POST', () => {
+    it('should return 401 when user is not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null)
+
+      const response = await POST(requestFor(), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 400 when the tech stack is missing', async () => {
+      mockFindUniqueProject.mockResolvedValue({ ...project, techStack: null })
+
+      const response = await POST(requestFor(), context)
+
+      expect(response.status).toBe(400)
+      expect(mockGenerateFiles).not.toHaveBeenCalled()
+    })
+
+    it('should store the generated files and list them without contents', async () => {
+      mockGenerateFiles.mockResolvedValue({ templateId: 'nextjs' })
+      mockSavePreview.mockResolvedValue(preview)
+
+      const response = await POST(requestFor(), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(mockGenerateFiles).toHaveBeenCalledWith(
+        project,
+        [
+          {
+            question: 'Who uses it?',
+            answer: 'Home cooks',
+            updatedAt: project.requirements[0].updatedAt,
+          },
+        ],
+        'PREVIEW',
+        expect.objectContaining({ userId: 'user123', projectId: 'project123' })
+      )
+      expect(mockSavePreview).toHaveBeenCalledWith('project123', {
+        templateId: 'nextjs',
+      })
+      expect(data.preview.files).toEqual([
+        { path: 'README.md', size: 12, excluded: false, edited: false },
+        { path: 'src/app/page.tsx', size: 33, excluded: false, edited: false },
+      ])
+    })
+
+    it('should return 400 with the attempts when files cannot be repaired', async () => {
+      const attempt = {
+        path: 'README.md',
+        attempt: 1,
+        source: 'fallback' as const,
+        promptVersion: null,
+        valid: false,
+        errors: [],
+        warnings: [],
+        securityIssues: ['Unsafe link'],
+      }
+      mockGenerateFiles.mockRejectedValue(
+        new ProjectGenerationError('Invalid', [], [attempt])
+      )
+
+      const response = await POST(requestFor(), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.attempts).toEqual([attempt])
+      expect(mockSavePreview).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET', () => {
+    it('should return 404 when the project has no preview', async () => {
+      mockGetPreview.mockResolvedValue(null)
+
+      const response = await GET(requestFor(), context)
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 404 for projects of other users', async () => {
+      mockFindUniqueProject.mockResolvedValue(null)
+
+      const response = await GET(requestFor(), context)
+
+      expect(response.status).toBe(404)
+      expect(mockGetPreview).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('/api/projects/[id]/preview/files', () => {
+  const pageHash = previewContentHash('export default function Home() {}')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockFindUniqueProject.mockResolvedValue({ id: 'project123' })
+    mockGetPreview.mockResolvedValue(preview)
+    mockUpdateFiles.mockImplementation(async (_preview, files) => ({
+      ...preview,
+      files,
+    }))
+  })
+
+  describe('GET', () => {
+    it('should return a file of the latest preview', async () => {
+      const response = await GET_FILE(requestFor('?path=README.md'), context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({
+        previewId: 'preview1',
+        file: {
+          ...preview.files[0],
+          contentHash: previewContentHash('# Recipe Box'),
+        },
+      })
+    })
+
+    it('should return 400 without a path', async () => {
+      const response = await GET_FILE(requestFor(), context)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for unknown paths', async () => {
+      const response = await GET_FILE(requestFor('?path=.env'), context)
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('PATCH', () => {
+    it('should save edited content and report validation problems', async () => {
+      mockValidate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        warnings: [],
+        securityIssues: ['eval() usage'],
+      })
+
+      const response = await PATCH(
+        requestFor('', {
+          path: 'src/app/page.tsx',
+          content: 'eval("1")',
+          baseContentHash: pageHash,
+        }),
+        context
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.file).toEqual({
+        path: 'src/app/page.tsx',
+        content: 'eval("1")',
+        excluded: false,
+        edited: true,
+        contentHash: previewContentHash('eval("1")'),
+      })
+      expect(data.validation.securityIssues).toEqual(['eval() usage'])
+      expect(mockUpdateFiles).toHaveBeenCalledWith(
+        preview,
+        expect.arrayContaining([preview.files[0]])
+      )
+    })
+
+    it('should keep an edit saved by a concurrent request', async () => {
+      const concurrent = {
+        ...preview,
+        version: 1,
+        files: [{ ...preview.files[0], excluded: true }, preview.files[1]],
+      }
+      mockGetPreview
+        .mockResolvedValueOnce(preview)
+        .mockResolvedValueOnce(concurrent)
+      mockUpdateFiles.mockResolvedValueOnce(null)
+
+      const response = await PATCH(
+        requestFor('', {
+          path: 'src/app/page.tsx',
+          content: 'edited',
+          baseContentHash: pageHash,
+        }),
+        context
+      )
+
+      expect(response.status).toBe(200)
+      // Applied again to the files the other request saved
+      expect(mockGetPreview).toHaveBeenLastCalledWith('project123', 'preview1')
+      expect(mockUpdateFiles).toHaveBeenLastCalledWith(concurrent, [
+        concurrent.files[0],
+        { ...preview.files[1], content: 'edited', edited: true },
+      ])
+    })
+
+    it('should return 409 when the file changed since it was loaded', async () => {
+      const concurrent = {
+        ...preview,
+        version: 1,
+        files: [
+          preview.files[0],
+          { ...preview.files[1], content: 'newer', edited: true },
+        ],
+      }
+      mockGetPreview.mockResolvedValue(concurrent)
+
+      const response = await PATCH(
+        requestFor('', {
+          path: 'src/app/page.tsx',
+          content: 'edited',
+          baseContentHash: pageHash,
+        }),
+        context
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.file.content).toBe('newer')
+      expect(data.file.contentHash).toBe(previewContentHash('newer'))
+      expect(mockUpdateFiles).not.toHaveBeenCalled()
+    })
+
+    it('should refuse edits to a file changed by a concurrent request', async () => {
+      const concurrent = {
+        ...preview,
+        version: 1,
+        files: [
+          preview.files[0],
+          { ...preview.files[1], content: 'newer', edited: true },
+        ],
+      }
+      mockGetPreview
+        .mockResolvedValueOnce(preview)
+        .mockResolvedValueOnce(concurrent)
+      mockUpdateFiles.mockResolvedValueOnce(null)
+
+      const response = await PATCH(
+        requestFor('', {
+          path: 'src/app/page.tsx',
+          content: 'edited',
+          baseContentHash: pageHash,
+        }),
+        context
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockUpdateFiles).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return 400 for content edits without a base hash', async () => {
+      const response = await PATCH(
+        requestFor('', { path: 'src/app/page.tsx', content: 'edited' }),
+        context
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockUpdateFiles).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 when concurrent edits keep winning', async () => {
+      mockUpdateFiles.mockResolvedValue(null)
+
+      const response = await PATCH(
+        requestFor('', { path: 'README.md', excluded: true }),
+        context
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockUpdateFiles).toHaveBeenCalledTimes(3)
+    })
+
+    it('should exclude files without validating them', async () => {
+      const response = await PATCH(
+        requestFor('', { path: 'README.md', excluded: true }),
+        context
+      )
+      const data = await response.json()
+
+      expect(data.file.excluded).toBe(true)
+      expect(data.file.edited).toBe(false)
+      expect(data.validation).toBeNull()
+      expect(mockValidate).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 when nothing changes', async () => {
+      const response = await PATCH(
+        requestFor('', { path: 'README.md' }),
+        context
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for unknown paths', async () => {
+      const response = await PATCH(
+        requestFor('', {
+          path: '.env',
+          content: 'SECRET=1',
+          baseContentHash: pageHash,
+        }),
+        context
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockUpdateFiles).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 once the preview was pushed', async () => {
+      mockGetPreview.mockResolvedValue({ ...preview, pushedAt: new Date() })
+
+      const response = await PATCH(
+        requestFor('', { path: 'README.md', excluded: true }),
+        context
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockUpdateFiles).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 once a push of the preview is queued', async () => {
+      mockGetPreview.mockResolvedValue({
+        ...preview,
+        pushQueuedAt: new Date(),
+      })
+
+      const response = await PATCH(
+        requestFor('', { path: 'README.md', excluded: true }),
+        context
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.error).toBe('Preview is being pushed')
+      expect(mockUpdateFiles).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -48,6 +48,29 @@ const mockFindUnique = prisma.project.findUnique as jest.Mock
 const mockUpdate = prisma.project.update as jest.Mock
 const mockGenerateTechStack = generateTechStackRecommendation as jest.Mock
 
+const selection = {
+  framework: 'nextjs',
+  database: 'postgresql',
+  auth: 'nextauth',
+  hosting: 'vercel',
+  styling: 'tailwind',
+  payments: 'none',
+}
+
+function recommendationFor(name: string, rationale = 'Modern stack') {
+  return {
+    alternatives: [
+      { name, components: selection, rationale, tradeoffs: [] },
+      {
+        name: 'Simplest start',
+        components: { ...selection, database: 'sqlite', auth: 'none' },
+        rationale: 'Fewer moving parts',
+        tradeoffs: ['No sign-in'],
+      },
+    ],
+  }
+}
+
 describe('POST /api/projects/[id]/recommend-stack', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -148,16 +171,21 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       ],
     }
 
-    const mockRecommendation = {
-      stack: 'Next.js 14 + Tailwind + Prisma + PostgreSQL',
-      rationale: 'Best for modern web apps',
-    }
+    const mockRecommendation = recommendationFor(
+      'Next.js 14 + Tailwind + Prisma + PostgreSQL',
+      'Best for modern web apps'
+    )
 
     mockGetServerSession.mockResolvedValue({
       user: { id: userId, email: 'test@example.com' },
     })
     mockFindUnique.mockResolvedValue(mockProject)
-    mockGenerateTechStack.mockResolvedValue(mockRecommendation)
+    mockGenerateTechStack.mockResolvedValue({
+      data: mockRecommendation,
+      fallbackUsed: false,
+      attempts: 1,
+      promptVersion: 'tech-stack@1',
+    })
     mockUpdate.mockResolvedValue({
       ...mockProject,
       techStack: JSON.stringify(mockRecommendation),
@@ -172,10 +200,23 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
 
     expect(response.status).toBe(200)
     expect(data.recommendation).toEqual(mockRecommendation)
-    expect(mockGenerateTechStack).toHaveBeenCalledWith('E-commerce App', [
-      { question: 'What are you building?', answer: 'An online store' },
-      { question: 'Who is your audience?', answer: 'Small businesses' },
-    ])
+    expect(data.selection).toEqual(selection)
+    expect(data.fallbackUsed).toBe(false)
+    expect(mockGenerateTechStack).toHaveBeenCalledWith(
+      'E-commerce App',
+      [
+        { question: 'What are you building?', answer: 'An online store' },
+        { question: 'Who is your audience?', answer: 'Small businesses' },
+      ],
+      { userId, projectId, bypassCache: false }
+    )
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          promptVersions: { techStack: 'tech-stack@1' },
+        }),
+      })
+    )
   })
 
   it('should update project status to ready', async () => {
@@ -191,11 +232,15 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       userId,
       requirements: [{ id: 'req1', question: 'Q1', answer: 'A1' }],
     })
-    mockGenerateTechStack.mockResolvedValue({ stack: 'Next.js' })
+    mockGenerateTechStack.mockResolvedValue({
+      data: recommendationFor('Next.js'),
+      fallbackUsed: false,
+      attempts: 1,
+    })
     mockUpdate.mockResolvedValue({
       id: projectId,
       status: 'ready',
-      techStack: '{"stack":"Next.js"}',
+      techStack: JSON.stringify(recommendationFor('Next.js')),
     })
 
     const mockRequest = {} as NextRequest
@@ -207,6 +252,9 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       where: { id: projectId },
       data: {
         techStack: expect.any(String),
+        // The top-ranked alternative is selected until the user picks another
+        techStackSelection: selection,
+        promptVersions: expect.any(Object),
         status: 'ready',
       },
       include: {
@@ -220,10 +268,7 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
   it('should store recommendation as JSON string', async () => {
     const userId = 'user123'
     const projectId = 'project123'
-    const mockRecommendation = {
-      stack: 'Next.js + Tailwind',
-      rationale: 'Modern stack',
-    }
+    const mockRecommendation = recommendationFor('Next.js + Tailwind')
 
     mockGetServerSession.mockResolvedValue({
       user: { id: userId, email: 'test@example.com' },
@@ -233,7 +278,11 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       userId,
       requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
     })
-    mockGenerateTechStack.mockResolvedValue(mockRecommendation)
+    mockGenerateTechStack.mockResolvedValue({
+      data: mockRecommendation,
+      fallbackUsed: false,
+      attempts: 1,
+    })
     mockUpdate.mockResolvedValue({
       id: projectId,
       techStack: JSON.stringify(mockRecommendation),
@@ -270,7 +319,11 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
         { id: 'req3', question: 'Q3', answer: 'A3' }, // Answered
       ],
     })
-    mockGenerateTechStack.mockResolvedValue({ stack: 'Next.js' })
+    mockGenerateTechStack.mockResolvedValue({
+      data: recommendationFor('Next.js'),
+      fallbackUsed: false,
+      attempts: 1,
+    })
     mockUpdate.mockResolvedValue({ id: projectId })
 
     const mockRequest = {} as NextRequest
@@ -278,10 +331,47 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
 
     await POST(mockRequest, context)
 
-    expect(mockGenerateTechStack).toHaveBeenCalledWith('Test', [
-      { question: 'Q1', answer: 'A1' },
-      { question: 'Q3', answer: 'A3' },
-    ])
+    expect(mockGenerateTechStack).toHaveBeenCalledWith(
+      'Test',
+      [
+        { question: 'Q1', answer: 'A1' },
+        { question: 'Q3', answer: 'A3' },
+      ],
+      { userId, projectId, bypassCache: false }
+    )
+  })
+
+  it('should bypass cached AI output when the client sends no-cache', async () => {
+    const userId = 'user123'
+    const projectId = 'project123'
+
+    mockGetServerSession.mockResolvedValue({
+      user: { id: userId, email: 'test@example.com' },
+    })
+    mockFindUnique.mockResolvedValue({
+      id: projectId,
+      name: 'Test',
+      requirements: [{ question: 'Q1', answer: 'A1' }],
+    })
+    mockGenerateTechStack.mockResolvedValue({
+      data: recommendationFor('Next.js'),
+      fallbackUsed: false,
+      attempts: 1,
+    })
+    mockUpdate.mockResolvedValue({ id: projectId })
+
+    const mockRequest = {
+      headers: new Map([['cache-control', 'no-cache']]),
+    } as unknown as NextRequest
+    const context = { params: Promise.resolve({ id: projectId }) }
+
+    await POST(mockRequest, context)
+
+    expect(mockGenerateTechStack).toHaveBeenCalledWith(
+      'Test',
+      [{ question: 'Q1', answer: 'A1' }],
+      { userId, projectId, bypassCache: true }
+    )
   })
 
   it('should return 500 on database error', async () => {
@@ -324,7 +414,7 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
   it('should return both project and recommendation in response', async () => {
     const userId = 'user123'
     const projectId = 'project123'
-    const mockRecommendation = { stack: 'Next.js' }
+    const mockRecommendation = recommendationFor('Next.js')
     const updatedProject = {
       id: projectId,
       techStack: JSON.stringify(mockRecommendation),
@@ -339,7 +429,11 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       userId,
       requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
     })
-    mockGenerateTechStack.mockResolvedValue(mockRecommendation)
+    mockGenerateTechStack.mockResolvedValue({
+      data: mockRecommendation,
+      fallbackUsed: false,
+      attempts: 1,
+    })
     mockUpdate.mockResolvedValue(updatedProject)
 
     const mockRequest = {} as NextRequest
@@ -366,7 +460,11 @@ describe('POST /api/projects/[id]/recommend-stack', () => {
       userId,
       requirements: [{ id: 'req1', question: 'Q', answer: 'A' }],
     })
-    mockGenerateTechStack.mockResolvedValue({ stack: 'Next.js' })
+    mockGenerateTechStack.mockResolvedValue({
+      data: recommendationFor('Next.js'),
+      fallbackUsed: false,
+      attempts: 1,
+    })
     mockUpdate.mockResolvedValue({ id: projectId })
 
     const mockRequest = {} as NextRequest
@@ -0,0 +1,188 @@
+/**
+ * /api/projects/[id]/runs API Tests
+ *
+ * Tests for GET /api/projects/[id]/runs, /runs/[runId] and /runs/diff
+ *
+ * @jest-environment node
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+// Keep the diffing, mock storage
+jest.mock('@/lib/generation-runs', () => ({
+  ...jest.requireActual('@/lib/generation-runs'),
+  listGenerationRuns: jest.fn(),
+  getGenerationRun: jest.fn(),
+}))
+
+import { GET as LIST } from '@/app/api/projects/[id]/runs/route'
+import { GET as GET_RUN } from '@/app/api/projects/[id]/runs/[runId]/route'
+import { GET as DIFF } from '@/app/api/projects/[id]/runs/diff/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import {
+  getGenerationRun,
+  hashContent,
+  listGenerationRuns,
+} from '@/lib/generation-runs'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockListRuns = listGenerationRuns as jest.Mock
+const mockGetRun = getGenerationRun as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const run = (id: string, readme: string) => ({
+  id,
+  projectId: 'project123',
+  trigger: 'PREVIEW',
+  outcome: 'SUCCEEDED',
+  durationMs: 900,
+  requirements: [{ question: 'Who uses it?', answer: 'Home cooks' }],
+  techStack: {},
+  templateId: 'nextjs',
+  promptVersions: { 'README.md': 'readme@1' },
+  files: [{ path: 'README.md', hash: hashContent(readme), content: readme }],
+  attempts: [],
+  error: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+})
+
+function requestFor(query = '') {
+  return {
+    url: `http://localhost:3000/api/projects/project123/runs/diff${query}`,
+  } as NextRequest
+}
+
+describe('/api/projects/[id]/runs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockFindUniqueProject.mockResolvedValue({ id: 'project123' })
+  })
+
+  describe('GET /runs', () => {
+    it('should return 401 when user is not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null)
+
+      const response = await LIST(requestFor(), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 404 for projects of other users', async () => {
+      mockFindUniqueProject.mockResolvedValue(null)
+
+      const response = await LIST(requestFor(), context)
+
+      expect(response.status).toBe(404)
+      expect(mockListRuns).not.toHaveBeenCalled()
+    })
+
+    it('should list the project runs', async () => {
+      mockListRuns.mockResolvedValue([{ id: 'run1', fileCount: 3 }])
+
+      const response = await LIST(requestFor(), context)
+      const data = await response.json()
+
+      expect(data.runs).toEqual([{ id: 'run1', fileCount: 3 }])
+      expect(mockListRuns).toHaveBeenCalledWith('project123')
+    })
+  })
+
+  describe('GET /runs/[runId]', () => {
+    const runContext = {
+      params: Promise.resolve({ id: 'project123', runId: 'run1' }),
+    }
+
+    it('should return the run inputs and files without contents', async () => {
+      mockGetRun.mockResolvedValue(run('run1', '# App'))
+
+      const response = await GET_RUN(requestFor(), runContext)
+      const data = await response.json()
+
+      expect(mockGetRun).toHaveBeenCalledWith('project123', 'run1')
+      expect(data.run.requirements).toEqual([
+        { question: 'Who uses it?', answer: 'Home cooks' },
+      ])
+      expect(data.run.files).toEqual([
+        { path: 'README.md', hash: hashContent('# App'), size: 5 },
+      ])
+    })
+
+    it('should return 404 for unknown runs', async () => {
+      mockGetRun.mockResolvedValue(null)
+
+      const response = await GET_RUN(requestFor(), runContext)
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('GET /runs/diff', () => {
+    it('should return 400 without both run IDs', async () => {
+      const response = await DIFF(requestFor('?from=run1'), context)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 when a run is missing', async () => {
+      mockGetRun.mockResolvedValueOnce(run('run1', '# App'))
+      mockGetRun.mockResolvedValueOnce(null)
+
+      const response = await DIFF(requestFor('?from=run1&to=run2'), context)
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should diff the two runs file by file', async () => {
+      mockGetRun.mockImplementation(async (_projectId, runId) =>
+        runId === 'run1' ? run('run1', '# App\n') : run('run2', '# Shop\n')
+      )
+
+      const response = await DIFF(requestFor('?from=run1&to=run2'), context)
+      const data = await response.json()
+
+      expect(data.diff.from).toBe('run1')
+      expect(data.diff.to).toBe('run2')
+      expect(data.diff.files).toEqual([
+        {
+          path: 'README.md',
+          status: 'changed',
+          patch:
+            '--- a/README.md\n+++ b/README.md\n@@ -1,1 +1,1 @@\n-# App\n+# Shop\n',
+        },
+      ])
+    })
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * /api/projects/[id]/tech-stack API Tests
+ *
+ * Tests for PUT /api/projects/[id]/tech-stack
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+
+import { PUT } from '@/app/api/projects/[id]/tech-stack/route'
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockFindUniqueProject = prisma.project.findUnique as jest.Mock
+const mockUpdateProject = prisma.project.update as jest.Mock
+
+const context = { params: Promise.resolve({ id: 'project123' }) }
+
+const recommended = {
+  framework: 'nextjs',
+  database: 'postgresql',
+  auth: 'nextauth',
+  hosting: 'vercel',
+  styling: 'tailwind',
+  payments: 'none',
+}
+const simpler = { ...recommended, database: 'sqlite', auth: 'none' }
+
+const project = {
+  id: 'project123',
+  techStack: JSON.stringify({
+    alternatives: [
+      {
+        name: 'Full-stack',
+        components: recommended,
+        rationale: 'Complete',
+        tradeoffs: [],
+      },
+      { name: 'Simple', components: simpler, rationale: 'Lean', tradeoffs: [] },
+    ],
+  }),
+  techStackSelection: recommended,
+}
+
+function requestWith(body: unknown) {
+  return { json: async () => body } as NextRequest
+}
+
+describe('PUT /api/projects/[id]/tech-stack', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockUpdateProject.mockImplementation(async ({ data }) => ({
+      ...project,
+      ...data,
+    }))
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await PUT(requestWith({ alternative: 1 }), context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should reject an empty change or unknown options', async () => {
+    const empty = await PUT(requestWith({}), context)
+    const unknown = await PUT(
+      requestWith({ components: { database: 'mongodb' } }),
+      context
+    )
+
+    expect(empty.status).toBe(400)
+    expect(unknown.status).toBe(400)
+    expect(mockFindUniqueProject).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 before a stack is recommended', async () => {
+    mockFindUniqueProject.mockResolvedValue({ ...project, techStack: null })
+
+    const response = await PUT(requestWith({ alternative: 0 }), context)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('No tech stack recommended yet')
+  })
+
+  it('should return 400 for an alternative that does not exist', async () => {
+    mockFindUniqueProject.mockResolvedValue(project)
+
+    const response = await PUT(requestWith({ alternative: 2 }), context)
+
+    expect(response.status).toBe(400)
+    expect(mockUpdateProject).not.toHaveBeenCalled()
+  })
+
+  it('should select a recommended alternative', async () => {
+    mockFindUniqueProject.mockResolvedValue(project)
+
+    const response = await PUT(requestWith({ alternative: 1 }), context)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.selection).toEqual(simpler)
+    expect(mockUpdateProject).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'project123' },
+        data: { techStackSelection: simpler },
+      })
+    )
+  })
+
+  it('should swap components on top of the current selection', async () => {
+    mockFindUniqueProject.mockResolvedValue(project)
+
+    const response = await PUT(
+      requestWith({ components: { payments: 'stripe' } }),
+      context
+    )
+    const data = await response.json()
+
+    expect(data.selection).toEqual({ ...recommended, payments: 'stripe' })
+    expect(data.project.techStackSelection).toEqual(data.selection)
+  })
+
+  it('should drop options the new framework cannot run', async () => {
+    mockFindUniqueProject.mockResolvedValue(project)
+
+    const response = await PUT(
+      requestWith({ components: { framework: 'vite-react' } }),
+      context
+    )
+    const data = await response.json()
+
+    expect(data.selection).toEqual({
+      ...recommended,
+      framework: 'vite-react',
+      database: 'none',
+      auth: 'none',
+    })
+  })
+})
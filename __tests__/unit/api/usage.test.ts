@@ -0,0 +1,112 @@
+/**
+ * /api/usage API Tests
+ *
+ * Tests for GET /api/usage
+ */
+
+// Mock Next.js modules first
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: (data: any, init?: any) => ({
+      json: async () => data,
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+    }),
+  },
+}))
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/auth.config', () => ({
+  authOptions: {},
+}))
+
+jest.mock('@/lib/ai-usage', () => ({
+  getUsageSummary: jest.fn(),
+}))
+
+import { GET } from '@/app/api/usage/route'
+import { getServerSession } from 'next-auth'
+import { getUsageSummary } from '@/lib/ai-usage'
+import { NextRequest } from 'next/server'
+
+const mockGetServerSession = getServerSession as jest.Mock
+const mockGetUsageSummary = getUsageSummary as jest.Mock
+
+function requestFor(query = '') {
+  return { url: `http://localhost:3000/api/usage${query}` } as NextRequest
+}
+
+const summary = {
+  since: '2025-01-09T00:00:00.000Z',
+  totals: { calls: 1, inputTokens: 10, outputTokens: 20, costUsd: 0.0003 },
+  byProject: [],
+  byDay: [],
+}
+
+describe('GET /api/usage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-15T13:45:00Z'))
+    mockGetServerSession.mockResolvedValue({
+      user: { id: 'user123', email: 'test@example.com' },
+    })
+    mockGetUsageSummary.mockResolvedValue(summary)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null)
+
+    const response = await GET(requestFor())
+    const data = await response.json()
+
+    expect(response.status).toBe(401)
+    expect(data.error).toBe('Unauthorized')
+    expect(mockGetUsageSummary).not.toHaveBeenCalled()
+  })
+
+  it('should default to the last 30 days for the current user', async () => {
+    const response = await GET(requestFor())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.usage).toEqual(summary)
+    expect(mockGetUsageSummary).toHaveBeenCalledWith('user123', {
+      since: new Date('2024-12-17T00:00:00Z'),
+      projectId: undefined,
+    })
+  })
+
+  it('should honour the days and projectId filters', async () => {
+    await GET(requestFor('?days=7&projectId=clh1234567890abcdefghijk'))
+
+    expect(mockGetUsageSummary).toHaveBeenCalledWith('user123', {
+      since: new Date('2025-01-09T00:00:00Z'),
+      projectId: 'clh1234567890abcdefghijk',
+    })
+  })
+
+  it('should return 400 for an out-of-range window', async () => {
+    const response = await GET(requestFor('?days=400'))
+
+    expect(response.status).toBe(400)
+    expect(mockGetUsageSummary).not.toHaveBeenCalled()
+  })
+
+  it('should return 500 when the summary query fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+    mockGetUsageSummary.mockRejectedValue(new Error('DB down'))
+
+    const response = await GET(requestFor())
+
+    expect(response.status).toBe(500)
+    consoleSpy.mockRestore()
+  })
+})
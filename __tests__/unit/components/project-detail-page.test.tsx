@@ -69,6 +69,32 @@ describe('ProjectDetailPage', () => {
 
   const createMockParams = (id: string) => Promise.resolve({ id })
 
+  // Build a streamed chat response body that emits each requirement and then
+  // the final done payload, mirroring /api/projects/[id]/chat/stream
+  const chatStreamBody = (done: {
+    requirements: unknown[]
+    completed?: boolean
+  }) => {
+    const encoder = new TextEncoder()
+    const chunks = [
+      ...done.requirements.map(requirement =>
+        encoder.encode(
+          `event: requirement\ndata: ${JSON.stringify({ requirement })}\n\n`
+        )
+      ),
+      encoder.encode(`event: done\ndata: ${JSON.stringify(done)}\n\n`),
+    ]
+
+    return {
+      getReader: () => ({
+        read: async () =>
+          chunks.length > 0
+            ? { done: false, value: chunks.shift() }
+            : { done: true, value: undefined },
+      }),
+    }
+  }
+
   describe('Authentication', () => {
     it('should redirect to home when unauthenticated', async () => {
       mockUseSession.mockReturnValue({
@@ -341,7 +367,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -364,7 +390,7 @@ describe('ProjectDetailPage', () => {
 
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          '/api/projects/project123/chat',
+          '/api/projects/project123/chat/stream',
           {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -387,7 +413,7 @@ describe('ProjectDetailPage', () => {
                 () =>
                   resolve({
                     ok: true,
-                    json: async () => ({
+                    body: chatStreamBody({
                       requirements: [
                         {
                           id: 'req1',
@@ -429,7 +455,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -670,7 +696,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -699,7 +725,7 @@ describe('ProjectDetailPage', () => {
 
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          '/api/projects/project123/chat',
+          '/api/projects/project123/chat/stream',
           {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -721,7 +747,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -748,7 +774,7 @@ describe('ProjectDetailPage', () => {
 
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          '/api/projects/project123/chat',
+          '/api/projects/project123/chat/stream',
           {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -797,7 +823,7 @@ describe('ProjectDetailPage', () => {
                 () =>
                   resolve({
                     ok: true,
-                    json: async () => ({
+                    body: chatStreamBody({
                       requirements: [
                         {
                           id: 'req1',
@@ -845,7 +871,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -948,7 +974,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               {
                 id: 'req1',
@@ -977,7 +1003,7 @@ describe('ProjectDetailPage', () => {
 
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          '/api/projects/project123/chat',
+          '/api/projects/project123/chat/stream',
           expect.objectContaining({
             body: JSON.stringify({
               action: 'answer',
@@ -1076,7 +1102,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
+          body: chatStreamBody({
             requirements: [
               { id: 'req1', question: 'Q1', answer: 'A1', order: 0 },
               { id: 'req2', question: 'Q2', answer: null, order: 1 },
@@ -1148,6 +1174,115 @@ describe('ProjectDetailPage', () => {
       })
     })
 
+    it('should finish the chat early when the user is done', async () => {
+      const halfAnswered = {
+        ...mockProjectBase,
+        requirements: [
+          { id: 'req1', question: 'Q1', answer: 'A1', order: 0 },
+          { id: 'req2', question: 'Q2', answer: null, order: 1 },
+        ],
+      }
+
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: halfAnswered }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            requirements: [halfAnswered.requirements[0]],
+            completed: true,
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText("I'm done, generate now"))
+      })
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/projects/project123/chat',
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'finish' }),
+          }
+        )
+        expect(screen.getByText('Requirements Complete!')).toBeInTheDocument()
+      })
+    })
+
+    it('should fill the answer from a suggested answer', async () => {
+      const unanswered = {
+        ...mockProjectBase,
+        requirements: [
+          { id: 'req1', question: 'Q1', answer: 'A1', order: 0 },
+          { id: 'req2', question: 'Q2', answer: null, order: 1 },
+        ],
+      }
+
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: unanswered }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            suggestions: ['Card payments', 'Cash on pickup'],
+            fallbackUsed: false,
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Suggest answers'))
+      })
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/projects/project123/chat',
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'suggest', requirementId: 'req2' }),
+          }
+        )
+      })
+
+      fireEvent.click(await screen.findByText('Cash on pickup'))
+
+      expect(screen.getByPlaceholderText(/Type your answer/)).toHaveValue(
+        'Cash on pickup'
+      )
+    })
+
+    it('should treat skipped questions as settled', async () => {
+      const skipped = {
+        ...mockProjectBase,
+        requirements: [
+          { id: 'req1', question: 'Q1', answer: 'A1', order: 0 },
+          { id: 'req2', question: 'Q2', answer: null, skipped: true, order: 1 },
+        ],
+      }
+
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ project: skipped }),
+      })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Not sure — skipped')).toBeInTheDocument()
+        expect(screen.getByText('Requirements Complete!')).toBeInTheDocument()
+      })
+    })
+
     it('should generate tech stack recommendation when button clicked', async () => {
       const completedProject = {
         ...mockProjectBase,
@@ -1194,6 +1329,73 @@ describe('ProjectDetailPage', () => {
       })
     })
 
+    it('should check answers and show findings with their questions', async () => {
+      const completedProject = {
+        ...mockProjectBase,
+        requirements: [
+          {
+            id: 'req1',
+            question: 'Do users need accounts?',
+            answer: 'No',
+            order: 0,
+          },
+          {
+            id: 'req2',
+            question: 'What can users do?',
+            answer: 'Save favorites',
+            order: 1,
+          },
+        ],
+      }
+
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: completedProject }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            analysis: {
+              completeness: 70,
+              summary: 'One conflict to resolve.',
+              findings: [
+                {
+                  type: 'contradiction',
+                  severity: 'high',
+                  requirementIds: ['req1', 'req2'],
+                  message: 'Saving favorites needs accounts.',
+                  suggestion: 'Decide whether users sign in.',
+                },
+              ],
+            },
+            fallbackUsed: false,
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Check My Answers'))
+      })
+
+      await waitFor(() => {
+        expect(screen.getByText('70% complete')).toBeInTheDocument()
+        expect(screen.getByText('Contradiction')).toBeInTheDocument()
+        expect(
+          screen.getByText('Saving favorites needs accounts.')
+        ).toBeInTheDocument()
+        expect(screen.getByText('Q2: What can users do?')).toBeInTheDocument()
+      })
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/projects/project123/analyze-requirements',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    })
+
     it('should display tech stack recommendation', async () => {
       const projectWithStack = {
         ...mockProjectBase,
@@ -1307,6 +1509,15 @@ describe('ProjectDetailPage', () => {
         rationale: 'Great for your use case',
       }),
     }
+    // Generation job as returned by the generate route and /api/jobs/[id]
+    const generationJob = (overrides = {}) => ({
+      id: 'job1',
+      status: 'SUCCEEDED',
+      progressMessage: null,
+      error: null,
+      result: { repository: { url: 'https://github.com/user/test-project' } },
+      ...overrides,
+    })
 
     beforeEach(() => {
       mockUseSession.mockReturnValue({
@@ -1338,15 +1549,7 @@ describe('ProjectDetailPage', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({
-            project: {
-              ...projectWithStack,
-              repository: 'https://github.com/user/test-project',
-            },
-            repository: {
-              url: 'https://github.com/user/test-project',
-            },
-          }),
+          json: async () => ({ job: generationJob() }),
         })
 
       render(<ProjectDetailPage params={createMockParams('project123')} />)
@@ -1376,15 +1579,17 @@ describe('ProjectDetailPage', () => {
         .mockResolvedValueOnce({
           ok: true,
           json: async () => ({
-            project: {
-              ...projectWithStack,
-              repository: 'https://github.com/user/test-project',
-            },
-            repository: {
-              url: 'https://github.com/user/test-project',
-            },
+            job: generationJob({
+              status: 'QUEUED',
+              progressMessage: 'Generating project files',
+              result: null,
+            }),
           }),
         })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job: generationJob() }),
+        })
 
       render(<ProjectDetailPage params={createMockParams('project123')} />)
 
@@ -1398,6 +1603,8 @@ describe('ProjectDetailPage', () => {
           expect.stringContaining('https://github.com/user/test-project')
         )
       })
+      expect(global.fetch).toHaveBeenCalledWith('/api/jobs/job1')
+      expect(screen.getByText('View on GitHub →')).toBeInTheDocument()
     })
 
     it('should show GitHub link after generation', async () => {
@@ -1418,6 +1625,52 @@ describe('ProjectDetailPage', () => {
       })
     })
 
+    it('should regenerate an existing repository via pull request', async () => {
+      const generatedProject = {
+        ...projectWithStack,
+        repository: 'https://github.com/user/test-project',
+      }
+
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: generatedProject }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            job: generationJob({
+              result: {
+                repository: { url: 'https://github.com/user/test-project' },
+                pullRequest: {
+                  url: 'https://github.com/user/test-project/pull/2',
+                  number: 2,
+                },
+              },
+            }),
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Regenerate via Pull Request'))
+      })
+
+      await waitFor(() => {
+        expect(global.alert).toHaveBeenCalledWith(
+          expect.stringContaining('https://github.com/user/test-project/pull/2')
+        )
+      })
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/projects/project123/generate',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    })
+
     it('should show "Generating..." while generating project', async () => {
       ;(global.fetch as jest.Mock)
         .mockResolvedValueOnce({
@@ -1431,15 +1684,7 @@ describe('ProjectDetailPage', () => {
                 () =>
                   resolve({
                     ok: true,
-                    json: async () => ({
-                      project: {
-                        ...projectWithStack,
-                        repository: 'https://github.com/user/test-project',
-                      },
-                      repository: {
-                        url: 'https://github.com/user/test-project',
-                      },
-                    }),
+                    json: async () => ({ job: generationJob() }),
                   }),
                 100
               )
@@ -1466,6 +1711,43 @@ describe('ProjectDetailPage', () => {
       })
     })
 
+    it('should show the error of a generation job that failed', async () => {
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: projectWithStack }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            job: generationJob({ status: 'QUEUED', result: null }),
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            job: generationJob({
+              status: 'DEAD',
+              error: 'Repository "test-project" already exists',
+              result: null,
+            }),
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Generate Project on GitHub'))
+      })
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('Repository "test-project" already exists')
+        ).toBeInTheDocument()
+      })
+      expect(global.alert).not.toHaveBeenCalled()
+    })
+
     it('should handle error when generation fails', async () => {
       ;(global.fetch as jest.Mock)
         .mockResolvedValueOnce({
@@ -1488,6 +1770,263 @@ describe('ProjectDetailPage', () => {
         expect(screen.getByText('GitHub API error')).toBeInTheDocument()
       })
     })
+
+    it('should download the project as a ZIP archive', async () => {
+      const createObjectURL = jest.fn().mockReturnValue('blob:zip')
+      const revokeObjectURL = jest.fn()
+      Object.assign(URL, { createObjectURL, revokeObjectURL })
+      const click = jest
+        .spyOn(HTMLAnchorElement.prototype, 'click')
+        .mockImplementation(() => {})
+
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: projectWithStack }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({
+            'Content-Disposition': 'attachment; filename="test-project.zip"',
+          }),
+          blob: async () => new Blob(['zip']),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Download ZIP'))
+      })
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled()
+      })
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/projects/project123/export',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format: 'zip' }),
+        }
+      )
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:zip')
+
+      click.mockRestore()
+    })
+
+    describe('Preview', () => {
+      const preview = {
+        id: 'preview1',
+        templateId: 'nextjs-prisma',
+        files: [
+          { path: 'README.md', size: 7, excluded: false, edited: false },
+          {
+            path: 'src/app/page.tsx',
+            size: 40,
+            excluded: false,
+            edited: false,
+          },
+        ],
+        pushedAt: null,
+      }
+      const readme = {
+        path: 'README.md',
+        content: '# Shop\n',
+        excluded: false,
+        edited: false,
+      }
+
+      // Project load, preview generation and opening the first file
+      const mockPreviewFetches = () =>
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ project: projectWithStack }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ preview }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ previewId: 'preview1', file: readme }),
+          })
+
+      it('should list the generated files and open the first one', async () => {
+        mockPreviewFetches()
+
+        render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+        await waitFor(() => {
+          fireEvent.click(screen.getByText('Preview Files First'))
+        })
+
+        await waitFor(() => {
+          expect(screen.getByText('src/app/page.tsx')).toBeInTheDocument()
+          expect(screen.getByDisplayValue('# Shop')).toBeInTheDocument()
+        })
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/projects/project123/preview',
+          { method: 'POST' }
+        )
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/projects/project123/preview/files?path=README.md'
+        )
+      })
+
+      it('should save edits and push the reviewed files', async () => {
+        mockPreviewFetches()
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({
+              file: { ...readme, content: '# My Shop', edited: true },
+              validation: {
+                errors: [],
+                warnings: [],
+                securityIssues: ['Unsafe link'],
+              },
+            }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ job: generationJob() }),
+          })
+
+        render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+        await waitFor(() => {
+          fireEvent.click(screen.getByText('Preview Files First'))
+        })
+        await waitFor(() => {
+          fireEvent.change(screen.getByDisplayValue('# Shop'), {
+            target: { value: '# My Shop' },
+          })
+        })
+        fireEvent.click(screen.getByText('Save changes'))
+
+        await waitFor(() => {
+          expect(screen.getByText('edited')).toBeInTheDocument()
+          expect(screen.getByText('Unsafe link')).toBeInTheDocument()
+        })
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/projects/project123/preview/files',
+          {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: 'README.md', content: '# My Shop' }),
+          }
+        )
+
+        fireEvent.click(screen.getByText('Push 2 Files to GitHub'))
+
+        await waitFor(() => {
+          expect(global.fetch).toHaveBeenCalledWith(
+            '/api/projects/project123/generate',
+            {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ previewId: 'preview1' }),
+            }
+          )
+        })
+      })
+    })
+  })
+
+  describe('Generation History', () => {
+    const projectWithStack = {
+      ...mockProjectBase,
+      requirements: [{ id: 'req1', question: 'Q1', answer: 'A1', order: 0 }],
+      techStack: JSON.stringify({
+        stack: 'Next.js + Tailwind CSS + Prisma',
+        rationale: 'Great for your use case',
+      }),
+    }
+    const runs = [
+      {
+        id: 'run2',
+        trigger: 'PREVIEW',
+        outcome: 'SUCCEEDED',
+        durationMs: 2500,
+        templateId: 'nextjs',
+        error: null,
+        createdAt: '2026-01-02T00:00:00Z',
+        fileCount: 12,
+      },
+      {
+        id: 'run1',
+        trigger: 'EXPORT',
+        outcome: 'FAILED',
+        durationMs: 800,
+        templateId: null,
+        error: 'API error',
+        createdAt: '2026-01-01T00:00:00Z',
+        fileCount: 0,
+      },
+    ]
+
+    beforeEach(() => {
+      mockUseSession.mockReturnValue({
+        data: { user: { id: 'user123' } },
+        status: 'authenticated',
+      })
+    })
+
+    it('should list runs and compare the two selected', async () => {
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ project: projectWithStack }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ runs }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            diff: {
+              requirementsChanged: true,
+              techStackChanged: false,
+              promptVersionChanges: [],
+              files: [
+                {
+                  path: 'README.md',
+                  status: 'changed',
+                  patch:
+                    '--- a/README.md\n+++ b/README.md\n@@ -1,1 +1,1 @@\n-# App\n+# Shop\n',
+                },
+              ],
+            },
+          }),
+        })
+
+      render(<ProjectDetailPage params={createMockParams('project123')} />)
+
+      await waitFor(() => {
+        fireEvent.click(screen.getByText('Show history'))
+      })
+
+      await waitFor(() => {
+        expect(screen.getByText('12 files')).toBeInTheDocument()
+        expect(screen.getByText('Failed')).toBeInTheDocument()
+      })
+
+      fireEvent.click(screen.getByLabelText('Select run run2'))
+      fireEvent.click(screen.getByLabelText('Select run run1'))
+      fireEvent.click(screen.getByText('Compare runs'))
+
+      await waitFor(() => {
+        expect(screen.getByText('+# Shop')).toBeInTheDocument()
+      })
+      expect(
+        screen.getByText('Changed inputs: requirements')
+      ).toBeInTheDocument()
+      // Older run first
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        '/api/projects/project123/runs/diff?from=run1&to=run2'
+      )
+    })
   })
 
   describe('Deployment', () => {
@@ -0,0 +1,321 @@
+import {
+  __clearAICacheStorage,
+  aiCacheKey,
+  evictCachedCompletion,
+  getCachedCompletion,
+  purgeExpiredCompletions,
+  setCachedCompletion,
+  wantsFreshResponse,
+} from '@/lib/ai-cache'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aiCacheEntry: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { warn: jest.fn() },
+}))
+
+jest.mock('@/lib/llm-provider', () => ({
+  getLLMProvider: () => ({
+    name: 'anthropic',
+    model: 'claude-sonnet-4-20250514',
+  }),
+}))
+
+const mockFindUnique = prisma.aiCacheEntry.findUnique as jest.Mock
+const mockUpsert = prisma.aiCacheEntry.upsert as jest.Mock
+const mockDeleteMany = prisma.aiCacheEntry.deleteMany as jest.Mock
+const mockFetch = global.fetch as jest.Mock
+
+const request = {
+  operation: 'readme' as const,
+  prompt: 'Generate a README',
+  maxTokens: 2048,
+  promptVersion: 'readme@2',
+}
+const result = {
+  text: '# My App',
+  provider: 'anthropic' as const,
+  model: 'claude-sonnet-4-20250514',
+  usage: { inputTokens: 100, outputTokens: 200 },
+}
+
+describe('AI Response Cache', () => {
+  const originalEnv = { ...process.env }
+
+  function useStore(store: string) {
+    process.env.AI_CACHE = store
+    __clearAICacheStorage()
+  }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    __clearAICacheStorage()
+    jest.useRealTimers()
+    jest.clearAllMocks()
+  })
+
+  describe('aiCacheKey', () => {
+    it('should be a stable SHA-256 of the request identity', () => {
+      const key = aiCacheKey('anthropic', 'claude-sonnet-4-20250514', request)
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/)
+      expect(aiCacheKey('anthropic', 'claude-sonnet-4-20250514', request)).toBe(
+        key
+      )
+    })
+
+    it.each([
+      [
+        'provider',
+        () => aiCacheKey('openai', 'claude-sonnet-4-20250514', request),
+      ],
+      ['model', () => aiCacheKey('anthropic', 'claude-opus-4', request)],
+      [
+        'prompt version',
+        () =>
+          aiCacheKey('anthropic', 'claude-sonnet-4-20250514', {
+            ...request,
+            promptVersion: 'readme@1',
+          }),
+      ],
+      [
+        'input',
+        () =>
+          aiCacheKey('anthropic', 'claude-sonnet-4-20250514', {
+            ...request,
+            prompt: 'Generate a different README',
+          }),
+      ],
+    ])('should change with the %s', (_, otherKey) => {
+      expect(otherKey()).not.toBe(
+        aiCacheKey('anthropic', 'claude-sonnet-4-20250514', request)
+      )
+    })
+  })
+
+  describe('memory store', () => {
+    beforeEach(() => useStore('memory'))
+
+    it('should return stored responses until they expire', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-01-15T12:00:00Z'))
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toEqual(result)
+
+      // readme responses live for 7 days
+      jest.setSystemTime(new Date('2025-01-22T12:00:01Z'))
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toBeNull()
+    })
+
+    it('should return responses of a fallback model for the primary model', async () => {
+      const fallbackResult = { ...result, model: 'claude-3-5-haiku-20241022' }
+      await setCachedCompletion(
+        result.provider,
+        result.model,
+        request,
+        fallbackResult
+      )
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toEqual(fallbackResult)
+    })
+
+    it('should forget evicted responses', async () => {
+      await setCachedCompletion(result.provider, result.model, request, result)
+      await evictCachedCompletion(request)
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toBeNull()
+    })
+
+    it('should evict the least recently used response when full', async () => {
+      const prompt = (index: number) => ({ ...request, prompt: `p${index}` })
+      for (let index = 0; index < 500; index++) {
+        await setCachedCompletion(
+          result.provider,
+          result.model,
+          prompt(index),
+          result
+        )
+      }
+
+      // Reading the oldest entry makes the second oldest the next to go
+      await getCachedCompletion(result.provider, result.model, prompt(0))
+      await setCachedCompletion(
+        result.provider,
+        result.model,
+        prompt(500),
+        result
+      )
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, prompt(0))
+      ).resolves.toEqual(result)
+      await expect(
+        getCachedCompletion(result.provider, result.model, prompt(1))
+      ).resolves.toBeNull()
+      await expect(
+        getCachedCompletion(result.provider, result.model, prompt(500))
+      ).resolves.toEqual(result)
+    })
+  })
+
+  describe('postgres store', () => {
+    beforeEach(() => useStore('postgres'))
+
+    it('should upsert entries keyed by content hash', async () => {
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      const key = aiCacheKey(result.provider, result.model, request)
+      expect(mockUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key },
+          create: expect.objectContaining({
+            key,
+            promptVersion: 'readme@2',
+            text: '# My App',
+            expiresAt: expect.any(Date),
+          }),
+        })
+      )
+    })
+
+    it('should treat store failures as misses', async () => {
+      mockFindUnique.mockRejectedValue(new Error('DB down'))
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toBeNull()
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AI cache read failed',
+        expect.objectContaining({ operation: 'ai_cache' })
+      )
+    })
+
+    it('should purge expired rows', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-01-15T12:00:00Z'))
+      mockDeleteMany.mockResolvedValue({ count: 4 })
+
+      await expect(purgeExpiredCompletions()).resolves.toBe(4)
+      expect(mockDeleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: new Date('2025-01-15T12:00:00Z') } },
+      })
+    })
+
+    it('should log purge failures instead of throwing', async () => {
+      mockDeleteMany.mockRejectedValue(new Error('DB down'))
+
+      await expect(purgeExpiredCompletions()).resolves.toBe(0)
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AI cache purge failed',
+        expect.objectContaining({ operation: 'ai_cache' })
+      )
+    })
+  })
+
+  describe('redis store', () => {
+    beforeEach(() => {
+      process.env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com/'
+      process.env.UPSTASH_REDIS_REST_TOKEN = 'token'
+      useStore('')
+    })
+
+    it('should be the default when Upstash is configured', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => [{ result: 'OK' }],
+      })
+
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      const [url, init] = mockFetch.mock.calls[0]
+      const [command] = JSON.parse(init.body)
+      expect(url).toBe('https://redis.example.com/pipeline')
+      expect(command[0]).toBe('SET')
+      expect(command.slice(3)).toEqual(['PX', String(7 * 24 * 60 * 60 * 1000)])
+    })
+  })
+
+  describe('misconfiguration', () => {
+    it('should fall back to memory for unknown stores', async () => {
+      useStore('mongo')
+
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toEqual(result)
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown AI_CACHE "mongo"'),
+        expect.objectContaining({ operation: 'ai_cache' })
+      )
+    })
+
+    it('should fall back to memory when redis has no credentials', async () => {
+      delete process.env.UPSTASH_REDIS_REST_URL
+      delete process.env.UPSTASH_REDIS_REST_TOKEN
+      useStore('redis')
+
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toEqual(result)
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('required when AI_CACHE=redis'),
+        expect.objectContaining({ operation: 'ai_cache' })
+      )
+    })
+  })
+
+  describe('off', () => {
+    beforeEach(() => useStore('off'))
+
+    it('should never store or return responses', async () => {
+      await setCachedCompletion(result.provider, result.model, request, result)
+
+      await expect(
+        getCachedCompletion(result.provider, result.model, request)
+      ).resolves.toBeNull()
+      expect(mockUpsert).not.toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('wantsFreshResponse', () => {
+    it('should detect Cache-Control: no-cache', () => {
+      const withHeaders = (values: Record<string, string>) => ({
+        headers: {
+          get: (name: string) =>
+            new Map(Object.entries(values)).get(name) ?? null,
+        },
+      })
+
+      expect(
+        wantsFreshResponse(
+          withHeaders({ 'cache-control': 'no-cache, max-age=0' })
+        )
+      ).toBe(true)
+      expect(wantsFreshResponse(withHeaders({}))).toBe(false)
+      expect(wantsFreshResponse({})).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,249 @@
+import {
+  AITimeoutError,
+  AIUnavailableError,
+  getCircuitStatuses,
+  getProviderChain,
+  isRetryableError,
+  resilientComplete,
+  resilientStream,
+  __resetCircuitBreakers,
+} from '@/lib/ai-resilience'
+import { ProviderRequestError } from '@/lib/llm-provider'
+
+const primary = {
+  name: 'anthropic',
+  model: 'claude-sonnet-4-20250514',
+  complete: jest.fn(),
+  stream: jest.fn(),
+}
+const fallback = {
+  name: 'openai',
+  model: 'gpt-4o-mini',
+  complete: jest.fn(),
+  stream: jest.fn(),
+}
+
+jest.mock('@/lib/llm-provider', () => ({
+  ...jest.requireActual('@/lib/llm-provider'),
+  getLLMProvider: () => primary,
+  createLLMProvider: (name: string, model?: string) => ({
+    ...fallback,
+    name,
+    model: model ?? fallback.model,
+  }),
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { warn: jest.fn(), error: jest.fn() },
+}))
+
+const request = { operation: 'stack' as const, prompt: 'p', maxTokens: 512 }
+const result = {
+  text: 'ok',
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-20250514',
+  usage: { inputTokens: 1, outputTokens: 1 },
+}
+const overloaded = new ProviderRequestError('Overloaded', 529)
+
+describe('AI Resilience', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    __resetCircuitBreakers()
+    process.env = {
+      ...originalEnv,
+      AI_RETRY_BASE_DELAY_MS: '0',
+      AI_FALLBACK_MODELS: '',
+    }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('isRetryableError', () => {
+    it('should retry timeouts, rate limits, server errors and dropped connections', () => {
+      expect(isRetryableError(new AITimeoutError(10))).toBe(true)
+      expect(isRetryableError(new ProviderRequestError('Busy', 429))).toBe(true)
+      expect(isRetryableError(overloaded)).toBe(true)
+      expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+
+      const connection = new Error('Connection error.')
+      connection.name = 'APIConnectionError'
+      expect(isRetryableError(connection)).toBe(true)
+    })
+
+    it('should not retry bad requests or unknown errors', () => {
+      expect(isRetryableError(new ProviderRequestError('Bad', 400))).toBe(false)
+      expect(isRetryableError(new ProviderRequestError('Key', 401))).toBe(false)
+      expect(isRetryableError(new Error('Unexpected response'))).toBe(false)
+    })
+  })
+
+  describe('getProviderChain', () => {
+    it('should append fallback models after the configured one', () => {
+      process.env.AI_FALLBACK_MODELS =
+        'anthropic:claude-3-5-haiku-20241022, openai, anthropic:claude-sonnet-4-20250514'
+
+      const chain = getProviderChain()
+
+      expect(chain.map(p => `${p.name}:${p.model}`)).toEqual([
+        'anthropic:claude-sonnet-4-20250514',
+        'anthropic:claude-3-5-haiku-20241022',
+        'openai:gpt-4o-mini',
+      ])
+    })
+  })
+
+  describe('resilientComplete', () => {
+    it('should retry retryable errors with the same model', async () => {
+      primary.complete
+        .mockRejectedValueOnce(overloaded)
+        .mockResolvedValueOnce(result)
+
+      await expect(resilientComplete(request)).resolves.toBe(result)
+      expect(primary.complete).toHaveBeenCalledTimes(2)
+    })
+
+    it('should throw other errors without retrying', async () => {
+      primary.complete.mockRejectedValue(new Error('Invalid API key'))
+
+      await expect(resilientComplete(request)).rejects.toThrow(
+        'Invalid API key'
+      )
+      expect(primary.complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('should move on to the fallback model once retries run out', async () => {
+      process.env.AI_FALLBACK_MODELS = 'openai:gpt-4o-mini'
+      process.env.AI_MAX_RETRIES = '1'
+      primary.complete.mockRejectedValue(overloaded)
+      fallback.complete.mockResolvedValue({ ...result, provider: 'openai' })
+
+      const response = await resilientComplete(request)
+
+      expect(response.provider).toBe('openai')
+      expect(primary.complete).toHaveBeenCalledTimes(2)
+      expect(fallback.complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('should time out slow calls', async () => {
+      process.env.AI_TIMEOUT_MS = '10'
+      process.env.AI_MAX_RETRIES = '0'
+      primary.complete.mockReturnValue(new Promise(() => {}))
+
+      await expect(resilientComplete(request)).rejects.toThrow(
+        AIUnavailableError
+      )
+      expect(getCircuitStatuses()[0].failures).toBe(1)
+    })
+
+    it('should abort calls that time out', async () => {
+      process.env.AI_TIMEOUT_MS = '10'
+      process.env.AI_MAX_RETRIES = '0'
+      primary.complete.mockReturnValue(new Promise(() => {}))
+
+      await expect(resilientComplete(request)).rejects.toThrow(
+        AIUnavailableError
+      )
+      const { signal } = primary.complete.mock.calls[0][0]
+      expect(signal.aborted).toBe(true)
+      expect(signal.reason).toBeInstanceOf(AITimeoutError)
+    })
+
+    it('should open the circuit after repeated failures', async () => {
+      process.env.AI_CIRCUIT_FAILURE_THRESHOLD = '3'
+      primary.complete.mockRejectedValue(overloaded)
+
+      await expect(resilientComplete(request)).rejects.toThrow(
+        AIUnavailableError
+      )
+      expect(getCircuitStatuses()).toEqual([
+        expect.objectContaining({
+          provider: 'anthropic',
+          state: 'open',
+          failures: 3,
+        }),
+      ])
+
+      // Refused without calling the provider while open
+      await expect(resilientComplete(request)).rejects.toThrow(
+        AIUnavailableError
+      )
+      expect(primary.complete).toHaveBeenCalledTimes(3)
+    })
+
+    it('should close the circuit after a successful trial call', async () => {
+      process.env.AI_CIRCUIT_FAILURE_THRESHOLD = '1'
+      process.env.AI_CIRCUIT_RESET_MS = '1000'
+      process.env.AI_MAX_RETRIES = '0'
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+      primary.complete.mockRejectedValueOnce(overloaded)
+
+      await expect(resilientComplete(request)).rejects.toThrow(
+        AIUnavailableError
+      )
+      expect(getCircuitStatuses()[0].state).toBe('open')
+
+      now.mockReturnValue(1000)
+      expect(getCircuitStatuses()[0].state).toBe('half-open')
+      primary.complete.mockResolvedValueOnce(result)
+
+      await expect(resilientComplete(request)).resolves.toBe(result)
+      expect(getCircuitStatuses()[0]).toMatchObject({
+        state: 'closed',
+        failures: 0,
+      })
+      now.mockRestore()
+    })
+  })
+
+  describe('resilientStream', () => {
+    it('should retry when no tokens were sent yet', async () => {
+      const onToken = jest.fn()
+      primary.stream
+        .mockRejectedValueOnce(overloaded)
+        .mockImplementationOnce(async (_request, handler) => {
+          handler('ok')
+          return result
+        })
+
+      await expect(resilientStream(request, onToken)).resolves.toBe(result)
+      expect(onToken).toHaveBeenCalledWith('ok')
+      expect(primary.stream).toHaveBeenCalledTimes(2)
+    })
+
+    it('should drop tokens of an attempt that timed out', async () => {
+      process.env.AI_TIMEOUT_MS = '10'
+      const onToken = jest.fn()
+      primary.stream
+        .mockImplementationOnce((streamRequest, handler) => {
+          // A late first token, arriving while the retry is pending
+          streamRequest.signal.addEventListener('abort', () => handler('late'))
+          return new Promise(() => {})
+        })
+        .mockImplementationOnce(async (_request, handler) => {
+          handler('ok')
+          return result
+        })
+
+      await expect(resilientStream(request, onToken)).resolves.toBe(result)
+      expect(onToken).toHaveBeenCalledTimes(1)
+      expect(onToken).toHaveBeenCalledWith('ok')
+    })
+
+    it('should not retry once tokens were sent', async () => {
+      const onToken = jest.fn()
+      primary.stream.mockImplementation(async (_request, handler) => {
+        handler('partial')
+        throw overloaded
+      })
+
+      await expect(resilientStream(request, onToken)).rejects.toBe(overloaded)
+      expect(primary.stream).toHaveBeenCalledTimes(1)
+      expect(onToken).toHaveBeenCalledTimes(1)
+    })
+  })
+})
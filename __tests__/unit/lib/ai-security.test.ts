@@ -3,6 +3,14 @@
  * Tests critical security fixes implemented
  */
 
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aiUsage: {
+      create: jest.fn(),
+    },
+  },
+}))
+
 describe('AI Security Tests', () => {
   // Store original env
   const originalEnv = process.env.ANTHROPIC_API_KEY
@@ -0,0 +1,153 @@
+import { z } from 'zod'
+import {
+  completeStructured,
+  createJsonStringArrayParser,
+  parseStructuredOutput,
+  stripCodeFences,
+} from '@/lib/ai-structured'
+import { ProviderRequestError } from '@/lib/llm-provider'
+
+const mockComplete = jest.fn()
+
+jest.mock('@/lib/llm-provider', () => ({
+  ...jest.requireActual('@/lib/llm-provider'),
+  getLLMProvider: () => ({
+    name: 'fake',
+    model: 'fake-model',
+    complete: mockComplete,
+  }),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aiUsage: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { warn: jest.fn(), error: jest.fn() },
+}))
+
+const schema = z.object({ title: z.string().min(1) })
+
+describe('AI Structured Output', () => {
+  describe('stripCodeFences', () => {
+    it('should remove json code fences', () => {
+      expect(stripCodeFences('```json\n{"a":1}\n```')).toBe('{"a":1}')
+    })
+
+    it('should remove bare code fences', () => {
+      expect(stripCodeFences('```\n[1, 2]\n```')).toBe('[1, 2]')
+    })
+
+    it('should leave unfenced text untouched', () => {
+      expect(stripCodeFences('  {"a":1}  ')).toBe('{"a":1}')
+    })
+  })
+
+  describe('parseStructuredOutput', () => {
+    it('should parse valid output', () => {
+      expect(parseStructuredOutput('{"title":"Hi"}', schema)).toEqual({
+        success: true,
+        data: { title: 'Hi' },
+      })
+    })
+
+    it('should report invalid JSON', () => {
+      const result = parseStructuredOutput('not json', schema)
+      expect(result.success).toBe(false)
+      expect(!result.success && result.error).toContain('not valid JSON')
+    })
+
+    it('should report schema mismatches with the failing path', () => {
+      const result = parseStructuredOutput('{"title":""}', schema)
+      expect(result.success).toBe(false)
+      expect(!result.success && result.error).toContain('title:')
+    })
+  })
+
+  describe('completeStructured', () => {
+    const baseOptions = {
+      operation: 'stack' as const,
+      prompt: 'Give me a title',
+      maxTokens: 100,
+      schema,
+      fallback: { title: 'Fallback' },
+    }
+
+    it('should return data on first success', async () => {
+      mockComplete.mockResolvedValue({ text: '{"title":"First"}' })
+
+      const result = await completeStructured(baseOptions)
+
+      expect(result).toEqual({
+        data: { title: 'First' },
+        fallbackUsed: false,
+        attempts: 1,
+      })
+    })
+
+    it('should respect maxRetries before falling back', async () => {
+      mockComplete.mockResolvedValue({ text: '{}' })
+
+      const result = await completeStructured({ ...baseOptions, maxRetries: 1 })
+
+      expect(result).toEqual({
+        data: { title: 'Fallback' },
+        fallbackUsed: true,
+        attempts: 2,
+      })
+      expect(mockComplete).toHaveBeenCalledTimes(2)
+    })
+
+    it('should propagate provider errors without retrying', async () => {
+      mockComplete.mockRejectedValue(new Error('Network down'))
+
+      await expect(completeStructured(baseOptions)).rejects.toThrow(
+        'Network down'
+      )
+      expect(mockComplete).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use the fallback while the AI service is unavailable', async () => {
+      process.env.AI_MAX_RETRIES = '0'
+      mockComplete.mockRejectedValue(
+        new ProviderRequestError('Overloaded', 529)
+      )
+
+      const result = await completeStructured(baseOptions)
+      delete process.env.AI_MAX_RETRIES
+
+      expect(result).toEqual({
+        data: { title: 'Fallback' },
+        fallbackUsed: true,
+        attempts: 1,
+      })
+    })
+  })
+
+  describe('createJsonStringArrayParser', () => {
+    it('should emit items as they close across arbitrary chunk splits', () => {
+      const items: string[] = []
+      const parser = createJsonStringArrayParser(item => items.push(item))
+
+      parser.push('```json\n["Fir')
+      expect(items).toEqual([])
+      parser.push('st", "Sec')
+      expect(items).toEqual(['First'])
+      parser.push('ond"]\n```')
+      expect(items).toEqual(['First', 'Second'])
+    })
+
+    it('should handle escaped quotes and skip blank items', () => {
+      const items: string[] = []
+      const parser = createJsonStringArrayParser(item => items.push(item))
+
+      parser.push('["Say \\"hi\\"", "  ", "Done"]')
+
+      expect(items).toEqual(['Say "hi"', 'Done'])
+    })
+  })
+})
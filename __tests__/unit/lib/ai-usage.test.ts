@@ -0,0 +1,306 @@
+import {
+  estimateCost,
+  getUsageSummary,
+  meteredComplete,
+  meteredStream,
+  recordAIUsage,
+} from '@/lib/ai-usage'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getCachedCompletion, setCachedCompletion } from '@/lib/ai-cache'
+
+const mockComplete = jest.fn()
+const mockStream = jest.fn()
+
+jest.mock('@/lib/llm-provider', () => ({
+  getLLMProvider: () => ({
+    name: 'anthropic',
+    model: 'claude-sonnet-4-20250514',
+    complete: mockComplete,
+    stream: mockStream,
+  }),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aiUsage: {
+      create: jest.fn(),
+      aggregate: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    project: {
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { error: jest.fn() },
+}))
+
+jest.mock('@/lib/ai-cache', () => ({
+  getCachedCompletion: jest.fn(),
+  setCachedCompletion: jest.fn(),
+}))
+
+const mockCreate = prisma.aiUsage.create as jest.Mock
+const mockAggregate = prisma.aiUsage.aggregate as jest.Mock
+const mockGroupBy = prisma.aiUsage.groupBy as jest.Mock
+const mockProjectFindMany = prisma.project.findMany as jest.Mock
+const mockQueryRaw = prisma.$queryRaw as jest.Mock
+const mockGetCached = getCachedCompletion as jest.Mock
+const mockSetCached = setCachedCompletion as jest.Mock
+
+const request = { operation: 'stack' as const, prompt: 'p', maxTokens: 512 }
+const result = {
+  text: '{}',
+  provider: 'anthropic' as const,
+  model: 'claude-sonnet-4-20250514',
+  usage: { inputTokens: 1000, outputTokens: 500 },
+}
+
+describe('AI Usage Ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('estimateCost', () => {
+    it('should price tokens using the matching model prefix', () => {
+      // 1000 * $3/M + 500 * $15/M
+      expect(estimateCost('claude-sonnet-4-20250514', result.usage)).toBe(
+        0.0105
+      )
+    })
+
+    it('should prefer the more specific prefix', () => {
+      expect(
+        estimateCost('gpt-4o-mini', { inputTokens: 1e6, outputTokens: 0 })
+      ).toBe(0.15)
+    })
+
+    it('should cost unknown models at zero', () => {
+      expect(estimateCost('fake', result.usage)).toBe(0)
+    })
+  })
+
+  describe('recordAIUsage', () => {
+    it('should persist the call with its attribution and cost', async () => {
+      await recordAIUsage(request, result, {
+        userId: 'user123',
+        projectId: 'project123',
+      })
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          userId: 'user123',
+          projectId: 'project123',
+          operation: 'stack',
+          provider: 'anthropic',
+          model: 'claude-sonnet-4-20250514',
+          inputTokens: 1000,
+          outputTokens: 500,
+          costUsd: 0.0105,
+        },
+      })
+    })
+
+    it('should log instead of throwing when the write fails', async () => {
+      mockCreate.mockRejectedValue(new Error('DB down'))
+
+      await expect(recordAIUsage(request, result)).resolves.toBeUndefined()
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to record AI usage',
+        expect.objectContaining({ operation: 'ai_stack' })
+      )
+    })
+  })
+
+  describe('metered calls', () => {
+    it('should record completions', async () => {
+      mockComplete.mockResolvedValue(result)
+
+      await expect(
+        meteredComplete(request, { userId: 'user123' })
+      ).resolves.toBe(result)
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user123', projectId: null }),
+      })
+    })
+
+    it('should serve cache hits without calling or billing the provider', async () => {
+      mockGetCached.mockResolvedValueOnce(result)
+
+      await expect(meteredComplete(request)).resolves.toBe(result)
+      expect(mockGetCached).toHaveBeenCalledWith(
+        'anthropic',
+        'claude-sonnet-4-20250514',
+        request
+      )
+      expect(mockComplete).not.toHaveBeenCalled()
+      expect(mockCreate).not.toHaveBeenCalled()
+    })
+
+    it('should skip the cache lookup but refresh the entry when bypassed', async () => {
+      mockComplete.mockResolvedValue(result)
+
+      await meteredComplete(request, { bypassCache: true })
+
+      expect(mockGetCached).not.toHaveBeenCalled()
+      expect(mockComplete).toHaveBeenCalledWith({
+        ...request,
+        signal: expect.any(AbortSignal),
+      })
+      expect(mockSetCached).toHaveBeenCalledWith(
+        'anthropic',
+        'claude-sonnet-4-20250514',
+        request,
+        result
+      )
+    })
+
+    it('should cache fallback responses under the primary model', async () => {
+      const fallbackResult = { ...result, model: 'claude-3-5-haiku-20241022' }
+      mockComplete.mockResolvedValue(fallbackResult)
+
+      await meteredComplete(request)
+
+      expect(mockSetCached).toHaveBeenCalledWith(
+        'anthropic',
+        'claude-sonnet-4-20250514',
+        request,
+        fallbackResult
+      )
+    })
+
+    it('should record streams', async () => {
+      const onToken = jest.fn()
+      mockStream.mockImplementation(async (_request, handler) => {
+        handler('{')
+        return result
+      })
+
+      await meteredStream(request, onToken)
+
+      expect(mockStream).toHaveBeenCalledWith(
+        { ...request, signal: expect.any(AbortSignal) },
+        expect.any(Function)
+      )
+      expect(onToken).toHaveBeenCalledWith('{')
+      expect(mockCreate).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not record failed calls', async () => {
+      mockComplete.mockRejectedValue(new Error('rate limited'))
+
+      await expect(meteredComplete(request)).rejects.toThrow('rate limited')
+      expect(mockCreate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getUsageSummary', () => {
+    it('should combine totals, per-project and per-day usage', async () => {
+      const since = new Date('2025-01-01T00:00:00Z')
+      mockAggregate.mockResolvedValue({
+        _count: { _all: 3 },
+        _sum: { inputTokens: 3000, outputTokens: 900, costUsd: '0.0225' },
+      })
+      mockGroupBy.mockResolvedValue([
+        {
+          projectId: 'project123',
+          _count: { _all: 2 },
+          _sum: { inputTokens: 2000, outputTokens: 800, costUsd: '0.018' },
+        },
+        {
+          projectId: null,
+          _count: { _all: 1 },
+          _sum: { inputTokens: 1000, outputTokens: 100, costUsd: '0.0045' },
+        },
+      ])
+      mockProjectFindMany.mockResolvedValue([
+        { id: 'project123', name: 'My App' },
+      ])
+      mockQueryRaw.mockResolvedValue([
+        {
+          day: new Date('2025-01-02T00:00:00Z'),
+          calls: 3,
+          inputTokens: BigInt(3000),
+          outputTokens: BigInt(900),
+          costUsd: '0.0225',
+        },
+      ])
+
+      const summary = await getUsageSummary('user123', { since })
+
+      expect(summary).toEqual({
+        since: '2025-01-01T00:00:00.000Z',
+        totals: {
+          calls: 3,
+          inputTokens: 3000,
+          outputTokens: 900,
+          costUsd: 0.0225,
+        },
+        byProject: [
+          {
+            projectId: 'project123',
+            projectName: 'My App',
+            calls: 2,
+            inputTokens: 2000,
+            outputTokens: 800,
+            costUsd: 0.018,
+          },
+          {
+            projectId: null,
+            projectName: null,
+            calls: 1,
+            inputTokens: 1000,
+            outputTokens: 100,
+            costUsd: 0.0045,
+          },
+        ],
+        byDay: [
+          {
+            date: '2025-01-02',
+            calls: 3,
+            inputTokens: 3000,
+            outputTokens: 900,
+            costUsd: 0.0225,
+          },
+        ],
+      })
+      expect(mockAggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user123', createdAt: { gte: since } },
+        })
+      )
+      // createdAt is stored as UTC without a zone, so it is truncated as is
+      const [sql] = mockQueryRaw.mock.calls[0]
+      expect(sql.join('')).toContain(`date_trunc('day', "createdAt") AS "day"`)
+    })
+
+    it('should scope every query to the requested project', async () => {
+      mockAggregate.mockResolvedValue({ _count: { _all: 0 }, _sum: {} })
+      mockGroupBy.mockResolvedValue([])
+      mockQueryRaw.mockResolvedValue([])
+
+      const summary = await getUsageSummary('user123', {
+        since: new Date(),
+        projectId: 'project123',
+      })
+
+      expect(mockGroupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ projectId: 'project123' }),
+        })
+      )
+      expect(mockQueryRaw.mock.calls[0]).toContain('project123')
+      expect(mockProjectFindMany).not.toHaveBeenCalled()
+      expect(summary.totals).toEqual({
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+      })
+    })
+  })
+})
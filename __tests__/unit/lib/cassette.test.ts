@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  CassetteMissError,
+  REDACTED,
+  cassetteFetch,
+  getCassetteMode,
+  scrubSecrets,
+  __resetCassettes,
+} from '@/lib/cassette'
+
+const mockFetch = jest.fn()
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', 'x-request-id': 'abc' },
+  })
+}
+
+describe('Cassettes', () => {
+  const originalEnv = process.env
+  const originalFetch = global.fetch
+  let dir: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    __resetCassettes()
+    dir = mkdtempSync(path.join(os.tmpdir(), 'cassettes-'))
+    process.env = {
+      ...originalEnv,
+      CASSETTE_DIR: dir,
+      CASSETTE_NAME: 'flow',
+      VERCEL_TEST_TOKEN: 'vercel-secret-value',
+    }
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+    global.fetch = originalFetch
+  })
+
+  function readCassette() {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    return JSON.parse(readFileSync(path.join(dir, 'flow.json'), 'utf8'))
+  }
+
+  describe('getCassetteMode', () => {
+    it('should default to off and reject unknown modes', () => {
+      delete process.env.CASSETTE_MODE
+      expect(getCassetteMode()).toBe('off')
+
+      process.env.CASSETTE_MODE = 'rewind'
+      expect(() => getCassetteMode()).toThrow('Unknown CASSETTE_MODE "rewind"')
+    })
+  })
+
+  describe('scrubSecrets', () => {
+    it('should redact secret fields, token formats and secret env values', () => {
+      expect(
+        scrubSecrets({
+          accessToken: 'abc',
+          max_tokens: 512,
+          note: 'key sk-ant-api03-abcdef and vercel-secret-value',
+          nested: [{ client_secret: 'xyz', name: 'app' }],
+        })
+      ).toEqual({
+        accessToken: REDACTED,
+        max_tokens: 512,
+        note: `key ${REDACTED} and ${REDACTED}`,
+        nested: [{ client_secret: REDACTED, name: 'app' }],
+      })
+    })
+  })
+
+  it('should use plain fetch when off', async () => {
+    process.env.CASSETTE_MODE = 'off'
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true }))
+
+    await cassetteFetch('vercel')('https://api.vercel.com/v2/user')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.vercel.com/v2/user',
+      undefined
+    )
+  })
+
+  it('should record scrubbed exchanges and replay them offline', async () => {
+    process.env.CASSETTE_MODE = 'record'
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ state: 'BUILDING' }))
+      .mockResolvedValueOnce(
+        jsonResponse({ state: 'READY', token: 'vercel-secret-value' })
+      )
+
+    const vercelFetch = cassetteFetch('vercel')
+    const init = {
+      method: 'GET',
+      headers: { Authorization: 'Bearer vercel-secret-value' },
+    }
+    const first = await vercelFetch('https://api.vercel.com/v13/d/1', init)
+    await vercelFetch('https://api.vercel.com/v13/d/1', init)
+
+    // The caller still gets the real body
+    expect(await first.json()).toEqual({ state: 'BUILDING' })
+
+    const cassette = readCassette()
+    expect(cassette.interactions).toHaveLength(2)
+    expect(cassette.interactions[0]).toMatchObject({
+      service: 'vercel',
+      request: { method: 'GET', url: 'https://api.vercel.com/v13/d/1' },
+      response: {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      },
+    })
+    const saved = JSON.stringify(cassette)
+    expect(saved).not.toContain('vercel-secret-value')
+    expect(saved).not.toContain('x-request-id')
+
+    // Replay: no network, recorded order, last response repeats
+    __resetCassettes()
+    process.env.CASSETTE_MODE = 'replay'
+    mockFetch.mockReset()
+
+    const states = []
+    for (let i = 0; i < 3; i++) {
+      const response = await vercelFetch('https://api.vercel.com/v13/d/1', {
+        method: 'GET',
+      })
+      states.push((await response.json()).state)
+    }
+
+    expect(states).toEqual(['BUILDING', 'READY', 'READY'])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should match requests on their body', async () => {
+    process.env.CASSETTE_MODE = 'record'
+    mockFetch.mockImplementation(async (_url, init) =>
+      jsonResponse({ echo: JSON.parse(init.body).name })
+    )
+
+    const githubFetch = cassetteFetch('github')
+    for (const name of ['one', 'two']) {
+      await githubFetch('https://api.github.com/user/repos', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      })
+    }
+
+    __resetCassettes()
+    process.env.CASSETTE_MODE = 'replay'
+
+    const response = await githubFetch('https://api.github.com/user/repos', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'two' }),
+    })
+
+    expect(await response.json()).toEqual({ echo: 'two' })
+    await expect(
+      githubFetch('https://api.github.com/user/repos', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'three' }),
+      })
+    ).rejects.toThrow(CassetteMissError)
+  })
+})
@@ -0,0 +1,135 @@
+import {
+  MAX_REPAIR_ATTEMPTS,
+  settleGeneratedFile,
+  type GeneratedFile,
+} from '@/lib/code-repair'
+import { evictCachedCompletion } from '@/lib/ai-cache'
+
+// Mock metered calls to the configured LLM provider
+const mockComplete = jest.fn()
+
+jest.mock('@/lib/ai-usage', () => ({
+  meteredComplete: (...args: unknown[]) => mockComplete(...args),
+}))
+
+jest.mock('@/lib/ai-cache', () => ({
+  evictCachedCompletion: jest.fn(),
+}))
+
+const SAFE_PAGE = 'export default function Home() { return <main>Hi</main> }'
+const UNSAFE_PAGE =
+  'export default function Home() { return <div dangerouslySetInnerHTML={{ __html: "x" }} /> }'
+const FALLBACK_PAGE =
+  'export default function Home() { return <main>Fallback</main> }'
+
+const file = (overrides: Partial<GeneratedFile> = {}): GeneratedFile => ({
+  path: 'src/app/page.tsx',
+  operation: 'homepage',
+  fileKind: 'Next.js 14 page',
+  content: SAFE_PAGE,
+  promptVersion: 'homepage@4',
+  fallback: FALLBACK_PAGE,
+  discard: jest.fn(),
+  ...overrides,
+})
+
+describe('Code Repair', () => {
+  beforeEach(() => {
+    mockComplete.mockReset()
+    jest.clearAllMocks()
+  })
+
+  it('should keep valid AI content after one attempt', async () => {
+    const settled = await settleGeneratedFile(file())
+
+    expect(settled.content).toBe(SAFE_PAGE)
+    expect(settled.promptVersion).toBe('homepage@4')
+    expect(settled.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, source: 'ai', valid: true }),
+    ])
+    expect(mockComplete).not.toHaveBeenCalled()
+  })
+
+  it('should send the problems back and keep the repaired file', async () => {
+    mockComplete.mockResolvedValueOnce({
+      text: `\`\`\`tsx\n${SAFE_PAGE}\n\`\`\``,
+    })
+    const rejected = file({ content: UNSAFE_PAGE })
+
+    const settled = await settleGeneratedFile(rejected, { userId: 'user-1' })
+
+    expect(settled.content).toBe(SAFE_PAGE)
+    expect(settled.promptVersion).toBe('homepage@4')
+    expect(settled.failure).toBeUndefined()
+    expect(settled.attempts.map(a => [a.source, a.valid])).toEqual([
+      ['ai', false],
+      ['repair', true],
+    ])
+    expect(settled.attempts[0].securityIssues[0]).toContain(
+      'dangerouslySetInnerHTML'
+    )
+    expect(settled.attempts[1].promptVersion).toBe('code-repair@1')
+    expect(rejected.discard).toHaveBeenCalled()
+
+    const [request, context] = mockComplete.mock.calls[0]
+    expect(request.operation).toBe('homepage')
+    expect(request.prompt).toContain('src/app/page.tsx (Next.js 14 page)')
+    expect(request.prompt).toContain('- SECURITY: dangerouslySetInnerHTML')
+    expect(request.prompt).toContain(UNSAFE_PAGE)
+    expect(context).toEqual({ userId: 'user-1' })
+  })
+
+  it('should fall back to canned content once repairs run out', async () => {
+    mockComplete.mockResolvedValue({ text: UNSAFE_PAGE })
+
+    const settled = await settleGeneratedFile(file({ content: UNSAFE_PAGE }))
+
+    expect(settled.content).toBe(FALLBACK_PAGE)
+    expect(settled.promptVersion).toBeNull()
+    expect(mockComplete).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS)
+    expect(settled.attempts.map(a => a.source)).toEqual([
+      'ai',
+      ...Array(MAX_REPAIR_ATTEMPTS).fill('repair'),
+      'fallback',
+    ])
+    // Rejected repairs are dropped from the cache
+    expect(evictCachedCompletion).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS)
+  })
+
+  it('should fall back when the repair request fails', async () => {
+    mockComplete.mockRejectedValue(new Error('API error'))
+
+    const settled = await settleGeneratedFile(file({ content: UNSAFE_PAGE }))
+
+    expect(settled.content).toBe(FALLBACK_PAGE)
+    expect(settled.attempts.map(a => a.source)).toEqual(['ai', 'fallback'])
+  })
+
+  it('should report the file as unrecoverable when the fallback fails', async () => {
+    mockComplete.mockResolvedValue({ text: UNSAFE_PAGE })
+
+    const settled = await settleGeneratedFile(
+      file({ content: UNSAFE_PAGE, fallback: UNSAFE_PAGE })
+    )
+
+    expect(settled.failure?.securityIssues).not.toHaveLength(0)
+    expect(settled.attempts.at(-1)).toMatchObject({
+      source: 'fallback',
+      valid: false,
+    })
+  })
+
+  it('should validate README files as markdown', async () => {
+    const settled = await settleGeneratedFile(
+      file({
+        path: 'README.md',
+        operation: 'readme',
+        content: '# App\n\n[Run](javascript:alert(1))',
+        fallback: '# App\n\nnpm install',
+      })
+    )
+
+    expect(settled.content).toBe('# App\n\nnpm install')
+    expect(settled.attempts[0].securityIssues).toHaveLength(1)
+  })
+})
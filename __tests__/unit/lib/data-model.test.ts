@@ -0,0 +1,166 @@
+import {
+  dataModelSchema,
+  entitiesInDependencyOrder,
+  entityRouteSegment,
+  MAX_ENTITIES,
+  MAX_ENTITY_FIELDS,
+  normalizeDataModel,
+  pluralize,
+  type DataEntity,
+  type DataField,
+} from '@/lib/data-model'
+
+const field = (
+  name: string,
+  overrides: Partial<DataField> = {}
+): DataField => ({
+  name,
+  type: 'String',
+  optional: false,
+  unique: false,
+  ...overrides,
+})
+
+const entity = (
+  name: string,
+  overrides: Partial<DataEntity> = {}
+): DataEntity => ({
+  name,
+  description: `A ${name}`,
+  fields: [],
+  belongsTo: [],
+  ...overrides,
+})
+
+describe('Data Model', () => {
+  describe('normalizeDataModel', () => {
+    it('should drop duplicate and reserved entities and cap the count', () => {
+      const { entities } = normalizeDataModel({
+        entities: [
+          entity('User'),
+          entity('User'),
+          entity('Prisma'),
+          entity('DateTime'),
+          ...Array.from({ length: 10 }, (_, i) => entity(`Thing${i}`)),
+        ],
+      })
+
+      expect(entities).toHaveLength(MAX_ENTITIES)
+      expect(entities.map(e => e.name).slice(0, 2)).toEqual(['User', 'Thing0'])
+    })
+
+    it('should only link to other existing entities, once each', () => {
+      const { entities } = normalizeDataModel({
+        entities: [
+          entity('User'),
+          entity('Order', { belongsTo: ['User', 'User', 'Order', 'Shop'] }),
+        ],
+      })
+
+      expect(entities[1].belongsTo).toEqual(['User'])
+    })
+
+    it('should drop fields that clash with generated or relation fields', () => {
+      const { entities } = normalizeDataModel({
+        entities: [
+          entity('User', {
+            fields: [field('id'), field('email'), field('orders')],
+          }),
+          entity('Order', {
+            fields: [
+              field('user'),
+              field('userId'),
+              field('total', { type: 'Float' }),
+              field('total'),
+              field('createdAt', { type: 'DateTime' }),
+            ],
+            belongsTo: ['User'],
+          }),
+        ],
+      })
+
+      expect(entities[0].fields.map(f => f.name)).toEqual(['email'])
+      expect(entities[1].fields).toEqual([field('total', { type: 'Float' })])
+    })
+
+    it('should cap fields and keep unique only on text and numbers', () => {
+      const { entities } = normalizeDataModel({
+        entities: [
+          entity('Listing', {
+            fields: [
+              field('slug', { unique: true }),
+              field('featured', { type: 'Boolean', unique: true }),
+              ...Array.from({ length: 20 }, (_, i) => field(`extra${i}`)),
+            ],
+          }),
+        ],
+      })
+
+      const [listing] = entities
+      expect(listing.fields).toHaveLength(MAX_ENTITY_FIELDS)
+      expect(listing.fields[0].unique).toBe(true)
+      expect(listing.fields[1].unique).toBe(false)
+    })
+  })
+
+  describe('dataModelSchema', () => {
+    it('should reject names that are not valid identifiers', () => {
+      const parse = (name: string, fieldName: string) =>
+        dataModelSchema.safeParse({
+          entities: [entity(name, { fields: [field(fieldName)] })],
+        }).success
+
+      expect(parse('Order', 'total')).toBe(true)
+      expect(parse('order', 'total')).toBe(false)
+      expect(parse('Order Item', 'total')).toBe(false)
+      expect(parse('Order', 'total; drop')).toBe(false)
+    })
+  })
+
+  describe('naming', () => {
+    it('should pluralize entity names', () => {
+      expect(pluralize('User')).toBe('Users')
+      expect(pluralize('Category')).toBe('Categories')
+      expect(pluralize('Day')).toBe('Days')
+      expect(pluralize('Address')).toBe('Addresses')
+    })
+
+    it('should derive kebab-case route segments', () => {
+      expect(entityRouteSegment('OrderItem')).toBe('order-items')
+      expect(entityRouteSegment('Category')).toBe('categories')
+    })
+  })
+
+  describe('entitiesInDependencyOrder', () => {
+    it('should put entities after the ones they belong to', () => {
+      const model = normalizeDataModel({
+        entities: [
+          entity('OrderItem', { belongsTo: ['Order'] }),
+          entity('Order', { belongsTo: ['User'] }),
+          entity('User'),
+        ],
+      })
+
+      expect(entitiesInDependencyOrder(model).map(e => e.name)).toEqual([
+        'User',
+        'Order',
+        'OrderItem',
+      ])
+    })
+
+    it('should keep every entity when links form a cycle', () => {
+      const model = normalizeDataModel({
+        entities: [
+          entity('A', { belongsTo: ['B'] }),
+          entity('B', { belongsTo: ['A'] }),
+        ],
+      })
+
+      expect(
+        entitiesInDependencyOrder(model)
+          .map(e => e.name)
+          .sort()
+      ).toEqual(['A', 'B'])
+    })
+  })
+})
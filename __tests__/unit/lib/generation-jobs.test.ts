@@ -0,0 +1,338 @@
+import {
+  restoreProjectStatus,
+  runGenerateProjectJob,
+} from '@/lib/generation-jobs'
+import { PermanentJobError, type Job } from '@/lib/job-queue'
+import { prisma } from '@/lib/prisma'
+import { createFiles, createRepository } from '@/lib/github'
+import { getGitHubTokenFromUserId } from '@/lib/github-auth'
+import {
+  generateProjectFiles,
+  getGenerationPreview,
+  markGenerationPreviewPushed,
+  unlockGenerationPreview,
+} from '@/lib/generation-preview'
+import { openRegenerationPullRequest } from '@/lib/regeneration'
+import { ProjectGenerationError } from '@/lib/project-generator'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  createRepository: jest.fn(),
+  createFiles: jest.fn(),
+}))
+
+jest.mock('@/lib/github-auth', () => ({
+  getGitHubTokenFromUserId: jest.fn(),
+}))
+
+jest.mock('@/lib/generation-preview', () => ({
+  ...jest.requireActual('@/lib/generation-preview'),
+  generateProjectFiles: jest.fn(),
+  getGenerationPreview: jest.fn(),
+  markGenerationPreviewPushed: jest.fn(),
+  unlockGenerationPreview: jest.fn(),
+}))
+
+jest.mock('@/lib/regeneration', () => ({
+  openRegenerationPullRequest: jest.fn(),
+}))
+
+jest.mock('@/lib/project-generator', () => ({
+  ProjectGenerationError: class ProjectGenerationError extends Error {
+    constructor(
+      message: string,
+      public validationErrors: unknown[],
+      public attempts: unknown[] = []
+    ) {
+      super(message)
+    }
+  },
+}))
+
+const mockFindUnique = prisma.project.findUnique as jest.Mock
+const mockUpdate = prisma.project.update as jest.Mock
+const mockCreateRepository = createRepository as jest.Mock
+const mockCreateFiles = createFiles as jest.Mock
+const mockGetToken = getGitHubTokenFromUserId as jest.Mock
+const mockGenerateProjectFiles = generateProjectFiles as jest.Mock
+const mockGetGenerationPreview = getGenerationPreview as jest.Mock
+const mockOpenPullRequest = openRegenerationPullRequest as jest.Mock
+
+const REPOSITORY_URL = 'https://github.com/user/my-app'
+
+const project = {
+  id: 'project1',
+  userId: 'user1',
+  name: 'My App',
+  description: 'An app',
+  status: 'GENERATING',
+  techStack: '{}',
+  repository: null as string | null,
+  promptVersions: null,
+  requirements: [
+    {
+      question: 'Who uses it?',
+      answer: 'Home cooks',
+      updatedAt: new Date('2026-10-01T00:00:00.000Z'),
+    },
+    { question: 'Unanswered?', answer: null, updatedAt: new Date() },
+  ],
+}
+
+const generated = {
+  templateId: 'nextjs',
+  files: [{ path: 'README.md', content: '# My App' }],
+  promptVersions: { 'README.md': 'readme@1' },
+  attempts: [],
+}
+
+const job = (
+  payload: Record<string, unknown> = {},
+  overrides: Partial<Job> = {}
+): Job => ({
+  id: 'job1',
+  type: 'GENERATE_PROJECT',
+  status: 'RUNNING',
+  userId: 'user1',
+  projectId: 'project1',
+  payload: {
+    projectId: 'project1',
+    mode: 'create',
+    bypassCache: false,
+    originalStatus: 'DRAFT',
+    ...payload,
+  },
+  result: null,
+  progress: 0,
+  progressMessage: null,
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedAt: new Date(),
+  lockedBy: 'worker-1',
+  lastError: null,
+  finishedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const progress = jest.fn().mockResolvedValue(undefined)
+
+describe('Generation Jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFindUnique.mockResolvedValue(project)
+    mockUpdate.mockResolvedValue({})
+    mockGetToken.mockResolvedValue('gh-token')
+    mockGenerateProjectFiles.mockResolvedValue(generated)
+    mockCreateRepository.mockResolvedValue({
+      url: REPOSITORY_URL,
+      owner: 'user',
+    })
+  })
+
+  it('should create the repository and push the generated files', async () => {
+    const outcome = await runGenerateProjectJob(job(), progress)
+
+    expect(outcome).toEqual({
+      status: 'done',
+      result: {
+        message: 'Project generated successfully',
+        repository: { url: REPOSITORY_URL, owner: 'user' },
+        attempts: [],
+      },
+    })
+    expect(mockGenerateProjectFiles).toHaveBeenCalledWith(
+      project,
+      [
+        {
+          question: 'Who uses it?',
+          answer: 'Home cooks',
+          updatedAt: project.requirements[0].updatedAt,
+        },
+      ],
+      'GENERATE',
+      { userId: 'user1', projectId: 'project1', bypassCache: false }
+    )
+    expect(mockCreateRepository).toHaveBeenCalledWith(
+      'gh-token',
+      'my-app',
+      'An app',
+      false
+    )
+    // Saved before pushing, so a retry reuses it
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'project1' },
+      data: { repository: REPOSITORY_URL },
+    })
+    expect(mockCreateFiles).toHaveBeenCalledWith(
+      'gh-token',
+      'user',
+      'my-app',
+      generated.files
+    )
+    expect(mockUpdate).toHaveBeenLastCalledWith({
+      where: { id: 'project1' },
+      data: {
+        promptVersions: { 'README.md': 'readme@1' },
+        status: 'READY',
+      },
+    })
+    expect(progress).toHaveBeenCalledWith(60, 'Pushing 1 files to GitHub')
+  })
+
+  it('should push into the repository an earlier attempt created', async () => {
+    mockFindUnique.mockResolvedValue({
+      ...project,
+      repository: REPOSITORY_URL,
+    })
+
+    await runGenerateProjectJob(job({}, { attempts: 2 }), progress)
+
+    expect(mockCreateRepository).not.toHaveBeenCalled()
+    expect(mockCreateFiles).toHaveBeenCalledWith(
+      'gh-token',
+      'user',
+      'my-app',
+      generated.files
+    )
+  })
+
+  it('should open a pull request in update mode', async () => {
+    mockFindUnique.mockResolvedValue({
+      ...project,
+      repository: REPOSITORY_URL,
+    })
+    mockOpenPullRequest.mockResolvedValue({
+      branch: 'shipsensei/regenerate-20261018-120000',
+      pullRequest: { url: `${REPOSITORY_URL}/pull/4`, number: 4 },
+      files: [{ path: 'README.md', status: 'changed' }],
+    })
+
+    const outcome = await runGenerateProjectJob(
+      job({ mode: 'update' }),
+      progress
+    )
+
+    expect(outcome).toMatchObject({
+      status: 'done',
+      result: {
+        repository: { url: REPOSITORY_URL },
+        pullRequest: { url: `${REPOSITORY_URL}/pull/4`, number: 4 },
+      },
+    })
+    expect(mockOpenPullRequest).toHaveBeenCalledWith(
+      'gh-token',
+      REPOSITORY_URL,
+      'My App',
+      generated.files
+    )
+    expect(mockCreateFiles).not.toHaveBeenCalled()
+  })
+
+  it('should push the files of a reviewed preview', async () => {
+    mockGetGenerationPreview.mockResolvedValue({
+      id: 'preview1',
+      templateId: 'nextjs',
+      files: [
+        {
+          path: 'README.md',
+          content: '# Edited',
+          excluded: false,
+          edited: true,
+        },
+        { path: 'a.ts', content: 'x', excluded: true, edited: false },
+      ],
+      promptVersions: {},
+      attempts: [],
+      pushedAt: null,
+    })
+
+    await runGenerateProjectJob(job({ previewId: 'preview1' }), progress)
+
+    expect(mockGenerateProjectFiles).not.toHaveBeenCalled()
+    expect(mockCreateFiles).toHaveBeenCalledWith('gh-token', 'user', 'my-app', [
+      { path: 'README.md', content: '# Edited' },
+    ])
+    expect(markGenerationPreviewPushed).toHaveBeenCalledWith('preview1')
+  })
+
+  it('should fail permanently without a GitHub token', async () => {
+    mockGetToken.mockResolvedValue(null)
+
+    await expect(runGenerateProjectJob(job(), progress)).rejects.toThrow(
+      PermanentJobError
+    )
+  })
+
+  it('should dead-letter invalid AI code with its validation details', async () => {
+    const issues = { errors: [], warnings: [], securityIssues: ['XSS'] }
+    mockGenerateProjectFiles.mockRejectedValue(
+      new ProjectGenerationError(
+        'Generated code failed validation',
+        [{ file: 'page.tsx', ...issues }],
+        [
+          {
+            path: 'page.tsx',
+            attempt: 1,
+            source: 'ai',
+            promptVersion: 'page@1',
+            valid: false,
+            ...issues,
+          },
+        ]
+      )
+    )
+
+    const failure = await runGenerateProjectJob(job(), progress).catch(
+      error => error
+    )
+
+    expect(failure).toBeInstanceOf(PermanentJobError)
+    expect(failure.details).toMatchObject({
+      error: 'Code validation failed',
+      validationErrors: [{ file: 'page.tsx', securityIssues: ['XSS'] }],
+      attempts: [{ path: 'page.tsx', attempt: 1, valid: false }],
+    })
+  })
+
+  it('should leave the status alone for the queue to retry', async () => {
+    mockCreateFiles.mockRejectedValue(new Error('GitHub 502'))
+
+    await expect(
+      runGenerateProjectJob(job({}, { attempts: 3 }), progress)
+    ).rejects.toThrow('GitHub 502')
+    expect(mockUpdate).not.toHaveBeenCalledWith({
+      where: { id: 'project1' },
+      data: { status: 'DRAFT' },
+    })
+  })
+
+  describe('restoreProjectStatus', () => {
+    it('should give the project back its status from before the job', async () => {
+      await restoreProjectStatus(job())
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 'project1' },
+        data: { status: 'DRAFT' },
+      })
+      expect(unlockGenerationPreview).not.toHaveBeenCalled()
+    })
+
+    it('should make the pushed preview editable again', async () => {
+      await restoreProjectStatus(job({ previewId: 'preview1' }))
+
+      expect(unlockGenerationPreview).toHaveBeenCalledWith('preview1')
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import {
+  applyFileChange,
+  filesToPush,
+  generateProjectFiles,
+  summarizeGenerationPreview,
+  type GenerationPreview,
+  type PreviewFile,
+} from '@/lib/generation-preview'
+import {
+  generateProjectTemplate,
+  ProjectGenerationError,
+} from '@/lib/project-generator'
+import { recordGenerationRun } from '@/lib/generation-runs'
+import { DEFAULT_STACK_SELECTION } from '@/lib/tech-stack'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}))
+
+jest.mock('@/lib/project-generator', () => ({
+  generateProjectTemplate: jest.fn(),
+  ProjectGenerationError: class ProjectGenerationError extends Error {
+    constructor(
+      message: string,
+      public validationErrors: unknown[],
+      public attempts: unknown[] = []
+    ) {
+      super(message)
+    }
+  },
+}))
+
+jest.mock('@/lib/requirements-document', () => ({
+  REQUIREMENTS_DOCUMENT_PATH: 'docs/REQUIREMENTS.md',
+  ensureRequirementsDocument: jest
+    .fn()
+    .mockResolvedValue({ promptVersion: 'requirements-document@1' }),
+  renderRequirementsMarkdown: jest.fn().mockReturnValue('# PRD'),
+}))
+
+jest.mock('@/lib/generation-runs', () => ({
+  recordGenerationRun: jest.fn(),
+}))
+
+const mockGenerateTemplate = generateProjectTemplate as jest.Mock
+const mockRecordRun = recordGenerationRun as jest.Mock
+
+const file = (
+  path: string,
+  overrides: Partial<PreviewFile> = {}
+): PreviewFile => ({
+  path,
+  content: `// ${path}`,
+  excluded: false,
+  edited: false,
+  ...overrides,
+})
+
+const previewWith = (files: PreviewFile[]): GenerationPreview => ({
+  id: 'preview1',
+  projectId: 'project1',
+  templateId: 'nextjs',
+  files,
+  promptVersions: {},
+  attempts: [],
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  version: 0,
+  pushQueuedAt: null,
+  pushedAt: null,
+})
+
+describe('Generation Preview', () => {
+  describe('generateProjectFiles', () => {
+    const project = {
+      id: 'project1',
+      name: 'Recipe Box',
+      description: null,
+      techStack: null,
+    }
+    const requirements = [
+      { question: 'Who uses it?', answer: 'Home cooks', updatedAt: new Date() },
+    ]
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should add the PRD and record the run', async () => {
+      mockGenerateTemplate.mockResolvedValue({
+        templateId: 'nextjs',
+        files: [{ path: 'README.md', content: '# Recipe Box' }],
+        promptVersions: { 'README.md': 'readme@1' },
+        attempts: [],
+      })
+
+      const generated = await generateProjectFiles(
+        project,
+        requirements,
+        'PREVIEW'
+      )
+
+      expect(generated.files.map(file => file.path)).toEqual([
+        'README.md',
+        'docs/REQUIREMENTS.md',
+      ])
+      expect(generated.promptVersions).toEqual({
+        'README.md': 'readme@1',
+        'docs/REQUIREMENTS.md': 'requirements-document@1',
+      })
+      expect(mockRecordRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: 'project1',
+          trigger: 'PREVIEW',
+          outcome: 'SUCCEEDED',
+          requirements: [{ question: 'Who uses it?', answer: 'Home cooks' }],
+          techStack: DEFAULT_STACK_SELECTION,
+          templateId: 'nextjs',
+          files: generated.files,
+        })
+      )
+    })
+
+    it('should record failed runs with their attempts', async () => {
+      const attempts = [{ path: 'README.md', valid: false }]
+      mockGenerateTemplate.mockRejectedValue(
+        new (ProjectGenerationError as any)('Invalid code', [], attempts)
+      )
+
+      await expect(
+        generateProjectFiles(project, requirements, 'GENERATE')
+      ).rejects.toThrow('Invalid code')
+      expect(mockRecordRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          trigger: 'GENERATE',
+          outcome: 'FAILED',
+          attempts,
+          error: 'Invalid code',
+        })
+      )
+    })
+  })
+
+  describe('applyFileChange', () => {
+    const files = [file('README.md'), file('src/app/page.tsx')]
+
+    it('should mark files with new content as edited', () => {
+      const changed = applyFileChange(files, 'src/app/page.tsx', {
+        content: 'export {}',
+      })
+
+      expect(changed).toEqual([
+        files[0],
+        file('src/app/page.tsx', { content: 'export {}', edited: true }),
+      ])
+    })
+
+    it('should not mark unchanged content as edited', () => {
+      const changed = applyFileChange(files, 'README.md', {
+        content: '// README.md',
+        excluded: true,
+      })
+
+      expect(changed?.[0]).toEqual(file('README.md', { excluded: true }))
+    })
+
+    it('should keep a file edited after it is excluded and included again', () => {
+      const edited = [file('README.md', { edited: true, excluded: true })]
+
+      expect(applyFileChange(edited, 'README.md', { excluded: false })).toEqual(
+        [file('README.md', { edited: true })]
+      )
+    })
+
+    it('should return null for paths not in the preview', () => {
+      expect(applyFileChange(files, '.env', { content: 'SECRET=1' })).toBeNull()
+    })
+  })
+
+  describe('filesToPush', () => {
+    it('should leave out excluded files', () => {
+      const preview = previewWith([
+        file('README.md', { content: '# Edited', edited: true }),
+        file('src/app/page.tsx', { excluded: true }),
+      ])
+
+      expect(filesToPush(preview)).toEqual([
+        { path: 'README.md', content: '# Edited' },
+      ])
+    })
+  })
+
+  describe('summarizeGenerationPreview', () => {
+    it('should list file sizes instead of contents', () => {
+      const summary = summarizeGenerationPreview(
+        previewWith([file('README.md', { content: '# App' })])
+      )
+
+      expect(summary.files).toEqual([
+        { path: 'README.md', size: 5, excluded: false, edited: false },
+      ])
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import {
+  diffGenerationRuns,
+  hashContent,
+  listGenerationRuns,
+  recordGenerationRun,
+  type GenerationRun,
+} from '@/lib/generation-runs'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { DEFAULT_STACK_SELECTION } from '@/lib/tech-stack'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    generationRun: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { error: jest.fn() },
+}))
+
+const mockCreate = prisma.generationRun.create as jest.Mock
+const mockFindMany = prisma.generationRun.findMany as jest.Mock
+
+const requirements = [{ question: 'Who uses it?', answer: 'Home cooks' }]
+
+const run = (
+  id: string,
+  files: Record<string, string>,
+  overrides: Partial<GenerationRun> = {}
+): GenerationRun => ({
+  id,
+  projectId: 'project1',
+  trigger: 'PREVIEW',
+  outcome: 'SUCCEEDED',
+  durationMs: 1200,
+  requirements,
+  techStack: DEFAULT_STACK_SELECTION,
+  templateId: 'nextjs',
+  promptVersions: {},
+  files: Object.entries(files).map(([path, content]) => ({
+    path,
+    hash: hashContent(content),
+    content,
+  })),
+  attempts: [],
+  error: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Generation Runs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('recordGenerationRun', () => {
+    it('should store the produced files with their hashes', async () => {
+      await recordGenerationRun({
+        projectId: 'project1',
+        trigger: 'GENERATE',
+        outcome: 'SUCCEEDED',
+        durationMs: 1234.6,
+        requirements,
+        techStack: DEFAULT_STACK_SELECTION,
+        templateId: 'nextjs',
+        files: [{ path: 'README.md', content: '# App' }],
+      })
+
+      const { data } = mockCreate.mock.calls[0][0]
+      expect(data).toMatchObject({
+        trigger: 'GENERATE',
+        outcome: 'SUCCEEDED',
+        durationMs: 1235,
+        templateId: 'nextjs',
+        promptVersions: {},
+        attempts: [],
+        error: null,
+      })
+      expect(data.files).toEqual([
+        { path: 'README.md', hash: hashContent('# App'), content: '# App' },
+      ])
+      expect(hashContent('# App')).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('should log instead of throwing when the run cannot be stored', async () => {
+      mockCreate.mockRejectedValue(new Error('Database unavailable'))
+
+      await expect(
+        recordGenerationRun({
+          projectId: 'project1',
+          trigger: 'EXPORT',
+          outcome: 'FAILED',
+          durationMs: 10,
+          requirements,
+          techStack: DEFAULT_STACK_SELECTION,
+          error: 'API error',
+        })
+      ).resolves.toBeUndefined()
+      expect(logger.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('listGenerationRuns', () => {
+    it('should list runs with their file count instead of the files', async () => {
+      mockFindMany.mockResolvedValue([
+        run('run1', { 'README.md': '# App', 'src/app/page.tsx': 'x' }),
+      ])
+
+      const [summary] = await listGenerationRuns('project1')
+
+      expect(summary).toEqual({
+        id: 'run1',
+        trigger: 'PREVIEW',
+        outcome: 'SUCCEEDED',
+        durationMs: 1200,
+        templateId: 'nextjs',
+        error: null,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        fileCount: 2,
+      })
+    })
+  })
+
+  describe('diffGenerationRuns', () => {
+    it('should report each file as added, removed, changed or unchanged', () => {
+      const diff = diffGenerationRuns(
+        run('run1', {
+          'README.md': '# App\n',
+          'old.ts': 'a\n',
+          'same.ts': 'x',
+        }),
+        run('run2', {
+          'README.md': '# Shop\n',
+          'new.ts': 'b\n',
+          'same.ts': 'x',
+        })
+      )
+
+      expect(diff.files.map(file => [file.path, file.status])).toEqual([
+        ['README.md', 'changed'],
+        ['new.ts', 'added'],
+        ['old.ts', 'removed'],
+        ['same.ts', 'unchanged'],
+      ])
+      expect(diff.files[0].patch).toContain('-# App\n+# Shop\n')
+      expect(diff.files[1].patch).toContain('+b')
+      expect(diff.files[2].patch).toContain('-a')
+      expect(diff.files[3].patch).toBeNull()
+    })
+
+    it('should report changed inputs and prompt versions', () => {
+      const diff = diffGenerationRuns(
+        run(
+          'run1',
+          {},
+          { promptVersions: { 'README.md': 'readme@1', 'page.tsx': null } }
+        ),
+        run(
+          'run2',
+          {},
+          {
+            requirements: [{ question: 'Who uses it?', answer: 'Chefs' }],
+            promptVersions: { 'README.md': 'readme@2', 'page.tsx': null },
+          }
+        )
+      )
+
+      expect(diff).toMatchObject({
+        from: 'run1',
+        to: 'run2',
+        requirementsChanged: true,
+        techStackChanged: false,
+        promptVersionChanges: [
+          { path: 'README.md', from: 'readme@1', to: 'readme@2' },
+        ],
+      })
+    })
+  })
+})
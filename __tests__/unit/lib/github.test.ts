@@ -4,6 +4,11 @@ import {
   createOrUpdateFile,
   createFiles,
   getUserProfile,
+  parseRepositoryUrl,
+  getRepository,
+  getFileContent,
+  createBranch,
+  createPullRequest,
 } from '@/lib/github'
 import { Octokit } from '@octokit/rest'
 
@@ -14,6 +19,10 @@ const mockReposCreateForAuthenticatedUser = jest.fn()
 const mockReposGetContent = jest.fn()
 const mockReposCreateOrUpdateFileContents = jest.fn()
 const mockUsersGetAuthenticated = jest.fn()
+const mockReposGet = jest.fn()
+const mockGitGetRef = jest.fn()
+const mockGitCreateRef = jest.fn()
+const mockPullsCreate = jest.fn()
 
 beforeEach(() => {
   ;(Octokit as jest.MockedClass<typeof Octokit>).mockImplementation(
@@ -23,6 +32,14 @@ beforeEach(() => {
           createForAuthenticatedUser: mockReposCreateForAuthenticatedUser,
           getContent: mockReposGetContent,
           createOrUpdateFileContents: mockReposCreateOrUpdateFileContents,
+          get: mockReposGet,
+        },
+        git: {
+          getRef: mockGitGetRef,
+          createRef: mockGitCreateRef,
+        },
+        pulls: {
+          create: mockPullsCreate,
         },
         users: {
           getAuthenticated: mockUsersGetAuthenticated,
@@ -40,6 +57,7 @@ describe('GitHub Service', () => {
       expect(client).toBeDefined()
       expect(Octokit).toHaveBeenCalledWith({
         auth: accessToken,
+        request: { fetch: expect.any(Function) },
       })
     })
   })
@@ -247,6 +265,166 @@ describe('GitHub Service', () => {
       expect(results).toHaveLength(0)
       expect(mockReposCreateOrUpdateFileContents).not.toHaveBeenCalled()
     })
+
+    it('should commit to the given branch', async () => {
+      mockReposGetContent.mockRejectedValue({ status: 404 })
+      mockReposCreateOrUpdateFileContents.mockResolvedValue({ data: {} })
+
+      await createFiles(
+        'test-token',
+        'user',
+        'repo',
+        [{ path: 'README.md', content: 'Read me' }],
+        'shipsensei/regenerate'
+      )
+
+      expect(mockReposGetContent).toHaveBeenCalledWith({
+        owner: 'user',
+        repo: 'repo',
+        path: 'README.md',
+        ref: 'shipsensei/regenerate',
+      })
+      expect(mockReposCreateOrUpdateFileContents).toHaveBeenCalledWith(
+        expect.objectContaining({ branch: 'shipsensei/regenerate' })
+      )
+    })
+  })
+
+  describe('parseRepositoryUrl', () => {
+    it('should read the owner and name from a repository URL', () => {
+      expect(parseRepositoryUrl('https://github.com/user/my-app')).toEqual({
+        owner: 'user',
+        repo: 'my-app',
+      })
+      expect(parseRepositoryUrl('https://github.com/user/my.app.git')).toEqual({
+        owner: 'user',
+        repo: 'my.app',
+      })
+    })
+
+    it('should reject URLs that are not GitHub repositories', () => {
+      expect(parseRepositoryUrl('https://gitlab.com/user/my-app')).toBeNull()
+      expect(parseRepositoryUrl('https://github.com/user')).toBeNull()
+      expect(
+        parseRepositoryUrl('https://github.com/user/my-app/issues')
+      ).toBeNull()
+    })
+  })
+
+  describe('getRepository', () => {
+    it('should return the repository with its default branch', async () => {
+      mockReposGet.mockResolvedValue({
+        data: {
+          html_url: 'https://github.com/user/repo',
+          full_name: 'user/repo',
+          owner: { login: 'user' },
+          default_branch: 'main',
+        },
+      })
+
+      await expect(
+        getRepository('test-token', 'user', 'repo')
+      ).resolves.toEqual({
+        url: 'https://github.com/user/repo',
+        fullName: 'user/repo',
+        owner: 'user',
+        defaultBranch: 'main',
+      })
+    })
+
+    it('should throw a clear error when the repository is gone', async () => {
+      mockReposGet.mockRejectedValue({ status: 404, message: 'Not Found' })
+
+      await expect(getRepository('test-token', 'user', 'repo')).rejects.toThrow(
+        'Repository "user/repo" not found'
+      )
+    })
+  })
+
+  describe('getFileContent', () => {
+    it('should decode the file on the given ref', async () => {
+      mockReposGetContent.mockResolvedValue({
+        data: {
+          type: 'file',
+          sha: 'sha',
+          content: Buffer.from('Hello World').toString('base64'),
+        },
+      })
+
+      await expect(
+        getFileContent('test-token', 'user', 'repo', 'README.md', 'main')
+      ).resolves.toBe('Hello World')
+      expect(mockReposGetContent).toHaveBeenCalledWith({
+        owner: 'user',
+        repo: 'repo',
+        path: 'README.md',
+        ref: 'main',
+      })
+    })
+
+    it('should return null for missing files', async () => {
+      mockReposGetContent.mockRejectedValue({ status: 404 })
+
+      await expect(
+        getFileContent('test-token', 'user', 'repo', 'README.md', 'main')
+      ).resolves.toBeNull()
+    })
+  })
+
+  describe('createBranch', () => {
+    it('should branch from the head of the base branch', async () => {
+      mockGitGetRef.mockResolvedValue({ data: { object: { sha: 'head-sha' } } })
+      mockGitCreateRef.mockResolvedValue({ data: {} })
+
+      const result = await createBranch(
+        'test-token',
+        'user',
+        'repo',
+        'feature',
+        'main'
+      )
+
+      expect(result).toEqual({ branch: 'feature', sha: 'head-sha' })
+      expect(mockGitGetRef).toHaveBeenCalledWith({
+        owner: 'user',
+        repo: 'repo',
+        ref: 'heads/main',
+      })
+      expect(mockGitCreateRef).toHaveBeenCalledWith({
+        owner: 'user',
+        repo: 'repo',
+        ref: 'refs/heads/feature',
+        sha: 'head-sha',
+      })
+    })
+  })
+
+  describe('createPullRequest', () => {
+    it('should open a pull request and return its URL', async () => {
+      mockPullsCreate.mockResolvedValue({
+        data: { html_url: 'https://github.com/user/repo/pull/7', number: 7 },
+      })
+
+      const result = await createPullRequest('test-token', 'user', 'repo', {
+        title: 'Regenerate',
+        body: 'Changes',
+        head: 'feature',
+        base: 'main',
+      })
+
+      expect(result).toEqual({
+        url: 'https://github.com/user/repo/pull/7',
+        number: 7,
+      })
+      expect(mockPullsCreate).toHaveBeenCalledWith({
+        owner: 'user',
+        repo: 'repo',
+        title: 'Regenerate',
+        body: 'Changes',
+        head: 'feature',
+        base: 'main',
+      })
+    })
   })
 
   describe('getUserProfile', () => {
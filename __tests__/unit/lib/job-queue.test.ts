@@ -0,0 +1,393 @@
+import {
+  claimJobs,
+  enqueueJob,
+  JOB_LOCK_TIMEOUT_MS,
+  PermanentJobError,
+  processJobs,
+  RETRY_BASE_DELAY_MS,
+  retryDelay,
+  settleJob,
+  summarizeJob,
+  updateJobProgress,
+  type Job,
+  type JobDefinition,
+  type JobHandler,
+  type JobType,
+} from '@/lib/job-queue'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    job: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn() },
+}))
+
+const mockQueryRaw = prisma.$queryRaw as unknown as jest.Mock
+const mockCreate = prisma.job.create as jest.Mock
+const mockUpdate = prisma.job.updateMany as jest.Mock
+
+const NOW = new Date('2026-10-18T12:00:00.000Z')
+
+const job = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job1',
+  type: 'GENERATE_PROJECT',
+  status: 'RUNNING',
+  userId: 'user1',
+  projectId: 'project1',
+  payload: { projectId: 'project1' },
+  result: null,
+  progress: 0,
+  progressMessage: null,
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: NOW,
+  lockedAt: NOW,
+  lockedBy: 'worker-1',
+  lastError: null,
+  finishedAt: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+})
+
+describe('Job Queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockUpdate.mockResolvedValue({ count: 1 })
+  })
+
+  describe('enqueueJob', () => {
+    it('should store a queued job with the default attempts', async () => {
+      mockCreate.mockResolvedValue(job({ status: 'QUEUED', attempts: 0 }))
+
+      const queued = await enqueueJob({
+        type: 'GENERATE_PROJECT',
+        userId: 'user1',
+        projectId: 'project1',
+        payload: { projectId: 'project1' },
+      })
+
+      expect(queued.status).toBe('QUEUED')
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          type: 'GENERATE_PROJECT',
+          userId: 'user1',
+          projectId: 'project1',
+          payload: { projectId: 'project1' },
+          maxAttempts: 3,
+        },
+      })
+    })
+  })
+
+  describe('claimJobs', () => {
+    it('should lock due and stale jobs with SKIP LOCKED', async () => {
+      mockQueryRaw.mockResolvedValue([job()])
+
+      const claimed = await claimJobs('worker-1', 5, NOW)
+
+      expect(claimed).toHaveLength(1)
+      const [strings, ...values] = mockQueryRaw.mock.calls[0]
+      const sql = strings.join('?')
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED')
+      expect(sql).toContain('"attempts" = "attempts" + 1')
+      expect(values).toEqual([
+        NOW,
+        new Date(NOW.getTime() - JOB_LOCK_TIMEOUT_MS),
+        5,
+        NOW,
+        'worker-1',
+        NOW,
+      ])
+      expect(claimed[0]).not.toHaveProperty('previousStatus')
+    })
+
+    it('should log jobs claimed from a worker that held them too long', async () => {
+      mockQueryRaw.mockResolvedValue([
+        { ...job(), previousStatus: 'RUNNING', previousLockedBy: 'worker-0' },
+      ])
+
+      await claimJobs('worker-1', 5, NOW)
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Job lock expired, claiming the job again',
+        expect.objectContaining({
+          metadata: expect.objectContaining({ previousLockedBy: 'worker-0' }),
+        })
+      )
+    })
+  })
+
+  describe('updateJobProgress', () => {
+    it('should clamp the percentage', async () => {
+      await updateJobProgress(job(), 140.4, 'Done')
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 'job1', lockedBy: 'worker-1' },
+        data: { progress: 100, progressMessage: 'Done' },
+      })
+    })
+
+    it('should log instead of throwing when the update fails', async () => {
+      mockUpdate.mockRejectedValue(new Error('DB down'))
+
+      await expect(
+        updateJobProgress(job(), 50, 'Pushing')
+      ).resolves.toBeUndefined()
+      expect(logger.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('settleJob', () => {
+    it('should store the result of a finished job', async () => {
+      const status = await settleJob(
+        job(),
+        { status: 'done', result: { ok: true } },
+        NOW
+      )
+
+      expect(status).toBe('SUCCEEDED')
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 'job1', lockedBy: 'worker-1' },
+        data: {
+          lockedAt: null,
+          lockedBy: null,
+          status: 'SUCCEEDED',
+          result: { ok: true },
+          progress: 100,
+          finishedAt: NOW,
+        },
+      })
+    })
+
+    it('should check pending jobs again later without using an attempt', async () => {
+      const status = await settleJob(
+        job({ attempts: 2 }),
+        { status: 'pending', checkAgainInMs: 15_000 },
+        NOW
+      )
+
+      expect(status).toBe('QUEUED')
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        status: 'QUEUED',
+        attempts: 1,
+        runAt: new Date(NOW.getTime() + 15_000),
+      })
+    })
+
+    it('should retry failed jobs with exponential backoff', async () => {
+      const status = await settleJob(
+        job({ attempts: 2 }),
+        { status: 'failed', error: new Error('GitHub 502') },
+        NOW
+      )
+
+      expect(status).toBe('QUEUED')
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        status: 'QUEUED',
+        lastError: 'GitHub 502',
+        runAt: new Date(NOW.getTime() + 2 * RETRY_BASE_DELAY_MS),
+      })
+    })
+
+    it('should dead-letter jobs out of attempts', async () => {
+      const status = await settleJob(
+        job({ attempts: 3 }),
+        { status: 'failed', error: new Error('GitHub 502') },
+        NOW
+      )
+
+      expect(status).toBe('DEAD')
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        status: 'DEAD',
+        lastError: 'GitHub 502',
+        finishedAt: NOW,
+      })
+      expect(logger.error).toHaveBeenCalledWith(
+        'Job dead-lettered',
+        expect.anything()
+      )
+    })
+
+    it('should dead-letter permanent failures right away with their details', async () => {
+      const status = await settleJob(
+        job({ attempts: 1 }),
+        {
+          status: 'failed',
+          error: new PermanentJobError('Invalid code', { issues: 2 }),
+        },
+        NOW
+      )
+
+      expect(status).toBe('DEAD')
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        status: 'DEAD',
+        lastError: 'Invalid code',
+        result: { issues: 2 },
+      })
+    })
+
+    it('should leave a job claimed again by another worker alone', async () => {
+      mockUpdate.mockResolvedValue({ count: 0 })
+
+      const status = await settleJob(
+        job({ attempts: 3 }),
+        { status: 'failed', error: new Error('GitHub 502') },
+        NOW
+      )
+
+      expect(status).toBe('LOCK_LOST')
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Job lock lost',
+        expect.anything()
+      )
+      expect(logger.error).not.toHaveBeenCalledWith(
+        'Job dead-lettered',
+        expect.anything()
+      )
+    })
+  })
+
+  describe('retryDelay', () => {
+    it('should double the delay on each attempt', () => {
+      expect([1, 2, 3].map(retryDelay)).toEqual([
+        RETRY_BASE_DELAY_MS,
+        2 * RETRY_BASE_DELAY_MS,
+        4 * RETRY_BASE_DELAY_MS,
+      ])
+    })
+  })
+
+  describe('processJobs', () => {
+    const handle = jest.fn<ReturnType<JobHandler>, Parameters<JobHandler>>()
+    const onDeadLetter = jest.fn().mockResolvedValue(undefined)
+    const definitions = new Map<JobType, JobDefinition>([
+      ['GENERATE_PROJECT', { run: handle, onDeadLetter }],
+    ])
+
+    // Claims one job per call, then finds none
+    const claimable = (...jobs: Job[]) => {
+      mockQueryRaw.mockReset()
+      for (const claimed of jobs) mockQueryRaw.mockResolvedValueOnce([claimed])
+      mockQueryRaw.mockResolvedValue([])
+    }
+
+    it('should run claimed jobs and report progress', async () => {
+      claimable(job())
+      handle.mockImplementation(async (_job, progress) => {
+        await progress(50, 'Halfway')
+        return { status: 'done' }
+      })
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed).toEqual([
+        { id: 'job1', type: 'GENERATE_PROJECT', status: 'SUCCEEDED' },
+      ])
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 'job1', lockedBy: 'worker-1' },
+        data: { progress: 50, progressMessage: 'Halfway' },
+      })
+      // One job claimed at a time
+      expect(mockQueryRaw.mock.calls[0][3]).toBe(1)
+    })
+
+    it('should stop at the limit', async () => {
+      claimable(job({ id: 'job1' }), job({ id: 'job2' }))
+      handle.mockResolvedValue({ status: 'done' })
+
+      const processed = await processJobs('worker-1', definitions, 1)
+
+      expect(processed.map(p => p.id)).toEqual(['job1'])
+      expect(mockQueryRaw).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop after a long-running job', async () => {
+      claimable(job({ id: 'job1' }), job({ id: 'job2' }))
+      handle.mockResolvedValue({ status: 'done' })
+
+      const processed = await processJobs(
+        'worker-1',
+        new Map([['GENERATE_PROJECT', { run: handle, longRunning: true }]]),
+        5
+      )
+
+      expect(processed.map(p => p.id)).toEqual(['job1'])
+    })
+
+    it('should settle jobs whose handler throws', async () => {
+      claimable(job())
+      handle.mockRejectedValue(new Error('Network error'))
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed[0].status).toBe('QUEUED')
+      expect(onDeadLetter).not.toHaveBeenCalled()
+    })
+
+    it('should clean up after dead-lettered jobs', async () => {
+      claimable(job({ attempts: 3 }))
+      handle.mockRejectedValue(new Error('Network error'))
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed[0].status).toBe('DEAD')
+      expect(onDeadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job1' })
+      )
+    })
+
+    it('should dead-letter jobs without a handler', async () => {
+      claimable(job({ type: 'MONITOR_DEPLOYMENT' }))
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed[0].status).toBe('DEAD')
+      expect(mockUpdate.mock.calls[0][0].data.lastError).toBe(
+        'No handler for MONITOR_DEPLOYMENT jobs'
+      )
+    })
+
+    it('should dead-letter and clean up jobs reclaimed after their last attempt', async () => {
+      claimable(job({ attempts: 4, maxAttempts: 3 }))
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed[0].status).toBe('DEAD')
+      expect(handle).not.toHaveBeenCalled()
+      // e.g. the project is no longer left generating
+      expect(onDeadLetter).toHaveBeenCalled()
+    })
+
+    it('should not clean up jobs another worker claimed meanwhile', async () => {
+      claimable(job({ attempts: 3 }))
+      handle.mockRejectedValue(new Error('Network error'))
+      mockUpdate.mockResolvedValue({ count: 0 })
+
+      const processed = await processJobs('worker-1', definitions, 5)
+
+      expect(processed[0].status).toBe('LOCK_LOST')
+      expect(onDeadLetter).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('summarizeJob', () => {
+    it('should leave out the payload and lock details', () => {
+      const summary = summarizeJob(job({ lastError: 'GitHub 502' }))
+
+      expect(summary).not.toHaveProperty('payload')
+      expect(summary).not.toHaveProperty('lockedBy')
+      expect(summary.error).toBe('GitHub 502')
+    })
+  })
+})
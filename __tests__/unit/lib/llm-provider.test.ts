@@ -0,0 +1,209 @@
+import {
+  getAnthropicClient,
+  getLLMProvider,
+  __clearProviderCache,
+  DEFAULT_ANTHROPIC_MODEL,
+  UnexpectedResponseError,
+} from '@/lib/llm-provider'
+import Anthropic from '@anthropic-ai/sdk'
+
+jest.mock('@anthropic-ai/sdk')
+
+const mockAnthropicCreate = (
+  Anthropic as typeof Anthropic & { mockCreate: jest.Mock }
+).mockCreate
+const mockFetch = global.fetch as jest.Mock
+
+describe('LLM Provider', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    __clearProviderCache()
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    __clearProviderCache()
+  })
+
+  describe('provider selection', () => {
+    it('should default to Anthropic with the default model', () => {
+      delete process.env.AI_PROVIDER
+      delete process.env.ANTHROPIC_MODEL
+
+      const provider = getLLMProvider()
+
+      expect(provider.name).toBe('anthropic')
+      expect(provider.model).toBe(DEFAULT_ANTHROPIC_MODEL)
+    })
+
+    it('should honour ANTHROPIC_MODEL override', () => {
+      process.env.ANTHROPIC_MODEL = 'claude-custom'
+
+      expect(getLLMProvider().model).toBe('claude-custom')
+    })
+
+    it('should select the OpenAI-compatible provider', () => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.OPENAI_MODEL = 'llama3'
+
+      const provider = getLLMProvider()
+
+      expect(provider.name).toBe('openai')
+      expect(provider.model).toBe('llama3')
+    })
+
+    it('should throw for an unknown provider', () => {
+      process.env.AI_PROVIDER = 'mystery'
+
+      expect(() => getLLMProvider()).toThrow('Unknown AI_PROVIDER "mystery"')
+    })
+
+    it('should cache the provider instance', () => {
+      expect(getLLMProvider()).toBe(getLLMProvider())
+    })
+  })
+
+  describe('AnthropicProvider', () => {
+    it('should return text and usage from the Messages API', async () => {
+      mockAnthropicCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Hello' }],
+        usage: { input_tokens: 12, output_tokens: 3 },
+      })
+
+      const result = await getLLMProvider().complete({
+        operation: 'follow-up',
+        prompt: 'Say hello',
+        maxTokens: 64,
+      })
+
+      expect(result).toEqual({
+        text: 'Hello',
+        provider: 'anthropic',
+        model: DEFAULT_ANTHROPIC_MODEL,
+        usage: { inputTokens: 12, outputTokens: 3 },
+      })
+      expect(mockAnthropicCreate).toHaveBeenCalledWith(
+        {
+          model: DEFAULT_ANTHROPIC_MODEL,
+          max_tokens: 64,
+          messages: [{ role: 'user', content: 'Say hello' }],
+        },
+        { signal: undefined }
+      )
+    })
+
+    it('should leave retries to the resilience layer', () => {
+      expect(getAnthropicClient().maxRetries).toBe(0)
+    })
+
+    it('should throw UnexpectedResponseError for non-text content', async () => {
+      mockAnthropicCreate.mockResolvedValue({
+        content: [{ type: 'image', data: 'invalid' }],
+      })
+
+      await expect(
+        getLLMProvider().complete({
+          operation: 'questions',
+          prompt: 'test',
+          maxTokens: 64,
+        })
+      ).rejects.toBeInstanceOf(UnexpectedResponseError)
+    })
+  })
+
+  describe('OpenAICompatibleProvider', () => {
+    beforeEach(() => {
+      process.env.AI_PROVIDER = 'openai'
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1/'
+      process.env.OPENAI_API_KEY = 'sk-test'
+      process.env.OPENAI_MODEL = 'llama3'
+    })
+
+    it('should call the chat completions endpoint', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: 'Hi there' } }],
+          usage: { prompt_tokens: 5, completion_tokens: 2 },
+        }),
+      })
+
+      const result = await getLLMProvider().complete({
+        operation: 'readme',
+        prompt: 'Write a README',
+        maxTokens: 128,
+      })
+
+      expect(result.text).toBe('Hi there')
+      expect(result.usage).toEqual({ inputTokens: 5, outputTokens: 2 })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://localhost:11434/v1/chat/completions')
+      expect(init.headers.Authorization).toBe('Bearer sk-test')
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3',
+        max_tokens: 128,
+        messages: [{ role: 'user', content: 'Write a README' }],
+      })
+    })
+
+    it('should throw on non-OK responses', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+      })
+
+      await expect(
+        getLLMProvider().complete({
+          operation: 'readme',
+          prompt: 'test',
+          maxTokens: 64,
+        })
+      ).rejects.toThrow('OpenAI-compatible request failed: 502 Bad Gateway')
+    })
+  })
+
+  describe('FakeProvider', () => {
+    beforeEach(() => {
+      process.env.AI_PROVIDER = 'fake'
+      delete process.env.ANTHROPIC_API_KEY
+    })
+
+    it('should work without an API key or network', async () => {
+      const result = await getLLMProvider().complete({
+        operation: 'questions',
+        prompt: 'Generate questions',
+        maxTokens: 1024,
+      })
+
+      expect(JSON.parse(result.text)).toHaveLength(5)
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(mockAnthropicCreate).not.toHaveBeenCalled()
+    })
+
+    it('should be deterministic', async () => {
+      const request = {
+        operation: 'stack' as const,
+        prompt: 'Recommend a stack',
+        maxTokens: 512,
+      }
+
+      const first = await getLLMProvider().complete(request)
+      const second = await getLLMProvider().complete(request)
+
+      expect(first).toEqual(second)
+    })
+
+    it('should end the follow-up flow immediately', async () => {
+      const result = await getLLMProvider().complete({
+        operation: 'follow-up',
+        prompt: 'Next question?',
+        maxTokens: 256,
+      })
+
+      expect(result.text).toBe('COMPLETE')
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import { gunzipSync, inflateRawSync } from 'zlib'
+import {
+  ARCHIVE_MANIFEST_PATH,
+  createProjectArchive,
+  createTarGzArchive,
+  createZipArchive,
+} from '@/lib/project-archive'
+
+const GENERATED_AT = new Date('2026-03-04T05:06:08Z')
+
+// Read the entries of a ZIP archive through its central directory
+function readZip(zip: Buffer): Map<string, string> {
+  const end = zip.length - 22
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50)
+
+  const entries = new Map<string, string>()
+  let offset = zip.readUInt32LE(end + 16)
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const local = zip.readUInt32LE(offset + 42)
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    const dataStart = local + 30 + zip.readUInt16LE(local + 26)
+    const data = inflateRawSync(
+      zip.subarray(dataStart, dataStart + compressedSize)
+    )
+    entries.set(name, data.toString('utf8'))
+    offset += 46 + nameLength
+  }
+  return entries
+}
+
+// Read the entries of a gzipped ustar archive
+function readTarGz(archive: Buffer): Map<string, string> {
+  const tar = gunzipSync(archive)
+  const entries = new Map<string, string>()
+  const field = (offset: number, length: number) =>
+    tar.toString('utf8', offset, offset + length).split('\0')[0]
+
+  let offset = 0
+  while (tar.readUInt8(offset) !== 0) {
+    const name = field(offset, 100)
+    const prefix = field(offset + 345, 155)
+    const size = parseInt(field(offset + 124, 12), 8)
+    const checksum = parseInt(field(offset + 148, 8), 8)
+
+    const header = Buffer.from(tar.subarray(offset, offset + 512))
+    header.fill(' ', 148, 156)
+    expect(header.reduce((sum, byte) => sum + byte, 0)).toBe(checksum)
+
+    entries.set(
+      prefix ? `${prefix}/${name}` : name,
+      tar.toString('utf8', offset + 512, offset + 512 + size)
+    )
+    offset += 512 + Math.ceil(size / 512) * 512
+  }
+  return entries
+}
+
+const files = [
+  { path: 'README.md', content: '# Café ☕\n' },
+  { path: 'src/app/page.tsx', content: 'export default function Home() {}' },
+]
+
+describe('Project Archive', () => {
+  it('should write ZIP archives with every file', () => {
+    const entries = readZip(createZipArchive(files, GENERATED_AT))
+
+    expect(Array.from(entries)).toEqual(
+      files.map(file => [file.path, file.content])
+    )
+  })
+
+  it('should store the CRC-32 of each ZIP entry', () => {
+    const zip = createZipArchive([{ path: 'check.txt', content: '123456789' }])
+
+    // Standard check value of CRC-32 (IEEE)
+    expect(zip.readUInt32LE(14)).toBe(0xcbf43926)
+  })
+
+  it('should write gzipped tar archives with every file', () => {
+    const entries = readTarGz(createTarGzArchive(files, GENERATED_AT))
+
+    expect(Array.from(entries)).toEqual(
+      files.map(file => [file.path, file.content])
+    )
+  })
+
+  it('should keep long paths in tar archives', () => {
+    const path = `src/${'a'.repeat(80)}/${'b'.repeat(80)}/page.tsx`
+
+    const entries = readTarGz(createTarGzArchive([{ path, content: 'x' }]))
+
+    expect(entries.get(path)).toBe('x')
+  })
+
+  it('should pack the files and a manifest into a project folder', () => {
+    const archive = createProjectArchive(
+      'zip',
+      {
+        name: 'Recipe Box!',
+        templateId: 'nextjs',
+        files,
+        promptVersions: { 'README.md': 'readme@1', 'src/app/page.tsx': null },
+      },
+      GENERATED_AT
+    )
+
+    expect(archive.filename).toBe('recipe-box.zip')
+    expect(archive.contentType).toBe('application/zip')
+
+    const entries = readZip(archive.body)
+    expect(Array.from(entries.keys())).toEqual([
+      'recipe-box/README.md',
+      'recipe-box/src/app/page.tsx',
+      `recipe-box/${ARCHIVE_MANIFEST_PATH}`,
+    ])
+    expect(
+      JSON.parse(entries.get(`recipe-box/${ARCHIVE_MANIFEST_PATH}`)!)
+    ).toEqual({
+      name: 'Recipe Box!',
+      generator: 'ShipSensei',
+      template: 'nextjs',
+      generatedAt: '2026-03-04T05:06:08.000Z',
+      promptVersions: { 'README.md': 'readme@1', 'src/app/page.tsx': null },
+    })
+  })
+
+  it('should name tar.gz downloads after the project', () => {
+    const archive = createProjectArchive('tar.gz', {
+      name: 'Recipe Box',
+      templateId: 'nextjs',
+      files,
+      promptVersions: {},
+    })
+
+    expect(archive.filename).toBe('recipe-box.tar.gz')
+    expect(readTarGz(archive.body).has('recipe-box/README.md')).toBe(true)
+  })
+})
@@ -1,18 +1,27 @@
+import ts from 'typescript'
 import { generateProjectTemplate } from '@/lib/project-generator'
-import { anthropic } from '@/lib/ai'
-
-// Mock the Anthropic client
-jest.mock('@/lib/ai', () => ({
-  anthropic: {
-    messages: {
-      create: jest.fn(),
-    },
-  },
+import { DEFAULT_STACK_SELECTION } from '@/lib/tech-stack'
+
+// Mock metered calls to the configured LLM provider
+const mockComplete = jest.fn()
+
+jest.mock('@/lib/ai-usage', () => ({
+  meteredComplete: (...args: unknown[]) => mockComplete(...args),
 }))
 
-const mockAnthropicCreate = anthropic.messages.create as jest.MockedFunction<
-  typeof anthropic.messages.create
->
+jest.mock('@/lib/ai-cache', () => ({
+  evictCachedCompletion: jest.fn(),
+}))
+
+// Answer each AI operation with its text; other operations fail
+function mockResponses(texts: Record<string, string>) {
+  const byOperation = new Map(Object.entries(texts))
+  mockComplete.mockImplementation(async ({ operation }) => {
+    const text = byOperation.get(operation)
+    if (text === undefined) throw new Error('API error')
+    return { text }
+  })
+}
 
 describe('Project Generator', () => {
   describe('generateProjectTemplate', () => {
@@ -21,25 +30,7 @@ describe('Project Generator', () => {
       const mockHomePage =
         'export default function Home() { return <div>Home</div> }'
 
-      // Mock README generation
-      mockAnthropicCreate.mockResolvedValueOnce({
-        content: [
-          {
-            type: 'text',
-            text: mockReadme,
-          },
-        ],
-      } as never)
-
-      // Mock home page generation
-      mockAnthropicCreate.mockResolvedValueOnce({
-        content: [
-          {
-            type: 'text',
-            text: mockHomePage,
-          },
-        ],
-      } as never)
+      mockResponses({ readme: mockReadme, homepage: mockHomePage })
 
       const requirements = [
         {
@@ -60,6 +51,7 @@ describe('Project Generator', () => {
 
       expect(result.files).toBeInstanceOf(Array)
       expect(result.files.length).toBeGreaterThan(0)
+      expect(result.templateId).toBe('nextjs-prisma')
 
       // Check for essential files
       const fileNames = result.files.map(f => f.path)
@@ -82,11 +74,19 @@ describe('Project Generator', () => {
       // Check home page content
       const homePageFile = result.files.find(f => f.path === 'src/app/page.tsx')
       expect(homePageFile?.content).toBe(mockHomePage)
+
+      // Check prompt versions are recorded per AI-generated file
+      expect(result.promptVersions).toEqual({
+        siteMap: null,
+        dataModel: null,
+        'README.md': 'readme@4',
+        'src/app/page.tsx': 'homepage@4',
+      })
     })
 
     it('should use fallback content when AI generation fails', async () => {
       // Mock AI failures
-      mockAnthropicCreate.mockRejectedValue(new Error('API error'))
+      mockComplete.mockRejectedValue(new Error('API error'))
 
       const requirements = [
         {
@@ -113,17 +113,18 @@ describe('Project Generator', () => {
       const homePageFile = result.files.find(f => f.path === 'src/app/page.tsx')
       expect(homePageFile?.content).toContain('export default function Home()')
       expect(homePageFile?.content).toContain('Fallback Project')
+
+      // No prompt produced the fallback content
+      expect(result.promptVersions).toEqual({
+        siteMap: null,
+        dataModel: null,
+        'README.md': null,
+        'src/app/page.tsx': null,
+      })
     })
 
     it('should sanitize project name in package.json', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const result = await generateProjectTemplate(
         'My Test Project With Spaces',
@@ -139,14 +140,7 @@ describe('Project Generator', () => {
     })
 
     it('should include project metadata in layout.tsx', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const projectName = 'Metadata Test'
       const projectDescription = 'Test metadata injection'
@@ -165,15 +159,34 @@ describe('Project Generator', () => {
       )
     })
 
+    it('should escape quotes in the name and description', async () => {
+      mockComplete.mockRejectedValue(new Error('API error'))
+
+      const result = await generateProjectTemplate(
+        'Quote {App}',
+        'It\'s "the best"',
+        []
+      )
+
+      const file = (path: string) =>
+        result.files.find(f => f.path === path)?.content
+      const parseErrors = (path: string) =>
+        ts.transpileModule(file(path) || '', {
+          compilerOptions: { jsx: ts.JsxEmit.Preserve },
+          fileName: path,
+          reportDiagnostics: true,
+        }).diagnostics
+
+      expect(file('src/app/layout.tsx')).toContain(
+        `description: 'It\\'s "the best"'`
+      )
+      expect(parseErrors('src/app/layout.tsx')).toEqual([])
+      expect(parseErrors('src/app/page.tsx')).toEqual([])
+      expect(JSON.parse(file('package.json') || '{}').name).toBe('quote-app')
+    })
+
     it('should generate valid package.json with all required fields', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const result = await generateProjectTemplate('Test', 'Description', [])
 
@@ -202,14 +215,7 @@ describe('Project Generator', () => {
     })
 
     it('should generate valid tsconfig.json', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const result = await generateProjectTemplate('Test', 'Description', [])
 
@@ -223,14 +229,7 @@ describe('Project Generator', () => {
     })
 
     it('should generate .gitignore with essential entries', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const result = await generateProjectTemplate('Test', 'Description', [])
 
@@ -244,14 +243,7 @@ describe('Project Generator', () => {
     })
 
     it('should generate globals.css with Tailwind directives', async () => {
-      mockAnthropicCreate.mockResolvedValue({
-        content: [
-          {
-            type: 'text',
-            text: 'Mock content',
-          },
-        ],
-      } as never)
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
 
       const result = await generateProjectTemplate('Test', 'Description', [])
 
@@ -268,13 +260,7 @@ describe('Project Generator', () => {
       const codeWithFences =
         '```tsx\nexport default function Home() { return <div>Test</div> }\n```'
 
-      mockAnthropicCreate
-        .mockResolvedValueOnce({
-          content: [{ type: 'text', text: 'README' }],
-        } as never)
-        .mockResolvedValueOnce({
-          content: [{ type: 'text', text: codeWithFences }],
-        } as never)
+      mockResponses({ readme: 'README', homepage: codeWithFences })
 
       const result = await generateProjectTemplate('Test', 'Description', [])
 
@@ -283,5 +269,377 @@ describe('Project Generator', () => {
       expect(homePageFile?.content).not.toContain('```')
       expect(homePageFile?.content).toContain('export default function Home()')
     })
+
+    it('should scaffold the selected stack', async () => {
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
+
+      const result = await generateProjectTemplate('Test', 'Description', [], {
+        framework: 'nextjs',
+        database: 'sqlite',
+        auth: 'clerk',
+        hosting: 'vercel',
+        styling: 'tailwind',
+        payments: 'stripe',
+      })
+
+      const file = (path: string) =>
+        result.files.find(f => f.path === path)?.content
+      const packageJson = JSON.parse(file('package.json') || '{}')
+
+      expect(packageJson.dependencies).toMatchObject({
+        '@prisma/client': expect.any(String),
+        '@clerk/nextjs': expect.any(String),
+        stripe: expect.any(String),
+      })
+      expect(packageJson.dependencies['next-auth']).toBeUndefined()
+      expect(packageJson.devDependencies.prisma).toBeDefined()
+      expect(packageJson.scripts.postinstall).toBe('prisma generate')
+
+      expect(file('.env.example')).toContain('DATABASE_URL="file:./dev.db"')
+      expect(file('.env.example')).toContain('CLERK_SECRET_KEY=')
+      expect(file('.env.example')).toContain('STRIPE_SECRET_KEY=')
+      expect(file('prisma/schema.prisma')).toContain('provider = "sqlite"')
+
+      // The README prompt is told which stack was chosen
+      const readmePrompt = mockComplete.mock.calls.find(
+        ([request]) => request.operation === 'readme'
+      )?.[0].prompt
+      expect(readmePrompt).toContain(
+        'Tech stack: Next.js 14 + SQLite + Prisma + Clerk + Vercel + Tailwind CSS + Stripe'
+      )
+    })
+
+    it('should leave out Prisma when no database is selected', async () => {
+      mockComplete.mockRejectedValue(new Error('API error'))
+
+      const result = await generateProjectTemplate('Test', 'Description', [], {
+        framework: 'nextjs',
+        database: 'none',
+        auth: 'none',
+        hosting: 'vercel',
+        styling: 'tailwind',
+        payments: 'none',
+      })
+
+      const file = (path: string) =>
+        result.files.find(f => f.path === path)?.content
+      const packageJson = JSON.parse(file('package.json') || '{}')
+
+      expect(packageJson.dependencies['@prisma/client']).toBeUndefined()
+      expect(file('prisma/schema.prisma')).toBeUndefined()
+      expect(file('.env.example')).not.toContain('DATABASE_URL')
+      expect(file('README.md')).toContain('- **Vercel**')
+      expect(file('README.md')).not.toContain('Prisma')
+    })
+    it('should generate a Vite + React project from its template', async () => {
+      mockComplete.mockRejectedValue(new Error('API error'))
+
+      const result = await generateProjectTemplate(
+        'Vite App',
+        'A "single-page" app',
+        [],
+        {
+          framework: 'vite-react',
+          database: 'none',
+          auth: 'none',
+          hosting: 'vercel',
+          styling: 'tailwind',
+          payments: 'none',
+        }
+      )
+
+      const file = (path: string) =>
+        result.files.find(f => f.path === path)?.content
+      const packageJson = JSON.parse(file('package.json') || '{}')
+
+      expect(result.templateId).toBe('vite-react')
+      expect(packageJson.scripts.dev).toBe('vite')
+      expect(packageJson.dependencies.next).toBeUndefined()
+      expect(file('next.config.js')).toBeUndefined()
+      expect(file('index.html')).toContain('<title>Vite App</title>')
+      expect(file('index.html')).toContain('A &quot;single-page&quot; app')
+      expect(file('src/main.tsx')).toContain("import App from './App'")
+      expect(file('src/App.tsx')).toContain(
+        '<Route path="/" element={<HomePage />} />'
+      )
+      expect(file('src/pages/HomePage.tsx')).toContain('Vite + React')
+      expect(file('README.md')).toContain('http://localhost:5173')
+      expect(result.promptVersions).toEqual({
+        siteMap: null,
+        'README.md': null,
+        'src/pages/HomePage.tsx': null,
+      })
+    })
+
+    it('should tell the AI which framework and file the page is for', async () => {
+      mockComplete.mockResolvedValue({ text: 'Mock content' } as never)
+
+      const result = await generateProjectTemplate('Docs', 'A docs site', [], {
+        framework: 'astro',
+        database: 'none',
+        auth: 'none',
+        hosting: 'vercel',
+        styling: 'tailwind',
+        payments: 'none',
+      })
+
+      const homePagePrompt = mockComplete.mock.calls.find(
+        ([request]) => request.operation === 'homepage'
+      )?.[0].prompt
+      expect(homePagePrompt).toContain(
+        'home page of a project built with Astro (src/components/pages/HomePage.tsx)'
+      )
+      expect(homePagePrompt).toContain('rendered to static HTML')
+
+      const paths = result.files.map(f => f.path)
+      expect(result.templateId).toBe('astro')
+      expect(paths).toEqual(
+        expect.arrayContaining([
+          'astro.config.mjs',
+          'src/pages/index.astro',
+          'src/components/pages/HomePage.tsx',
+        ])
+      )
+      expect(
+        result.files.find(f => f.path === 'src/pages/index.astro')?.content
+      ).toContain("title={'Docs'}")
+    })
+
+    describe('repairs', () => {
+      const unsafeHomePage =
+        'export default function Home() { return <div dangerouslySetInnerHTML={{ __html: "x" }} /> }'
+      const safeHomePage =
+        'export default function Home() { return <main>Fixed</main> }'
+
+      it('should repair a rejected home page instead of failing', async () => {
+        mockComplete.mockImplementation(async ({ operation, prompt }) => {
+          if (operation !== 'homepage') throw new Error('API error')
+          return {
+            text: prompt.includes('failed validation')
+              ? safeHomePage
+              : unsafeHomePage,
+          }
+        })
+
+        const result = await generateProjectTemplate('Test', 'Description', [])
+
+        expect(
+          result.files.find(f => f.path === 'src/app/page.tsx')?.content
+        ).toBe(safeHomePage)
+        expect(result.promptVersions['src/app/page.tsx']).toBe('homepage@4')
+        expect(
+          result.attempts
+            .filter(a => a.path === 'src/app/page.tsx')
+            .map(a => [a.source, a.valid])
+        ).toEqual([
+          ['ai', false],
+          ['repair', true],
+        ])
+      })
+
+      it('should use the fallback page when repairs keep failing', async () => {
+        mockResponses({ homepage: unsafeHomePage })
+
+        const result = await generateProjectTemplate('Test', 'Description', [])
+
+        const homePage = result.files.find(
+          f => f.path === 'src/app/page.tsx'
+        )?.content
+        expect(homePage).toContain('Welcome to your new')
+        expect(result.promptVersions['src/app/page.tsx']).toBeNull()
+        expect(result.attempts.at(-1)).toMatchObject({
+          path: 'src/app/page.tsx',
+          source: 'fallback',
+          valid: true,
+        })
+      })
+    })
+
+    describe('data layer', () => {
+      beforeEach(() => mockComplete.mockReset())
+
+      const dataModel = {
+        entities: [
+          {
+            name: 'User',
+            description: 'A customer',
+            fields: [
+              { name: 'email', type: 'String', optional: false, unique: true },
+            ],
+            belongsTo: [],
+          },
+          {
+            name: 'Order',
+            description: 'A pickup order',
+            fields: [
+              { name: 'total', type: 'Float', optional: false, unique: false },
+            ],
+            belongsTo: ['User'],
+          },
+        ],
+      }
+
+      it('should infer a data model and scaffold it for Prisma stacks', async () => {
+        mockResponses({ datamodel: JSON.stringify(dataModel) })
+
+        const result = await generateProjectTemplate(
+          'Bistro',
+          'Order ahead',
+          [{ question: 'What do users do?', answer: 'Place orders' }],
+          { ...DEFAULT_STACK_SELECTION, database: 'sqlite' }
+        )
+
+        const paths = result.files.map(f => f.path)
+        expect(result.dataModel).toEqual(dataModel)
+        expect(paths).toEqual(
+          expect.arrayContaining([
+            'prisma/seed.ts',
+            'src/lib/data/users.ts',
+            'src/lib/data/orders.ts',
+            'src/app/api/orders/route.ts',
+            'src/app/api/orders/[id]/route.ts',
+          ])
+        )
+        expect(
+          result.files.find(f => f.path === 'prisma/schema.prisma')?.content
+        ).toContain('model Order {')
+        expect(result.promptVersions.dataModel).toBe('data-model@1')
+
+        const dataModelPrompt = mockComplete.mock.calls.find(
+          ([request]) => request.operation === 'datamodel'
+        )?.[0].prompt
+        expect(dataModelPrompt).toContain(
+          '<user_input>Place orders</user_input>'
+        )
+      })
+
+      it('should not infer a data model without a Prisma database', async () => {
+        mockResponses({ datamodel: JSON.stringify(dataModel) })
+
+        const result = await generateProjectTemplate('Bistro', '', [], {
+          ...DEFAULT_STACK_SELECTION,
+          database: 'none',
+        })
+
+        expect(result.dataModel).toEqual({ entities: [] })
+        expect(result.files.map(f => f.path)).not.toContain(
+          'src/lib/data/orders.ts'
+        )
+        expect(result.promptVersions).not.toHaveProperty('dataModel')
+        expect(mockComplete).not.toHaveBeenCalledWith(
+          expect.objectContaining({ operation: 'datamodel' }),
+          undefined
+        )
+      })
+    })
+
+    describe('multi-page sites', () => {
+      const siteMap = {
+        pages: [
+          {
+            route: '/',
+            name: 'Home',
+            purpose: 'Show the menu highlights',
+            features: ['Featured dishes'],
+            components: ['DishCard'],
+            inNavigation: true,
+          },
+          {
+            route: '/orders/new',
+            name: 'Order',
+            purpose: 'Place a pickup order',
+            features: ['Pick dishes', 'Choose a pickup time'],
+            components: ['DishCard'],
+            inNavigation: true,
+          },
+        ],
+        components: [{ name: 'DishCard', purpose: 'Show one dish' }],
+      }
+
+      it('should generate one file per page and shared component', async () => {
+        mockResponses({
+          readme: '# Bistro',
+          sitemap: JSON.stringify(siteMap),
+          homepage: 'export default function Home() { return <main /> }',
+          page: 'export default function OrdersNewPage() { return <main /> }',
+          component: 'export default function DishCard() { return <div /> }',
+        })
+
+        const result = await generateProjectTemplate('Bistro', 'Order ahead', [
+          { question: 'Main feature?', answer: 'Pickup orders' },
+        ])
+
+        const file = (path: string) =>
+          result.files.find(f => f.path === path)?.content
+
+        expect(result.siteMap).toEqual(siteMap)
+        expect(file('src/app/orders/new/page.tsx')).toContain('OrdersNewPage')
+        expect(file('src/components/DishCard.tsx')).toContain('DishCard')
+        expect(file('src/components/Navigation.tsx')).toContain(
+          '"href":"/orders/new"'
+        )
+        expect(file('src/app/layout.tsx')).toContain('<Navigation />')
+        expect(result.promptVersions).toEqual({
+          siteMap: 'site-map@1',
+          dataModel: null,
+          'README.md': 'readme@4',
+          'src/app/page.tsx': 'homepage@4',
+          'src/app/orders/new/page.tsx': 'page@1',
+          'src/components/DishCard.tsx': 'component@1',
+        })
+
+        // Each page is told about the rest of the site
+        const pagePrompt = mockComplete.mock.calls.find(
+          ([request]) => request.operation === 'page'
+        )?.[0].prompt
+        expect(pagePrompt).toContain('Choose a pickup time')
+        expect(pagePrompt).toContain(
+          'Shared components to use on this page: DishCard'
+        )
+        expect(pagePrompt).toContain('"@/components/<Name>"')
+        expect(pagePrompt).toContain('next/link')
+      })
+
+      it('should use fallback pages that compile when page generation fails', async () => {
+        mockResponses({ sitemap: JSON.stringify(siteMap) })
+
+        const result = await generateProjectTemplate(
+          'Bistro',
+          'Order ahead',
+          [],
+          {
+            framework: 'vite-react',
+            database: 'none',
+            auth: 'none',
+            hosting: 'vercel',
+            styling: 'tailwind',
+            payments: 'none',
+          }
+        )
+
+        const file = (path: string) =>
+          result.files.find(f => f.path === path)?.content
+
+        for (const path of [
+          'src/pages/OrdersNewPage.tsx',
+          'src/components/DishCard.tsx',
+          'src/components/Navigation.tsx',
+          'src/App.tsx',
+        ]) {
+          const diagnostics = ts.transpileModule(file(path) || '', {
+            compilerOptions: { jsx: ts.JsxEmit.Preserve },
+            fileName: path,
+            reportDiagnostics: true,
+          }).diagnostics
+          expect(diagnostics).toEqual([])
+        }
+        expect(file('src/pages/OrdersNewPage.tsx')).toContain(
+          'Choose a pickup time'
+        )
+        expect(file('src/App.tsx')).toContain(
+          '<Route path="/orders/new" element={<OrdersNewPage />} />'
+        )
+      })
+    })
   })
 })
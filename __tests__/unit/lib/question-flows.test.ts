@@ -0,0 +1,61 @@
+import {
+  PROJECT_TYPES,
+  classifyProjectTypeByKeywords,
+  getQuestionFlow,
+  listQuestionFlows,
+} from '@/lib/question-flows'
+
+describe('Question Flows', () => {
+  describe('getQuestionFlow', () => {
+    it('should return the flow for a project type', () => {
+      const flow = getQuestionFlow('ECOMMERCE')
+
+      expect(flow.type).toBe('ECOMMERCE')
+      expect(flow.label).toBe('Online store')
+      expect(flow.questions.length).toBeGreaterThanOrEqual(3)
+    })
+
+    it('should keep the generic questions for OTHER', () => {
+      expect(getQuestionFlow('OTHER').questions).toContain(
+        'Who is your target user or audience?'
+      )
+    })
+  })
+
+  describe('listQuestionFlows', () => {
+    it('should list one flow per project type in order', () => {
+      expect(listQuestionFlows().map(flow => flow.type)).toEqual([
+        ...PROJECT_TYPES,
+      ])
+    })
+  })
+
+  describe('classifyProjectTypeByKeywords', () => {
+    it('should match keywords in the name and description', () => {
+      expect(
+        classifyProjectTypeByKeywords('Sock Shop', 'Sell socks with a cart')
+      ).toBe('ECOMMERCE')
+      expect(classifyProjectTypeByKeywords('My Portfolio')).toBe('PORTFOLIO')
+    })
+
+    it('should match multi-word keywords', () => {
+      expect(
+        classifyProjectTypeByKeywords('Acme', 'A landing page for our launch')
+      ).toBe('LANDING_PAGE')
+    })
+
+    it('should not match keywords inside other words', () => {
+      expect(classifyProjectTypeByKeywords('Restore', 'Shopping list')).toBe(
+        null
+      )
+    })
+
+    it('should return null when nothing matches', () => {
+      expect(classifyProjectTypeByKeywords('Project X')).toBeNull()
+    })
+
+    it('should return null when two types tie', () => {
+      expect(classifyProjectTypeByKeywords('Blog', 'A shop')).toBeNull()
+    })
+  })
+})
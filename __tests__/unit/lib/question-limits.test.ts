@@ -0,0 +1,39 @@
+import { resolveQuestionLimits } from '@/lib/question-limits'
+
+describe('Question Limits', () => {
+  describe('resolveQuestionLimits', () => {
+    it('should use the plan defaults when the project sets nothing', () => {
+      expect(resolveQuestionLimits('FREE', {})).toEqual({
+        minQuestions: 3,
+        maxQuestions: 10,
+      })
+      expect(resolveQuestionLimits('PRO', {})).toEqual({
+        minQuestions: 3,
+        maxQuestions: 15,
+      })
+    })
+
+    it('should treat a missing plan as FREE', () => {
+      expect(resolveQuestionLimits(undefined, { maxQuestions: 12 })).toEqual({
+        minQuestions: 3,
+        maxQuestions: 12,
+      })
+    })
+
+    it('should cap project settings at the plan ceiling', () => {
+      expect(
+        resolveQuestionLimits('FREE', { minQuestions: 5, maxQuestions: 30 })
+      ).toEqual({ minQuestions: 5, maxQuestions: 15 })
+      expect(resolveQuestionLimits('PRO', { maxQuestions: 30 })).toEqual({
+        minQuestions: 3,
+        maxQuestions: 30,
+      })
+    })
+
+    it('should keep the minimum at or below the maximum', () => {
+      expect(
+        resolveQuestionLimits('FREE', { minQuestions: 8, maxQuestions: 5 })
+      ).toEqual({ minQuestions: 5, maxQuestions: 5 })
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import {
+  classifyRegeneratedFiles,
+  openRegenerationPullRequest,
+  regenerationBranchName,
+  renderPullRequestBody,
+} from '@/lib/regeneration'
+import {
+  createBranch,
+  createFiles,
+  createPullRequest,
+  getFileContent,
+  getRepository,
+} from '@/lib/github'
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  getRepository: jest.fn(),
+  getFileContent: jest.fn(),
+  createBranch: jest.fn(),
+  createFiles: jest.fn(),
+  createPullRequest: jest.fn(),
+}))
+
+const mockGetRepository = getRepository as jest.Mock
+const mockGetFileContent = getFileContent as jest.Mock
+const mockCreateBranch = createBranch as jest.Mock
+const mockCreateFiles = createFiles as jest.Mock
+const mockCreatePullRequest = createPullRequest as jest.Mock
+
+const REPOSITORY_URL = 'https://github.com/user/my-app'
+const AT = new Date('2026-10-18T09:05:03.120Z')
+
+const files = [
+  { path: 'README.md', content: '# My App\n' },
+  { path: 'src/app/page.tsx', content: 'export default function Home() {}' },
+  { path: 'docs/REQUIREMENTS.md', content: '# PRD\n' },
+]
+
+describe('Regeneration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetRepository.mockResolvedValue({
+      url: REPOSITORY_URL,
+      fullName: 'user/my-app',
+      owner: 'user',
+      defaultBranch: 'main',
+    })
+    mockCreatePullRequest.mockResolvedValue({
+      url: `${REPOSITORY_URL}/pull/3`,
+      number: 3,
+    })
+  })
+
+  describe('regenerationBranchName', () => {
+    it('should name the branch after the time of the regeneration', () => {
+      expect(regenerationBranchName(AT)).toBe(
+        'shipsensei/regenerate-20261018-090503'
+      )
+    })
+  })
+
+  describe('classifyRegeneratedFiles', () => {
+    it('should mark files as added, changed or unchanged', () => {
+      const existing = new Map<string, string | null>([
+        ['README.md', '# My App\n'],
+        ['src/app/page.tsx', 'export default function Home() { edited }'],
+        ['docs/REQUIREMENTS.md', null],
+      ])
+
+      expect(classifyRegeneratedFiles(files, existing)).toEqual([
+        { path: 'README.md', status: 'unchanged' },
+        { path: 'src/app/page.tsx', status: 'changed' },
+        { path: 'docs/REQUIREMENTS.md', status: 'added' },
+      ])
+    })
+  })
+
+  describe('renderPullRequestBody', () => {
+    it('should list changed and added files and count the rest', () => {
+      const body = renderPullRequestBody('My App', [
+        { path: 'README.md', status: 'unchanged' },
+        { path: 'src/app/page.tsx', status: 'changed' },
+        { path: 'docs/REQUIREMENTS.md', status: 'added' },
+      ])
+
+      expect(body).toContain('Regenerated **My App**')
+      expect(body).toContain('### Changed files (1)\n\n- `src/app/page.tsx`')
+      expect(body).toContain('### Added files (1)\n\n- `docs/REQUIREMENTS.md`')
+      expect(body).toContain('1 generated file is unchanged.')
+    })
+  })
+
+  describe('openRegenerationPullRequest', () => {
+    it('should push only outdated files to a branch and open a pull request', async () => {
+      mockGetFileContent.mockImplementation(
+        async (_token, _owner, _repo, path: string) =>
+          path === 'README.md'
+            ? '# My App\n'
+            : path === 'src/app/page.tsx'
+              ? 'edited on main'
+              : null
+      )
+
+      const result = await openRegenerationPullRequest(
+        'token',
+        REPOSITORY_URL,
+        'My App',
+        files,
+        AT
+      )
+
+      const branch = 'shipsensei/regenerate-20261018-090503'
+      expect(result).toEqual({
+        branch,
+        pullRequest: { url: `${REPOSITORY_URL}/pull/3`, number: 3 },
+        files: [
+          { path: 'README.md', status: 'unchanged' },
+          { path: 'src/app/page.tsx', status: 'changed' },
+          { path: 'docs/REQUIREMENTS.md', status: 'added' },
+        ],
+      })
+      expect(mockGetFileContent).toHaveBeenCalledWith(
+        'token',
+        'user',
+        'my-app',
+        'README.md',
+        'main'
+      )
+      expect(mockCreateBranch).toHaveBeenCalledWith(
+        'token',
+        'user',
+        'my-app',
+        branch,
+        'main'
+      )
+      expect(mockCreateFiles).toHaveBeenCalledWith(
+        'token',
+        'user',
+        'my-app',
+        [files[1], files[2]],
+        branch
+      )
+      expect(mockCreatePullRequest).toHaveBeenCalledWith(
+        'token',
+        'user',
+        'my-app',
+        expect.objectContaining({
+          title: 'Regenerate My App',
+          head: branch,
+          base: 'main',
+        })
+      )
+    })
+
+    it('should not open a pull request when nothing changed', async () => {
+      mockGetFileContent.mockImplementation(
+        async (_token, _owner, _repo, path: string) =>
+          files.find(file => file.path === path)!.content
+      )
+
+      const result = await openRegenerationPullRequest(
+        'token',
+        REPOSITORY_URL,
+        'My App',
+        files,
+        AT
+      )
+
+      expect(result.branch).toBeNull()
+      expect(result.pullRequest).toBeNull()
+      expect(result.files.every(file => file.status === 'unchanged')).toBe(true)
+      expect(mockCreateBranch).not.toHaveBeenCalled()
+      expect(mockCreateFiles).not.toHaveBeenCalled()
+      expect(mockCreatePullRequest).not.toHaveBeenCalled()
+    })
+
+    it('should reject repository URLs it cannot read', async () => {
+      await expect(
+        openRegenerationPullRequest('token', 'not a url', 'My App', files)
+      ).rejects.toThrow('Invalid repository URL: not a url')
+      expect(mockGetRepository).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import {
+  analyzeRequirements,
+  detectUnusableAnswers,
+} from '@/lib/requirements-analysis'
+import Anthropic from '@anthropic-ai/sdk'
+
+// Mock the Anthropic SDK (using manual mock from __mocks__)
+jest.mock('@anthropic-ai/sdk')
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aiUsage: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+const mockAnthropicCreate = (
+  Anthropic as typeof Anthropic & { mockCreate: jest.Mock }
+).mockCreate
+
+function mockCompletion(result: unknown) {
+  mockAnthropicCreate.mockResolvedValue({
+    content: [
+      {
+        type: 'text',
+        text: typeof result === 'string' ? result : JSON.stringify(result),
+      },
+    ],
+    usage: { input_tokens: 100, output_tokens: 50 },
+  })
+}
+
+const requirements = [
+  { id: 'req-a', question: 'Do users need accounts?', answer: 'No accounts' },
+  {
+    id: 'req-b',
+    question: 'What can users do?',
+    answer: 'Save favorite recipes',
+  },
+  { id: 'req-c', question: 'Who is it for?', answer: 'not sure' },
+  { id: 'req-d', question: 'Any deadline?', answer: null },
+]
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('Requirements Analysis', () => {
+  describe('detectUnusableAnswers', () => {
+    it('should flag unanswered questions and non-answers', () => {
+      const findings = detectUnusableAnswers(requirements)
+
+      expect(findings).toEqual([
+        expect.objectContaining({ type: 'vague', requirementIds: ['req-c'] }),
+        expect.objectContaining({ type: 'gap', requirementIds: ['req-d'] }),
+      ])
+    })
+
+    it('should accept short but meaningful answers', () => {
+      expect(
+        detectUnusableAnswers([{ id: 'r', question: 'Mobile?', answer: 'No' }])
+      ).toEqual([])
+    })
+  })
+
+  describe('analyzeRequirements', () => {
+    it('should map AI findings back to requirement IDs', async () => {
+      mockCompletion({
+        completeness: 90,
+        summary: 'Mostly clear, one conflict.',
+        findings: [
+          {
+            type: 'contradiction',
+            severity: 'high',
+            requirements: ['R1', 'r2'],
+            message: 'Saving favorites needs accounts.',
+            suggestion: 'Decide whether users sign in.',
+          },
+          {
+            type: 'gap',
+            severity: 'low',
+            requirements: [],
+            message: 'No mention of search.',
+            suggestion: 'Ask how recipes are found.',
+          },
+        ],
+      })
+
+      const { data, fallbackUsed } = await analyzeRequirements(
+        'RecipeBox',
+        undefined,
+        requirements
+      )
+
+      expect(fallbackUsed).toBe(false)
+      expect(data.summary).toBe('Mostly clear, one conflict.')
+      expect(data.findings.map(f => [f.type, f.requirementIds])).toEqual([
+        ['contradiction', ['req-a', 'req-b']],
+        ['vague', ['req-c']],
+        ['gap', ['req-d']],
+        ['gap', []],
+      ])
+    })
+
+    it('should only send usable answers to the model', async () => {
+      mockCompletion({ completeness: 100, summary: 'Fine.', findings: [] })
+
+      await analyzeRequirements('RecipeBox', undefined, requirements)
+
+      const prompt = mockAnthropicCreate.mock.calls[0][0].messages[0].content
+      expect(prompt).toContain(
+        '[R2] Q: What can users do?\nA: <user_input>Save favorite recipes</user_input>'
+      )
+      expect(prompt).not.toContain('Who is it for?')
+      expect(prompt).not.toContain('Any deadline?')
+    })
+
+    it('should cap the score at the share of usable answers', async () => {
+      mockCompletion({ completeness: 100, summary: 'Fine.', findings: [] })
+
+      const { data } = await analyzeRequirements(
+        'RecipeBox',
+        undefined,
+        requirements
+      )
+
+      expect(data.completeness).toBe(50)
+    })
+
+    it('should drop contradictions that reference unknown answers', async () => {
+      mockCompletion({
+        completeness: 80,
+        summary: 'One issue.',
+        findings: [
+          {
+            type: 'contradiction',
+            severity: 'high',
+            requirements: ['R9'],
+            message: 'Conflict.',
+            suggestion: 'Fix it.',
+          },
+        ],
+      })
+
+      const { data } = await analyzeRequirements(
+        'RecipeBox',
+        undefined,
+        requirements.slice(0, 2)
+      )
+
+      expect(data.findings).toEqual([])
+    })
+
+    it('should return the basic checks when the AI output stays invalid', async () => {
+      mockCompletion('not json')
+
+      const { data, fallbackUsed } = await analyzeRequirements(
+        'RecipeBox',
+        undefined,
+        requirements
+      )
+
+      expect(fallbackUsed).toBe(true)
+      expect(data.completeness).toBe(50)
+      expect(data.summary).toBe('2 of 4 questions still need a usable answer.')
+      expect(data.findings).toHaveLength(2)
+    })
+
+    it('should not call the AI when no answer is usable', async () => {
+      const { data } = await analyzeRequirements(
+        'RecipeBox',
+        undefined,
+        requirements.slice(2)
+      )
+
+      expect(mockAnthropicCreate).not.toHaveBeenCalled()
+      expect(data.completeness).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,246 @@
+import {
+  ensureRequirementsDocument,
+  generateRequirementsDocument,
+  renderRequirementsMarkdown,
+  saveRequirementsDocument,
+  type RequirementsDocumentContent,
+} from '@/lib/requirements-document'
+import Anthropic from '@anthropic-ai/sdk'
+import { prisma } from '@/lib/prisma'
+
+// Mock the Anthropic SDK (using manual mock from __mocks__)
+jest.mock('@anthropic-ai/sdk')
+
+jest.mock('@/lib/prisma', () => {
+  const prisma = {
+    aiUsage: { create: jest.fn() },
+    requirementsDocument: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  }
+  prisma.$transaction.mockImplementation(callback => callback(prisma))
+  return { prisma }
+})
+
+const mockAnthropicCreate = (
+  Anthropic as typeof Anthropic & { mockCreate: jest.Mock }
+).mockCreate
+const mockFindFirst = prisma.requirementsDocument.findFirst as jest.Mock
+const mockCreate = prisma.requirementsDocument.create as jest.Mock
+
+const interview = [
+  { question: 'Who is it for?', answer: 'Home cooks' },
+  { question: 'What must it do?', answer: 'Save and share recipes' },
+]
+
+const prd = {
+  summary: 'A recipe box for families.',
+  problem: 'Family recipes get lost in notebooks and group chats.',
+  personas: [
+    {
+      name: 'Home cook',
+      description: 'Cooks for the family most evenings',
+      goals: ['Find a recipe quickly'],
+    },
+  ],
+  userStories: [
+    {
+      persona: 'Home cook',
+      story:
+        'As a home cook, I want to save a recipe so that I can find it later.',
+      acceptanceCriteria: ['Saved recipes appear in my list'],
+      priority: 'must',
+    },
+  ],
+  nonGoals: ['Meal planning'],
+  openQuestions: ['Should recipes be public?'],
+}
+
+function mockCompletion(text: string) {
+  mockAnthropicCreate.mockResolvedValue({
+    content: [{ type: 'text', text }],
+    usage: { input_tokens: 100, output_tokens: 200 },
+  })
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('Requirements Document', () => {
+  describe('generateRequirementsDocument', () => {
+    it('should return the structured PRD with the interview attached', async () => {
+      mockCompletion(JSON.stringify(prd))
+
+      const result = await generateRequirementsDocument(
+        'RecipeBox',
+        'Share family recipes',
+        interview
+      )
+
+      expect(result.fallbackUsed).toBe(false)
+      expect(result.promptVersion).toBe('requirements-document@1')
+      expect(result.data).toEqual({ ...prd, interview })
+      expect(
+        mockAnthropicCreate.mock.calls[0][0].messages[0].content
+      ).toContain('A2: <user_input>Save and share recipes</user_input>')
+    })
+
+    it('should fall back to an outline when the output stays invalid', async () => {
+      mockCompletion('not json')
+
+      const result = await generateRequirementsDocument(
+        'RecipeBox',
+        undefined,
+        interview
+      )
+
+      expect(result.fallbackUsed).toBe(true)
+      expect(result.promptVersion).toBeUndefined()
+      expect(result.data.summary).toBe('RecipeBox')
+      expect(result.data.userStories).toEqual([])
+      expect(result.data.interview).toEqual(interview)
+    })
+  })
+
+  describe('saveRequirementsDocument', () => {
+    it('should store the next version of the project document', async () => {
+      mockFindFirst.mockResolvedValue({ version: 2 })
+      mockCreate.mockImplementation(async ({ data }) => ({
+        id: 'doc3',
+        createdAt: new Date(),
+        ...data,
+      }))
+
+      const document = await saveRequirementsDocument('project123', {
+        data: { ...prd, interview } as RequirementsDocumentContent,
+        fallbackUsed: false,
+        attempts: 1,
+        promptVersion: 'requirements-document@1',
+      })
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          projectId: 'project123',
+          version: 3,
+          content: { ...prd, interview },
+          promptVersion: 'requirements-document@1',
+        },
+      })
+      expect(document.version).toBe(3)
+    })
+
+    it('should start at version 1 and record fallback content without a prompt', async () => {
+      mockFindFirst.mockResolvedValue(null)
+      mockCreate.mockImplementation(async ({ data }) => data)
+
+      await saveRequirementsDocument('project123', {
+        data: { ...prd, interview } as RequirementsDocumentContent,
+        fallbackUsed: true,
+        attempts: 3,
+      })
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 1, promptVersion: null }),
+      })
+    })
+  })
+
+  describe('ensureRequirementsDocument', () => {
+    const project = { id: 'project123', name: 'RecipeBox', description: null }
+    const latest = {
+      id: 'doc1',
+      projectId: 'project123',
+      version: 1,
+      content: { ...prd, interview },
+      promptVersion: 'requirements-document@1',
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+    }
+
+    it('should reuse the latest document when the answers are unchanged', async () => {
+      mockFindFirst.mockResolvedValue(latest)
+
+      const document = await ensureRequirementsDocument(
+        project,
+        interview.map(qa => ({
+          ...qa,
+          updatedAt: new Date('2026-01-01T00:00:00Z'),
+        }))
+      )
+
+      expect(document).toEqual(latest)
+      expect(mockAnthropicCreate).not.toHaveBeenCalled()
+    })
+
+    it('should generate a new version when an answer changed', async () => {
+      mockFindFirst.mockResolvedValue(latest)
+      mockCompletion(JSON.stringify(prd))
+      mockCreate.mockImplementation(async ({ data }) => data)
+
+      const document = await ensureRequirementsDocument(
+        project,
+        interview.map(qa => ({
+          ...qa,
+          updatedAt: new Date('2026-01-03T00:00:00Z'),
+        }))
+      )
+
+      expect(mockAnthropicCreate).toHaveBeenCalledTimes(1)
+      expect(document.version).toBe(2)
+    })
+
+    it('should replace a fallback document once the AI answers again', async () => {
+      mockFindFirst.mockResolvedValue({ ...latest, promptVersion: null })
+      mockCompletion(JSON.stringify(prd))
+      mockCreate.mockImplementation(async ({ data }) => data)
+
+      const document = await ensureRequirementsDocument(
+        project,
+        interview.map(qa => ({
+          ...qa,
+          updatedAt: new Date('2026-01-01T00:00:00Z'),
+        }))
+      )
+
+      expect(mockAnthropicCreate).toHaveBeenCalledTimes(1)
+      expect(document.version).toBe(2)
+      expect(document.promptVersion).toBe('requirements-document@1')
+    })
+  })
+
+  describe('renderRequirementsMarkdown', () => {
+    it('should render every section and the interview', () => {
+      const markdown = renderRequirementsMarkdown('RecipeBox', {
+        version: 2,
+        content: { ...prd, interview } as RequirementsDocumentContent,
+        createdAt: new Date('2026-01-02T00:00:00Z'),
+      })
+
+      expect(markdown).toContain('# RecipeBox: Product Requirements')
+      expect(markdown).toContain('_Version 2, generated 2026-01-02')
+      expect(markdown).toContain('### Home cook')
+      expect(markdown).toContain('**Priority:** Must have')
+      expect(markdown).toContain('- [ ] Saved recipes appear in my list')
+      expect(markdown).toContain('## Non-Goals\n\n- Meal planning')
+      expect(markdown).toContain('**Q1. Who is it for?**\n\nHome cooks')
+    })
+
+    it('should mark empty sections', () => {
+      const markdown = renderRequirementsMarkdown('RecipeBox', {
+        version: 1,
+        content: {
+          ...prd,
+          personas: [],
+          nonGoals: [],
+          interview: [],
+        } as RequirementsDocumentContent,
+        createdAt: new Date(),
+      })
+
+      expect(markdown).toContain('## Personas\n\n_None yet._')
+      expect(markdown).toContain('## Non-Goals\n\n_None yet._')
+    })
+  })
+})
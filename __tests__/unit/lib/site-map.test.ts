@@ -0,0 +1,133 @@
+import {
+  MAX_SHARED_COMPONENTS,
+  MAX_SITE_PAGES,
+  navigationPages,
+  normalizeSiteMap,
+  pageComponentName,
+  siteMapSchema,
+  type SitePage,
+} from '@/lib/site-map'
+
+const page = (route: string, overrides: Partial<SitePage> = {}): SitePage => ({
+  route,
+  name: route,
+  purpose: `The ${route} page`,
+  features: [],
+  components: [],
+  inNavigation: true,
+  ...overrides,
+})
+
+describe('Site Map', () => {
+  describe('normalizeSiteMap', () => {
+    it('should put the home page first and add one if missing', () => {
+      const withHome = normalizeSiteMap({
+        pages: [page('/about'), page('/')],
+        components: [],
+      })
+      expect(withHome.pages.map(p => p.route)).toEqual(['/', '/about'])
+
+      const withoutHome = normalizeSiteMap({
+        pages: [page('/about')],
+        components: [],
+      })
+      expect(withoutHome.pages.map(p => p.route)).toEqual(['/', '/about'])
+      expect(withoutHome.pages[0].name).toBe('Home')
+    })
+
+    it('should clean up routes and drop duplicates', () => {
+      const { pages } = normalizeSiteMap({
+        pages: [
+          page('/'),
+          page('/orders//new/', { name: 'First' }),
+          page('/orders/new', { name: 'Second' }),
+        ],
+        components: [],
+      })
+
+      expect(pages.map(p => p.route)).toEqual(['/', '/orders/new'])
+      expect(pages[1].name).toBe('First')
+    })
+
+    it('should drop pages that would share a component name', () => {
+      const { pages } = normalizeSiteMap({
+        pages: [
+          page('/home'),
+          page('/'),
+          page('/orders-new', { name: 'First' }),
+          page('/orders/new', { name: 'Second' }),
+        ],
+        components: [],
+      })
+
+      expect(pages.map(p => p.route)).toEqual(['/', '/orders-new'])
+      expect(new Set(pages.map(p => pageComponentName(p.route))).size).toBe(2)
+    })
+
+    it('should cap the number of pages and components', () => {
+      const { pages, components } = normalizeSiteMap({
+        pages: Array.from({ length: 10 }, (_, i) => page(`/page-${i}`)),
+        components: Array.from({ length: 10 }, (_, i) => ({
+          name: `Card${i}`,
+          purpose: 'A card',
+        })),
+      })
+
+      expect(pages).toHaveLength(MAX_SITE_PAGES)
+      expect(components).toHaveLength(MAX_SHARED_COMPONENTS)
+    })
+
+    it('should drop reserved components and unknown references', () => {
+      const { pages, components } = normalizeSiteMap({
+        pages: [
+          page('/', { components: ['Navigation', 'DishCard', 'Missing'] }),
+        ],
+        components: [
+          { name: 'Navigation', purpose: 'Links' },
+          { name: 'MenuPage', purpose: 'Clashes with a page' },
+          { name: 'DishCard', purpose: 'One dish' },
+        ],
+      })
+
+      expect(components.map(c => c.name)).toEqual(['DishCard'])
+      expect(pages[0].components).toEqual(['DishCard'])
+    })
+  })
+
+  describe('siteMapSchema', () => {
+    it('should reject routes and component names that cannot become files', () => {
+      expect(
+        siteMapSchema.safeParse({
+          pages: [page('/menu?x=1')],
+          components: [],
+        }).success
+      ).toBe(false)
+      expect(
+        siteMapSchema.safeParse({
+          pages: [page('/')],
+          components: [{ name: '../evil', purpose: 'Escape' }],
+        }).success
+      ).toBe(false)
+    })
+  })
+
+  describe('pageComponentName', () => {
+    it('should derive a PascalCase component name from the route', () => {
+      expect(pageComponentName('/')).toBe('HomePage')
+      expect(pageComponentName('/orders/new')).toBe('OrdersNewPage')
+      expect(pageComponentName('/my-account')).toBe('MyAccountPage')
+      expect(pageComponentName('/404')).toBe('Page404')
+    })
+  })
+
+  describe('navigationPages', () => {
+    it('should list only pages shown in the navigation', () => {
+      const siteMap = normalizeSiteMap({
+        pages: [page('/'), page('/checkout', { inNavigation: false })],
+        components: [],
+      })
+
+      expect(navigationPages(siteMap).map(p => p.route)).toEqual(['/'])
+    })
+  })
+})
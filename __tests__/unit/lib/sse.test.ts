@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  createSSEResponse,
+  formatSSE,
+  readSSEStream,
+  type SSEMessage,
+} from '@/lib/sse'
+
+const encoder = new TextEncoder()
+
+// Build a stream that yields the given text chunks verbatim
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      controller.close()
+    },
+  })
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages: SSEMessage[] = []
+  await readSSEStream(body, message => messages.push(message))
+  return messages
+}
+
+describe('Server-Sent Events', () => {
+  describe('formatSSE', () => {
+    it('should encode event name and JSON data', () => {
+      expect(formatSSE('token', { text: 'Hi' })).toBe(
+        'event: token\ndata: {"text":"Hi"}\n\n'
+      )
+    })
+  })
+
+  describe('readSSEStream', () => {
+    it('should decode events split across chunks', async () => {
+      const raw = formatSSE('token', { text: 'a' }) + formatSSE('done', {})
+      const messages = await collect(
+        streamOf([raw.slice(0, 7), raw.slice(7, 30), raw.slice(30)])
+      )
+
+      expect(messages).toEqual([
+        { event: 'token', data: { text: 'a' } },
+        { event: 'done', data: {} },
+      ])
+    })
+
+    it('should default the event name to message', async () => {
+      const messages = await collect(streamOf(['data: {"ok":true}\n\n']))
+
+      expect(messages).toEqual([{ event: 'message', data: { ok: true } }])
+    })
+
+    it('should pass through non-JSON data as text', async () => {
+      const messages = await collect(streamOf(['event: note\ndata: hello\n\n']))
+
+      expect(messages).toEqual([{ event: 'note', data: 'hello' }])
+    })
+  })
+
+  describe('createSSEResponse', () => {
+    it('should stream events sent by the handler', async () => {
+      const response = createSSEResponse(async send => {
+        send('token', { text: 'Hello' })
+        send('done', { ok: true })
+      })
+
+      expect(response.headers.get('Content-Type')).toContain(
+        'text/event-stream'
+      )
+      expect(await collect(response.body!)).toEqual([
+        { event: 'token', data: { text: 'Hello' } },
+        { event: 'done', data: { ok: true } },
+      ])
+    })
+
+    it('should report handler failures as an error event', async () => {
+      const onError = jest.fn(() => 'Something broke')
+      const response = createSSEResponse(async send => {
+        send('token', { text: 'partial' })
+        throw new Error('boom')
+      }, onError)
+
+      expect(await collect(response.body!)).toEqual([
+        { event: 'token', data: { text: 'partial' } },
+        { event: 'error', data: { error: 'Something broke' } },
+      ])
+      expect(onError).toHaveBeenCalledWith(expect.any(Error))
+    })
+  })
+})
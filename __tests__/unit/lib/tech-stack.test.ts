@@ -0,0 +1,144 @@
+import {
+  DEFAULT_STACK_SELECTION,
+  describeStack,
+  getStackOption,
+  getStackOptions,
+  listSelectedOptions,
+  normalizeStackSelection,
+  parseTechStackRecommendation,
+  resolveStackSelection,
+  stackSelectionSchema,
+} from '@/lib/tech-stack'
+
+const alternative = {
+  name: 'Shop',
+  components: { ...DEFAULT_STACK_SELECTION, payments: 'stripe' },
+  rationale: 'Sells things.',
+  tradeoffs: ['Stripe fees'],
+}
+
+describe('Tech Stack', () => {
+  describe('stackSelectionSchema', () => {
+    it('should accept catalog options only', () => {
+      expect(
+        stackSelectionSchema.safeParse(DEFAULT_STACK_SELECTION).success
+      ).toBe(true)
+      expect(
+        stackSelectionSchema.safeParse({
+          ...DEFAULT_STACK_SELECTION,
+          database: 'mongodb',
+        }).success
+      ).toBe(false)
+    })
+  })
+
+  describe('describeStack', () => {
+    it('should list chosen options and skip "none"', () => {
+      expect(
+        describeStack({
+          ...DEFAULT_STACK_SELECTION,
+          database: 'none',
+          auth: 'clerk',
+        })
+      ).toBe('Next.js 14 + Clerk + Vercel + Tailwind CSS')
+    })
+  })
+
+  describe('listSelectedOptions', () => {
+    it('should return catalog entries with their packages', () => {
+      const options = listSelectedOptions(alternative.components)
+
+      expect(options.map(option => option.id)).toContain('stripe')
+      expect(getStackOption('payments', 'stripe')?.env).toContain(
+        'STRIPE_SECRET_KEY'
+      )
+    })
+  })
+
+  describe('framework support', () => {
+    it('should only offer options that work with the framework', () => {
+      expect(getStackOptions('auth', 'vite-react').map(o => o.id)).toEqual([
+        'none',
+      ])
+      expect(getStackOptions('auth').map(o => o.id)).toContain('nextauth')
+    })
+
+    it('should swap out options the framework cannot run', () => {
+      expect(
+        normalizeStackSelection({
+          ...DEFAULT_STACK_SELECTION,
+          framework: 'astro',
+          styling: 'shadcn',
+          payments: 'stripe',
+        })
+      ).toEqual({
+        framework: 'astro',
+        database: 'none',
+        auth: 'none',
+        hosting: 'vercel',
+        styling: 'tailwind',
+        payments: 'none',
+      })
+      expect(normalizeStackSelection(DEFAULT_STACK_SELECTION)).toEqual(
+        DEFAULT_STACK_SELECTION
+      )
+    })
+  })
+
+  describe('parseTechStackRecommendation', () => {
+    it('should read structured recommendations', () => {
+      const stored = JSON.stringify({ alternatives: [alternative] })
+
+      expect(parseTechStackRecommendation(stored)).toEqual({
+        alternatives: [alternative],
+      })
+    })
+
+    it('should turn a legacy recommendation into one alternative', () => {
+      const stored = JSON.stringify({
+        stack: 'Next.js + Tailwind CSS + Prisma',
+        rationale: 'Great for your use case',
+      })
+
+      expect(parseTechStackRecommendation(stored)).toEqual({
+        alternatives: [
+          {
+            name: 'Next.js + Tailwind CSS + Prisma',
+            components: DEFAULT_STACK_SELECTION,
+            rationale: 'Great for your use case',
+            tradeoffs: [],
+          },
+        ],
+      })
+    })
+
+    it('should return null for missing or invalid JSON', () => {
+      expect(parseTechStackRecommendation(null)).toBeNull()
+      expect(parseTechStackRecommendation('invalid json')).toBeNull()
+    })
+  })
+
+  describe('resolveStackSelection', () => {
+    const techStack = JSON.stringify({ alternatives: [alternative] })
+
+    it('should prefer the stored selection', () => {
+      const techStackSelection = {
+        ...DEFAULT_STACK_SELECTION,
+        database: 'sqlite',
+      }
+
+      expect(resolveStackSelection({ techStack, techStackSelection })).toEqual(
+        techStackSelection
+      )
+    })
+
+    it('should fall back to the top recommendation, then the defaults', () => {
+      expect(
+        resolveStackSelection({ techStack, techStackSelection: null })
+      ).toEqual(alternative.components)
+      expect(resolveStackSelection({ techStack: null })).toEqual(
+        DEFAULT_STACK_SELECTION
+      )
+    })
+  })
+})
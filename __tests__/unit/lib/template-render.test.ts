@@ -0,0 +1,95 @@
+import ts from 'typescript'
+import {
+  htmlText,
+  jsonValue,
+  jsxText,
+  markdownText,
+  toPackageName,
+  tsStringLiteral,
+  yamlString,
+} from '@/lib/templates'
+
+// Evaluate a TypeScript expression the way the generated project would
+function evaluate(expression: string): unknown {
+  const { outputText } = ts.transpileModule(`module.exports = ${expression}`, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+  })
+  const module = { exports: undefined as unknown }
+  new Function('module', outputText)(module)
+  return module.exports
+}
+
+const tricky = 'It\'s "the best" \\ {app} <b>&</b>\nline two '
+
+describe('Template Rendering', () => {
+  describe('tsStringLiteral', () => {
+    it('should produce a literal that evaluates to the original text', () => {
+      expect(tsStringLiteral("It's")).toBe("'It\\'s'")
+      expect(evaluate(tsStringLiteral(tricky))).toBe(tricky)
+    })
+  })
+
+  describe('jsxText', () => {
+    it('should escape braces, tags and ampersands', () => {
+      expect(jsxText('{x} <b> & more')).toBe(
+        '&#123;x&#125; &lt;b&gt; &amp; more'
+      )
+    })
+
+    it('should keep generated JSX valid', () => {
+      const source = `const el = <h1>${jsxText(tricky)}</h1>`
+      const { diagnostics } = ts.transpileModule(source, {
+        compilerOptions: { jsx: ts.JsxEmit.Preserve },
+        fileName: 'page.tsx',
+        reportDiagnostics: true,
+      })
+
+      expect(diagnostics).toEqual([])
+    })
+  })
+
+  describe('jsonValue and yamlString', () => {
+    it('should round-trip through JSON', () => {
+      expect(JSON.parse(jsonValue({ name: tricky }))).toEqual({ name: tricky })
+      expect(jsonValue(undefined)).toBe('null')
+    })
+
+    it('should quote YAML scalars', () => {
+      expect(yamlString('name: "x" # y')).toBe('"name: \\"x\\" # y"')
+    })
+  })
+
+  describe('markdownText', () => {
+    it('should escape Markdown syntax and keep to one line', () => {
+      expect(markdownText('# *Big* [deal]\n- yes')).toBe(
+        '\\# \\*Big\\* \\[deal\\] \\- yes'
+      )
+    })
+  })
+
+  describe('htmlText', () => {
+    it('should escape text and attribute values', () => {
+      expect(htmlText('"a" & <b> \'c\'')).toBe(
+        '&quot;a&quot; &amp; &lt;b&gt; &#39;c&#39;'
+      )
+    })
+  })
+
+  describe('toPackageName', () => {
+    it.each([
+      ['My Test Project', 'my-test-project'],
+      ['It\'s "the best"', 'it-s-the-best'],
+      ['Café Crème', 'cafe-creme'],
+      ['_private .app', 'private-.app'],
+      ['  !!!  ', 'my-app'],
+      ['HTTP', 'http-app'],
+      ['node_modules', 'my-app'],
+    ])('should turn %j into %j', (projectName, expected) => {
+      expect(toPackageName(projectName)).toBe(expected)
+    })
+
+    it('should stay within the npm length limit', () => {
+      expect(toPackageName('a'.repeat(300))).toHaveLength(214)
+    })
+  })
+})
@@ -0,0 +1,267 @@
+import ts from 'typescript'
+import {
+  getTemplate,
+  listTemplates,
+  renderTemplateFiles,
+  selectTemplate,
+  templateVariables,
+} from '@/lib/templates'
+import { normalizeDataModel } from '@/lib/data-model'
+import type { SiteMap } from '@/lib/site-map'
+import {
+  DEFAULT_STACK_SELECTION,
+  getStackOption,
+  type StackSelection,
+} from '@/lib/tech-stack'
+
+const siteMap: SiteMap = {
+  pages: [
+    {
+      route: '/',
+      name: 'Home',
+      purpose: 'Welcome',
+      features: [],
+      components: [],
+      inNavigation: true,
+    },
+    {
+      route: '/orders/new',
+      name: 'New Order',
+      purpose: 'Place an order',
+      features: [],
+      components: [],
+      inNavigation: true,
+    },
+  ],
+  components: [],
+}
+
+const staticStack = (framework: string): StackSelection => ({
+  framework,
+  database: 'none',
+  auth: 'none',
+  hosting: 'vercel',
+  styling: 'tailwind',
+  payments: 'none',
+})
+
+describe('Project Templates', () => {
+  it('should give every template a catalog framework and unique ID', () => {
+    const templates = listTemplates()
+    const ids = templates.map(template => template.manifest.id)
+
+    expect(new Set(ids).size).toBe(ids.length)
+    for (const { manifest } of templates) {
+      expect(getStackOption('framework', manifest.framework)).toBeDefined()
+    }
+  })
+
+  describe('selectTemplate', () => {
+    it('should pick the Prisma variant for Prisma databases', () => {
+      expect(selectTemplate(DEFAULT_STACK_SELECTION).manifest.id).toBe(
+        'nextjs-prisma'
+      )
+      expect(
+        selectTemplate({ ...DEFAULT_STACK_SELECTION, database: 'supabase' })
+          .manifest.id
+      ).toBe('nextjs')
+    })
+
+    it('should pick the template for the framework', () => {
+      expect(selectTemplate(staticStack('vite-react')).manifest.id).toBe(
+        'vite-react'
+      )
+      expect(selectTemplate(staticStack('astro')).manifest.id).toBe('astro')
+    })
+
+    it('should reject frameworks without a template', () => {
+      expect(() => selectTemplate(staticStack('remix'))).toThrow(
+        'No project template for framework "remix"'
+      )
+    })
+  })
+
+  describe('renderTemplateFiles', () => {
+    it('should render the tree with the project variables', () => {
+      const files = renderTemplateFiles(
+        getTemplate('nextjs-prisma')!,
+        templateVariables('Bakery Orders', 'Cake orders', {
+          ...DEFAULT_STACK_SELECTION,
+          database: 'sqlite',
+        })
+      )
+      const file = (path: string) => files.find(f => f.path === path)?.content
+
+      expect(JSON.parse(file('package.json') || '{}').name).toBe(
+        'bakery-orders'
+      )
+      expect(file('prisma/schema.prisma')).toContain('provider = "sqlite"')
+      expect(file('src/lib/db.ts')).toContain('new PrismaClient()')
+      expect(file('src/app/layout.tsx')).toContain("title: 'Bakery Orders'")
+    })
+
+    it('should leave out files that render to nothing', () => {
+      const files = renderTemplateFiles(
+        getTemplate('nextjs-prisma')!,
+        templateVariables('App', '', {
+          ...DEFAULT_STACK_SELECTION,
+          database: 'supabase',
+        })
+      )
+
+      expect(files.map(f => f.path)).not.toContain('prisma/schema.prisma')
+    })
+
+    it('should leave out the navigation for single-page sites', () => {
+      const files = renderTemplateFiles(
+        getTemplate('nextjs')!,
+        templateVariables('App', '', staticStack('nextjs'))
+      )
+      const paths = files.map(f => f.path)
+
+      expect(paths).not.toContain('src/components/Navigation.tsx')
+      expect(
+        files.find(f => f.path === 'src/app/layout.tsx')?.content
+      ).not.toContain('Navigation')
+    })
+
+    it('should route every page of a Vite + React site', () => {
+      const files = renderTemplateFiles(
+        getTemplate('vite-react')!,
+        templateVariables('Shop', '', staticStack('vite-react'), siteMap)
+      )
+      const file = (path: string) => files.find(f => f.path === path)?.content
+
+      expect(file('src/App.tsx')).toContain(
+        "import OrdersNewPage from './pages/OrdersNewPage'"
+      )
+      expect(file('src/App.tsx')).toContain(
+        '<Route path="/orders/new" element={<OrdersNewPage />} />'
+      )
+      expect(file('src/components/Navigation.tsx')).toContain(
+        '"href":"/orders/new"'
+      )
+    })
+
+    it('should add an Astro route file for every page', () => {
+      const files = renderTemplateFiles(
+        getTemplate('astro')!,
+        templateVariables('Shop', 'Buy things', staticStack('astro'), siteMap)
+      )
+      const file = (path: string) => files.find(f => f.path === path)?.content
+
+      expect(file('src/pages/index.astro')).toContain(
+        "import HomePage from '../components/pages/HomePage'"
+      )
+      expect(file('src/pages/orders/new.astro')).toContain(
+        "import Layout from '../../layouts/Layout.astro'"
+      )
+      expect(file('src/pages/orders/new.astro')).toContain(
+        "title={'New Order | Shop'}"
+      )
+      expect(file('src/components/Navigation.astro')).toContain(
+        'href="/orders/new"'
+      )
+    })
+  })
+
+  describe('data layer', () => {
+    const dataModel = normalizeDataModel({
+      entities: [
+        {
+          name: 'User',
+          description: 'A customer',
+          fields: [
+            { name: 'email', type: 'String', optional: false, unique: true },
+          ],
+          belongsTo: [],
+        },
+        {
+          name: 'OrderItem',
+          description: 'One line of an order',
+          fields: [
+            { name: 'quantity', type: 'Int', optional: false, unique: false },
+            { name: 'note', type: 'String', optional: true, unique: false },
+          ],
+          belongsTo: ['User'],
+        },
+      ],
+    })
+    const render = () =>
+      renderTemplateFiles(
+        getTemplate('nextjs-prisma')!,
+        templateVariables(
+          'Shop',
+          '',
+          { ...DEFAULT_STACK_SELECTION, database: 'sqlite' },
+          undefined,
+          dataModel
+        )
+      )
+
+    it('should add a Prisma model per entity with both sides of each link', () => {
+      const schema = render().find(
+        f => f.path === 'prisma/schema.prisma'
+      )?.content
+
+      expect(schema).toContain('/// A customer\nmodel User {')
+      expect(schema).toContain('  email String @unique')
+      expect(schema).toContain(
+        '  orderItems OrderItem[] @relation("OrderItemUser")'
+      )
+      expect(schema).toContain('  note String?')
+      expect(schema).toContain(
+        '  user User? @relation("OrderItemUser", fields: [userId], references: [id], onDelete: SetNull)'
+      )
+    })
+
+    it('should seed parents before the entities that link to them', () => {
+      const seed =
+        render().find(f => f.path === 'prisma/seed.ts')?.content || ''
+
+      expect(seed.indexOf('db.user.create')).toBeLessThan(
+        seed.indexOf('db.orderItem.create')
+      )
+      expect(seed).toContain('userId: users[i - 1].id')
+    })
+
+    it('should add helpers and CRUD routes that parse as TypeScript', () => {
+      const files = render()
+      const paths = [
+        'src/lib/data/input.ts',
+        'src/lib/data/order-items.ts',
+        'src/app/api/order-items/route.ts',
+        'src/app/api/order-items/[id]/route.ts',
+        'prisma/seed.ts',
+      ]
+
+      for (const path of paths) {
+        const content = files.find(f => f.path === path)?.content
+        expect(content).toBeDefined()
+        expect(
+          ts.transpileModule(content || '', {
+            fileName: path,
+            reportDiagnostics: true,
+          }).diagnostics
+        ).toEqual([])
+      }
+      expect(
+        files.find(f => f.path === 'src/app/api/order-items/route.ts')?.content
+      ).toContain("from '@/lib/data/order-items'")
+    })
+
+    it('should only scaffold the Prisma client without entities', () => {
+      const files = renderTemplateFiles(
+        getTemplate('nextjs-prisma')!,
+        templateVariables('Shop', '', DEFAULT_STACK_SELECTION)
+      )
+      const paths = files.map(f => f.path)
+
+      expect(paths).toContain('prisma/seed.ts')
+      expect(paths.some(path => path.startsWith('src/app/api/'))).toBe(false)
+      expect(
+        files.find(f => f.path === 'prisma/schema.prisma')?.content
+      ).not.toContain('model ')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { diffLines, MAX_DIFF_CELLS, unifiedDiff } from '@/lib/text-diff'
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+describe('Text Diff', () => {
+  describe('diffLines', () => {
+    it('should mark removed lines before the lines replacing them', () => {
+      expect(diffLines('a\nb\nc\n', 'a\nB\nc\n')).toEqual([
+        { type: 'context', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'B' },
+        { type: 'context', text: 'c' },
+      ])
+    })
+
+    it('should keep lines both versions share', () => {
+      const lines = diffLines('a\nb\nc\nd', 'b\nx\nd\ne')
+
+      expect(lines?.map(line => `${line.type[0]}${line.text}`)).toEqual([
+        'ra',
+        'cb',
+        'rc',
+        'ax',
+        'cd',
+        'ae',
+      ])
+    })
+
+    it('should give up on files too large to compare', () => {
+      const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS))
+      const before = numbered(size).join('\n')
+      const after = numbered(size)
+        .map(line => `${line}!`)
+        .join('\n')
+
+      expect(diffLines(before, after)).toBeNull()
+    })
+
+    it('should still compare large files with small changes', () => {
+      const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 10
+      const before = numbered(size)
+      const after = [...before]
+      after.splice(size / 2, 1, 'changed')
+
+      const lines = diffLines(before.join('\n'), after.join('\n'))
+
+      expect(lines?.filter(line => line.type !== 'context')).toHaveLength(2)
+    })
+  })
+
+  describe('unifiedDiff', () => {
+    it('should return an empty diff for identical files', () => {
+      expect(unifiedDiff('README.md', '# App\n', '# App\n')).toBe('')
+    })
+
+    it('should group changes into hunks with three lines of context', () => {
+      const before = numbered(20)
+      const after = [...before]
+      after.splice(1, 1, 'second')
+      after.splice(17, 1)
+
+      expect(
+        unifiedDiff('src/app/page.tsx', before.join('\n'), after.join('\n'))
+      ).toBe(
+        [
+          '--- a/src/app/page.tsx',
+          '+++ b/src/app/page.tsx',
+          '@@ -1,5 +1,5 @@',
+          ' line 1',
+          '-line 2',
+          '+second',
+          ' line 3',
+          ' line 4',
+          ' line 5',
+          '@@ -15,6 +15,5 @@',
+          ' line 15',
+          ' line 16',
+          ' line 17',
+          '-line 18',
+          ' line 19',
+          ' line 20',
+          '',
+        ].join('\n')
+      )
+    })
+
+    it('should diff new files against nothing', () => {
+      expect(unifiedDiff('.env.example', '', 'A=1\nB=2\n')).toBe(
+        '--- a/.env.example\n+++ b/.env.example\n@@ -0,0 +1,2 @@\n+A=1\n+B=2\n'
+      )
+    })
+  })
+})
@@ -215,6 +215,7 @@ describe('Middleware - Rate Limiting', () => {
 
       const mockRequest = {
         nextUrl: { pathname: '/api/projects/123/generate' },
+        method: 'POST',
         ip: '127.0.0.1',
         headers: new Map(),
       } as unknown as NextRequest
@@ -232,6 +233,7 @@ describe('Middleware - Rate Limiting', () => {
 
       const mockRequest = {
         nextUrl: { pathname: '/api/projects/123/recommend-stack' },
+        method: 'POST',
         ip: '127.0.0.1',
         headers: new Map(),
       } as unknown as NextRequest
@@ -244,6 +246,120 @@ describe('Middleware - Rate Limiting', () => {
       )
     })
 
+    it.each([
+      '/api/projects/123/preview',
+      '/api/projects/123/prd',
+      '/api/projects/123/analyze-requirements',
+      '/api/projects/123/export',
+    ])('should apply 10/min limit to POST %s', async pathname => {
+      mockGetToken.mockResolvedValue(null)
+
+      // Own bucket per endpoint: limits are counted per identifier
+      const mockRequest = {
+        nextUrl: { pathname },
+        method: 'POST',
+        ip: `10.0.0.${pathname.length}`,
+        headers: new Map(),
+      } as unknown as NextRequest
+
+      const response = await middleware(mockRequest)
+
+      expect(response.headers.set).toHaveBeenCalledWith(
+        'X-RateLimit-Limit',
+        '10'
+      )
+    })
+
+    it.each(['/api/projects/123/preview', '/api/projects/123/prd'])(
+      'should not apply the AI limit to GET %s',
+      async pathname => {
+        mockGetToken.mockResolvedValue(null)
+
+        const mockRequest = {
+          nextUrl: { pathname },
+          method: 'GET',
+          ip: `10.0.1.${pathname.length}`,
+          headers: new Map(),
+        } as unknown as NextRequest
+
+        const response = await middleware(mockRequest)
+
+        expect(response.headers.set).toHaveBeenCalledWith(
+          'X-RateLimit-Limit',
+          '100'
+        )
+      }
+    )
+
+    it.each([
+      ['/api/projects/123/chat', 'start', '10'],
+      ['/api/projects/123/chat', 'suggest', '10'],
+      ['/api/projects/123/chat/stream', 'expand', '10'],
+      ['/api/projects/123/chat', 'answer', '100'],
+      ['/api/projects/123/chat/stream', 'skip', '100'],
+      ['/api/projects/123/chat', 'finish', '100'],
+    ])(
+      'should limit POST %s with action %s to %s/min',
+      async (pathname, action, limit) => {
+        mockGetToken.mockResolvedValue(null)
+
+        const mockRequest = {
+          nextUrl: { pathname },
+          method: 'POST',
+          ip: `10.0.2.${pathname.length + action.length}`,
+          headers: new Map(),
+          clone: () => ({ json: async () => ({ action }) }),
+        } as unknown as NextRequest
+
+        const response = await middleware(mockRequest)
+
+        expect(response.headers.set).toHaveBeenCalledWith(
+          'X-RateLimit-Limit',
+          limit
+        )
+      }
+    )
+
+    it('should not apply the AI limit to unreadable chat bodies', async () => {
+      mockGetToken.mockResolvedValue(null)
+
+      const mockRequest = {
+        nextUrl: { pathname: '/api/projects/123/chat' },
+        method: 'POST',
+        ip: '10.0.3.1',
+        headers: new Map(),
+        clone: () => ({
+          json: async () => {
+            throw new SyntaxError('Unexpected token')
+          },
+        }),
+      } as unknown as NextRequest
+
+      const response = await middleware(mockRequest)
+
+      expect(response.headers.set).toHaveBeenCalledWith(
+        'X-RateLimit-Limit',
+        '100'
+      )
+    })
+
+    it('should not apply the AI limit to editing preview files', async () => {
+      mockGetToken.mockResolvedValue(null)
+
+      const mockRequest = {
+        nextUrl: { pathname: '/api/projects/123/preview/files' },
+        ip: '127.0.0.1',
+        headers: new Map(),
+      } as unknown as NextRequest
+
+      const response = await middleware(mockRequest)
+
+      expect(response.headers.set).toHaveBeenCalledWith(
+        'X-RateLimit-Limit',
+        '100'
+      )
+    })
+
     it('should apply 5/hour limit to deployment endpoints', async () => {
       mockGetToken.mockResolvedValue(null)
 
@@ -299,6 +415,7 @@ describe('Middleware - Rate Limiting', () => {
       for (let i = 0; i < 12; i++) {
         await middleware({
           nextUrl: { pathname: '/api/projects/1/generate' },
+          method: 'POST',
           ip: '192.168.99.99',
           headers: new Map(),
         } as unknown as NextRequest)
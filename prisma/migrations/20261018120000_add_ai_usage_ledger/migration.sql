@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "projectId" TEXT,
+    "operation" VARCHAR(50) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "costUsd" DECIMAL(12,6) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_userId_createdAt_idx" ON "ai_usage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_projectId_createdAt_idx" ON "ai_usage"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Add comments
+COMMENT ON TABLE "ai_usage" IS 'Ledger of LLM calls with token counts and estimated cost';
+COMMENT ON COLUMN "ai_usage"."costUsd" IS 'Estimated cost in USD from list prices at time of call';
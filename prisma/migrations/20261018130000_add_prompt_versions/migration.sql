@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "promptVersions" JSONB;
+
+-- AlterTable
+ALTER TABLE "requirements" ADD COLUMN "promptVersion" VARCHAR(100);
+
+-- Add comments
+COMMENT ON COLUMN "projects"."promptVersions" IS 'Prompt reference (<id>@<version>) per generated artifact';
+COMMENT ON COLUMN "requirements"."promptVersion" IS 'Prompt reference (<id>@<version>) that produced the question; NULL for canned questions';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ai_cache" (
+    "key" VARCHAR(64) NOT NULL,
+    "operation" VARCHAR(50) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "promptVersion" VARCHAR(100),
+    "text" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_cache_expiresAt_idx" ON "ai_cache"("expiresAt");
+
+-- Add comments
+COMMENT ON TABLE "ai_cache" IS 'Content-addressed cache of LLM responses';
+COMMENT ON COLUMN "ai_cache"."key" IS 'SHA-256 of provider, model, prompt version and request input';
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ProjectType" AS ENUM ('SAAS', 'MARKETPLACE', 'ECOMMERCE', 'BLOG', 'INTERNAL_TOOL', 'LANDING_PAGE', 'PORTFOLIO', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "projectType" "ProjectType";
+
+-- Add comments
+COMMENT ON COLUMN "projects"."projectType" IS 'Kind of product; chosen by the user or inferred when the requirements chat starts';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "requirements_documents" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" JSONB NOT NULL,
+    "promptVersion" VARCHAR(100),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "requirements_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "requirements_documents_projectId_version_key" ON "requirements_documents"("projectId", "version");
+
+-- AddForeignKey
+ALTER TABLE "requirements_documents" ADD CONSTRAINT "requirements_documents_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Add comments
+COMMENT ON TABLE "requirements_documents" IS 'Versioned product requirements documents generated from answered requirements';
+COMMENT ON COLUMN "requirements_documents"."promptVersion" IS 'Prompt reference that produced the document; NULL for canned fallback content';
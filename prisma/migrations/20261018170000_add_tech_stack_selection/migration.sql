@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "techStackSelection" JSONB;
+
+-- Add comments
+COMMENT ON COLUMN "projects"."techStackSelection" IS 'Chosen stack option ID per component; NULL until a stack is recommended';
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "Plan" AS ENUM ('FREE', 'PRO');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "plan" "Plan" NOT NULL DEFAULT 'FREE';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "minQuestions" INTEGER,
+ADD COLUMN "maxQuestions" INTEGER,
+ADD COLUMN "requirementsClosedAt" TIMESTAMP(3);
+
+-- Add comments
+COMMENT ON COLUMN "users"."plan" IS 'Subscription plan; sets the requirements question limits';
+COMMENT ON COLUMN "projects"."minQuestions" IS 'Answers required before the requirements chat can finish; NULL uses the plan default';
+COMMENT ON COLUMN "projects"."maxQuestions" IS 'Most questions the requirements chat asks; NULL uses the plan default, capped by the plan';
+COMMENT ON COLUMN "projects"."requirementsClosedAt" IS 'When the user finished the requirements chat early; no follow-ups are asked after this';
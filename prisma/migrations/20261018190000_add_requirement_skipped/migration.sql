@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "requirements" ADD COLUMN "skipped" BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments
+COMMENT ON COLUMN "requirements"."skipped" IS 'The user chose "skip / not sure" instead of answering; answer stays NULL';
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "generation_previews" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "templateId" VARCHAR(100) NOT NULL,
+    "files" JSONB NOT NULL,
+    "promptVersions" JSONB NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "pushedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generation_previews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_previews_projectId_createdAt_idx" ON "generation_previews"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "generation_previews" ADD CONSTRAINT "generation_previews_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Add comments
+COMMENT ON TABLE "generation_previews" IS 'Dry-run file sets users review and edit before pushing to GitHub';
+COMMENT ON COLUMN "generation_previews"."pushedAt" IS 'When the files were pushed; NULL while the preview is still editable';
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "GenerationTrigger" AS ENUM ('GENERATE', 'PREVIEW', 'EXPORT');
+
+-- CreateEnum
+CREATE TYPE "GenerationOutcome" AS ENUM ('SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "generation_runs" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "trigger" "GenerationTrigger" NOT NULL,
+    "outcome" "GenerationOutcome" NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "requirements" JSONB NOT NULL,
+    "techStack" JSONB NOT NULL,
+    "templateId" VARCHAR(100),
+    "promptVersions" JSONB NOT NULL,
+    "files" JSONB NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_runs_projectId_createdAt_idx" ON "generation_runs"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "generation_runs" ADD CONSTRAINT "generation_runs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Add comments
+COMMENT ON TABLE "generation_runs" IS 'Audit trail of project generations: inputs, produced files, validation and outcome';
+COMMENT ON COLUMN "generation_runs"."files" IS 'Produced files as [{ path, hash, content }], hash being the sha256 of the content';
+COMMENT ON COLUMN "generation_runs"."error" IS 'Why the run failed; NULL for successful runs';
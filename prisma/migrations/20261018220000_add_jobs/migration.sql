@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "JobType" AS ENUM ('GENERATE_PROJECT', 'MONITOR_DEPLOYMENT');
+
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "type" "JobType" NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "progressMessage" VARCHAR(255),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" VARCHAR(100),
+    "lastError" TEXT,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_runAt_idx" ON "jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_projectId_createdAt_idx" ON "jobs"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Add comments
+COMMENT ON TABLE "jobs" IS 'Background job queue; workers claim due jobs with FOR UPDATE SKIP LOCKED';
+COMMENT ON COLUMN "jobs"."status" IS 'DEAD jobs are the dead letter queue: failed permanently or out of attempts';
+COMMENT ON COLUMN "jobs"."runAt" IS 'Earliest time a worker may claim the job (retry backoff, polling delays)';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "generation_previews" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pushQueuedAt" TIMESTAMP(3);
+
+-- Add comments
+COMMENT ON COLUMN "generation_previews"."version" IS 'Incremented on every edit; an edit only applies to the version it was made on';
+COMMENT ON COLUMN "generation_previews"."pushQueuedAt" IS 'When a push of the files was queued; the files can no longer change';
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getCircuitStatuses } from '@/lib/ai-resilience'
 
 /**
  * Health Check Endpoint
@@ -10,16 +11,32 @@ import { prisma } from '@/lib/prisma'
  * - Load balancer health checks
  * - Deployment verification
  *
+ * AI circuit breakers are reported for monitoring but do not make the
+ * check fail: AI features degrade to fallbacks while a circuit is open.
+ * - available: no circuit is open
+ * - degraded: some models are paused, others still answer
+ * - unavailable: every model that has been called is paused
+ *
  * @returns {200} - System is healthy
  * @returns {503} - System is unhealthy (database connection failed)
  */
 export async function GET() {
+  const circuits = getCircuitStatuses()
+  const openCircuits = circuits.filter(c => c.state === 'open').length
+
   const checks = {
     status: 'healthy',
     timestamp: new Date().toISOString(),
     checks: {
       database: 'unknown',
+      ai:
+        openCircuits === 0
+          ? 'available'
+          : openCircuits < circuits.length
+            ? 'degraded'
+            : 'unavailable',
     },
+    circuits,
   }
 
   try {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { getJob, summarizeJob } from '@/lib/job-queue'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/jobs/[id] - Status, progress and outcome of one of the user's jobs
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: jobId } = await context.params
+
+    // Only the user who queued a job can see it
+    const job = await getJob(jobId, session.user.id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job: summarizeJob(job) })
+  } catch (error) {
+    console.error('Error getting job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { randomUUID, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { processJobs, type JobDefinition, type JobType } from '@/lib/job-queue'
+import {
+  restoreProjectStatus,
+  runGenerateProjectJob,
+} from '@/lib/generation-jobs'
+import {
+  failMonitoredDeployment,
+  monitorDeploymentJob,
+} from '@/lib/deployment-manager'
+import { purgeExpiredCompletions } from '@/lib/ai-cache'
+
+// Generation jobs make many AI and GitHub calls
+export const maxDuration = 300
+
+// Jobs run per worker run, unless ?limit= asks for fewer or more; a run
+// ends early after a generation job
+const DEFAULT_BATCH_SIZE = 3
+const MAX_BATCH_SIZE = 10
+
+const JOB_DEFINITIONS = new Map<JobType, JobDefinition>([
+  [
+    'GENERATE_PROJECT',
+    {
+      run: runGenerateProjectJob,
+      onDeadLetter: restoreProjectStatus,
+      // Can take most of maxDuration
+      longRunning: true,
+    },
+  ],
+  [
+    'MONITOR_DEPLOYMENT',
+    { run: monitorDeploymentJob, onDeadLetter: failMonitoredDeployment },
+  ],
+])
+
+// Workers are called by the scheduler with "Authorization: Bearer <CRON_SECRET>"
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  )
+}
+
+/**
+ * GET|POST /api/jobs/worker - Run a batch of due background jobs
+ *
+ * Meant to be called on a schedule (e.g. every minute by Vercel Cron, which
+ * sends GET requests). Any number of workers can run at once: each claims
+ * different jobs. Each run also deletes expired AI cache rows.
+ */
+async function runWorker(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const requested = Number(request.nextUrl.searchParams.get('limit'))
+    const limit =
+      Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_BATCH_SIZE)
+        : DEFAULT_BATCH_SIZE
+
+    const processed = await processJobs(
+      `worker-${randomUUID()}`,
+      JOB_DEFINITIONS,
+      limit
+    )
+
+    const expiredCacheEntries = await purgeExpiredCompletions()
+
+    return NextResponse.json({ processed, expiredCacheEntries })
+  } catch (error) {
+    console.error('Error running job worker:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = runWorker
+export const POST = runWorker
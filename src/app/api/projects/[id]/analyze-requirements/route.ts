@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { analyzeRequirements } from '@/lib/requirements-analysis'
+import { wantsFreshResponse } from '@/lib/ai-cache'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/projects/[id]/analyze-requirements - Check requirements for
+// completeness, contradictions, vague answers and gaps
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    if (!project.requirements.some(r => r.answer)) {
+      return NextResponse.json(
+        { error: 'No requirements answered yet' },
+        { status: 400 }
+      )
+    }
+
+    // fallbackUsed signals that only the basic checks ran
+    const { data: analysis, fallbackUsed } = await analyzeRequirements(
+      project.name,
+      project.description || undefined,
+      project.requirements.map(r => ({
+        id: r.id,
+        question: r.question,
+        answer: r.answer,
+      })),
+      {
+        userId: session.user.id,
+        projectId,
+        // Cache-Control: no-cache asks for new AI output instead of cached
+        bypassCache: wantsFreshResponse(request),
+      }
+    )
+
+    return NextResponse.json({ analysis, fallbackUsed })
+  } catch (error) {
+    console.error('Error analyzing requirements:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,30 +3,26 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth.config'
 import { prisma } from '@/lib/prisma'
 import {
+  classifyProjectType,
   generateRequirementsQuestions,
   generateFollowUpQuestion,
 } from '@/lib/ai'
-import { z } from 'zod'
+import {
+  chatActionSchema,
+  runSessionAction,
+  saveChatAnswer,
+  saveFollowUpQuestion,
+} from '@/lib/chat-actions'
+import { resolveQuestionLimits } from '@/lib/question-limits'
+import { RequirementsSessionError } from '@/lib/requirements-session'
+import { AIUnavailableError } from '@/lib/ai-resilience'
 
 type RouteContext = {
   params: Promise<{ id: string }>
 }
 
-// Validation schemas for different actions
-const chatActionSchema = z.discriminatedUnion('action', [
-  z.object({
-    action: z.literal('start'),
-  }),
-  z.object({
-    action: z.literal('answer'),
-    requirementId: z.string().cuid(),
-    answer: z.string().min(1).max(5000),
-  }),
-])
-
-// Legacy schema removed - now using chatRequest schema
-
-// POST /api/projects/[id]/chat - Start chat or submit answer
+// POST /api/projects/[id]/chat - Start chat, submit or skip an answer, get
+// suggested answers, finish early or ask for more questions on a topic
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const session = await getServerSession(authOptions)
@@ -50,7 +46,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
-    const { action } = validation.data
+    const aiContext = { userId: session.user.id, projectId }
 
     // Verify project belongs to user
     const project = await prisma.project.findUnique({
@@ -64,6 +60,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
             order: 'asc',
           },
         },
+        user: {
+          select: { plan: true },
+        },
       },
     })
 
@@ -71,129 +70,148 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // START CHAT - Generate initial questions
-    if (action === 'start') {
-      // Check if questions already exist
-      if (project.requirements.length > 0) {
+    // Question limits from the user's plan and the project's settings
+    const limits = resolveQuestionLimits(project.user?.plan, project)
+
+    switch (validation.data.action) {
+      // START CHAT - Generate initial questions
+      case 'start': {
+        // Check if questions already exist
+        if (project.requirements.length > 0) {
+          return NextResponse.json({
+            message: 'Chat already started',
+            requirements: project.requirements,
+          })
+        }
+
+        // Infer the project type if the user did not pick one, so the
+        // questions fit what is being built
+        const projectType =
+          project.projectType ??
+          (await classifyProjectType(
+            project.name,
+            project.description || undefined,
+            aiContext
+          ))
+
+        if (!project.projectType) {
+          await prisma.project.update({
+            where: { id: projectId },
+            data: { projectType },
+          })
+        }
+
+        // Generate questions using AI (fallbackUsed signals canned questions)
+        const {
+          data: questions,
+          fallbackUsed,
+          promptVersion,
+        } = await generateRequirementsQuestions(
+          project.name,
+          project.description || undefined,
+          projectType,
+          aiContext
+        )
+
+        // Create requirements from questions (never more than the limit)
+        const requirementsData = questions
+          .slice(0, limits.maxQuestions)
+          .map((question, index) => ({
+            projectId,
+            question,
+            answer: null,
+            order: index,
+            promptVersion: promptVersion ?? null,
+          }))
+
+        await prisma.requirement.createMany({
+          data: requirementsData,
+        })
+
+        // Fetch created requirements
+        const requirements = await prisma.requirement.findMany({
+          where: { projectId },
+          orderBy: { order: 'asc' },
+        })
+
         return NextResponse.json({
-          message: 'Chat already started',
-          requirements: project.requirements,
+          message: 'Chat started',
+          requirements,
+          projectType,
+          fallbackUsed,
         })
       }
 
-      // Generate questions using AI
-      const questions = await generateRequirementsQuestions(
-        project.name,
-        project.description || undefined
-      )
-
-      // Create requirements from questions
-      const requirementsData = questions.map((question, index) => ({
-        projectId,
-        question,
-        answer: null,
-        order: index,
-      }))
-
-      await prisma.requirement.createMany({
-        data: requirementsData,
-      })
-
-      // Fetch created requirements
-      const requirements = await prisma.requirement.findMany({
-        where: { projectId },
-        orderBy: { order: 'asc' },
-      })
-
-      return NextResponse.json({
-        message: 'Chat started',
-        requirements,
-      })
-    }
+      // SUBMIT ANSWER or SKIP ("not sure")
+      case 'answer':
+      case 'skip': {
+        const saved = await saveChatAnswer(project, validation.data, limits)
 
-    // SUBMIT ANSWER
-    if (action === 'answer') {
-      // TypeScript knows action is 'answer' here, so we can safely access requirementId and answer
-      const { requirementId, answer } = validation.data as Extract<
-        z.infer<typeof chatActionSchema>,
-        { action: 'answer' }
-      >
-
-      // Verify requirement belongs to this project
-      const requirement = await prisma.requirement.findUnique({
-        where: {
-          id: requirementId,
-          projectId,
-        },
-      })
+        if (!saved) {
+          return NextResponse.json(
+            { error: 'Requirement not found' },
+            { status: 404 }
+          )
+        }
 
-      if (!requirement) {
-        return NextResponse.json(
-          { error: 'Requirement not found' },
-          { status: 404 }
-        )
-      }
+        let newRequirement = null
 
-      // Update answer
-      await prisma.requirement.update({
-        where: { id: requirementId },
-        data: { answer },
-      })
-
-      // Get all requirements to check if we should generate follow-up
-      const allRequirements = await prisma.requirement.findMany({
-        where: { projectId },
-        orderBy: { order: 'asc' },
-      })
-
-      const answeredRequirements = allRequirements.filter(r => r.answer)
-      const conversationHistory = answeredRequirements.map(r => ({
-        question: r.question,
-        answer: r.answer!,
-      }))
-
-      // Check if all current questions are answered
-      const allAnswered = allRequirements.every(r => r.answer)
-
-      let nextQuestion: string | null = null
-      let newRequirement = null
-
-      if (allAnswered && conversationHistory.length < 10) {
-        // Generate follow-up question
-        nextQuestion = await generateFollowUpQuestion(
-          project.name,
-          conversationHistory
-        )
+        if (saved.followUpDue) {
+          const nextQuestion = await generateFollowUpQuestion(
+            project.name,
+            saved.conversationHistory,
+            project.projectType,
+            { limits, skippedQuestions: saved.skippedQuestions },
+            aiContext
+          )
 
-        if (nextQuestion) {
-          // Create new requirement
-          newRequirement = await prisma.requirement.create({
-            data: {
+          if (nextQuestion) {
+            newRequirement = await saveFollowUpQuestion(
               projectId,
-              question: nextQuestion,
-              answer: null,
-              order: allRequirements.length,
-            },
-          })
+              nextQuestion,
+              saved.requirements.length
+            )
+          }
         }
+
+        // Fetch updated requirements
+        const requirements = await prisma.requirement.findMany({
+          where: { projectId },
+          orderBy: { order: 'asc' },
+        })
+
+        return NextResponse.json({
+          message: saved.message,
+          requirements,
+          completed: saved.allAnswered && !newRequirement,
+          nextQuestion: newRequirement,
+        })
       }
 
-      // Fetch updated requirements
-      const requirements = await prisma.requirement.findMany({
-        where: { projectId },
-        orderBy: { order: 'asc' },
-      })
-
-      return NextResponse.json({
-        message: 'Answer saved',
-        requirements,
-        completed: allAnswered && !nextQuestion,
-        nextQuestion: newRequirement,
-      })
+      // SUGGEST, FINISH or EXPAND
+      case 'suggest':
+      case 'finish':
+      case 'expand': {
+        const { body, status } = await runSessionAction(
+          project,
+          validation.data,
+          limits,
+          aiContext
+        )
+
+        return NextResponse.json(body, { status })
+      }
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
   } catch (error) {
+    if (error instanceof RequirementsSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof AIUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
     console.error('Error in chat:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import {
+  classifyProjectType,
+  streamRequirementsQuestions,
+  streamFollowUpQuestion,
+} from '@/lib/ai'
+import {
+  chatActionSchema,
+  runSessionAction,
+  saveChatAnswer,
+  saveFollowUpQuestion,
+} from '@/lib/chat-actions'
+import { createSSEResponse } from '@/lib/sse'
+import { resolveQuestionLimits } from '@/lib/question-limits'
+import { RequirementsSessionError } from '@/lib/requirements-session'
+import { AIUnavailableError } from '@/lib/ai-resilience'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/projects/[id]/chat/stream - Streaming variant of the chat endpoint
+//
+// Emits Server-Sent Events:
+// - token:       { text } incremental model output
+// - requirement: { requirement } a question was persisted
+// - done:        { message, requirements, projectType?, completed?, fallbackUsed? }
+// - error:       { error }
+//
+// The finish, expand and suggest actions have nothing to stream and return
+// the same JSON as /api/projects/[id]/chat.
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+    const body = await request.json()
+
+    const validation = chatActionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const aiContext = { userId: session.user.id, projectId }
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+        user: {
+          select: { plan: true },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    // Question limits from the user's plan and the project's settings
+    const limits = resolveQuestionLimits(project.user?.plan, project)
+
+    switch (validation.data.action) {
+      // START CHAT - Stream initial questions, persisting each as it completes
+      case 'start': {
+        return createSSEResponse(async send => {
+          if (project.requirements.length > 0) {
+            send('done', {
+              message: 'Chat already started',
+              requirements: project.requirements,
+            })
+            return
+          }
+
+          // Infer the project type if the user did not pick one
+          const projectType =
+            project.projectType ??
+            (await classifyProjectType(
+              project.name,
+              project.description || undefined,
+              aiContext
+            ))
+
+          if (!project.projectType) {
+            await prisma.project.update({
+              where: { id: projectId },
+              data: { projectType },
+            })
+          }
+
+          let order = 0
+          const { fallbackUsed } = await streamRequirementsQuestions(
+            project.name,
+            project.description || undefined,
+            projectType,
+            {
+              onToken: text => send('token', { text }),
+              onQuestion: async (question, promptVersion) => {
+                // Never more initial questions than the limit
+                if (order >= limits.maxQuestions) return
+
+                const requirement = await prisma.requirement.create({
+                  data: {
+                    projectId,
+                    question,
+                    answer: null,
+                    order: order++,
+                    promptVersion,
+                  },
+                })
+                send('requirement', { requirement })
+              },
+            },
+            aiContext
+          )
+
+          const requirements = await prisma.requirement.findMany({
+            where: { projectId },
+            orderBy: { order: 'asc' },
+          })
+
+          send('done', {
+            message: 'Chat started',
+            requirements,
+            projectType,
+            fallbackUsed,
+          })
+        }, logStreamError)
+      }
+
+      // SUBMIT or SKIP ANSWER - Save, then stream the follow-up question
+      case 'answer':
+      case 'skip': {
+        const saved = await saveChatAnswer(project, validation.data, limits)
+
+        if (!saved) {
+          return NextResponse.json(
+            { error: 'Requirement not found' },
+            { status: 404 }
+          )
+        }
+
+        return createSSEResponse(async send => {
+          let nextQuestion = null
+
+          if (saved.followUpDue) {
+            const question = await streamFollowUpQuestion(
+              project.name,
+              saved.conversationHistory,
+              project.projectType,
+              text => send('token', { text }),
+              { limits, skippedQuestions: saved.skippedQuestions },
+              aiContext
+            )
+
+            if (question) {
+              nextQuestion = await saveFollowUpQuestion(
+                projectId,
+                question,
+                saved.requirements.length
+              )
+              send('requirement', { requirement: nextQuestion })
+            }
+          }
+
+          const requirements = await prisma.requirement.findMany({
+            where: { projectId },
+            orderBy: { order: 'asc' },
+          })
+
+          send('done', {
+            message: saved.message,
+            requirements,
+            completed: saved.allAnswered && !nextQuestion,
+            nextQuestion,
+          })
+        }, logStreamError)
+      }
+
+      // Nothing to stream: same JSON as /api/projects/[id]/chat
+      case 'finish':
+      case 'expand':
+      case 'suggest': {
+        const { body, status } = await runSessionAction(
+          project,
+          validation.data,
+          limits,
+          aiContext
+        )
+
+        return NextResponse.json(body, { status })
+      }
+    }
+  } catch (error) {
+    if (error instanceof RequirementsSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof AIUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+    console.error('Error in chat stream:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function logStreamError(error: unknown): string {
+  if (error instanceof AIUnavailableError) return error.message
+
+  console.error('Error in chat stream:', error)
+  return 'Internal server error'
+}
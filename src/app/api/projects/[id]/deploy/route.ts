@@ -142,6 +142,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
         id: result.deploymentId,
         url: result.deploymentUrl,
         status: 'BUILDING',
+        // Poll GET /api/jobs/[jobId] to follow the build
+        jobId: result.jobId,
       },
     })
   } catch (error) {
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { wantsFreshResponse } from '@/lib/ai-cache'
+import { ProjectGenerationError } from '@/lib/project-generator'
+import {
+  filesToPush,
+  generateProjectFiles,
+  getGenerationPreview,
+  type GeneratedProjectFiles,
+} from '@/lib/generation-preview'
+import { ARCHIVE_FORMATS, createProjectArchive } from '@/lib/project-archive'
+import { z } from 'zod'
+
+// Validation schema for export requests
+const exportSchema = z.object({
+  format: z.enum(ARCHIVE_FORMATS).default('zip'),
+  // Export the reviewed files of this preview instead of generating new ones
+  previewId: z.string().min(1).optional(),
+})
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/projects/[id]/export - Download the generated project
+ *
+ * Body: { format?: 'zip' | 'tar.gz', previewId? }. Returns an archive of
+ * the project files, the requirements document and a manifest of prompt
+ * versions. Needs no GitHub access and leaves the project unchanged.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    const validation = exportSchema.safeParse(
+      await request.json().catch(() => ({}))
+    )
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { format, previewId } = validation.data
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    let generated: GeneratedProjectFiles
+
+    if (previewId) {
+      const preview = await getGenerationPreview(projectId, previewId)
+
+      if (!preview) {
+        return NextResponse.json(
+          { error: 'Preview not found' },
+          { status: 404 }
+        )
+      }
+
+      generated = { ...preview, files: filesToPush(preview) }
+    } else {
+      const answeredRequirements = project.requirements.filter(r => r.answer)
+
+      if (answeredRequirements.length === 0) {
+        return NextResponse.json(
+          { error: 'No requirements completed' },
+          { status: 400 }
+        )
+      }
+
+      if (!project.techStack) {
+        return NextResponse.json(
+          { error: 'Tech stack recommendation required' },
+          { status: 400 }
+        )
+      }
+
+      generated = await generateProjectFiles(
+        project,
+        answeredRequirements.map(r => ({
+          question: r.question,
+          answer: r.answer!,
+          updatedAt: r.updatedAt,
+        })),
+        'EXPORT',
+        {
+          userId: session.user.id,
+          projectId,
+          // Cache-Control: no-cache asks for new AI output instead of cached
+          bypassCache: wantsFreshResponse(request),
+        }
+      )
+    }
+
+    const archive = createProjectArchive(format, {
+      name: project.name,
+      ...generated,
+    })
+
+    return new Response(new Uint8Array(archive.body), {
+      headers: {
+        'Content-Type': archive.contentType,
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+        'Content-Length': String(archive.body.length),
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting project:', error)
+
+    if (error instanceof ProjectGenerationError) {
+      return NextResponse.json(
+        {
+          error: 'Code validation failed',
+          message: error.message,
+          validationErrors: error.validationErrors,
+          attempts: error.attempts,
+          details:
+            'The AI-generated code contains security vulnerabilities or quality issues that could not be repaired',
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,18 +2,42 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth.config'
 import { prisma } from '@/lib/prisma'
-import { createRepository, createFiles } from '@/lib/github'
-import {
-  generateProjectTemplate,
-  ProjectGenerationError,
-} from '@/lib/project-generator'
 import { validateGitHubAccess } from '@/lib/github-auth'
+import { wantsFreshResponse } from '@/lib/ai-cache'
+import {
+  getGenerationPreview,
+  lockGenerationPreview,
+  unlockGenerationPreview,
+} from '@/lib/generation-preview'
+import type { GenerateProjectPayload } from '@/lib/generation-jobs'
+import { enqueueJob, findUnfinishedJob, summarizeJob } from '@/lib/job-queue'
+import { z } from 'zod'
+
+// Validation schema for the optional request body
+const generateSchema = z.object({
+  // Push the files of this preview instead of generating new ones
+  previewId: z.string().min(1).optional(),
+  // create: new repository; update: pull request into the existing one.
+  // Defaults to update once the project has a repository.
+  mode: z.enum(['create', 'update']).optional(),
+})
 
 type RouteContext = {
   params: Promise<{ id: string }>
 }
 
-// POST /api/projects/[id]/generate - Generate project and create GitHub repo
+/**
+ * POST /api/projects/[id]/generate - Generate project and create GitHub repo
+ *
+ * With a previewId in the body, the reviewed files of that preview are
+ * pushed instead of generating the project again. Regenerating a project
+ * that already has a repository pushes to a new branch and opens a pull
+ * request instead, so changes on the default branch are kept.
+ *
+ * The work is queued as a GENERATE_PROJECT job (see lib/generation-jobs)
+ * and runs asynchronously: responds 202 with the job and its statusUrl
+ * (GET /api/jobs/[jobId]) to poll for progress.
+ */
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const session = await getServerSession(authOptions)
@@ -24,7 +48,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     const { id: projectId } = await context.params
 
-    // Securely validate GitHub access (never expose tokens to client)
+    // Securely validate GitHub access (never expose tokens to client); the
+    // job loads the token again when it runs
     const githubAccess = await validateGitHubAccess(request)
 
     if (!githubAccess.hasAccess || !githubAccess.token) {
@@ -38,8 +63,6 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
-    const accessToken = githubAccess.token
-
     // Verify project belongs to user
     const project = await prisma.project.findUnique({
       where: {
@@ -77,97 +100,149 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
-    // PERFORMANCE FIX: Use transaction to ensure atomicity
-    // Store original status for proper rollback
-    const originalStatus = project.status
+    const validation = generateSchema.safeParse(
+      await request.json().catch(() => ({}))
+    )
 
-    try {
-      // Update project status to generating (outside transaction for immediate feedback)
-      await prisma.project.update({
-        where: { id: projectId },
-        data: { status: 'GENERATING' },
-      })
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { previewId } = validation.data
+    const mode =
+      validation.data.mode ?? (project.repository ? 'update' : 'create')
 
-      // Generate repository name from project name
-      const repoName = project.name
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-|-$/g, '')
-
-      // Create GitHub repository (external API call)
-      const repo = await createRepository(
-        accessToken,
-        repoName,
-        project.description || `Generated by ShipSensei: ${project.name}`,
-        false // public by default
+    if (mode === 'create' && project.repository) {
+      return NextResponse.json(
+        {
+          error:
+            'Project already has a repository. Regenerate it with mode "update" to open a pull request.',
+        },
+        { status: 409 }
       )
+    }
 
-      // Generate and validate project template (external AI API call)
-      const template = await generateProjectTemplate(
-        project.name,
-        project.description || '',
-        answeredRequirements.map(r => ({
-          question: r.question,
-          answer: r.answer!,
-        }))
+    if (mode === 'update' && !project.repository) {
+      return NextResponse.json(
+        { error: 'Project has no repository to update' },
+        { status: 400 }
       )
+    }
 
-      // Create files in the repository (external API call)
-      await createFiles(accessToken, repo.owner, repoName, template.files)
+    const preview = previewId
+      ? await getGenerationPreview(projectId, previewId)
+      : null
 
-      // Update project with repository info (transaction ensures atomicity)
-      const updatedProject = await prisma.$transaction(async tx => {
-        return await tx.project.update({
-          where: { id: projectId },
-          data: {
-            repository: repo.url,
-            status: 'READY', // ready for deployment
-          },
-          include: {
-            requirements: {
-              orderBy: {
-                order: 'asc',
-              },
-            },
-          },
-        })
-      })
+    if (previewId && !preview) {
+      return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+    }
 
-      return NextResponse.json({
-        message: 'Project generated successfully',
-        project: updatedProject,
-        repository: repo,
-      })
-    } catch (error) {
-      // SECURITY FIX: Revert to original status (not hardcoded 'ready')
+    if (preview?.pushedAt || preview?.pushQueuedAt) {
+      return NextResponse.json(
+        {
+          error: preview.pushedAt
+            ? 'Preview was already pushed'
+            : 'Preview is already being pushed',
+        },
+        { status: 409 }
+      )
+    }
+
+    // One generation at a time: a second job would create another
+    // repository or open another pull request
+    const unfinishedJob = await findUnfinishedJob(projectId, 'GENERATE_PROJECT')
+    const inProgress = () =>
+      NextResponse.json(
+        {
+          error: 'Project is already being generated or deployed',
+          ...(unfinishedJob && { job: summarizeJob(unfinishedJob) }),
+        },
+        { status: 409 }
+      )
+
+    if (unfinishedJob || project.status === 'GENERATING') {
+      return inProgress()
+    }
+
+    // Store original status for rollback when the job fails for good
+    const originalStatus = project.status
+
+    // Update project status to generating (immediate feedback), unless a
+    // concurrent request just did
+    const { count: claimed } = await prisma.project.updateMany({
+      where: { id: projectId, status: { not: 'GENERATING' } },
+      data: { status: 'GENERATING' },
+    })
+
+    if (claimed === 0) {
+      return inProgress()
+    }
+
+    // Reverts the status (and unlocks the preview) when queueing fails
+    const revert = async () => {
       try {
         await prisma.project.update({
           where: { id: projectId },
           data: { status: originalStatus },
         })
+        if (preview) await unlockGenerationPreview(preview.id)
       } catch (revertError) {
         console.error('Failed to revert project status:', revertError)
         // Log but don't throw - we want to preserve the original error
       }
+    }
 
-      throw error
+    // The reviewed files must not change once their push is queued
+    if (preview && !(await lockGenerationPreview(preview.id))) {
+      await revert()
+      return NextResponse.json(
+        { error: 'Preview is already being pushed' },
+        { status: 409 }
+      )
     }
-  } catch (error) {
-    console.error('Error generating project:', error)
 
-    // Handle validation errors specifically
-    if (error instanceof ProjectGenerationError) {
+    try {
+      // Generating and pushing takes minutes (AI and GitHub API calls), so
+      // a worker does it; the client polls the job for progress
+      const payload: GenerateProjectPayload = {
+        projectId,
+        mode,
+        ...(previewId && { previewId }),
+        // Cache-Control: no-cache asks for new AI output instead of cached
+        bypassCache: wantsFreshResponse(request),
+        originalStatus,
+      }
+      const job = await enqueueJob({
+        type: 'GENERATE_PROJECT',
+        userId: session.user.id,
+        projectId,
+        payload,
+      })
+
+      const queued =
+        mode === 'update' ? 'Regeneration queued' : 'Project generation queued'
+
       return NextResponse.json(
         {
-          error: 'Code validation failed',
-          message: error.message,
-          validationErrors: error.validationErrors,
-          details:
-            'The AI-generated code contains security vulnerabilities or quality issues',
+          message: `${queued}. It runs in the background; poll the job for progress.`,
+          job: summarizeJob(job),
+          statusUrl: `/api/jobs/${job.id}`,
         },
-        { status: 400 }
+        { status: 202 }
       )
+    } catch (error) {
+      // SECURITY FIX: Revert to original status (not hardcoded 'ready')
+      await revert()
+      throw error
     }
+  } catch (error) {
+    console.error('Error generating project:', error)
 
     let errorMessage = 'Internal server error'
 
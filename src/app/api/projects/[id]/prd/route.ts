@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { wantsFreshResponse } from '@/lib/ai-cache'
+import {
+  generateRequirementsDocument,
+  getRequirementsDocument,
+  listRequirementsDocumentVersions,
+  renderRequirementsMarkdown,
+  saveRequirementsDocument,
+} from '@/lib/requirements-document'
+import { z } from 'zod'
+
+// Validation schema for export query parameters
+const exportQuerySchema = z.object({
+  format: z.enum(['json', 'markdown']).default('json'),
+  version: z.coerce.number().int().min(1).optional(),
+})
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/projects/[id]/prd - Export the product requirements document
+ *
+ * Query params:
+ * - format: json (default) or markdown (downloaded as a .md file)
+ * - version: document version (defaults to the latest)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    const { searchParams } = new URL(request.url)
+    const validation = exportQuerySchema.safeParse({
+      format: searchParams.get('format') ?? undefined,
+      version: searchParams.get('version') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { format, version } = validation.data
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const document = await getRequirementsDocument(projectId, version)
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Requirements document not found' },
+        { status: 404 }
+      )
+    }
+
+    if (format === 'markdown') {
+      const filename = `${project.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')}-requirements-v${document.version}.md`
+
+      return new Response(renderRequirementsMarkdown(project.name, document), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    const versions = await listRequirementsDocumentVersions(projectId)
+
+    return NextResponse.json({ document, versions })
+  } catch (error) {
+    console.error('Error exporting requirements document:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/prd - Generate a new version of the PRD
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const answeredRequirements = project.requirements.filter(r => r.answer)
+
+    if (answeredRequirements.length === 0) {
+      return NextResponse.json(
+        { error: 'No requirements completed' },
+        { status: 400 }
+      )
+    }
+
+    const result = await generateRequirementsDocument(
+      project.name,
+      project.description || undefined,
+      answeredRequirements.map(r => ({
+        question: r.question,
+        answer: r.answer!,
+      })),
+      {
+        userId: session.user.id,
+        projectId,
+        // Cache-Control: no-cache asks for new AI output instead of cached
+        bypassCache: wantsFreshResponse(request),
+      }
+    )
+
+    const document = await saveRequirementsDocument(projectId, result)
+
+    return NextResponse.json(
+      { document, fallbackUsed: result.fallbackUsed },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error generating requirements document:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { validateGeneratedFile } from '@/lib/code-repair'
+import {
+  applyFileChange,
+  getGenerationPreview,
+  MAX_PREVIEW_FILE_SIZE,
+  previewContentHash,
+  updateGenerationPreviewFiles,
+  type GenerationPreview,
+  type PreviewFile,
+} from '@/lib/generation-preview'
+import { z } from 'zod'
+
+// Validation schema for file queries
+const fileQuerySchema = z.object({
+  path: z.string().min(1),
+})
+
+// Validation schema for file changes
+const fileChangeSchema = z
+  .object({
+    path: z.string().min(1),
+    content: z.string().max(MAX_PREVIEW_FILE_SIZE).optional(),
+    excluded: z.boolean().optional(),
+    // Content hash of the file the edit was made on
+    baseContentHash: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/)
+      .optional(),
+  })
+  .refine(
+    change => change.content !== undefined || change.excluded !== undefined,
+    { message: 'Nothing to change' }
+  )
+  .refine(
+    change =>
+      change.content === undefined || change.baseContentHash !== undefined,
+    {
+      message: 'Content edits need the hash of the file they were made on',
+      path: ['baseContentHash'],
+    }
+  )
+
+// Files whose edits get validated (code and markdown)
+const VALIDATED_FILE_PATTERN = /\.(tsx?|jsx?|md)$/
+
+// Times an edit is applied again when other edits keep being saved first
+const MAX_EDIT_ATTEMPTS = 3
+
+// A file as returned to the client, with the hash edits are made on
+function withContentHash(file: PreviewFile) {
+  return { ...file, contentHash: previewContentHash(file.content) }
+}
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// Whether the signed-in user owns the project
+async function ownsProject(projectId: string, userId: string) {
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId,
+    },
+    select: { id: true },
+  })
+
+  return project !== null
+}
+
+// GET /api/projects/[id]/preview/files?path= - Fetch a file of the latest preview
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    const { searchParams } = new URL(request.url)
+    const validation = fileQuerySchema.safeParse({
+      path: searchParams.get('path') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!(await ownsProject(projectId, session.user.id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const preview = await getGenerationPreview(projectId)
+    const file = preview?.files.find(f => f.path === validation.data.path)
+
+    if (!preview || !file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      previewId: preview.id,
+      file: withContentHash(file),
+    })
+  } catch (error) {
+    console.error('Error fetching preview file:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/preview/files - Edit or exclude a preview file
+ *
+ * Body: { path, content?, excluded?, baseContentHash? }. Content edits
+ * must name the content hash of the file they were made on and are refused
+ * with 409 when the file changed since. Edited code and markdown is
+ * validated like generated files; problems are returned but do not block
+ * the edit. Previews whose push is queued cannot be edited.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    const body = await request.json()
+    const validation = fileChangeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!(await ownsProject(projectId, session.user.id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { path, baseContentHash, ...change } = validation.data
+    let previewId: string | undefined
+    let updated: GenerationPreview | null = null
+
+    // An edit is saved onto the version it was applied to; when another
+    // file was edited in between, it is applied again to the new files
+    for (let attempt = 1; !updated && attempt <= MAX_EDIT_ATTEMPTS; attempt++) {
+      const preview = await getGenerationPreview(projectId, previewId)
+
+      if (!preview) {
+        return NextResponse.json(
+          { error: 'Preview not found' },
+          { status: 404 }
+        )
+      }
+
+      if (preview.pushedAt || preview.pushQueuedAt) {
+        return NextResponse.json(
+          {
+            error: preview.pushedAt
+              ? 'Preview was already pushed'
+              : 'Preview is being pushed',
+          },
+          { status: 409 }
+        )
+      }
+
+      previewId = preview.id
+      const current = preview.files.find(f => f.path === path)
+
+      if (!current) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 })
+      }
+
+      // Content edits only apply to the content they were made on
+      if (
+        change.content !== undefined &&
+        previewContentHash(current.content) !== baseContentHash
+      ) {
+        return NextResponse.json(
+          {
+            error: 'File was changed elsewhere. Reload it and edit again.',
+            file: withContentHash(current),
+          },
+          { status: 409 }
+        )
+      }
+
+      const files = applyFileChange(preview.files, path, change)!
+
+      updated = await updateGenerationPreviewFiles(preview, files)
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Preview is being edited elsewhere. Please try again.' },
+        { status: 409 }
+      )
+    }
+
+    const file = updated.files.find(f => f.path === path)!
+
+    const fileValidation =
+      change.content !== undefined && VALIDATED_FILE_PATTERN.test(path)
+        ? await validateGeneratedFile(path, file.content)
+        : null
+
+    return NextResponse.json({
+      file: withContentHash(file),
+      validation: fileValidation && {
+        errors: fileValidation.errors,
+        warnings: fileValidation.warnings,
+        securityIssues: fileValidation.securityIssues,
+      },
+    })
+  } catch (error) {
+    console.error('Error updating preview file:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
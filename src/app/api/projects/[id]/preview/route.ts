@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { wantsFreshResponse } from '@/lib/ai-cache'
+import { ProjectGenerationError } from '@/lib/project-generator'
+import {
+  generateProjectFiles,
+  getGenerationPreview,
+  saveGenerationPreview,
+  summarizeGenerationPreview,
+} from '@/lib/generation-preview'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/[id]/preview - List the files of the latest preview
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const preview = await getGenerationPreview(projectId)
+
+    if (!preview) {
+      return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ preview: summarizeGenerationPreview(preview) })
+  } catch (error) {
+    console.error('Error fetching generation preview:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/projects/[id]/preview - Generate the project without pushing it
+ *
+ * Stores the generated files as a new preview the user can review, edit
+ * and then push with POST /api/projects/[id]/generate. Needs no GitHub
+ * access and leaves the project status unchanged.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const answeredRequirements = project.requirements.filter(r => r.answer)
+
+    if (answeredRequirements.length === 0) {
+      return NextResponse.json(
+        { error: 'No requirements completed' },
+        { status: 400 }
+      )
+    }
+
+    if (!project.techStack) {
+      return NextResponse.json(
+        { error: 'Tech stack recommendation required' },
+        { status: 400 }
+      )
+    }
+
+    const generated = await generateProjectFiles(
+      project,
+      answeredRequirements.map(r => ({
+        question: r.question,
+        answer: r.answer!,
+        updatedAt: r.updatedAt,
+      })),
+      'PREVIEW',
+      {
+        userId: session.user.id,
+        projectId,
+        // Cache-Control: no-cache asks for new AI output instead of cached
+        bypassCache: wantsFreshResponse(request),
+      }
+    )
+
+    const preview = await saveGenerationPreview(projectId, generated)
+
+    return NextResponse.json(
+      { preview: summarizeGenerationPreview(preview) },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error generating preview:', error)
+
+    if (error instanceof ProjectGenerationError) {
+      return NextResponse.json(
+        {
+          error: 'Code validation failed',
+          message: error.message,
+          validationErrors: error.validationErrors,
+          attempts: error.attempts,
+          details:
+            'The AI-generated code contains security vulnerabilities or quality issues that could not be repaired',
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth.config'
 import { prisma } from '@/lib/prisma'
 import { generateTechStackRecommendation } from '@/lib/ai'
+import { mergePromptVersions } from '@/lib/prompts'
+import { wantsFreshResponse } from '@/lib/ai-cache'
 
 type RouteContext = {
   params: Promise<{ id: string }>
@@ -48,20 +50,38 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
-    // Generate recommendation
-    const recommendation = await generateTechStackRecommendation(
+    // Generate recommendation (fallbackUsed signals the canned default stack)
+    const {
+      data: recommendation,
+      fallbackUsed,
+      promptVersion,
+    } = await generateTechStackRecommendation(
       project.name,
       answeredRequirements.map(r => ({
         question: r.question,
         answer: r.answer!,
-      }))
+      })),
+      {
+        userId: session.user.id,
+        projectId,
+        // Cache-Control: no-cache asks for new AI output instead of cached
+        bypassCache: wantsFreshResponse(request),
+      }
     )
 
+    // Start from the top-ranked alternative; the user can pick another or
+    // swap components through /api/projects/[id]/tech-stack
+    const selection = recommendation.alternatives[0].components
+
     // Update project with tech stack
     const updatedProject = await prisma.project.update({
       where: { id: projectId },
       data: {
         techStack: JSON.stringify(recommendation),
+        techStackSelection: selection,
+        promptVersions: mergePromptVersions(project.promptVersions, {
+          techStack: promptVersion ?? null,
+        }),
         status: 'READY', // Mark as ready for generation
       },
       include: {
@@ -76,6 +96,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
     return NextResponse.json({
       project: updatedProject,
       recommendation,
+      selection,
+      fallbackUsed,
     })
   } catch (error) {
     console.error('Error generating tech stack:', error)
@@ -3,12 +3,18 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth.config'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { PROJECT_TYPES } from '@/lib/question-flows'
 
 // Validation schema for project updates
 const updateProjectSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(500).optional(),
   status: z.enum(['DRAFT', 'GENERATING', 'READY', 'DEPLOYED']).optional(),
+  projectType: z.enum(PROJECT_TYPES).optional(),
+  // Requirements chat limits (null restores the plan default; values
+  // above the plan's ceiling are capped when the chat runs)
+  minQuestions: z.number().int().min(0).max(50).nullable().optional(),
+  maxQuestions: z.number().int().min(1).max(50).nullable().optional(),
   techStack: z.string().optional(),
   repository: z.string().url().optional(),
   deployment: z.string().url().optional(),
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { getGenerationRun } from '@/lib/generation-runs'
+
+type RouteContext = {
+  params: Promise<{ id: string; runId: string }>
+}
+
+/**
+ * GET /api/projects/[id]/runs/[runId] - Inputs and results of a run
+ *
+ * Files are listed with their hash and size; compare runs to see contents.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, runId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const run = await getGenerationRun(projectId, runId)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      run: {
+        ...run,
+        files: run.files.map(({ path, hash, content }) => ({
+          path,
+          hash,
+          size: content.length,
+        })),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching generation run:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { diffGenerationRuns, getGenerationRun } from '@/lib/generation-runs'
+import { z } from 'zod'
+
+// Validation schema for diff query parameters
+const diffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+})
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/projects/[id]/runs/diff - Compare two generation runs
+ *
+ * Query params:
+ * - from: ID of the older run
+ * - to: ID of the newer run
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    const { searchParams } = new URL(request.url)
+    const validation = diffQuerySchema.safeParse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const [from, to] = await Promise.all([
+      getGenerationRun(projectId, validation.data.from),
+      getGenerationRun(projectId, validation.data.to),
+    ])
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ diff: diffGenerationRuns(from, to) })
+  } catch (error) {
+    console.error('Error comparing generation runs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { listGenerationRuns } from '@/lib/generation-runs'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/[id]/runs - List the project's generation runs
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const runs = await listGenerationRuns(projectId)
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Error listing generation runs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import {
+  normalizeStackSelection,
+  parseTechStackRecommendation,
+  resolveStackSelection,
+  stackSelectionSchema,
+} from '@/lib/tech-stack'
+
+// Pick a recommended alternative, swap individual components, or both
+// (components are applied on top of the chosen alternative)
+const updateStackSchema = z
+  .object({
+    alternative: z.number().int().min(0).optional(),
+    components: stackSelectionSchema.partial().optional(),
+  })
+  .refine(
+    body => body.alternative !== undefined || body.components !== undefined,
+    { message: 'Provide an alternative or components' }
+  )
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// PUT /api/projects/[id]/tech-stack - Choose the stack to generate with
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await context.params
+    const body = await request.json()
+
+    // Validate input
+    const validation = updateStackSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.format() },
+        { status: 400 }
+      )
+    }
+
+    // Verify project belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const recommendation = parseTechStackRecommendation(project.techStack)
+
+    if (!recommendation) {
+      return NextResponse.json(
+        { error: 'No tech stack recommended yet' },
+        { status: 400 }
+      )
+    }
+
+    const { alternative, components } = validation.data
+    let base = resolveStackSelection(project)
+
+    if (alternative !== undefined) {
+      const chosen = recommendation.alternatives.at(alternative)
+      if (!chosen) {
+        return NextResponse.json(
+          { error: 'Alternative not found' },
+          { status: 400 }
+        )
+      }
+      base = chosen.components
+    }
+
+    // Switching framework drops options it cannot run
+    const selection = normalizeStackSelection({ ...base, ...components })
+
+    const updatedProject = await prisma.project.update({
+      where: { id: projectId },
+      data: { techStackSelection: selection },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({ project: updatedProject, selection })
+  } catch (error) {
+    console.error('Error updating tech stack:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,11 +3,14 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth.config'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { PROJECT_TYPES } from '@/lib/question-flows'
 
 // Validation schema for project creation
 const createProjectSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
+  // Omitted when the user lets ShipSensei infer it
+  projectType: z.enum(PROJECT_TYPES).optional(),
 })
 
 // GET /api/projects - Get all projects for authenticated user
@@ -65,13 +68,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, description } = validation.data
+    const { name, description, projectType } = validation.data
 
     // Create project
     const project = await prisma.project.create({
       data: {
         name,
         description,
+        projectType,
         userId: session.user.id,
         status: 'DRAFT',
       },
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth.config'
+import { getUsageSummary } from '@/lib/ai-usage'
+import { z } from 'zod'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Validation schema for usage query parameters
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  projectId: z.string().cuid().optional(),
+})
+
+/**
+ * GET /api/usage - AI token usage and estimated cost for the current user
+ *
+ * Query params:
+ * - days: look-back window in days (1-365, default 30)
+ * - projectId: restrict totals to a single project
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validation = usageQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+      projectId: searchParams.get('projectId') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { days, projectId } = validation.data
+
+    // Start of the window, aligned to UTC midnight so daily buckets are whole
+    const since = new Date(Date.now() - (days - 1) * DAY_MS)
+    since.setUTCHours(0, 0, 0, 0)
+
+    const summary = await getUsageSummary(session.user.id, {
+      since,
+      projectId,
+    })
+
+    return NextResponse.json({ usage: summary })
+  } catch (error) {
+    console.error('Error fetching AI usage:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
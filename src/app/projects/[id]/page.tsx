@@ -3,11 +3,25 @@
 import { useEffect, useState, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import { readSSEStream } from '@/lib/sse'
+import {
+  describeStack,
+  getSelectedOption,
+  getStackOptions,
+  parseTechStackRecommendation,
+  resolveStackSelection,
+  STACK_COMPONENT_LABELS,
+  STACK_COMPONENTS,
+  type StackSelection,
+  type TechStackRecommendation,
+} from '@/lib/tech-stack'
 
 type Requirement = {
   id: string
   question: string
   answer: string | null
+  // Set when the user answered "not sure"
+  skipped?: boolean
   order: number
 }
 
@@ -17,6 +31,7 @@ type Project = {
   description: string | null
   status: string
   techStack: string | null
+  techStackSelection?: StackSelection | null
   repository: string | null
   deployment: string | null
   createdAt: string
@@ -24,11 +39,105 @@ type Project = {
   requirements: Requirement[]
 }
 
-type TechStackRecommendation = {
-  stack: string
-  rationale: string
+type ChatStreamDone = {
+  requirements: Requirement[]
+  fallbackUsed?: boolean
+}
+
+type RequirementFinding = {
+  type: 'contradiction' | 'vague' | 'gap'
+  severity: 'high' | 'medium' | 'low'
+  requirementIds: string[]
+  message: string
+  suggestion: string
+}
+
+type RequirementsAnalysis = {
+  completeness: number
+  summary: string
+  findings: RequirementFinding[]
+}
+
+type PreviewFile = {
+  path: string
+  content: string
+  excluded: boolean
+  edited: boolean
+  // Hash of the content, sent with edits to detect changes made elsewhere
+  contentHash: string
+}
+
+// Stored dry run of the generation, listed without file contents
+type GenerationPreview = {
+  id: string
+  templateId: string
+  files: Array<Omit<PreviewFile, 'content' | 'contentHash'> & { size: number }>
+  pushedAt: string | null
+}
+
+type GenerationRun = {
+  id: string
+  trigger: 'GENERATE' | 'PREVIEW' | 'EXPORT'
+  outcome: 'SUCCEEDED' | 'FAILED'
+  durationMs: number
+  templateId: string | null
+  error: string | null
+  createdAt: string
+  fileCount: number
+}
+
+type GenerationRunDiff = {
+  requirementsChanged: boolean
+  techStackChanged: boolean
+  promptVersionChanges: Array<{
+    path: string
+    from: string | null
+    to: string | null
+  }>
+  files: Array<{
+    path: string
+    status: 'added' | 'removed' | 'changed' | 'unchanged'
+    patch: string | null
+  }>
+}
+
+// Background job of a generation (see /api/jobs/[id])
+type GenerationJob = {
+  id: string
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD'
+  progressMessage: string | null
+  error: string | null
+  result: {
+    repository?: { url: string }
+    pullRequest?: { url: string; number: number } | null
+  } | null
 }
 
+// Time between checks of a queued generation
+const JOB_POLL_INTERVAL_MS = 2000
+
+const RUN_TRIGGER_LABELS = new Map<GenerationRun['trigger'], string>([
+  ['GENERATE', 'Pushed to GitHub'],
+  ['PREVIEW', 'Preview'],
+  ['EXPORT', 'Download'],
+])
+
+// Color of a unified diff line by its first character
+const diffLineClass = (line: string) =>
+  line.startsWith('@@')
+    ? 'text-blue-700'
+    : line.startsWith('+')
+      ? 'bg-green-50 text-green-800'
+      : line.startsWith('-')
+        ? 'bg-red-50 text-red-800'
+        : 'text-gray-700'
+
+const FINDING_LABELS = new Map<RequirementFinding['type'], string>([
+  ['contradiction', 'Contradiction'],
+  ['vague', 'Unclear answer'],
+  ['gap', 'Missing information'],
+])
+
 export default function ProjectDetailPage({
   params,
 }: {
@@ -39,17 +148,40 @@ export default function ProjectDetailPage({
   const [project, setProject] = useState<Project | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null)
   const [projectId, setProjectId] = useState<string | null>(null)
   const [chatStarted, setChatStarted] = useState(false)
   const [currentAnswer, setCurrentAnswer] = useState('')
   const [submitting, setSubmitting] = useState(false)
+  const [streamingText, setStreamingText] = useState('')
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [suggesting, setSuggesting] = useState(false)
+  const [expandTopic, setExpandTopic] = useState('')
   const [recommendation, setRecommendation] =
     useState<TechStackRecommendation | null>(null)
   const [generatingStack, setGeneratingStack] = useState(false)
+  const [selection, setSelection] = useState<StackSelection | null>(null)
+  const [savingStack, setSavingStack] = useState(false)
+  const [analysis, setAnalysis] = useState<RequirementsAnalysis | null>(null)
+  const [analyzing, setAnalyzing] = useState(false)
   const [generatingProject, setGeneratingProject] = useState(false)
+  const [generationProgress, setGenerationProgress] = useState<string | null>(
+    null
+  )
   const [repositoryUrl, setRepositoryUrl] = useState<string | null>(null)
   const [deploying, setDeploying] = useState(false)
   const [deploymentUrl, setDeploymentUrl] = useState<string | null>(null)
+  const [preview, setPreview] = useState<GenerationPreview | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [previewFile, setPreviewFile] = useState<PreviewFile | null>(null)
+  const [fileDraft, setFileDraft] = useState('')
+  const [savingFile, setSavingFile] = useState(false)
+  const [fileProblems, setFileProblems] = useState<string[]>([])
+  const [downloading, setDownloading] = useState(false)
+  const [runs, setRuns] = useState<GenerationRun[] | null>(null)
+  const [selectedRuns, setSelectedRuns] = useState<string[]>([])
+  const [runDiff, setRunDiff] = useState<GenerationRunDiff | null>(null)
+  const [comparingRuns, setComparingRuns] = useState(false)
   const chatEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -92,10 +224,10 @@ export default function ProjectDetailPage({
 
       // Check if tech stack exists
       if (data.project.techStack) {
-        try {
-          setRecommendation(JSON.parse(data.project.techStack))
-        } catch {
-          // Ignore parse errors
+        const stored = parseTechStackRecommendation(data.project.techStack)
+        if (stored) {
+          setRecommendation(stored)
+          setSelection(resolveStackSelection(data.project))
         }
       }
 
@@ -115,59 +247,175 @@ export default function ProjectDetailPage({
     }
   }
 
+  // Add or replace a requirement as it streams in from the server
+  const upsertRequirement = (requirement: Requirement) => {
+    setProject(prev => {
+      if (!prev) return null
+      const others = prev.requirements.filter(r => r.id !== requirement.id)
+      return {
+        ...prev,
+        requirements: [...others, requirement].sort(
+          (a, b) => a.order - b.order
+        ),
+      }
+    })
+  }
+
+  // POST to the streaming chat endpoint and apply events as they arrive
+  const streamChat = async (
+    body: Record<string, unknown>,
+    failureMessage: string,
+    options: { showTokens: boolean }
+  ): Promise<ChatStreamDone> => {
+    const response = await fetch(`/api/projects/${projectId}/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok || !response.body) {
+      throw new Error(failureMessage)
+    }
+
+    let done: ChatStreamDone | null = null
+
+    await readSSEStream(response.body, ({ event, data }) => {
+      const payload = data as Record<string, unknown>
+
+      if (event === 'token' && options.showTokens) {
+        setStreamingText(prev => prev + String(payload.text ?? ''))
+      } else if (event === 'requirement') {
+        setStreamingText('')
+        setChatStarted(true)
+        upsertRequirement(payload.requirement as Requirement)
+      } else if (event === 'done') {
+        done = payload as unknown as ChatStreamDone
+      } else if (event === 'error') {
+        throw new Error(String(payload.error || failureMessage))
+      }
+    })
+
+    if (!done) {
+      throw new Error(failureMessage)
+    }
+
+    return done
+  }
+
   const startChat = async () => {
     if (!projectId) return
 
     try {
       setSubmitting(true)
+      const data = await streamChat(
+        { action: 'start' },
+        'Failed to start chat',
+        {
+          showTokens: false,
+        }
+      )
+
+      setProject(prev =>
+        prev ? { ...prev, requirements: data.requirements } : null
+      )
+      setChatStarted(true)
+
+      if (data.fallbackUsed) {
+        setFallbackNotice(
+          "We couldn't tailor questions to your project right now, so these are general starter questions."
+        )
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const submitAnswer = async (requirementId: string, skip = false) => {
+    if (!projectId || (!skip && !currentAnswer.trim())) return
+
+    try {
+      setSubmitting(true)
+
+      const data = await streamChat(
+        skip
+          ? { action: 'skip', requirementId }
+          : { action: 'answer', requirementId, answer: currentAnswer.trim() },
+        skip ? 'Failed to skip question' : 'Failed to submit answer',
+        { showTokens: true }
+      )
+
+      setProject(prev =>
+        prev ? { ...prev, requirements: data.requirements } : null
+      )
+      setCurrentAnswer('')
+      setSuggestions([])
+
+      // Chat completion is handled by checking if all requirements are answered
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setStreamingText('')
+      setSubmitting(false)
+    }
+  }
+
+  // Example answers for the current question; picking one fills the input
+  const suggestAnswers = async (requirementId: string) => {
+    if (!projectId) return
+
+    try {
+      setSuggesting(true)
       const response = await fetch(`/api/projects/${projectId}/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'start' }),
+        body: JSON.stringify({ action: 'suggest', requirementId }),
       })
+      const data = await response.json()
 
       if (!response.ok) {
-        throw new Error('Failed to start chat')
+        throw new Error(data.error || 'Failed to suggest answers')
       }
 
-      const data = await response.json()
-      setProject(prev =>
-        prev ? { ...prev, requirements: data.requirements } : null
-      )
-      setChatStarted(true)
+      setSuggestions(data.suggestions)
+      if (data.suggestions.length === 0) {
+        setFallbackNotice(
+          "We couldn't come up with suggestions for this question right now. You can skip it if you're not sure."
+        )
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
-      setSubmitting(false)
+      setSuggesting(false)
     }
   }
 
-  const submitAnswer = async (requirementId: string) => {
-    if (!projectId || !currentAnswer.trim()) return
+  // Finish early or ask for more questions (nothing to stream for these)
+  const sendChatAction = async (
+    body: Record<string, unknown>,
+    failureMessage: string
+  ) => {
+    if (!projectId) return
 
     try {
       setSubmitting(true)
       const response = await fetch(`/api/projects/${projectId}/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'answer',
-          requirementId,
-          answer: currentAnswer.trim(),
-        }),
+        body: JSON.stringify(body),
       })
+      const data = await response.json()
 
       if (!response.ok) {
-        throw new Error('Failed to submit answer')
+        throw new Error(data.error || failureMessage)
       }
 
-      const data = await response.json()
       setProject(prev =>
         prev ? { ...prev, requirements: data.requirements } : null
       )
       setCurrentAnswer('')
-
-      // Chat completion is handled by checking if all requirements are answered
+      return data
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -175,6 +423,51 @@ export default function ProjectDetailPage({
     }
   }
 
+  const finishChat = () =>
+    sendChatAction({ action: 'finish' }, 'Failed to finish requirements')
+
+  const expandChat = async () => {
+    if (!expandTopic.trim()) return
+
+    const data = await sendChatAction(
+      { action: 'expand', topic: expandTopic.trim() },
+      'Failed to add questions'
+    )
+    if (data) setExpandTopic('')
+  }
+
+  const checkRequirements = async () => {
+    if (!projectId) return
+
+    try {
+      setAnalyzing(true)
+      const response = await fetch(
+        `/api/projects/${projectId}/analyze-requirements`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to check requirements')
+      }
+
+      const data = await response.json()
+      setAnalysis(data.analysis)
+
+      if (data.fallbackUsed) {
+        setFallbackNotice(
+          "We couldn't fully review your answers right now, so only basic checks were run."
+        )
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setAnalyzing(false)
+    }
+  }
+
   const generateStackRecommendation = async () => {
     if (!projectId) return
 
@@ -193,8 +486,15 @@ export default function ProjectDetailPage({
       }
 
       const data = await response.json()
-      setRecommendation(data.recommendation)
+      setRecommendation(parseTechStackRecommendation(data.project.techStack))
+      setSelection(resolveStackSelection(data.project))
       setProject(data.project)
+
+      if (data.fallbackUsed) {
+        setFallbackNotice(
+          "We couldn't generate a tailored recommendation right now, so this is our default stack."
+        )
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -202,7 +502,53 @@ export default function ProjectDetailPage({
     }
   }
 
-  const generateProject = async () => {
+  // Pick a recommended alternative or swap individual components
+  const updateStack = async (change: {
+    alternative?: number
+    components?: Partial<StackSelection>
+  }) => {
+    if (!projectId) return
+
+    try {
+      setSavingStack(true)
+      const response = await fetch(`/api/projects/${projectId}/tech-stack`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update tech stack')
+      }
+
+      const data = await response.json()
+      setSelection(data.selection)
+      setProject(data.project)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSavingStack(false)
+    }
+  }
+
+  const isSelected = (components: StackSelection) =>
+    selection !== null &&
+    STACK_COMPONENTS.every(
+      component =>
+        getSelectedOption(components, component)?.id ===
+        getSelectedOption(selection, component)?.id
+    )
+
+  // Components the user can swap (those with more than one option that
+  // works with the selected framework)
+  const swappableComponents = STACK_COMPONENTS.filter(
+    component => getStackOptions(component, selection?.framework).length > 1
+  )
+
+  // Push the project to GitHub: the reviewed files of a preview when one
+  // is given, freshly generated files otherwise. Once the project has a
+  // repository, the server opens a pull request instead.
+  const generateProject = async (previewId?: string) => {
     if (!projectId) return
 
     try {
@@ -212,25 +558,277 @@ export default function ProjectDetailPage({
       const response = await fetch(`/api/projects/${projectId}/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        ...(previewId && { body: JSON.stringify({ previewId }) }),
+      })
+
+      const data = await response.json()
+
+      // A generation already in progress (e.g. from another tab) is
+      // followed instead
+      if (!response.ok && !(response.status === 409 && data.job)) {
+        throw new Error(data.error || 'Failed to generate project')
+      }
+
+      // Generation runs as a background job: poll it until it finishes
+      let job: GenerationJob = data.job
+      while (job.status === 'QUEUED' || job.status === 'RUNNING') {
+        setGenerationProgress(job.progressMessage ?? 'Waiting to start...')
+
+        const jobResponse = await fetch(`/api/jobs/${job.id}`)
+        if (!jobResponse.ok) {
+          throw new Error('Failed to check generation progress')
+        }
+        job = (await jobResponse.json()).job
+
+        if (job.status === 'QUEUED' || job.status === 'RUNNING') {
+          await new Promise(resolve =>
+            setTimeout(resolve, JOB_POLL_INTERVAL_MS)
+          )
+        }
+      }
+
+      if (job.status === 'DEAD' || !job.result?.repository) {
+        throw new Error(job.error || 'Failed to generate project')
+      }
+
+      const { repository, pullRequest } = job.result
+      setProject(prev =>
+        prev ? { ...prev, repository: repository.url } : prev
+      )
+      setRepositoryUrl(repository.url)
+      setPreview(null)
+      setPreviewFile(null)
+
+      // Show success message
+      if (pullRequest) {
+        alert(
+          `Success! A pull request with the regenerated files is ready for review:\n\n${pullRequest.url}`
+        )
+      } else if (repositoryUrl) {
+        alert('Your repository already matches the regenerated files.')
+      } else {
+        alert(
+          `Success! Your project has been generated and pushed to GitHub:\n\n${repository.url}`
+        )
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setGeneratingProject(false)
+      setGenerationProgress(null)
+    }
+  }
+
+  const openPreviewFile = async (path: string) => {
+    if (!projectId) return
+
+    try {
+      setError(null)
+
+      const response = await fetch(
+        `/api/projects/${projectId}/preview/files?path=${encodeURIComponent(path)}`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to load file')
+      }
+
+      const data = await response.json()
+      setPreviewFile(data.file)
+      setFileDraft(data.file.content)
+      setFileProblems([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  // Generate the files without pushing them, for review
+  const previewProject = async () => {
+    if (!projectId) return
+
+    try {
+      setPreviewing(true)
+      setError(null)
+
+      const response = await fetch(`/api/projects/${projectId}/preview`, {
+        method: 'POST',
       })
 
       if (!response.ok) {
         const data = await response.json()
-        throw new Error(data.error || 'Failed to generate project')
+        throw new Error(data.error || 'Failed to preview project')
       }
 
       const data = await response.json()
-      setProject(data.project)
-      setRepositoryUrl(data.repository.url)
+      setPreview(data.preview)
+      setPreviewFile(null)
 
-      // Show success message
-      alert(
-        `Success! Your project has been generated and pushed to GitHub:\n\n${data.repository.url}`
+      if (data.preview.files.length > 0) {
+        await openPreviewFile(data.preview.files[0].path)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const updatePreviewFile = async (change: {
+    path: string
+    content?: string
+    excluded?: boolean
+    baseContentHash?: string
+  }) => {
+    if (!projectId) return
+
+    try {
+      setSavingFile(true)
+      setError(null)
+
+      const response = await fetch(`/api/projects/${projectId}/preview/files`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update file')
+      }
+
+      const data = await response.json()
+      const file: PreviewFile = data.file
+
+      setPreview(
+        prev =>
+          prev && {
+            ...prev,
+            files: prev.files.map(f =>
+              f.path === file.path
+                ? {
+                    path: file.path,
+                    excluded: file.excluded,
+                    edited: file.edited,
+                    size: file.content.length,
+                  }
+                : f
+            ),
+          }
       )
+      if (previewFile?.path === file.path) {
+        setPreviewFile(file)
+      }
+      if (change.content !== undefined) {
+        setFileProblems(
+          data.validation
+            ? [...data.validation.securityIssues, ...data.validation.errors]
+            : []
+        )
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
-      setGeneratingProject(false)
+      setSavingFile(false)
+    }
+  }
+
+  // Download the project as a ZIP archive (no GitHub account needed): the
+  // reviewed files of a preview when one is given
+  const downloadProject = async (previewId?: string) => {
+    if (!projectId) return
+
+    try {
+      setDownloading(true)
+      setError(null)
+
+      const response = await fetch(`/api/projects/${projectId}/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format: 'zip',
+          ...(previewId && { previewId }),
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to download project')
+      }
+
+      const filename =
+        response.headers
+          .get('Content-Disposition')
+          ?.match(/filename="([^"]+)"/)?.[1] ?? 'project.zip'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const fetchRuns = async () => {
+    if (!projectId) return
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/projects/${projectId}/runs`)
+
+      if (!response.ok) {
+        throw new Error('Failed to load generation history')
+      }
+
+      const data = await response.json()
+      setRuns(data.runs)
+      setSelectedRuns([])
+      setRunDiff(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  // Select up to two runs to compare, dropping the oldest selection
+  const toggleRun = (runId: string) => {
+    setSelectedRuns(prev =>
+      prev.includes(runId)
+        ? prev.filter(id => id !== runId)
+        : [...prev, runId].slice(-2)
+    )
+    setRunDiff(null)
+  }
+
+  const compareRuns = async () => {
+    if (!projectId || !runs || selectedRuns.length !== 2) return
+
+    // Older run first, whatever the order they were selected in
+    const [from, to] = runs
+      .filter(run => selectedRuns.includes(run.id))
+      .reverse()
+
+    try {
+      setComparingRuns(true)
+      setError(null)
+
+      const response = await fetch(
+        `/api/projects/${projectId}/runs/diff?from=${from.id}&to=${to.id}`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to compare runs')
+      }
+
+      const data = await response.json()
+      setRunDiff(data.diff)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setComparingRuns(false)
     }
   }
 
@@ -317,9 +915,11 @@ export default function ProjectDetailPage({
 
   if (!project) return null
 
-  const currentQuestion = project.requirements.find(r => !r.answer)
+  const currentQuestion = project.requirements.find(
+    r => !r.answer && !r.skipped
+  )
   const answeredCount = project.requirements.filter(r => r.answer).length
-  const allAnswered = project.requirements.every(r => r.answer)
+  const allAnswered = project.requirements.every(r => r.answer || r.skipped)
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -370,6 +970,22 @@ export default function ProjectDetailPage({
           </div>
         )}
 
+        {/* Fallback Content Notice */}
+        {fallbackNotice && (
+          <div
+            role="status"
+            className="mb-6 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg"
+          >
+            {fallbackNotice}
+            <button
+              onClick={() => setFallbackNotice(null)}
+              className="ml-4 underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Main Content */}
         {!chatStarted ? (
           /* Welcome Screen */
@@ -447,6 +1063,21 @@ export default function ProjectDetailPage({
                       </div>
                     )}
 
+                    {req.skipped && !req.answer && (
+                      <div className="flex items-start justify-end mb-4">
+                        <div className="mr-3 flex-1 text-right">
+                          <div className="bg-gray-50 border border-dashed border-gray-300 rounded-lg p-4 inline-block text-left">
+                            <p className="text-gray-500 italic">
+                              Not sure — skipped
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-gray-700 font-semibold">
+                          U
+                        </div>
+                      </div>
+                    )}
+
                     {/* Answer Input (for current question) */}
                     {!req.answer && currentQuestion?.id === req.id && (
                       <div className="mt-4">
@@ -464,10 +1095,52 @@ export default function ProjectDetailPage({
                           rows={3}
                           disabled={submitting}
                         />
+                        {suggestions.length > 0 && (
+                          <div
+                            aria-label="Suggested answers"
+                            className="mt-2 flex flex-wrap gap-2"
+                          >
+                            {suggestions.map(suggestion => (
+                              <button
+                                key={suggestion}
+                                onClick={() => setCurrentAnswer(suggestion)}
+                                disabled={submitting}
+                                className="text-sm text-left bg-blue-50 text-blue-800 border border-blue-200 rounded-full px-3 py-1 hover:bg-blue-100 disabled:opacity-50"
+                              >
+                                {suggestion}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        <div className="mt-2 flex gap-4">
+                          <button
+                            onClick={() => suggestAnswers(req.id)}
+                            disabled={submitting || suggesting}
+                            className="text-sm text-blue-600 underline hover:text-blue-800 disabled:opacity-50"
+                          >
+                            {suggesting ? 'Thinking...' : 'Suggest answers'}
+                          </button>
+                          <button
+                            onClick={() => submitAnswer(req.id, true)}
+                            disabled={submitting}
+                            className="text-sm text-gray-600 underline hover:text-gray-900 disabled:opacity-50"
+                          >
+                            Not sure, skip
+                          </button>
+                        </div>
                         <div className="mt-2 flex justify-between items-center">
                           <p className="text-xs text-gray-500">
                             {currentAnswer.length} / 5000 characters
                           </p>
+                          {answeredCount > 0 && (
+                            <button
+                              onClick={finishChat}
+                              disabled={submitting}
+                              className="ml-auto mr-4 text-sm text-gray-600 underline hover:text-gray-900 disabled:opacity-50"
+                            >
+                              I&apos;m done, generate now
+                            </button>
+                          )}
                           <button
                             onClick={() => submitAnswer(req.id)}
                             disabled={submitting || !currentAnswer.trim()}
@@ -481,8 +1154,25 @@ export default function ProjectDetailPage({
                   </div>
                 ))}
 
+                {/* Streaming Follow-up Question */}
+                {streamingText && (
+                  <div className="flex items-start mb-4" aria-live="polite">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold">
+                      AI
+                    </div>
+                    <div className="ml-3 flex-1">
+                      <div className="bg-blue-50 rounded-lg p-4">
+                        <p className="text-gray-900">
+                          {streamingText}
+                          <span className="animate-pulse">▍</span>
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Completion Message */}
-                {allAnswered && !recommendation && (
+                {allAnswered && !recommendation && !submitting && (
                   <div className="text-center py-6 border-t border-gray-200">
                     <div className="text-4xl mb-4">🎉</div>
                     <h3 className="text-xl font-bold text-gray-900 mb-2">
@@ -491,15 +1181,101 @@ export default function ProjectDetailPage({
                     <p className="text-gray-600 mb-6">
                       Great! Now let's get you a tech stack recommendation.
                     </p>
-                    <button
-                      onClick={generateStackRecommendation}
-                      disabled={generatingStack}
-                      className="bg-green-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
-                    >
-                      {generatingStack
-                        ? 'Generating...'
-                        : 'Get Tech Stack Recommendation'}
-                    </button>
+
+                    {/* Requirements Check */}
+                    {analysis && (
+                      <div
+                        aria-label="Requirements check"
+                        className="text-left bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6"
+                      >
+                        <div className="flex justify-between items-center mb-2">
+                          <h4 className="font-semibold text-gray-900">
+                            Requirements check
+                          </h4>
+                          <span className="text-sm font-medium text-gray-700">
+                            {analysis.completeness}% complete
+                          </span>
+                        </div>
+                        <p className="text-gray-600 mb-4">{analysis.summary}</p>
+                        {analysis.findings.length === 0 ? (
+                          <p className="text-green-700">
+                            No contradictions or gaps found.
+                          </p>
+                        ) : (
+                          <ul className="space-y-3">
+                            {analysis.findings.map((finding, i) => (
+                              <li
+                                key={i}
+                                className={`border-l-4 pl-3 ${
+                                  finding.severity === 'high'
+                                    ? 'border-red-500'
+                                    : finding.severity === 'medium'
+                                      ? 'border-amber-500'
+                                      : 'border-gray-400'
+                                }`}
+                              >
+                                <p className="text-sm font-semibold text-gray-900">
+                                  {FINDING_LABELS.get(finding.type)}
+                                </p>
+                                <p className="text-gray-700">
+                                  {finding.message}
+                                </p>
+                                {project.requirements.map((req, index) =>
+                                  finding.requirementIds.includes(req.id) ? (
+                                    <p
+                                      key={req.id}
+                                      className="text-sm text-gray-500"
+                                    >
+                                      Q{index + 1}: {req.question}
+                                    </p>
+                                  ) : null
+                                )}
+                                <p className="text-sm text-blue-700 mt-1">
+                                  {finding.suggestion}
+                                </p>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex justify-center gap-2 mb-6">
+                      <input
+                        type="text"
+                        value={expandTopic}
+                        onChange={e => setExpandTopic(e.target.value)}
+                        placeholder="Ask me more about... (e.g. payments)"
+                        maxLength={200}
+                        className="w-72 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+                      />
+                      <button
+                        onClick={expandChat}
+                        disabled={!expandTopic.trim()}
+                        className="bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-lg font-semibold hover:bg-blue-50 transition disabled:opacity-50"
+                      >
+                        Ask More
+                      </button>
+                    </div>
+
+                    <div className="flex flex-wrap justify-center gap-4">
+                      <button
+                        onClick={checkRequirements}
+                        disabled={analyzing}
+                        className="bg-white text-gray-700 border border-gray-300 px-8 py-3 rounded-lg font-semibold hover:bg-gray-50 transition disabled:opacity-50"
+                      >
+                        {analyzing ? 'Checking...' : 'Check My Answers'}
+                      </button>
+                      <button
+                        onClick={generateStackRecommendation}
+                        disabled={generatingStack}
+                        className="bg-green-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
+                      >
+                        {generatingStack
+                          ? 'Generating...'
+                          : 'Get Tech Stack Recommendation'}
+                      </button>
+                    </div>
                   </div>
                 )}
 
@@ -516,14 +1292,93 @@ export default function ProjectDetailPage({
                     <h3 className="text-2xl font-bold text-gray-900 mb-2">
                       Recommended Tech Stack
                     </h3>
-                    <div className="bg-white rounded-lg p-4 mb-4">
-                      <p className="text-lg font-semibold text-blue-600">
-                        {recommendation.stack}
-                      </p>
+                    <div className="space-y-4 mb-6">
+                      {recommendation.alternatives.map((alternative, i) => (
+                        <div
+                          key={alternative.name}
+                          className={`bg-white rounded-lg p-4 border-2 ${
+                            isSelected(alternative.components)
+                              ? 'border-blue-500'
+                              : 'border-transparent'
+                          }`}
+                        >
+                          <div className="flex items-center gap-2 mb-1">
+                            <p className="text-lg font-semibold text-blue-600">
+                              {alternative.name}
+                            </p>
+                            {i === 0 && (
+                              <span className="text-xs font-semibold bg-green-100 text-green-800 px-2 py-0.5 rounded">
+                                Recommended
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-500 mb-2">
+                            {describeStack(alternative.components)}
+                          </p>
+                          <p className="text-gray-700">
+                            {alternative.rationale}
+                          </p>
+                          {alternative.tradeoffs.length > 0 && (
+                            <ul className="list-disc list-inside text-sm text-gray-600 mt-2">
+                              {alternative.tradeoffs.map(tradeoff => (
+                                <li key={tradeoff}>{tradeoff}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {!repositoryUrl &&
+                            recommendation.alternatives.length > 1 &&
+                            !isSelected(alternative.components) && (
+                              <button
+                                onClick={() => updateStack({ alternative: i })}
+                                disabled={savingStack}
+                                className="mt-3 text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded font-semibold hover:bg-blue-200 transition disabled:opacity-50"
+                              >
+                                Use this stack
+                              </button>
+                            )}
+                        </div>
+                      ))}
                     </div>
-                    <p className="text-gray-700 mb-6">
-                      {recommendation.rationale}
-                    </p>
+                    {selection && !repositoryUrl && (
+                      <div className="bg-white rounded-lg p-4 mb-6">
+                        <h4 className="font-semibold text-gray-900 mb-3">
+                          Customize your stack
+                        </h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {swappableComponents.map(component => (
+                            <label
+                              key={component}
+                              className="text-sm text-gray-700"
+                            >
+                              {STACK_COMPONENT_LABELS.get(component)}
+                              <select
+                                value={
+                                  getSelectedOption(selection, component)?.id
+                                }
+                                onChange={e =>
+                                  updateStack({
+                                    components: {
+                                      [component]: e.target.value,
+                                    },
+                                  })
+                                }
+                                disabled={savingStack}
+                                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2"
+                              >
+                                {getStackOptions(
+                                  component,
+                                  selection.framework
+                                ).map(option => (
+                                  <option key={option.id} value={option.id}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <div className="flex flex-wrap gap-4">
                       {repositoryUrl ? (
                         <>
@@ -535,6 +1390,15 @@ export default function ProjectDetailPage({
                           >
                             View on GitHub →
                           </a>
+                          <button
+                            onClick={() => generateProject()}
+                            disabled={generatingProject}
+                            className="bg-white text-green-700 border border-green-600 px-6 py-3 rounded-lg font-semibold hover:bg-green-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {generatingProject
+                              ? 'Regenerating... (This may take 1-2 min)'
+                              : 'Regenerate via Pull Request'}
+                          </button>
                           {deploymentUrl ? (
                             <a
                               href={deploymentUrl}
@@ -565,14 +1429,34 @@ export default function ProjectDetailPage({
                       ) : (
                         <>
                           <button
-                            onClick={generateProject}
-                            disabled={generatingProject}
+                            onClick={() => generateProject()}
+                            disabled={generatingProject || previewing}
                             className="bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             {generatingProject
                               ? 'Generating... (This may take 1-2 min)'
                               : 'Generate Project on GitHub'}
                           </button>
+                          <button
+                            onClick={previewProject}
+                            disabled={generatingProject || previewing}
+                            className="bg-white text-green-700 border border-green-600 px-6 py-3 rounded-lg font-semibold hover:bg-green-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {previewing
+                              ? 'Generating preview...'
+                              : 'Preview Files First'}
+                          </button>
+                          <button
+                            onClick={() => downloadProject()}
+                            disabled={
+                              generatingProject || previewing || downloading
+                            }
+                            className="bg-white text-gray-700 border border-gray-300 px-6 py-3 rounded-lg font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {downloading
+                              ? 'Preparing download...'
+                              : 'Download ZIP'}
+                          </button>
                           <button
                             onClick={() => router.push('/dashboard')}
                             className="bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-300 transition"
@@ -582,6 +1466,259 @@ export default function ProjectDetailPage({
                         </>
                       )}
                     </div>
+                    {generatingProject && generationProgress && (
+                      <p role="status" className="text-sm text-gray-600 mt-3">
+                        {generationProgress}
+                      </p>
+                    )}
+                    {preview && !repositoryUrl && (
+                      <div className="bg-white rounded-lg p-4 mt-6">
+                        <div className="flex items-center justify-between mb-3">
+                          <h4 className="font-semibold text-gray-900">
+                            Review generated files
+                          </h4>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => downloadProject(preview.id)}
+                              disabled={downloading || savingFile}
+                              className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {downloading ? 'Preparing...' : 'Download ZIP'}
+                            </button>
+                            <button
+                              onClick={() => generateProject(preview.id)}
+                              disabled={generatingProject || savingFile}
+                              className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {generatingProject
+                                ? 'Pushing...'
+                                : `Push ${preview.files.filter(f => !f.excluded).length} Files to GitHub`}
+                            </button>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <ul className="text-sm border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                            {preview.files.map(file => (
+                              <li
+                                key={file.path}
+                                className={`flex items-center gap-2 px-3 py-2 ${
+                                  previewFile?.path === file.path
+                                    ? 'bg-green-50'
+                                    : ''
+                                }`}
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={!file.excluded}
+                                  onChange={e =>
+                                    updatePreviewFile({
+                                      path: file.path,
+                                      excluded: !e.target.checked,
+                                    })
+                                  }
+                                  disabled={savingFile}
+                                  title="Include in the push"
+                                />
+                                <button
+                                  onClick={() => openPreviewFile(file.path)}
+                                  className={`text-left font-mono break-all ${
+                                    file.excluded
+                                      ? 'text-gray-400 line-through'
+                                      : 'text-gray-800 hover:text-green-700'
+                                  }`}
+                                >
+                                  {file.path}
+                                </button>
+                                {file.edited && (
+                                  <span className="ml-auto text-xs bg-yellow-100 text-yellow-800 px-1.5 py-0.5 rounded">
+                                    edited
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="md:col-span-2">
+                            {previewFile ? (
+                              <>
+                                <p className="font-mono text-sm text-gray-600 mb-2">
+                                  {previewFile.path}
+                                </p>
+                                <textarea
+                                  value={fileDraft}
+                                  onChange={e => setFileDraft(e.target.value)}
+                                  spellCheck={false}
+                                  className="w-full h-80 font-mono text-xs border border-gray-300 rounded-lg p-3"
+                                />
+                                {fileProblems.length > 0 && (
+                                  <ul className="list-disc list-inside text-sm text-red-700 mt-2">
+                                    {fileProblems.map(problem => (
+                                      <li key={problem}>{problem}</li>
+                                    ))}
+                                  </ul>
+                                )}
+                                <button
+                                  onClick={() =>
+                                    updatePreviewFile({
+                                      path: previewFile.path,
+                                      content: fileDraft,
+                                      baseContentHash: previewFile.contentHash,
+                                    })
+                                  }
+                                  disabled={
+                                    savingFile ||
+                                    fileDraft === previewFile.content
+                                  }
+                                  className="mt-2 text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded font-semibold hover:bg-blue-200 transition disabled:opacity-50"
+                                >
+                                  {savingFile ? 'Saving...' : 'Save changes'}
+                                </button>
+                              </>
+                            ) : (
+                              <p className="text-sm text-gray-500">
+                                Select a file to review it.
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    <div className="bg-white rounded-lg p-4 mt-6">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-semibold text-gray-900">
+                          Generation history
+                        </h4>
+                        <button
+                          onClick={fetchRuns}
+                          className="text-sm text-blue-600 hover:text-blue-700 font-semibold"
+                        >
+                          {runs ? 'Refresh' : 'Show history'}
+                        </button>
+                      </div>
+                      {runs && runs.length === 0 && (
+                        <p className="text-sm text-gray-500 mt-3">
+                          Nothing generated yet.
+                        </p>
+                      )}
+                      {runs && runs.length > 0 && (
+                        <>
+                          <p className="text-sm text-gray-500 mt-2">
+                            Select two runs to compare their files.
+                          </p>
+                          <ul className="text-sm divide-y divide-gray-100 mt-2">
+                            {runs.map(run => (
+                              <li
+                                key={run.id}
+                                className="flex items-center gap-3 py-2"
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={selectedRuns.includes(run.id)}
+                                  onChange={() => toggleRun(run.id)}
+                                  aria-label={`Select run ${run.id}`}
+                                />
+                                <span className="text-gray-800">
+                                  {new Date(run.createdAt).toLocaleString()}
+                                </span>
+                                <span className="text-gray-600">
+                                  {RUN_TRIGGER_LABELS.get(run.trigger)}
+                                </span>
+                                <span
+                                  className={`text-xs font-semibold px-2 py-0.5 rounded ${
+                                    run.outcome === 'SUCCEEDED'
+                                      ? 'bg-green-100 text-green-800'
+                                      : 'bg-red-100 text-red-800'
+                                  }`}
+                                  title={run.error ?? undefined}
+                                >
+                                  {run.outcome === 'SUCCEEDED'
+                                    ? `${run.fileCount} files`
+                                    : 'Failed'}
+                                </span>
+                                <span className="ml-auto text-gray-500">
+                                  {(run.durationMs / 1000).toFixed(1)}s
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                          <button
+                            onClick={compareRuns}
+                            disabled={
+                              selectedRuns.length !== 2 || comparingRuns
+                            }
+                            className="mt-3 text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded font-semibold hover:bg-blue-200 transition disabled:opacity-50"
+                          >
+                            {comparingRuns ? 'Comparing...' : 'Compare runs'}
+                          </button>
+                        </>
+                      )}
+                      {runDiff && (
+                        <div className="mt-4 space-y-3">
+                          {(runDiff.requirementsChanged ||
+                            runDiff.techStackChanged) && (
+                            <p className="text-sm text-gray-700">
+                              Changed inputs:{' '}
+                              {[
+                                runDiff.requirementsChanged && 'requirements',
+                                runDiff.techStackChanged && 'tech stack',
+                              ]
+                                .filter(Boolean)
+                                .join(', ')}
+                            </p>
+                          )}
+                          {runDiff.promptVersionChanges.length > 0 && (
+                            <ul className="text-sm text-gray-700 list-disc list-inside">
+                              {runDiff.promptVersionChanges.map(change => (
+                                <li key={change.path}>
+                                  {change.path}: {change.from ?? 'fallback'} →{' '}
+                                  {change.to ?? 'fallback'}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {runDiff.files.every(
+                            file => file.status === 'unchanged'
+                          ) && (
+                            <p className="text-sm text-gray-500">
+                              Both runs produced the same files.
+                            </p>
+                          )}
+                          {runDiff.files
+                            .filter(file => file.status !== 'unchanged')
+                            .map(file => (
+                              <div
+                                key={file.path}
+                                className="border border-gray-200 rounded-lg"
+                              >
+                                <p className="font-mono text-sm px-3 py-2 bg-gray-50 border-b border-gray-200">
+                                  {file.path}{' '}
+                                  <span className="text-xs text-gray-500">
+                                    ({file.status})
+                                  </span>
+                                </p>
+                                {file.patch === null ? (
+                                  <p className="text-sm text-gray-500 px-3 py-2">
+                                    Too large to compare.
+                                  </p>
+                                ) : (
+                                  <pre className="text-xs overflow-x-auto max-h-96">
+                                    {file.patch
+                                      .split('\n')
+                                      .slice(2, -1)
+                                      .map((line, i) => (
+                                        <div
+                                          key={i}
+                                          className={`px-3 ${diffLineClass(line)}`}
+                                        >
+                                          {line || ' '}
+                                        </div>
+                                      ))}
+                                  </pre>
+                                )}
+                              </div>
+                            ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
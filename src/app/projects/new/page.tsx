@@ -3,12 +3,14 @@
 import React, { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import { listQuestionFlows, type ProjectType } from '@/lib/question-flows'
 
 export default function NewProjectPage() {
   const router = useRouter()
   const { status } = useSession()
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
+  const [projectType, setProjectType] = useState<ProjectType | ''>('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -37,6 +39,7 @@ export default function NewProjectPage() {
         body: JSON.stringify({
           name: name.trim(),
           description: description.trim() || undefined,
+          projectType: projectType || undefined,
         }),
       })
 
@@ -124,6 +127,33 @@ export default function NewProjectPage() {
               </p>
             </div>
 
+            {/* Project Type */}
+            <div className="mb-6">
+              <label
+                htmlFor="projectType"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                What are you building? (Optional)
+              </label>
+              <select
+                id="projectType"
+                value={projectType}
+                onChange={e => setProjectType(e.target.value as ProjectType)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+                disabled={loading}
+              >
+                <option value="">Not sure, figure it out for me</option>
+                {listQuestionFlows().map(flow => (
+                  <option key={flow.type} value={flow.type}>
+                    {flow.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                We tailor the questions to the kind of project
+              </p>
+            </div>
+
             {/* Error message */}
             {error && (
               <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
@@ -0,0 +1,462 @@
+import { createHash } from 'crypto'
+import { prisma } from './prisma'
+import { logger } from './logger'
+import {
+  getLLMProvider,
+  type AIOperation,
+  type CompletionRequest,
+  type CompletionResult,
+  type ProviderName,
+} from './llm-provider'
+
+/**
+ * Content-Addressed AI Response Cache
+ *
+ * Completions are cached under a SHA-256 of the requested (primary)
+ * provider and model, prompt version and request input, so regenerating a project with unchanged
+ * requirements (or retrying after a GitHub failure) reuses the earlier
+ * responses instead of paying for new ones.
+ *
+ * Storage Options (AI_CACHE):
+ * 1. redis - Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 2. postgres - the ai_cache table
+ * 3. memory - per-instance Map, lost on cold starts and capped at
+ *    MEMORY_CACHE_MAX_ENTRIES (least recently used entries are evicted)
+ * 4. off - caching disabled
+ * Defaults to redis when Upstash is configured, memory otherwise. Unknown
+ * values, and redis without the Upstash credentials, log a warning and use
+ * memory.
+ *
+ * Responses served by a fallback model are stored under the primary
+ * provider and model they were requested from, so later identical requests
+ * hit them; the model that answered is kept as metadata.
+ *
+ * Cache failures never fail an AI call: they are logged and treated as misses.
+ * Expired Postgres rows are deleted by the job worker (purgeExpiredCompletions).
+ */
+
+export type CacheStoreName = 'redis' | 'postgres' | 'memory' | 'off'
+
+// How long responses stay reusable, per operation (0 disables caching).
+// Follow-ups are short-lived so an abandoned conversation can be restarted
+// without replaying stale questions forever.
+export const AI_CACHE_TTLS: Record<AIOperation, number> = {
+  classify: 7 * 24 * 60 * 60 * 1000, // 7 days
+  questions: 24 * 60 * 60 * 1000, // 1 day
+  'follow-up': 60 * 60 * 1000, // 1 hour
+  suggest: 60 * 60 * 1000, // 1 hour
+  analysis: 24 * 60 * 60 * 1000, // 1 day
+  stack: 7 * 24 * 60 * 60 * 1000, // 7 days
+  prd: 7 * 24 * 60 * 60 * 1000, // 7 days
+  readme: 7 * 24 * 60 * 60 * 1000, // 7 days
+  sitemap: 7 * 24 * 60 * 60 * 1000, // 7 days
+  datamodel: 7 * 24 * 60 * 60 * 1000, // 7 days
+  homepage: 7 * 24 * 60 * 60 * 1000, // 7 days
+  page: 7 * 24 * 60 * 60 * 1000, // 7 days
+  component: 7 * 24 * 60 * 60 * 1000, // 7 days
+}
+
+// Entries the memory store keeps per instance
+const MEMORY_CACHE_MAX_ENTRIES = 500
+
+interface CachedCompletion {
+  operation: AIOperation
+  provider: ProviderName
+  model: string
+  promptVersion: string | null
+  text: string
+  inputTokens: number
+  outputTokens: number
+  expiresAt: number
+}
+
+/**
+ * Abstract storage interface for cached completions
+ */
+interface AICacheStorage {
+  get(key: string): Promise<CachedCompletion | null>
+  set(key: string, entry: CachedCompletion, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  // Delete expired entries and return how many there were (Postgres, where
+  // expired rows otherwise stay until they are read)
+  deleteExpired?(): Promise<number>
+}
+
+/**
+ * Upstash Redis storage implementation
+ */
+class RedisCacheStorage implements AICacheStorage {
+  private baseUrl: string
+  private token: string
+
+  constructor(url: string, token: string) {
+    this.baseUrl = url.replace(/\/$/, '') // Remove trailing slash
+    this.token = token
+  }
+
+  private async request(command: string[]): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify([command]),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Redis request failed: ${response.status}`)
+    }
+
+    const [result] = await response.json()
+    if (result.error) {
+      throw new Error(`Redis error: ${result.error}`)
+    }
+
+    return result.result
+  }
+
+  async get(key: string): Promise<CachedCompletion | null> {
+    const result = await this.request(['GET', `aicache:${key}`])
+    return result && typeof result === 'string' ? JSON.parse(result) : null
+  }
+
+  async set(
+    key: string,
+    entry: CachedCompletion,
+    ttlMs: number
+  ): Promise<void> {
+    await this.request([
+      'SET',
+      `aicache:${key}`,
+      JSON.stringify(entry),
+      'PX',
+      ttlMs.toString(),
+    ])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request(['DEL', `aicache:${key}`])
+  }
+}
+
+/**
+ * Postgres storage implementation (ai_cache table)
+ */
+class PostgresCacheStorage implements AICacheStorage {
+  async get(key: string): Promise<CachedCompletion | null> {
+    const row = await prisma.aiCacheEntry.findUnique({ where: { key } })
+    if (!row) return null
+
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await prisma.aiCacheEntry.deleteMany({ where: { key } })
+      return null
+    }
+
+    return {
+      operation: row.operation as AIOperation,
+      provider: row.provider as ProviderName,
+      model: row.model,
+      promptVersion: row.promptVersion,
+      text: row.text,
+      inputTokens: row.inputTokens,
+      outputTokens: row.outputTokens,
+      expiresAt: row.expiresAt.getTime(),
+    }
+  }
+
+  async set(key: string, entry: CachedCompletion): Promise<void> {
+    const data = { ...entry, expiresAt: new Date(entry.expiresAt) }
+
+    await prisma.aiCacheEntry.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    await prisma.aiCacheEntry.deleteMany({ where: { key } })
+  }
+
+  async deleteExpired(): Promise<number> {
+    const { count } = await prisma.aiCacheEntry.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    })
+    return count
+  }
+}
+
+/**
+ * In-memory storage implementation
+ *
+ * The Map keeps insertion order, so entries are moved to the end when
+ * read and the first entry is the least recently used one.
+ */
+class MemoryCacheStorage implements AICacheStorage {
+  private store = new Map<string, CachedCompletion>()
+
+  async get(key: string): Promise<CachedCompletion | null> {
+    const entry = this.store.get(key)
+    this.store.delete(key)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null
+    }
+    this.store.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: CachedCompletion): Promise<void> {
+    this.store.delete(key)
+    this.store.set(key, entry)
+
+    if (this.store.size > MEMORY_CACHE_MAX_ENTRIES) {
+      const leastRecentlyUsed = this.store.keys().next().value
+      if (leastRecentlyUsed !== undefined) {
+        this.store.delete(leastRecentlyUsed)
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+}
+
+// Cached storage instance (singleton pattern); null when caching is off
+let cachedStorage: AICacheStorage | null | undefined
+
+function warnMisconfigured(message: string) {
+  logger.warn(`${message}; using the memory AI cache`, {
+    operation: 'ai_cache',
+  })
+}
+
+function resolveStoreName(): CacheStoreName {
+  const configured = process.env.AI_CACHE?.trim().toLowerCase()
+
+  switch (configured) {
+    case 'redis':
+    case 'postgres':
+    case 'memory':
+    case 'off':
+      return configured
+    case undefined:
+    case '':
+      return process.env.UPSTASH_REDIS_REST_URL &&
+        process.env.UPSTASH_REDIS_REST_TOKEN
+        ? 'redis'
+        : 'memory'
+    default:
+      warnMisconfigured(
+        `Unknown AI_CACHE "${configured}". Expected one of: redis, postgres, memory, off`
+      )
+      return 'memory'
+  }
+}
+
+/**
+ * Get the configured storage backend (cached singleton)
+ *
+ * Never throws: misconfiguration is logged once and falls back to memory.
+ */
+function getStorage(): AICacheStorage | null {
+  if (cachedStorage !== undefined) {
+    return cachedStorage
+  }
+
+  switch (resolveStoreName()) {
+    case 'redis': {
+      const url = process.env.UPSTASH_REDIS_REST_URL
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN
+      if (!url || !token) {
+        warnMisconfigured(
+          'UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required when AI_CACHE=redis'
+        )
+        cachedStorage = new MemoryCacheStorage()
+        break
+      }
+      cachedStorage = new RedisCacheStorage(url, token)
+      break
+    }
+    case 'postgres':
+      cachedStorage = new PostgresCacheStorage()
+      break
+    case 'memory':
+      cachedStorage = new MemoryCacheStorage()
+      break
+    case 'off':
+      cachedStorage = null
+      break
+  }
+
+  return cachedStorage
+}
+
+/**
+ * Clear cached storage (for testing purposes)
+ */
+export function __clearAICacheStorage(): void {
+  cachedStorage = undefined
+}
+
+/**
+ * Build the content-addressed key for a request
+ */
+export function aiCacheKey(
+  provider: ProviderName,
+  model: string,
+  request: CompletionRequest
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        provider,
+        model,
+        request.promptVersion ?? null,
+        request.operation,
+        request.maxTokens,
+        request.prompt,
+      ])
+    )
+    .digest('hex')
+}
+
+function logCacheFailure(action: string, key: string, error: unknown) {
+  logger.warn(`AI cache ${action} failed`, {
+    operation: 'ai_cache',
+    metadata: {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    },
+  })
+}
+
+/**
+ * Look up a cached response for a request
+ *
+ * Returns null on a miss, when caching is off or when the store fails.
+ */
+export async function getCachedCompletion(
+  provider: ProviderName,
+  model: string,
+  request: CompletionRequest
+): Promise<CompletionResult | null> {
+  const storage = getStorage()
+  if (!storage || AI_CACHE_TTLS[request.operation] <= 0) return null
+
+  const key = aiCacheKey(provider, model, request)
+
+  try {
+    const entry = await storage.get(key)
+    if (!entry) return null
+
+    return {
+      text: entry.text,
+      provider: entry.provider,
+      model: entry.model,
+      usage: {
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+      },
+    }
+  } catch (error) {
+    logCacheFailure('read', key, error)
+    return null
+  }
+}
+
+/**
+ * Store a provider response for reuse
+ *
+ * Keyed by the provider and model the request was sent to, which differ
+ * from the result's when a fallback model answered.
+ */
+export async function setCachedCompletion(
+  provider: ProviderName,
+  model: string,
+  request: CompletionRequest,
+  result: CompletionResult
+): Promise<void> {
+  const storage = getStorage()
+  const ttlMs = AI_CACHE_TTLS[request.operation]
+  if (!storage || ttlMs <= 0) return
+
+  const key = aiCacheKey(provider, model, request)
+
+  try {
+    await storage.set(
+      key,
+      {
+        operation: request.operation,
+        provider: result.provider,
+        model: result.model,
+        promptVersion: request.promptVersion ?? null,
+        text: result.text,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        expiresAt: Date.now() + ttlMs,
+      },
+      ttlMs
+    )
+  } catch (error) {
+    logCacheFailure('write', key, error)
+  }
+}
+
+/**
+ * Drop a cached response that turned out to be unusable
+ *
+ * Called when a response fails validation so a retry asks the model again
+ * instead of replaying the same bad output. Responses are stored under the
+ * configured provider and model, whichever model answered.
+ */
+export async function evictCachedCompletion(
+  request: CompletionRequest
+): Promise<void> {
+  const storage = getStorage()
+  if (!storage) return
+
+  let key: string | undefined
+
+  try {
+    const provider = getLLMProvider()
+    key = aiCacheKey(provider.name, provider.model, request)
+    await storage.delete(key)
+  } catch (error) {
+    logCacheFailure('evict', key ?? 'unknown', error)
+  }
+}
+
+/**
+ * Delete expired responses from stores that keep them (Postgres)
+ *
+ * Expired rows are never read again, but stay until they are looked up;
+ * the job worker calls this so the table does not grow without bound.
+ * Returns the number of deleted entries; never throws, so a failing store
+ * cannot stop the worker.
+ */
+export async function purgeExpiredCompletions(): Promise<number> {
+  try {
+    const storage = getStorage()
+    return storage?.deleteExpired ? await storage.deleteExpired() : 0
+  } catch (error) {
+    logger.warn('AI cache purge failed', {
+      operation: 'ai_cache',
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+    return 0
+  }
+}
+
+/**
+ * Whether the client asked for fresh AI output (Cache-Control: no-cache)
+ */
+export function wantsFreshResponse(request: {
+  headers?: { get(name: string): string | null }
+}): boolean {
+  const cacheControl = request.headers?.get('cache-control') ?? ''
+  return /\bno-cache\b/i.test(cacheControl)
+}
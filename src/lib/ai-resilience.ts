@@ -0,0 +1,409 @@
+import {
+  createLLMProvider,
+  getLLMProvider,
+  type CompletionRequest,
+  type CompletionResult,
+  type LLMProvider,
+  type TokenHandler,
+} from './llm-provider'
+import { logger } from './logger'
+
+/**
+ * Resilient AI Calls
+ *
+ * Wraps provider calls with:
+ * - a per-call timeout (AI_TIMEOUT_MS)
+ * - retries with exponential backoff for errors another attempt can fix:
+ *   timeouts, dropped connections, 408/409/429 and 5xx responses
+ *   (AI_MAX_RETRIES, AI_RETRY_BASE_DELAY_MS)
+ * - an ordered fallback list of models tried after the configured one
+ *   (AI_FALLBACK_MODELS, e.g. "anthropic:claude-3-5-haiku-20241022,openai:gpt-4o-mini")
+ * - a circuit breaker per model that opens after repeated failures
+ *   (AI_CIRCUIT_FAILURE_THRESHOLD) and lets a trial call through once
+ *   AI_CIRCUIT_RESET_MS has passed
+ *
+ * Other errors (bad request, invalid API key, unexpected content) are
+ * thrown as is. When every model is failing or its circuit is open,
+ * AIUnavailableError is thrown so routes can answer 503 instead of 500.
+ *
+ * Streams are only retried until the first token arrives; after that the
+ * user has seen output and the error is passed on.
+ *
+ * An attempt that times out is aborted through the request's signal, so
+ * the abandoned HTTP request stops and its stream sends no more tokens.
+ */
+
+const DEFAULT_TIMEOUT_MS = 60000
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_RETRY_BASE_DELAY_MS = 500
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_CIRCUIT_RESET_MS = 30000
+
+// HTTP statuses worth retrying: timeout, conflict, rate limit, server errors
+const RETRYABLE_STATUSES = [408, 409, 429]
+
+// Connection failures raised by the Anthropic SDK and fetch
+const CONNECTION_ERROR_NAMES = [
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+]
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitStatus {
+  provider: string
+  model: string
+  state: CircuitState
+  failures: number
+  openedAt: string | null
+}
+
+/**
+ * Thrown when a provider does not answer within AI_TIMEOUT_MS
+ */
+export class AITimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI request timed out after ${timeoutMs}ms`)
+    this.name = 'AITimeoutError'
+  }
+}
+
+/**
+ * Thrown when no configured model could serve the request
+ */
+export class AIUnavailableError extends Error {
+  constructor(
+    message = 'The AI service is temporarily unavailable. Please try again in a minute.'
+  ) {
+    super(message)
+    this.name = 'AIUnavailableError'
+  }
+}
+
+// Non-negative number from an environment variable, or the default
+function readNumber(setting: string | undefined, fallback: number): number {
+  const value = Number(setting)
+  return setting && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * Whether another attempt could succeed where this one failed
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AITimeoutError) return true
+  if (!(error instanceof Error)) return false
+
+  const status = (error as { status?: unknown }).status
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUSES.includes(status) || status >= 500
+  }
+
+  return (
+    CONNECTION_ERROR_NAMES.includes(error.name) ||
+    (error instanceof TypeError && error.message === 'fetch failed')
+  )
+}
+
+/**
+ * Tracks consecutive failures of one model
+ *
+ * closed: calls go through. open: calls are refused until the reset
+ * period has passed. half-open: one trial call decides whether the
+ * circuit closes again or reopens.
+ */
+class CircuitBreaker {
+  private failures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(
+    readonly provider: string,
+    readonly model: string
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed'
+    return Date.now() - this.openedAt >= circuitResetMs() ? 'half-open' : 'open'
+  }
+
+  // Reserve a call; false while open or while a trial call is running
+  tryAcquire(): boolean {
+    const state = this.state
+    if (state === 'closed') return true
+    if (state === 'open' || this.trialInFlight) return false
+
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.failures++
+    const failedTrial = this.trialInFlight
+    this.trialInFlight = false
+
+    if (failedTrial || this.failures >= failureThreshold()) {
+      this.openedAt = Date.now()
+      logger.warn('AI circuit opened', {
+        operation: 'ai_circuit',
+        metadata: {
+          provider: this.provider,
+          model: this.model,
+          failures: this.failures,
+        },
+      })
+    }
+  }
+
+  // Give up a reserved call without counting it (non-retryable error)
+  release(): void {
+    this.trialInFlight = false
+  }
+
+  toStatus(): CircuitStatus {
+    return {
+      provider: this.provider,
+      model: this.model,
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    }
+  }
+}
+
+function failureThreshold(): number {
+  return Math.max(
+    1,
+    readNumber(
+      process.env.AI_CIRCUIT_FAILURE_THRESHOLD,
+      DEFAULT_FAILURE_THRESHOLD
+    )
+  )
+}
+
+function circuitResetMs(): number {
+  return readNumber(process.env.AI_CIRCUIT_RESET_MS, DEFAULT_CIRCUIT_RESET_MS)
+}
+
+// One breaker per provider and model, kept for the life of the process
+const breakers = new Map<string, CircuitBreaker>()
+
+function getBreaker(provider: LLMProvider): CircuitBreaker {
+  const key = `${provider.name}:${provider.model}`
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider.name, provider.model)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Current state of every model that has been called (for /api/health)
+ */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return Array.from(breakers.values()).map(breaker => breaker.toStatus())
+}
+
+/**
+ * Reset all circuit breakers (for testing purposes)
+ */
+export function __resetCircuitBreakers(): void {
+  breakers.clear()
+}
+
+/**
+ * The configured provider followed by the AI_FALLBACK_MODELS entries
+ *
+ * Entries are "<provider>:<model>" or just "<provider>" for its
+ * configured model; duplicates of an earlier entry are skipped.
+ */
+export function getProviderChain(): LLMProvider[] {
+  const chain = [getLLMProvider()]
+  const entries = (process.env.AI_FALLBACK_MODELS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  for (const entry of entries) {
+    const separator = entry.indexOf(':')
+    const provider =
+      separator === -1
+        ? createLLMProvider(entry)
+        : createLLMProvider(
+            entry.slice(0, separator),
+            entry.slice(separator + 1)
+          )
+
+    if (
+      !chain.some(p => p.name === provider.name && p.model === provider.model)
+    ) {
+      chain.push(provider)
+    }
+  }
+
+  return chain
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Exponential backoff with jitter: ~base, ~2x base, ~4x base, ...
+function backoffDelay(attempt: number): number {
+  const base = readNumber(
+    process.env.AI_RETRY_BASE_DELAY_MS,
+    DEFAULT_RETRY_BASE_DELAY_MS
+  )
+  return Math.round(base * 2 ** (attempt - 1) * (0.5 + Math.random() / 2))
+}
+
+/**
+ * Reject with AITimeoutError unless the call settles (or is marked as
+ * started, for streams) within the timeout
+ *
+ * The call receives a signal that is aborted on timeout, and when the
+ * caller's own signal (if any) aborts.
+ */
+function withTimeout<T>(
+  call: (signal: AbortSignal, markStarted: () => void) => Promise<T>,
+  timeoutMs: number,
+  callerSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController()
+  const abort = () => controller.abort(callerSignal?.reason)
+  callerSignal?.addEventListener('abort', abort)
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new AITimeoutError(timeoutMs)
+      controller.abort(error)
+      reject(error)
+    }, timeoutMs)
+    const clear = () => clearTimeout(timer)
+
+    call(controller.signal, clear)
+      .finally(() => callerSignal?.removeEventListener('abort', abort))
+      .then(
+        value => {
+          clear()
+          resolve(value)
+        },
+        error => {
+          clear()
+          reject(error)
+        }
+      )
+  })
+}
+
+/**
+ * Run a call against each model in the chain, with retries per model
+ */
+async function runResilient(
+  request: CompletionRequest,
+  call: (
+    provider: LLMProvider,
+    signal: AbortSignal,
+    markStarted: () => void
+  ) => Promise<CompletionResult>,
+  hasStarted: () => boolean
+): Promise<CompletionResult> {
+  const timeoutMs = readNumber(process.env.AI_TIMEOUT_MS, DEFAULT_TIMEOUT_MS)
+  const maxRetries = readNumber(process.env.AI_MAX_RETRIES, DEFAULT_MAX_RETRIES)
+  let lastError: unknown = null
+
+  for (const provider of getProviderChain()) {
+    const breaker = getBreaker(provider)
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      if (!breaker.tryAcquire()) break
+
+      try {
+        const result = await withTimeout(
+          (signal, markStarted) => call(provider, signal, markStarted),
+          timeoutMs,
+          request.signal
+        )
+        breaker.recordSuccess()
+        return result
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          breaker.release()
+          throw error
+        }
+
+        breaker.recordFailure()
+        lastError = error
+        logger.warn('AI call failed', {
+          operation: `ai_${request.operation}`,
+          metadata: {
+            provider: provider.name,
+            model: provider.model,
+            attempt,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        })
+
+        // Tokens already reached the user; a retry would repeat them
+        if (hasStarted()) throw error
+
+        if (attempt <= maxRetries) {
+          await delay(backoffDelay(attempt))
+        }
+      }
+    }
+  }
+
+  logger.error('AI unavailable, every model failed or is paused', {
+    operation: `ai_${request.operation}`,
+    metadata: {
+      error: lastError instanceof Error ? lastError.message : null,
+    },
+  })
+  throw new AIUnavailableError()
+}
+
+/**
+ * Complete a request with timeouts, retries, fallback models and circuit
+ * breakers (see module docs)
+ */
+export function resilientComplete(
+  request: CompletionRequest
+): Promise<CompletionResult> {
+  return runResilient(
+    request,
+    (provider, signal) => provider.complete({ ...request, signal }),
+    () => false
+  )
+}
+
+/**
+ * Stream a request with the same protections as resilientComplete
+ *
+ * The timeout covers the wait for the first token. Tokens from an attempt
+ * that timed out are dropped, even when they arrive after it was aborted.
+ */
+export function resilientStream(
+  request: CompletionRequest,
+  onToken: TokenHandler
+): Promise<CompletionResult> {
+  let started = false
+
+  return runResilient(
+    request,
+    (provider, signal, markStarted) =>
+      provider.stream({ ...request, signal }, delta => {
+        if (signal.aborted) return
+        started = true
+        markStarted()
+        onToken(delta)
+      }),
+    () => started
+  )
+}
@@ -0,0 +1,227 @@
+import { z } from 'zod'
+import { type AIOperation } from './llm-provider'
+import { meteredComplete, type AICallContext } from './ai-usage'
+import { evictCachedCompletion } from './ai-cache'
+import { AIUnavailableError } from './ai-resilience'
+import { logger } from './logger'
+
+/**
+ * Schema-Validated Structured AI Output
+ *
+ * Parses model output against a zod schema. When the output is not valid
+ * JSON or does not match the schema, the model is re-prompted with the
+ * validation error (bounded retries). Only when every attempt fails do we
+ * fall back to canned content, and the caller is told so via fallbackUsed.
+ * The fallback is also used while the AI service is unavailable (see
+ * ai-resilience), so a provider outage does not fail the whole request.
+ */
+
+// Repair attempts after the initial request
+export const DEFAULT_MAX_REPAIR_RETRIES = 2
+
+// Cap echoed invalid output so repair prompts stay small
+const MAX_ECHOED_RESPONSE_LENGTH = 2000
+
+export interface StructuredResult<T> {
+  data: T
+  fallbackUsed: boolean
+  attempts: number
+  // Prompt reference that produced data; absent when the fallback was used
+  promptVersion?: string
+}
+
+export interface StructuredCompletionOptions<T> {
+  operation: AIOperation
+  prompt: string
+  maxTokens: number
+  schema: z.ZodType<T>
+  fallback: T
+  maxRetries?: number
+  context?: AICallContext
+  promptVersion?: string
+}
+
+type ParseOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+/**
+ * Remove surrounding markdown code fences (```json ... ```) from model output
+ */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim()
+  const match = trimmed.match(/^```[a-zA-Z]*\n([\s\S]*?)\n?```$/)
+  return match ? match[1].trim() : trimmed
+}
+
+/**
+ * Parse raw model text as JSON and validate it against the schema
+ */
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: z.ZodType<T>
+): ParseOutcome<T> {
+  let json: unknown
+  try {
+    json = JSON.parse(stripCodeFences(text))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { success: false, error: `Response is not valid JSON: ${message}` }
+  }
+
+  const validation = schema.safeParse(json)
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    return {
+      success: false,
+      error: `Response does not match schema: ${issues}`,
+    }
+  }
+
+  return { success: true, data: validation.data }
+}
+
+/**
+ * Build a repair prompt that shows the model its invalid output and the error
+ */
+function buildRepairPrompt(
+  originalPrompt: string,
+  invalidResponse: string,
+  error: string
+): string {
+  return `${originalPrompt}
+
+Your previous response could not be used.
+
+Previous response:
+${invalidResponse.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}
+
+Problem: ${error}
+
+Return ONLY the corrected JSON, with no explanation and no code fences.`
+}
+
+/**
+ * Request structured output from the configured provider with repair retries
+ */
+export async function completeStructured<T>(
+  options: StructuredCompletionOptions<T>
+): Promise<StructuredResult<T>> {
+  const {
+    operation,
+    prompt,
+    maxTokens,
+    schema,
+    fallback,
+    maxRetries = DEFAULT_MAX_REPAIR_RETRIES,
+    context,
+    promptVersion,
+  } = options
+
+  let currentPrompt = prompt
+  let lastError = ''
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    // Other provider errors (auth, non-text content) propagate to the caller
+    const request = {
+      operation,
+      prompt: currentPrompt,
+      maxTokens,
+      promptVersion,
+    }
+    let response
+    try {
+      response = await meteredComplete(request, context)
+    } catch (error) {
+      if (!(error instanceof AIUnavailableError)) throw error
+
+      logger.error('AI unavailable, using fallback', {
+        operation: `ai_${operation}`,
+        metadata: { attempt },
+      })
+      return { data: fallback, fallbackUsed: true, attempts: attempt }
+    }
+
+    const parsed = parseStructuredOutput(response.text, schema)
+    if (parsed.success) {
+      return {
+        data: parsed.data,
+        fallbackUsed: false,
+        attempts: attempt,
+        promptVersion,
+      }
+    }
+
+    lastError = parsed.error
+    await evictCachedCompletion(request)
+    logger.warn('AI structured output failed validation', {
+      operation: `ai_${operation}`,
+      metadata: { attempt, error: parsed.error },
+    })
+
+    currentPrompt = buildRepairPrompt(prompt, response.text, parsed.error)
+  }
+
+  logger.error('AI structured output unrecoverable, using fallback', {
+    operation: `ai_${operation}`,
+    metadata: { attempts: maxRetries + 1, error: lastError },
+  })
+
+  return { data: fallback, fallbackUsed: true, attempts: maxRetries + 1 }
+}
+
+/**
+ * Incrementally extract string items from a streamed JSON array
+ *
+ * Feeds on raw text deltas (which may split tokens anywhere) and calls
+ * onItem as soon as each top-level string literal in the array closes.
+ * Text before the opening bracket (e.g. a ```json fence) is ignored.
+ */
+export function createJsonStringArrayParser(onItem: (item: string) => void): {
+  push: (chunk: string) => void
+} {
+  let inArray = false
+  let inString = false
+  let escaped = false
+  let current = ''
+
+  const push = (chunk: string) => {
+    for (const char of chunk) {
+      if (!inArray) {
+        if (char === '[') inArray = true
+        continue
+      }
+
+      if (!inString) {
+        if (char === '"') {
+          inString = true
+          current = '"'
+        } else if (char === ']') {
+          inArray = false
+        }
+        continue
+      }
+
+      current += char
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+        try {
+          const item = JSON.parse(current)
+          if (typeof item === 'string' && item.trim()) {
+            onItem(item.trim())
+          }
+        } catch {
+          // Malformed literal; the final schema validation will catch it
+        }
+      }
+    }
+  }
+
+  return { push }
+}
@@ -0,0 +1,266 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './logger'
+import { getCachedCompletion, setCachedCompletion } from './ai-cache'
+import { resilientComplete, resilientStream } from './ai-resilience'
+import {
+  getLLMProvider,
+  type CompletionRequest,
+  type CompletionResult,
+  type CompletionUsage,
+  type TokenHandler,
+} from './llm-provider'
+
+/**
+ * AI Usage Ledger
+ *
+ * Every LLM call made on behalf of a user is recorded with its token counts
+ * and an estimated cost, attributed to the user and project that triggered
+ * it. Totals by project and by day feed tier pricing and help spot runaway
+ * projects.
+ */
+
+// Who an AI call is billed to; both fields are optional for system calls
+export interface AICallContext {
+  userId?: string
+  projectId?: string
+  // Skip cached responses and ask the provider again (the fresh response
+  // still replaces the cached one)
+  bypassCache?: boolean
+}
+
+// List prices in USD per million tokens, matched by model-name prefix.
+// Order matters: more specific prefixes must come first.
+export const MODEL_PRICING: ReadonlyArray<{
+  prefix: string
+  inputPerMillion: number
+  outputPerMillion: number
+}> = [
+  { prefix: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75 },
+  { prefix: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15 },
+  { prefix: 'claude-3-7-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { prefix: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { prefix: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { prefix: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { prefix: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+]
+
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectId: string | null
+  projectName: string | null
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string // YYYY-MM-DD (UTC)
+}
+
+export interface UsageSummary {
+  since: string
+  totals: UsageTotals
+  byProject: ProjectUsage[]
+  byDay: DailyUsage[]
+}
+
+/**
+ * Estimate the cost of a call in USD
+ *
+ * Models without a known price (including the fake provider) cost zero.
+ */
+export function estimateCost(model: string, usage: CompletionUsage): number {
+  const pricing = MODEL_PRICING.find(p => model.startsWith(p.prefix))
+  if (!pricing) return 0
+
+  const cost =
+    (usage.inputTokens * pricing.inputPerMillion +
+      usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+
+  // Match the precision of the ledger column (DECIMAL(12,6))
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+/**
+ * Append a call to the ledger
+ *
+ * Never throws: losing a ledger row must not fail the user's request.
+ */
+export async function recordAIUsage(
+  request: CompletionRequest,
+  result: CompletionResult,
+  context: AICallContext = {}
+): Promise<void> {
+  try {
+    await prisma.aiUsage.create({
+      data: {
+        userId: context.userId ?? null,
+        projectId: context.projectId ?? null,
+        operation: request.operation,
+        provider: result.provider,
+        model: result.model,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        costUsd: estimateCost(result.model, result.usage),
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to record AI usage', {
+      operation: `ai_${request.operation}`,
+      userId: context.userId,
+      metadata: {
+        projectId: context.projectId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+  }
+}
+
+/**
+ * Complete a request with the configured provider and record its usage
+ *
+ * The call goes through the resilience layer (timeouts, retries, fallback
+ * models), so the result may come from a fallback model. Cached responses
+ * are returned without calling the provider, so they are not recorded: the
+ * ledger only holds calls that were actually billed.
+ */
+export async function meteredComplete(
+  request: CompletionRequest,
+  context?: AICallContext
+): Promise<CompletionResult> {
+  const provider = getLLMProvider()
+
+  // Cached under the primary provider and model, even for responses that
+  // came from a fallback model
+  if (!context?.bypassCache) {
+    const cached = await getCachedCompletion(
+      provider.name,
+      provider.model,
+      request
+    )
+    if (cached) return cached
+  }
+
+  const result = await resilientComplete(request)
+  await recordAIUsage(request, result, context)
+  await setCachedCompletion(provider.name, provider.model, request, result)
+  return result
+}
+
+/**
+ * Stream a request with the configured provider and record its usage
+ */
+export async function meteredStream(
+  request: CompletionRequest,
+  onToken: TokenHandler,
+  context?: AICallContext
+): Promise<CompletionResult> {
+  const result = await resilientStream(request, onToken)
+  await recordAIUsage(request, result, context)
+  return result
+}
+
+type UsageAggregate = {
+  _count: { _all: number }
+  _sum: {
+    inputTokens: number | null
+    outputTokens: number | null
+    costUsd: Prisma.Decimal | null
+  }
+}
+
+function toTotals(aggregate: UsageAggregate): UsageTotals {
+  return {
+    calls: aggregate._count._all,
+    inputTokens: aggregate._sum.inputTokens ?? 0,
+    outputTokens: aggregate._sum.outputTokens ?? 0,
+    costUsd: Number(aggregate._sum.costUsd ?? 0),
+  }
+}
+
+/**
+ * Summarise a user's AI spend since a point in time
+ *
+ * Projects are ordered by cost (highest first) so runaway projects surface
+ * at the top; days are in ascending order.
+ */
+export async function getUsageSummary(
+  userId: string,
+  options: { since: Date; projectId?: string }
+): Promise<UsageSummary> {
+  const { since, projectId } = options
+  const where = {
+    userId,
+    createdAt: { gte: since },
+    ...(projectId && { projectId }),
+  }
+  const sum = { inputTokens: true, outputTokens: true, costUsd: true } as const
+
+  const [totals, projectGroups, days] = await Promise.all([
+    prisma.aiUsage.aggregate({ where, _count: { _all: true }, _sum: sum }),
+    prisma.aiUsage.groupBy({
+      by: ['projectId'],
+      where,
+      _count: { _all: true },
+      _sum: sum,
+      orderBy: { _sum: { costUsd: 'desc' } },
+    }),
+    prisma.$queryRaw<
+      Array<{
+        day: Date
+        calls: number
+        inputTokens: bigint | null
+        outputTokens: bigint | null
+        costUsd: Prisma.Decimal | null
+      }>
+    >`
+      SELECT
+        date_trunc('day', "createdAt") AS "day",
+        COUNT(*)::int AS "calls",
+        SUM("inputTokens")::bigint AS "inputTokens",
+        SUM("outputTokens")::bigint AS "outputTokens",
+        SUM("costUsd") AS "costUsd"
+      FROM "ai_usage"
+      WHERE "userId" = ${userId}
+        AND "createdAt" >= ${since}
+        AND (${projectId ?? null}::text IS NULL OR "projectId" = ${projectId ?? null})
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `,
+  ])
+
+  const projectIds = projectGroups
+    .map(group => group.projectId)
+    .filter((id): id is string => id !== null)
+  const projects = projectIds.length
+    ? await prisma.project.findMany({
+        where: { id: { in: projectIds } },
+        select: { id: true, name: true },
+      })
+    : []
+  const projectNames = new Map(projects.map(p => [p.id, p.name]))
+
+  return {
+    since: since.toISOString(),
+    totals: toTotals(totals),
+    byProject: projectGroups.map(group => ({
+      projectId: group.projectId,
+      projectName: group.projectId
+        ? (projectNames.get(group.projectId) ?? null)
+        : null,
+      ...toTotals(group),
+    })),
+    byDay: days.map(day => ({
+      date: new Date(day.day).toISOString().slice(0, 10),
+      calls: day.calls,
+      inputTokens: Number(day.inputTokens ?? 0),
+      outputTokens: Number(day.outputTokens ?? 0),
+      costUsd: Number(day.costUsd ?? 0),
+    })),
+  }
+}
@@ -1,176 +1,532 @@
-import Anthropic from '@anthropic-ai/sdk'
+import { z } from 'zod'
+import {
+  getAnthropicClient,
+  UnexpectedResponseError,
+  type TokenHandler,
+} from './llm-provider'
+import {
+  completeStructured,
+  createJsonStringArrayParser,
+  parseStructuredOutput,
+  type StructuredResult,
+} from './ai-structured'
+import { meteredComplete, meteredStream, type AICallContext } from './ai-usage'
+import { FOLLOW_UP_COMPLETE_SIGNAL, renderPrompt } from './prompts'
+import { answerFields, screenPromptInput } from './prompt-safety'
+import {
+  classifyProjectTypeByKeywords,
+  getQuestionFlow,
+  listQuestionFlows,
+  PROJECT_TYPES,
+  type ProjectType,
+} from './question-flows'
+import {
+  DEFAULT_STACK_SELECTION,
+  getStackOption,
+  getStackOptions,
+  normalizeStackSelection,
+  STACK_COMPONENT_LABELS,
+  STACK_COMPONENTS,
+  stackSelectionSchema,
+  type TechStackRecommendation,
+} from './tech-stack'
+import { DEFAULT_QUESTION_LIMITS, type QuestionLimits } from './question-limits'
 
-// Configurable model with fallback to current stable
-const ANTHROPIC_MODEL =
-  process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022'
+export type Message = {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Output schemas for structured AI responses
+const requirementQuestionSchema = z.string().trim().min(1).max(1000)
+
+const requirementsQuestionsSchema = z
+  .array(requirementQuestionSchema)
+  .min(1)
+  .max(15)
+
+const answerSuggestionsSchema = z
+  .array(z.string().trim().min(1).max(300))
+  .min(2)
+  .max(3)
 
-// Lazy initialization to avoid import-time failures
-let anthropic: Anthropic | null = null
+const projectTypeSchema = z.object({
+  projectType: z.enum(PROJECT_TYPES),
+})
+
+const techStackRecommendationSchema = z.object({
+  alternatives: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        // Options that cannot run on the chosen framework are swapped out
+        components: stackSelectionSchema.transform(normalizeStackSelection),
+        rationale: z.string().trim().min(1).max(2000),
+        tradeoffs: z.array(z.string().trim().min(1).max(500)).max(6),
+      })
+    )
+    .min(2)
+    .max(3),
+})
+
+const FALLBACK_TECH_STACK: TechStackRecommendation = {
+  alternatives: [
+    {
+      name: 'Full-stack starter',
+      components: DEFAULT_STACK_SELECTION,
+      rationale:
+        'This stack is perfect for rapid prototyping and scales well. Next.js handles both frontend and backend, Tailwind makes styling fast, Prisma simplifies database work, and Vercel provides instant deployment.',
+      tradeoffs: [
+        'Covers accounts and data from day one',
+        'Needs a hosted PostgreSQL database',
+      ],
+    },
+    {
+      name: 'Simplest start',
+      components: {
+        ...DEFAULT_STACK_SELECTION,
+        database: 'sqlite',
+        auth: 'none',
+      },
+      rationale:
+        'A single Next.js app with a file-based database and no sign-in. The quickest way to get something working, with room to add accounts later.',
+      tradeoffs: [
+        'Nothing to set up beyond the app itself',
+        'SQLite files do not persist on Vercel, so move to PostgreSQL before launch',
+      ],
+    },
+  ],
+}
+
+// Stack options offered to the model, grouped by component
+function stackCatalog() {
+  const frameworkLabel = (id: string) =>
+    getStackOption('framework', id)?.label ?? id
+
+  return STACK_COMPONENTS.map(component => ({
+    component,
+    label: STACK_COMPONENT_LABELS.get(component) ?? component,
+    options: getStackOptions(component).map(
+      ({ id, label, summary, frameworks }) => ({
+        id,
+        label,
+        summary: frameworks
+          ? `${summary} (only with ${frameworks.map(frameworkLabel).join(' or ')})`
+          : summary,
+      })
+    ),
+  }))
+}
+
+export type FollowUpOptions = {
+  limits?: QuestionLimits
+  // Questions the user skipped as "not sure"; the prompt avoids asking
+  // them again as they were
+  skippedQuestions?: string[]
+}
 
 /**
- * Get or initialize Anthropic client with runtime validation
+ * The question to ask when the model did not give one (COMPLETE or an
+ * unusable response)
+ *
+ * Null once the minimum number of answers is reached. Before that the
+ * chat must go on, so the next unasked question from the project type's
+ * question bank (then the general one) is used instead.
  */
-function getAnthropicClient(): Anthropic {
-  if (!anthropic) {
-    // Skip validation in test environment or when explicitly disabled
-    if (process.env.NODE_ENV === 'test' && !process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY not available in test environment')
-    }
+function requiredFollowUpQuestion(
+  conversationHistory: Array<{ question: string; answer: string }>,
+  projectType: ProjectType | null,
+  limits: QuestionLimits,
+  skippedQuestions: string[] = []
+): string | null {
+  if (conversationHistory.length >= limits.minQuestions) return null
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error(
-        'ANTHROPIC_API_KEY environment variable is required. Please set it in your .env.local file.'
-      )
-    }
-
-    anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
-  }
+  const asked = new Set([
+    ...conversationHistory.map(qa => qa.question),
+    ...skippedQuestions,
+  ])
+  const bank = [
+    ...getQuestionFlow(projectType ?? 'OTHER').questions,
+    ...getQuestionFlow('OTHER').questions,
+  ]
 
-  return anthropic
+  return bank.find(question => !asked.has(question)) ?? null
 }
 
-export type Message = {
-  role: 'user' | 'assistant'
-  content: string
+/**
+ * Infer what kind of product a project is
+ *
+ * Keywords in the name and description decide clear-cut cases for free;
+ * the AI classifier handles the rest, falling back to OTHER.
+ */
+export async function classifyProjectType(
+  projectName: string,
+  projectDescription?: string,
+  context?: AICallContext
+): Promise<ProjectType> {
+  const byKeywords = classifyProjectTypeByKeywords(
+    projectName,
+    projectDescription
+  )
+  if (byKeywords) return byKeywords
+
+  screenPromptInput('classify', { projectName, projectDescription }, context)
+  const prompt = renderPrompt('project-type', {
+    projectName,
+    projectDescription,
+    flows: listQuestionFlows(),
+  })
+
+  const { data } = await completeStructured({
+    operation: 'classify',
+    prompt: prompt.text,
+    maxTokens: 64,
+    schema: projectTypeSchema,
+    fallback: { projectType: 'OTHER' as const },
+    context,
+    promptVersion: prompt.ref,
+  })
+
+  return data.projectType
 }
 
 // Generate requirements discovery questions based on project description
 export async function generateRequirementsQuestions(
   projectName: string,
-  projectDescription?: string
-): Promise<string[]> {
-  const prompt = `You are a product requirements expert helping a non-technical person build "${projectName}".
-${projectDescription ? `Project description: ${projectDescription}` : ''}
-
-Generate 5-7 smart, specific questions to discover their true requirements. Focus on:
-- Who are the users?
-- What problem does this solve?
-- What are the core features (MVP only)?
-- Any specific constraints or preferences?
-
-Return ONLY a JSON array of question strings, no explanation.
-Example: ["Who is your target user?", "What's the main problem you're solving?"]`
-
-  const response = await getAnthropicClient().messages.create({
-    model: ANTHROPIC_MODEL,
-    max_tokens: 1024,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+  projectDescription: string | undefined,
+  projectType: ProjectType | null,
+  context?: AICallContext
+): Promise<StructuredResult<string[]>> {
+  const flow = getQuestionFlow(projectType ?? 'OTHER')
+  screenPromptInput('questions', { projectName, projectDescription }, context)
+  const prompt = renderPrompt('requirements-questions', {
+    projectName,
+    projectDescription,
+    flow: projectType ? flow : undefined,
   })
 
-  const content = response.content[0]
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude')
-  }
-
-  const fallbackQuestions = [
-    'Who is your target user or audience?',
-    "What's the main problem you're trying to solve?",
-    'What are the 3 most important features for your MVP?',
-    'Do you have any design or branding preferences?',
-    'Are there any existing apps or websites similar to what you want?',
-  ]
-
-  try {
-    const questions = JSON.parse(content.text)
-    return Array.isArray(questions) ? questions : fallbackQuestions
-  } catch (error) {
-    console.error('Failed to parse questions from Claude:', error)
-    return fallbackQuestions
-  }
+  return completeStructured({
+    operation: 'questions',
+    prompt: prompt.text,
+    maxTokens: 1024,
+    schema: requirementsQuestionsSchema,
+    fallback: flow.questions,
+    context,
+    promptVersion: prompt.ref,
+  })
 }
 
 // Generate follow-up question based on conversation context
 export async function generateFollowUpQuestion(
   projectName: string,
-  conversationHistory: Array<{ question: string; answer: string }>
+  conversationHistory: Array<{ question: string; answer: string }>,
+  projectType: ProjectType | null,
+  { limits = DEFAULT_QUESTION_LIMITS, skippedQuestions }: FollowUpOptions = {},
+  context?: AICallContext
 ): Promise<string | null> {
-  if (conversationHistory.length >= 10) {
-    return null // Stop after 10 questions
+  if (conversationHistory.length >= limits.maxQuestions) {
+    return null // Question limit reached
   }
 
-  const prompt = `You are helping someone build "${projectName}".
-
-Previous Q&A:
-${conversationHistory.map((qa, i) => `Q${i + 1}: ${qa.question}\nA${i + 1}: ${qa.answer}`).join('\n\n')}
-
-Based on their answers, generate ONE smart follow-up question to clarify requirements. Focus on gaps or ambiguities.
-If enough information has been gathered, respond with just "COMPLETE".
+  // Every answer: earlier ones may have been edited since the last turn
+  screenPromptInput(
+    'follow-up',
+    { projectName, ...answerFields(conversationHistory) },
+    context
+  )
 
-Return ONLY the question text, nothing else.`
+  const prompt = renderPrompt('follow-up-question', {
+    projectName,
+    conversationHistory,
+    flow: projectType ? getQuestionFlow(projectType) : undefined,
+    minQuestionsRemaining: limits.minQuestions - conversationHistory.length,
+    skippedQuestions,
+  })
 
-  const response = await getAnthropicClient().messages.create({
-    model: ANTHROPIC_MODEL,
-    max_tokens: 256,
-    messages: [
+  let text = ''
+  try {
+    const response = await meteredComplete(
       {
-        role: 'user',
-        content: prompt,
+        operation: 'follow-up',
+        prompt: prompt.text,
+        maxTokens: 256,
+        promptVersion: prompt.ref,
       },
-    ],
-  })
-
-  const content = response.content[0]
-  if (content.type !== 'text') {
-    return null
+      context
+    )
+    text = response.text
+  } catch (error) {
+    if (!(error instanceof UnexpectedResponseError)) {
+      throw error
+    }
   }
 
-  const question = content.text.trim()
-  return question === 'COMPLETE' ? null : question
+  const question = text.trim()
+  if (question && question !== FOLLOW_UP_COMPLETE_SIGNAL) return question
+
+  // The prompt asks the model not to stop early, but that is not enforced
+  return requiredFollowUpQuestion(
+    conversationHistory,
+    projectType,
+    limits,
+    skippedQuestions
+  )
 }
 
-// Generate tech stack recommendation based on requirements
-export async function generateTechStackRecommendation(
+// Suggest 2-3 answers to a question the user is stuck on, based on their
+// earlier answers (an empty list when no suggestions could be made)
+export async function suggestAnswers(
   projectName: string,
-  requirements: Array<{ question: string; answer: string }>
-): Promise<{
-  stack: string
-  rationale: string
-}> {
-  const prompt = `You are a senior tech architect. Based on these requirements for "${projectName}":
-
-${requirements.map((r, i) => `Q${i + 1}: ${r.question}\nA${i + 1}: ${r.answer}`).join('\n\n')}
-
-Recommend ONE opinionated tech stack using Next.js 14. Return JSON with:
-{
-  "stack": "Next.js 14 + Tailwind CSS + Prisma + PostgreSQL + Vercel",
-  "rationale": "2-3 sentences explaining why this stack fits their needs"
+  question: string,
+  conversationHistory: Array<{ question: string; answer: string }>,
+  projectType: ProjectType | null,
+  context?: AICallContext
+): Promise<StructuredResult<string[]>> {
+  screenPromptInput(
+    'suggest',
+    { projectName, ...answerFields(conversationHistory) },
+    context
+  )
+  const prompt = renderPrompt('answer-suggestions', {
+    projectName,
+    question,
+    conversationHistory,
+    flow: projectType ? getQuestionFlow(projectType) : undefined,
+  })
+
+  return completeStructured({
+    operation: 'suggest',
+    prompt: prompt.text,
+    maxTokens: 512,
+    schema: answerSuggestionsSchema,
+    fallback: [],
+    context,
+    promptVersion: prompt.ref,
+  })
 }
 
-Keep it simple and beginner-friendly. Return ONLY valid JSON.`
+// Generate more questions on a topic the user asked to expand on
+export async function generateTopicQuestions(
+  projectName: string,
+  conversationHistory: Array<{ question: string; answer: string }>,
+  topic: string,
+  count: number,
+  context?: AICallContext
+): Promise<StructuredResult<string[]>> {
+  screenPromptInput('questions', { topic }, context)
+  const prompt = renderPrompt('expand-questions', {
+    projectName,
+    conversationHistory,
+    topic,
+    count,
+  })
 
-  const response = await getAnthropicClient().messages.create({
-    model: ANTHROPIC_MODEL,
-    max_tokens: 512,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+  const result = await completeStructured({
+    operation: 'questions',
+    prompt: prompt.text,
+    maxTokens: 1024,
+    schema: requirementsQuestionsSchema,
+    fallback: [`What else should we know about ${topic}?`],
+    context,
+    promptVersion: prompt.ref,
   })
 
-  const content = response.content[0]
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude')
+  return { ...result, data: result.data.slice(0, count) }
+}
+
+/**
+ * Stream requirements questions, reporting each one as soon as it is complete
+ *
+ * Falls back to the non-streaming path (with repair retries and canned
+ * defaults) when the stream yields no usable questions.
+ */
+export async function streamRequirementsQuestions(
+  projectName: string,
+  projectDescription: string | undefined,
+  projectType: ProjectType | null,
+  handlers: {
+    // promptVersion is null when the question is canned fallback content
+    onQuestion: (
+      question: string,
+      promptVersion: string | null
+    ) => void | Promise<void>
+    onToken?: TokenHandler
+  },
+  context?: AICallContext
+): Promise<StructuredResult<string[]>> {
+  screenPromptInput('questions', { projectName, projectDescription }, context)
+  const prompt = renderPrompt('requirements-questions', {
+    projectName,
+    projectDescription,
+    flow: projectType ? getQuestionFlow(projectType) : undefined,
+  })
+  const streamed: string[] = []
+  let persisted: Promise<void> = Promise.resolve()
+  let persistError: unknown = null
+
+  // Persist questions one at a time, in order, as each one closes; each is
+  // validated on its own since the whole array is only checked at the end
+  const emit = (item: string) => {
+    const parsedItem = requirementQuestionSchema.safeParse(item)
+    if (!parsedItem.success) return
+
+    const question = parsedItem.data
+    streamed.push(question)
+    persisted = persisted
+      .then(() => handlers.onQuestion(question, prompt.ref))
+      .catch(error => {
+        persistError ??= error
+      })
   }
 
-  try {
-    return JSON.parse(content.text)
-  } catch (error) {
-    console.error('Failed to parse tech stack from Claude:', error)
+  const parser = createJsonStringArrayParser(emit)
+
+  const response = await meteredStream(
+    {
+      operation: 'questions',
+      prompt: prompt.text,
+      maxTokens: 1024,
+      promptVersion: prompt.ref,
+    },
+    delta => {
+      parser.push(delta)
+      handlers.onToken?.(delta)
+    },
+    context
+  )
+
+  const parsed = parseStructuredOutput(
+    response.text,
+    requirementsQuestionsSchema
+  )
+
+  // Catch any questions the incremental parser could not pick out
+  if (parsed.success) {
+    parsed.data.filter(q => !streamed.includes(q)).forEach(emit)
+  }
+
+  await persisted
+  if (persistError) throw persistError
+
+  if (parsed.success || streamed.length > 0) {
     return {
-      stack: 'Next.js 14 + Tailwind CSS + Prisma + PostgreSQL + Vercel',
-      rationale:
-        'This stack is perfect for rapid prototyping and scales well. Next.js handles both frontend and backend, Tailwind makes styling fast, Prisma simplifies database work, and Vercel provides instant deployment.',
+      data: parsed.success ? parsed.data : streamed,
+      fallbackUsed: false,
+      attempts: 1,
+      promptVersion: prompt.ref,
     }
   }
+
+  const result = await generateRequirementsQuestions(
+    projectName,
+    projectDescription,
+    projectType,
+    context
+  )
+  for (const question of result.data) {
+    await handlers.onQuestion(question, result.promptVersion ?? null)
+  }
+
+  return { ...result, attempts: result.attempts + 1 }
+}
+
+/**
+ * Stream a follow-up question token by token
+ *
+ * Tokens are withheld while the output could still be the COMPLETE signal,
+ * so clients never render the sentinel as if it were a question.
+ */
+export async function streamFollowUpQuestion(
+  projectName: string,
+  conversationHistory: Array<{ question: string; answer: string }>,
+  projectType: ProjectType | null,
+  onToken: TokenHandler,
+  { limits = DEFAULT_QUESTION_LIMITS, skippedQuestions }: FollowUpOptions = {},
+  context?: AICallContext
+): Promise<string | null> {
+  if (conversationHistory.length >= limits.maxQuestions) {
+    return null
+  }
+
+  // Every answer: earlier ones may have been edited since the last turn
+  screenPromptInput(
+    'follow-up',
+    { projectName, ...answerFields(conversationHistory) },
+    context
+  )
+
+  const prompt = renderPrompt('follow-up-question', {
+    projectName,
+    conversationHistory,
+    flow: projectType ? getQuestionFlow(projectType) : undefined,
+    minQuestionsRemaining: limits.minQuestions - conversationHistory.length,
+    skippedQuestions,
+  })
+  let held = ''
+  let released = false
+
+  const response = await meteredStream(
+    {
+      operation: 'follow-up',
+      prompt: prompt.text,
+      maxTokens: 256,
+      promptVersion: prompt.ref,
+    },
+    delta => {
+      if (released) {
+        onToken(delta)
+        return
+      }
+
+      held += delta
+      if (!FOLLOW_UP_COMPLETE_SIGNAL.startsWith(held.trim())) {
+        released = true
+        onToken(held)
+      }
+    },
+    context
+  )
+
+  const question = response.text.trim()
+  if (question && question !== FOLLOW_UP_COMPLETE_SIGNAL) return question
+
+  // Nothing was released yet: the withheld output was the COMPLETE signal
+  const required = requiredFollowUpQuestion(
+    conversationHistory,
+    projectType,
+    limits,
+    skippedQuestions
+  )
+  if (required) onToken(required)
+  return required
+}
+
+// Recommend 2-3 ranked tech stacks (best first) based on requirements
+export async function generateTechStackRecommendation(
+  projectName: string,
+  requirements: Array<{ question: string; answer: string }>,
+  context?: AICallContext
+): Promise<StructuredResult<TechStackRecommendation>> {
+  screenPromptInput(
+    'stack',
+    { projectName, ...answerFields(requirements) },
+    context
+  )
+  const prompt = renderPrompt('tech-stack', {
+    projectName,
+    requirements,
+    catalog: stackCatalog(),
+  })
+
+  return completeStructured({
+    operation: 'stack',
+    prompt: prompt.text,
+    maxTokens: 1536,
+    schema: techStackRecommendationSchema,
+    fallback: FALLBACK_TECH_STACK,
+    context,
+    promptVersion: prompt.ref,
+  })
 }
 
 // Export lazy-initialized client getter for external use
@@ -0,0 +1,309 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+
+/**
+ * Record/Replay Cassettes for External APIs
+ *
+ * HTTP calls to Anthropic, GitHub (Octokit) and Vercel go through
+ * cassetteFetch, which can capture real request/response pairs into a
+ * fixture file and play them back later without network access, so whole
+ * generate-and-deploy flows run offline and deterministically.
+ *
+ * Modes (CASSETTE_MODE):
+ * 1. off (default) - plain fetch
+ * 2. record - call the real API and save each exchange
+ * 3. replay - answer from the cassette; unknown requests throw
+ *
+ * Cassettes live in CASSETTE_DIR (default __tests__/fixtures/cassettes)
+ * as <CASSETTE_NAME>.json (default "default"). Recording starts a fresh
+ * cassette for the process.
+ *
+ * Requests are matched on service, method, URL and body. Identical
+ * requests (e.g. deployment status polling) replay their recorded
+ * responses in order, repeating the last one.
+ *
+ * Secrets are scrubbed before anything is written: auth headers are never
+ * stored, JSON fields named like tokens, keys or secrets are redacted, and
+ * token-shaped strings and secret environment values are masked. Requests
+ * are scrubbed the same way before matching, so replay needs no real keys.
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export type CassetteService = 'anthropic' | 'github' | 'vercel'
+
+export interface CassetteInteraction {
+  service: CassetteService
+  // Hash of method, URL and body used to find the interaction on replay
+  key: string
+  request: {
+    method: string
+    url: string
+    body: unknown
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    body: string
+  }
+}
+
+export interface Cassette {
+  version: 1
+  interactions: CassetteInteraction[]
+}
+
+export const REDACTED = '[REDACTED]'
+
+const DEFAULT_CASSETTE_DIR = '__tests__/fixtures/cassettes'
+
+// JSON fields whose values are always secret
+const SECRET_FIELD_PATTERN =
+  /^(authorization|.*token.*|.*secret.*|.*password.*|api[-_]?key|x-api-key)$/i
+
+// Token formats used by the services we record
+const SECRET_VALUE_PATTERNS = [
+  /sk-ant-[A-Za-z0-9_-]+/g, // Anthropic API keys
+  /sk-[A-Za-z0-9_-]{20,}/g, // OpenAI-style API keys
+  /gh[opsur]_[A-Za-z0-9]{20,}/g, // GitHub tokens
+  /github_pat_[A-Za-z0-9_]{20,}/g, // GitHub fine-grained tokens
+  /Bearer [A-Za-z0-9._~+/-]+=*/g, // Bearer credentials
+]
+
+// Environment variables whose values must never reach a cassette
+const SECRET_ENV_PATTERN = /(KEY|SECRET|TOKEN|PASSWORD)/
+
+// Response headers worth keeping (others vary per call or identify us)
+const KEPT_RESPONSE_HEADERS = ['content-type']
+
+type FetchInput = Parameters<typeof fetch>[0]
+type FetchInit = Parameters<typeof fetch>[1]
+
+/**
+ * Thrown in replay mode for a request the cassette has no answer for
+ */
+export class CassetteMissError extends Error {
+  constructor(service: CassetteService, method: string, url: string) {
+    super(
+      `No recorded ${service} response for ${method} ${url}. Re-record the cassette with CASSETTE_MODE=record.`
+    )
+    this.name = 'CassetteMissError'
+  }
+}
+
+/**
+ * Get the cassette mode from CASSETTE_MODE
+ */
+export function getCassetteMode(): CassetteMode {
+  const configured = (process.env.CASSETTE_MODE || 'off').trim().toLowerCase()
+
+  switch (configured) {
+    case 'off':
+    case 'record':
+    case 'replay':
+      return configured
+    default:
+      throw new Error(
+        `Unknown CASSETTE_MODE "${configured}". Expected one of: off, record, replay`
+      )
+  }
+}
+
+function getCassettePath(): string {
+  return path.resolve(
+    process.env.CASSETTE_DIR || DEFAULT_CASSETTE_DIR,
+    `${process.env.CASSETTE_NAME || 'default'}.json`
+  )
+}
+
+function secretEnvValues(): string[] {
+  return Object.entries(process.env)
+    .filter(
+      ([name, value]) =>
+        SECRET_ENV_PATTERN.test(name) &&
+        value !== undefined &&
+        value.length >= 8
+    )
+    .map(([, value]) => value as string)
+}
+
+/**
+ * Mask secrets in a string, JSON value or object tree
+ */
+export function scrubSecrets<T>(value: T): T {
+  const envSecrets = secretEnvValues()
+
+  const scrubString = (text: string) => {
+    let scrubbed = envSecrets.reduce(
+      (result, secret) => result.split(secret).join(REDACTED),
+      text
+    )
+    for (const pattern of SECRET_VALUE_PATTERNS) {
+      scrubbed = scrubbed.replace(pattern, REDACTED)
+    }
+    return scrubbed
+  }
+
+  const scrub = (node: unknown): unknown => {
+    if (typeof node === 'string') return scrubString(node)
+    if (Array.isArray(node)) return node.map(scrub)
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([field, child]) => [
+          field,
+          SECRET_FIELD_PATTERN.test(field) && typeof child === 'string'
+            ? REDACTED
+            : scrub(child),
+        ])
+      )
+    }
+    return node
+  }
+
+  return scrub(value) as T
+}
+
+// Parse JSON bodies so cassettes stay readable and scrubbing sees fields
+function parseBody(body: string): unknown {
+  if (!body) return null
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+function interactionKey(
+  service: CassetteService,
+  method: string,
+  url: string,
+  body: unknown
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify([service, method, url, body]))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+// Cassette state for this process
+let recording: Cassette | null = null
+let loaded: Cassette | null = null
+const replayPositions = new Map<string, number>()
+
+function loadCassette(): Cassette {
+  if (!loaded) {
+    const file = getCassettePath()
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    if (!existsSync(file)) {
+      throw new Error(`Cassette not found: ${file}`)
+    }
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    loaded = JSON.parse(readFileSync(file, 'utf8')) as Cassette
+  }
+  return loaded
+}
+
+function saveInteraction(interaction: CassetteInteraction): void {
+  recording ??= { version: 1, interactions: [] }
+  recording.interactions.push(interaction)
+
+  const file = getCassettePath()
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  mkdirSync(path.dirname(file), { recursive: true })
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  writeFileSync(file, `${JSON.stringify(recording, null, 2)}\n`)
+}
+
+function replay(key: string): CassetteInteraction | undefined {
+  const matches = loadCassette().interactions.filter(i => i.key === key)
+  if (matches.length === 0) return undefined
+
+  const position = replayPositions.get(key) ?? 0
+  replayPositions.set(key, position + 1)
+  return matches.at(Math.min(position, matches.length - 1))
+}
+
+async function readRequestBody(
+  input: FetchInput,
+  init?: FetchInit
+): Promise<string> {
+  if (typeof init?.body === 'string') return init.body
+  if (init?.body) return new Response(init.body).text()
+  if (input instanceof Request) return input.clone().text()
+  return ''
+}
+
+function requestUrl(input: FetchInput): string {
+  if (typeof input === 'string') return input
+  if (input instanceof URL) return input.toString()
+  return input.url
+}
+
+/**
+ * A fetch for one service that records or replays per CASSETTE_MODE
+ *
+ * The mode is read on every call, and with CASSETTE_MODE=off the global
+ * fetch is used as is.
+ */
+export function cassetteFetch(service: CassetteService): typeof fetch {
+  return async (input, init) => {
+    const mode = getCassetteMode()
+    if (mode === 'off') return fetch(input, init)
+
+    const method = (
+      init?.method || (input instanceof Request ? input.method : 'GET')
+    ).toUpperCase()
+    const url = scrubSecrets(requestUrl(input))
+    const body = scrubSecrets(parseBody(await readRequestBody(input, init)))
+    const key = interactionKey(service, method, url, body)
+
+    if (mode === 'replay') {
+      const interaction = replay(key)
+      if (!interaction) throw new CassetteMissError(service, method, url)
+
+      const { status, headers, body: responseBody } = interaction.response
+      return new Response(status === 204 ? null : responseBody, {
+        status,
+        headers,
+      })
+    }
+
+    const response = await fetch(input, init)
+    const text = await response.text()
+    const headers = Object.fromEntries(
+      KEPT_RESPONSE_HEADERS.flatMap(name => {
+        const value = response.headers.get(name)
+        return value ? [[name, value]] : []
+      })
+    )
+    const parsed = parseBody(text)
+    const scrubbedText =
+      typeof parsed === 'string' || parsed === null
+        ? scrubSecrets(text)
+        : JSON.stringify(scrubSecrets(parsed))
+
+    saveInteraction({
+      service,
+      key,
+      request: { method, url, body },
+      response: { status: response.status, headers, body: scrubbedText },
+    })
+
+    // The body was consumed for recording; hand the caller a fresh copy
+    return new Response(response.status === 204 ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+}
+
+/**
+ * Forget the loaded and recorded cassettes (for testing purposes)
+ */
+export function __resetCassettes(): void {
+  recording = null
+  loaded = null
+  replayPositions.clear()
+}
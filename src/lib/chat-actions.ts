@@ -0,0 +1,203 @@
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { promptRef } from './prompts'
+import type { AICallContext } from './ai-usage'
+import type { ProjectType } from './question-flows'
+import { MAX_EXPAND_QUESTIONS, type QuestionLimits } from './question-limits'
+import {
+  expandRequirementsSession,
+  finishRequirementsSession,
+  suggestRequirementAnswers,
+} from './requirements-session'
+
+/**
+ * Requirements Chat Actions
+ *
+ * Request schema and handling shared by the JSON and streaming chat
+ * endpoints (POST /api/projects/[id]/chat and /api/projects/[id]/chat/stream).
+ * The endpoints differ only in how the questions the model writes reach
+ * the client.
+ */
+
+// Validation schemas for different actions
+export const chatActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start'),
+  }),
+  z.object({
+    action: z.literal('answer'),
+    requirementId: z.string().cuid(),
+    answer: z.string().min(1).max(5000),
+  }),
+  // "Skip / not sure": settle the question without an answer
+  z.object({
+    action: z.literal('skip'),
+    requirementId: z.string().cuid(),
+  }),
+  // Suggest two or three answers for a question the user is stuck on
+  z.object({
+    action: z.literal('suggest'),
+    requirementId: z.string().cuid(),
+  }),
+  // "I'm done, generate now": stop asking and drop unanswered questions
+  z.object({
+    action: z.literal('finish'),
+  }),
+  // Ask for a few more questions on a chosen topic
+  z.object({
+    action: z.literal('expand'),
+    topic: z.string().trim().min(1).max(200),
+    count: z.number().int().min(1).max(MAX_EXPAND_QUESTIONS).default(3),
+  }),
+])
+
+export type ChatAction = z.infer<typeof chatActionSchema>
+
+export type ChatActionOf<A extends ChatAction['action']> = Extract<
+  ChatAction,
+  { action: A }
+>
+
+// Project fields the chat actions read
+type ChatProject = {
+  id: string
+  name: string
+  projectType: ProjectType | null
+  requirementsClosedAt: Date | null
+  requirements: Array<{ id: string; question: string; answer: string | null }>
+}
+
+/**
+ * Run the actions both endpoints answer with plain JSON (finish, expand
+ * and suggest)
+ *
+ * Returns the response body and status; RequirementsSessionError and
+ * AIUnavailableError are left to the caller.
+ */
+export async function runSessionAction(
+  project: ChatProject,
+  action: ChatActionOf<'finish' | 'expand' | 'suggest'>,
+  limits: QuestionLimits,
+  context: AICallContext
+): Promise<{ body: Record<string, unknown>; status?: number }> {
+  switch (action.action) {
+    // FINISH - Stop asking and move on with the answers so far
+    case 'finish': {
+      const requirements = await finishRequirementsSession(
+        project.id,
+        project.requirements,
+        limits
+      )
+
+      return {
+        body: {
+          message: 'Requirements completed',
+          requirements,
+          completed: true,
+        },
+      }
+    }
+
+    // EXPAND - Ask for more questions on a topic
+    case 'expand': {
+      const { requirements, fallbackUsed } = await expandRequirementsSession(
+        project,
+        project.requirements,
+        action.topic,
+        action.count,
+        limits,
+        context
+      )
+
+      return {
+        body: { message: 'Questions added', requirements, fallbackUsed },
+      }
+    }
+
+    // SUGGEST - Example answers for a question the user is stuck on
+    case 'suggest': {
+      const result = await suggestRequirementAnswers(
+        project,
+        action.requirementId,
+        context
+      )
+
+      return result
+        ? { body: result }
+        : { body: { error: 'Requirement not found' }, status: 404 }
+    }
+  }
+}
+
+/**
+ * Save an answer or skip ("not sure") and work out whether a follow-up
+ * question is due
+ *
+ * Answering a skipped question clears the skip. Returns null when the
+ * requirement is not part of the project.
+ */
+export async function saveChatAnswer(
+  project: ChatProject,
+  action: ChatActionOf<'answer' | 'skip'>,
+  limits: QuestionLimits
+) {
+  // Verify requirement belongs to this project
+  const requirement = await prisma.requirement.findUnique({
+    where: {
+      id: action.requirementId,
+      projectId: project.id,
+    },
+  })
+
+  if (!requirement) return null
+
+  await prisma.requirement.update({
+    where: { id: action.requirementId },
+    data:
+      action.action === 'answer'
+        ? { answer: action.answer, skipped: false }
+        : { answer: null, skipped: true },
+  })
+
+  const requirements = await prisma.requirement.findMany({
+    where: { projectId: project.id },
+    orderBy: { order: 'asc' },
+  })
+
+  // Check if all current questions are answered or skipped
+  const allAnswered = requirements.every(r => r.answer || r.skipped)
+
+  return {
+    message: action.action === 'skip' ? 'Question skipped' : 'Answer saved',
+    requirements,
+    conversationHistory: requirements
+      .filter(r => r.answer)
+      .map(r => ({ question: r.question, answer: r.answer! })),
+    skippedQuestions: requirements.filter(r => r.skipped).map(r => r.question),
+    allAnswered,
+    // No follow-ups once the user finished or the limit is reached
+    followUpDue:
+      allAnswered &&
+      !project.requirementsClosedAt &&
+      requirements.length < limits.maxQuestions,
+  }
+}
+
+/**
+ * Store a follow-up question after the questions asked so far
+ */
+export function saveFollowUpQuestion(
+  projectId: string,
+  question: string,
+  order: number
+) {
+  return prisma.requirement.create({
+    data: {
+      projectId,
+      question,
+      answer: null,
+      order,
+      promptVersion: promptRef('follow-up-question'),
+    },
+  })
+}
@@ -0,0 +1,202 @@
+import { meteredComplete, type AICallContext } from './ai-usage'
+import { evictCachedCompletion } from './ai-cache'
+import {
+  validateMarkdown,
+  validateTypeScriptCode,
+  type ValidationResult,
+} from './code-validator'
+import type { AIOperation, CompletionRequest } from './llm-provider'
+import { renderPrompt } from './prompts'
+
+/**
+ * Self-Healing Generation
+ *
+ * AI-generated files are validated before they are pushed. A file that
+ * fails (syntax or type errors, security issues) is sent back to the model
+ * with the problems found, and the corrected version is validated again,
+ * up to MAX_REPAIR_ATTEMPTS times. If the model cannot fix it, the file's
+ * canned fallback content is used instead. Only when the fallback fails
+ * too is the file unrecoverable.
+ *
+ * Every validation is recorded as an attempt, so callers can show what
+ * was fixed and how.
+ */
+
+// Repair requests per file before falling back to canned content
+export const MAX_REPAIR_ATTEMPTS = 2
+
+export type GenerationAttempt = {
+  path: string
+  // 1 for the first version of the file, then one per repair or fallback
+  attempt: number
+  // Where the validated content came from
+  source: 'ai' | 'repair' | 'fallback'
+  // Prompt reference that produced the content (null for fallback content)
+  promptVersion: string | null
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  securityIssues: string[]
+}
+
+// A generated file waiting to be validated
+export type GeneratedFile = {
+  path: string
+  // Operation the file was generated with; repairs are metered under it
+  operation: AIOperation
+  // What the file is for, told to the model when asking for a repair
+  fileKind: string
+  content: string
+  // null when the content already is the fallback
+  promptVersion: string | null
+  // Canned content used when the AI output cannot be fixed
+  fallback: string
+  // Drops the cached AI response so rejected output is not served again
+  discard?: () => Promise<void>
+}
+
+export type SettledFile = {
+  path: string
+  content: string
+  promptVersion: string | null
+  attempts: GenerationAttempt[]
+  // Validation of the last attempt when even the fallback was rejected
+  failure?: ValidationResult
+}
+
+/**
+ * Validate a generated file: markdown checks for .md files, syntax and
+ * security checks for code
+ */
+export async function validateGeneratedFile(
+  path: string,
+  content: string
+): Promise<ValidationResult> {
+  if (path.endsWith('.md')) return validateMarkdown(content)
+
+  return validateTypeScriptCode(content, path.split('/').pop() ?? path, {
+    enableTypeCheck: false, // Skip TypeScript checking to avoid dependency issues
+    enableLinting: false, // Skip ESLint to avoid setup complexity
+    enableSecurityScan: true,
+    maxFileSize: 50_000,
+  })
+}
+
+function isRejected(validation: ValidationResult): boolean {
+  return !validation.isValid || validation.securityIssues.length > 0
+}
+
+// Strip markdown code fences the model may wrap the file in
+function stripFences(text: string): string {
+  return (
+    text
+      // eslint-disable-next-line security/detect-unsafe-regex
+      .replace(/^```[a-z]*\n?/, '')
+      .replace(/\n?```\s*$/, '')
+      .trim()
+  )
+}
+
+// Ask the model to fix a rejected file; null if the request fails
+async function requestRepair(
+  file: GeneratedFile,
+  content: string,
+  validation: ValidationResult,
+  context?: AICallContext
+): Promise<Pick<
+  GeneratedFile,
+  'content' | 'promptVersion' | 'discard'
+> | null> {
+  const prompt = renderPrompt('code-repair', {
+    path: file.path,
+    content,
+    fileKind: file.fileKind,
+    errors: validation.errors,
+    securityIssues: validation.securityIssues,
+  })
+
+  try {
+    const request: CompletionRequest = {
+      operation: file.operation,
+      prompt: prompt.text,
+      maxTokens: 2048,
+      promptVersion: prompt.ref,
+    }
+    const response = await meteredComplete(request, context)
+
+    return {
+      content: stripFences(response.text),
+      promptVersion: prompt.ref,
+      discard: () => evictCachedCompletion(request),
+    }
+  } catch (error) {
+    console.error(`Failed to repair ${file.path} with AI:`, error)
+    return null
+  }
+}
+
+/**
+ * Validate a generated file, repairing it with the AI or falling back to
+ * its canned content until it passes
+ *
+ * The returned promptVersion is the one of the original generation prompt
+ * when AI content (first or repaired) is kept, and null for the fallback.
+ */
+export async function settleGeneratedFile(
+  file: GeneratedFile,
+  context?: AICallContext
+): Promise<SettledFile> {
+  const attempts: GenerationAttempt[] = []
+  let current: Pick<GeneratedFile, 'content' | 'promptVersion' | 'discard'> =
+    file
+  let source: GenerationAttempt['source'] =
+    file.promptVersion === null ? 'fallback' : 'ai'
+
+  for (;;) {
+    const validation = await validateGeneratedFile(file.path, current.content)
+    attempts.push({
+      path: file.path,
+      attempt: attempts.length + 1,
+      source,
+      promptVersion: current.promptVersion,
+      valid: !isRejected(validation),
+      errors: validation.errors,
+      warnings: validation.warnings,
+      securityIssues: validation.securityIssues,
+    })
+
+    if (!isRejected(validation)) {
+      return {
+        path: file.path,
+        content: current.content,
+        promptVersion: source === 'fallback' ? null : file.promptVersion,
+        attempts,
+      }
+    }
+
+    await current.discard?.()
+    if (source === 'fallback') {
+      return {
+        path: file.path,
+        content: current.content,
+        promptVersion: null,
+        attempts,
+        failure: validation,
+      }
+    }
+
+    // The first attempt is the original generation
+    const repaired =
+      attempts.length <= MAX_REPAIR_ATTEMPTS
+        ? await requestRepair(file, current.content, validation, context)
+        : null
+
+    if (repaired) {
+      current = repaired
+      source = 'repair'
+    } else {
+      current = { content: file.fallback, promptVersion: null }
+      source = 'fallback'
+    }
+  }
+}
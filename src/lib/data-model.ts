@@ -0,0 +1,204 @@
+import { z } from 'zod'
+
+/**
+ * Data Models for Database-Backed Apps
+ *
+ * When the selected stack includes a Prisma database, the project
+ * generator has the AI infer the entities the requirements talk about
+ * (users, orders, listings...), their fields and which entities they
+ * belong to. The template turns the model into a Prisma schema, a seed
+ * script, typed data-access helpers and CRUD API routes.
+ *
+ * Every entity gets an id and timestamps, and relations are optional
+ * one-to-many links, so any model the AI returns maps to a valid schema
+ * once cleaned up. If the AI fails, the model is empty and the app only
+ * gets the Prisma client, as before.
+ */
+
+export const MAX_ENTITIES = 6
+export const MAX_ENTITY_FIELDS = 10
+
+export const DATA_FIELD_TYPES = [
+  'String',
+  'Int',
+  'Float',
+  'Boolean',
+  'DateTime',
+] as const
+
+export type DataFieldType = (typeof DATA_FIELD_TYPES)[number]
+
+export interface DataField {
+  // camelCase column name
+  name: string
+  type: DataFieldType
+  optional: boolean
+  unique: boolean
+}
+
+export interface DataEntity {
+  // PascalCase, singular model name
+  name: string
+  description: string
+  fields: DataField[]
+  // Entities each record links to (e.g. an Order belongs to a User)
+  belongsTo: string[]
+}
+
+export interface DataModel {
+  entities: DataEntity[]
+}
+
+export const EMPTY_DATA_MODEL: DataModel = { entities: [] }
+
+// Names Prisma already uses for its client and types
+const RESERVED_ENTITY_NAMES = [
+  'Prisma',
+  'PrismaClient',
+  ...DATA_FIELD_TYPES,
+  'BigInt',
+  'Bytes',
+  'Decimal',
+  'Json',
+]
+const GENERATED_FIELD_NAMES = ['id', 'createdAt', 'updatedAt']
+
+// Output schema for the data-model prompt (limits are enforced afterwards)
+export const dataModelSchema = z.object({
+  entities: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .trim()
+          .regex(/^[A-Z][A-Za-z0-9]*$/),
+        description: z.string().trim().max(300),
+        fields: z
+          .array(
+            z.object({
+              name: z
+                .string()
+                .trim()
+                .regex(/^[a-z][A-Za-z0-9]*$/),
+              type: z.enum(DATA_FIELD_TYPES),
+              optional: z.boolean(),
+              unique: z.boolean(),
+            })
+          )
+          .max(MAX_ENTITY_FIELDS * 2),
+        belongsTo: z.array(z.string().trim()).max(MAX_ENTITIES),
+      })
+    )
+    .max(MAX_ENTITIES * 2),
+})
+
+// "OrderItem" -> "orderItem"
+export function camelCase(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1)
+}
+
+// "Category" -> "Categories", "Address" -> "Addresses"
+export function pluralize(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`
+  if (/(s|x|z|ch|sh)$/i.test(name)) return `${name}es`
+  return `${name}s`
+}
+
+/**
+ * URL segment of an entity's API routes ("OrderItem" -> "order-items")
+ */
+export function entityRouteSegment(name: string): string {
+  return pluralize(name)
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+}
+
+/**
+ * Entities that link to the given one
+ */
+export function childEntities(
+  model: DataModel,
+  entity: DataEntity
+): DataEntity[] {
+  return model.entities.filter(child => child.belongsTo.includes(entity.name))
+}
+
+/**
+ * Put a data model in the shape the templates rely on
+ *
+ * - entity names are unique, not reserved and at most MAX_ENTITIES are kept
+ * - entities only belong to other existing entities, once each
+ * - fields are unique, leave out the generated id and timestamps, do not
+ *   clash with relation fields and at most MAX_ENTITY_FIELDS are kept;
+ *   only text and number fields stay unique
+ */
+export function normalizeDataModel(model: DataModel): DataModel {
+  const kept: DataEntity[] = []
+  for (const entity of model.entities) {
+    if (
+      kept.length < MAX_ENTITIES &&
+      !RESERVED_ENTITY_NAMES.includes(entity.name) &&
+      !kept.some(existing => existing.name === entity.name)
+    ) {
+      kept.push(entity)
+    }
+  }
+  const names = new Set(kept.map(entity => entity.name))
+
+  const linked = kept.map(entity => ({
+    ...entity,
+    belongsTo: Array.from(new Set(entity.belongsTo)).filter(
+      parent => parent !== entity.name && names.has(parent)
+    ),
+  }))
+
+  return {
+    entities: linked.map(entity => {
+      // Relation fields generated for both sides of each link
+      const relationFields = [
+        ...entity.belongsTo.flatMap(parent => [
+          camelCase(parent),
+          `${camelCase(parent)}Id`,
+        ]),
+        ...linked
+          .filter(child => child.belongsTo.includes(entity.name))
+          .map(child => camelCase(pluralize(child.name))),
+      ]
+      const taken = new Set([...GENERATED_FIELD_NAMES, ...relationFields])
+
+      const fields: DataField[] = []
+      for (const field of entity.fields) {
+        if (fields.length < MAX_ENTITY_FIELDS && !taken.has(field.name)) {
+          taken.add(field.name)
+          // Only text and numbers make sensible unique keys
+          const uniqueable = ['String', 'Int', 'Float'].includes(field.type)
+          fields.push({ ...field, unique: field.unique && uniqueable })
+        }
+      }
+
+      return { ...entity, fields }
+    }),
+  }
+}
+
+/**
+ * Entities ordered so each comes after the entities it belongs to where
+ * possible (links in a cycle keep the original order)
+ */
+export function entitiesInDependencyOrder(model: DataModel): DataEntity[] {
+  const ordered: DataEntity[] = []
+  const visiting = new Set<string>()
+
+  const visit = (entity: DataEntity) => {
+    if (ordered.includes(entity) || visiting.has(entity.name)) return
+    visiting.add(entity.name)
+    for (const parent of entity.belongsTo) {
+      const parentEntity = model.entities.find(e => e.name === parent)
+      if (parentEntity) visit(parentEntity)
+    }
+    ordered.push(entity)
+  }
+
+  model.entities.forEach(visit)
+  return ordered
+}
@@ -3,10 +3,26 @@
  *
  * Handles deployment status, error recovery, and user notifications
  * Provides idempotent, transactional deployment operations
+ *
+ * Deployments are followed by MONITOR_DEPLOYMENT jobs on the job queue,
+ * which check the deployment once per run, so monitoring survives the
+ * request (and the serverless instance) that started it.
  */
 
 import { prisma } from './prisma'
-import { deployToVercel, waitForDeployment } from './vercel'
+import { decryptToken } from './encryption'
+import {
+  enqueueJob,
+  isFinalAttempt,
+  PermanentJobError,
+  type Job,
+  type JobHandlerResult,
+  type JobProgress,
+} from './job-queue'
+import {
+  deployToVercel,
+  getDeploymentStatus as getVercelDeployment,
+} from './vercel'
 
 export type DeploymentStatus =
   | 'pending' // Initial state, not started
@@ -37,6 +53,8 @@ export interface DeploymentResult {
   success: boolean
   deploymentUrl?: string
   deploymentId?: string
+  // Job following the deployment until it finishes
+  jobId?: string
   error?: string
   retryable?: boolean
 }
@@ -50,6 +68,19 @@ export interface DeploymentContext {
   maxRetries?: number
 }
 
+export interface MonitorDeploymentPayload {
+  projectId: string
+  deploymentId: string
+  // ISO time the deployment started, to give up after DEPLOYMENT_TIMEOUT_MS
+  startedAt: string
+}
+
+// Time between checks of a deployment still building
+export const DEPLOYMENT_POLL_INTERVAL_MS = 15_000
+
+// Deployments still not ready after this are reported as failed
+export const DEPLOYMENT_TIMEOUT_MS = 10 * 60 * 1000
+
 /**
  * Deployment status tracking in database
  */
@@ -114,28 +145,25 @@ export async function startDeployment(
       true // production
     )
 
-    // Start background monitoring (don't await)
-    monitorDeployment({
-      ...context,
-      deploymentId: deployment.id,
-      attempt: 1,
-      maxRetries,
-    }).catch(error => {
-      console.error('Deployment monitoring failed:', error)
-      // Update status to failed if monitoring itself fails
-      updateDeploymentStatus(
+    // Follow the deployment on the job queue (checks are retried on
+    // transient errors up to maxRetries times)
+    const job = await enqueueJob({
+      type: 'MONITOR_DEPLOYMENT',
+      userId: context.userId,
+      projectId,
+      payload: {
         projectId,
-        'failed',
-        deployment.id,
-        undefined,
-        'Deployment monitoring failed: ' + error.message
-      )
+        deploymentId: deployment.id,
+        startedAt: new Date().toISOString(),
+      },
+      maxAttempts: maxRetries,
     })
 
     return {
       success: true,
       deploymentId: deployment.id,
       deploymentUrl: `https://${deployment.url}`,
+      jobId: job.id,
     }
   } catch (error) {
     const errorMessage =
@@ -159,45 +187,73 @@ export async function startDeployment(
 }
 
 /**
- * Monitor deployment progress in background
+ * Check a deployment once (MONITOR_DEPLOYMENT job handler): record the
+ * result when it finished, or check again later while it builds
  */
-async function monitorDeployment(
-  context: DeploymentContext & {
-    deploymentId: string
-    attempt: number
-    maxRetries: number
-  }
-): Promise<void> {
-  const { projectId, vercelToken, deploymentId, attempt, maxRetries } = context
+export async function monitorDeploymentJob(
+  job: Job,
+  progress: JobProgress
+): Promise<JobHandlerResult> {
+  const { projectId, deploymentId, startedAt } =
+    job.payload as unknown as MonitorDeploymentPayload
 
   try {
-    // Wait for deployment to complete
-    const completedDeployment = await waitForDeployment(
-      vercelToken,
-      deploymentId
-    )
+    // Tokens are never stored in jobs: load the user's encrypted token
+    const user = await prisma.user.findUnique({
+      where: { id: job.userId },
+      select: { vercelToken: true },
+    })
 
-    // Success - update project with final URL and status
-    const deploymentUrl = `https://${completedDeployment.url}`
-    await updateDeploymentStatus(
-      projectId,
-      'deployed',
-      deploymentId,
-      deploymentUrl
-    )
+    if (!user?.vercelToken) {
+      throw new PermanentJobError('Vercel token not configured')
+    }
 
-    console.log(
-      `Deployment ${deploymentId} completed successfully: ${deploymentUrl}`
-    )
+    const vercelToken = await decryptToken(user.vercelToken)
+    const deployment = await getVercelDeployment(vercelToken, deploymentId)
+
+    if (deployment.readyState === 'READY') {
+      // Success - update project with final URL and status
+      const deploymentUrl = `https://${deployment.url}`
+      await updateDeploymentStatus(
+        projectId,
+        'deployed',
+        deploymentId,
+        deploymentUrl
+      )
+
+      console.log(
+        `Deployment ${deploymentId} completed successfully: ${deploymentUrl}`
+      )
+      return { status: 'done', result: { deploymentId, deploymentUrl } }
+    }
+
+    if (deployment.readyState === 'ERROR') {
+      throw new PermanentJobError('Deployment failed')
+    }
+
+    if (deployment.readyState === 'CANCELED') {
+      throw new PermanentJobError('Deployment was canceled')
+    }
+
+    if (Date.now() - new Date(startedAt).getTime() > DEPLOYMENT_TIMEOUT_MS) {
+      throw new PermanentJobError('Deployment timed out')
+    }
+
+    await progress(50, `Building on Vercel (${deployment.readyState})`)
+    return { status: 'pending', checkAgainInMs: DEPLOYMENT_POLL_INTERVAL_MS }
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error'
     console.error(`Deployment ${deploymentId} failed:`, error)
 
-    // Check if we should retry
-    if (attempt < maxRetries && isRetryableError(error)) {
+    // The queue retries the check unless this failure is final
+    if (
+      !(error instanceof PermanentJobError) &&
+      !isFinalAttempt(job) &&
+      isRetryableError(error)
+    ) {
       console.log(
-        `Retrying deployment ${deploymentId} (attempt ${attempt + 1}/${maxRetries})`
+        `Retrying deployment ${deploymentId} (attempt ${job.attempts + 1}/${job.maxAttempts})`
       )
 
       await updateDeploymentStatus(
@@ -205,35 +261,48 @@ async function monitorDeployment(
         'retrying',
         deploymentId,
         undefined,
-        `Retry attempt ${attempt + 1}: ${errorMessage}`
+        `Retry attempt ${job.attempts + 1}: ${errorMessage}`
       )
+      throw error
+    }
 
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, 30000)) // 30 seconds
-
-      // Retry deployment monitoring
-      await monitorDeployment({
-        ...context,
-        attempt: attempt + 1,
-      })
-    } else {
-      // Max retries exceeded or non-retryable error
-      await updateDeploymentStatus(
-        projectId,
-        'failed',
-        deploymentId,
-        undefined,
-        errorMessage
-      )
+    // Max retries exceeded or non-retryable error
+    await updateDeploymentStatus(
+      projectId,
+      'failed',
+      deploymentId,
+      undefined,
+      errorMessage
+    )
 
-      // Could send notification to user here via email/webhook
-      console.error(
-        `Deployment ${deploymentId} failed permanently after ${attempt} attempts`
-      )
-    }
+    // Could send notification to user here via email/webhook
+    console.error(
+      `Deployment ${deploymentId} failed permanently after ${job.attempts} attempts`
+    )
+    throw error instanceof PermanentJobError
+      ? error
+      : new PermanentJobError(errorMessage)
   }
 }
 
+/**
+ * Mark a deployment failed once its monitoring job is dead-lettered
+ * (MONITOR_DEPLOYMENT dead-letter hook), so the project does not stay in
+ * progress when a worker stopped while checking it
+ */
+export async function failMonitoredDeployment(job: Job): Promise<void> {
+  const { projectId, deploymentId } =
+    job.payload as unknown as MonitorDeploymentPayload
+
+  await updateDeploymentStatus(
+    projectId,
+    'failed',
+    deploymentId,
+    undefined,
+    'Deployment monitoring stopped'
+  )
+}
+
 /**
  * Determine if an error is retryable
  */
@@ -0,0 +1,261 @@
+import type { Prisma, ProjectStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { createFiles, createRepository, parseRepositoryUrl } from './github'
+import { getGitHubTokenFromUserId } from './github-auth'
+import { ProjectGenerationError } from './project-generator'
+import { mergePromptVersions } from './prompts'
+import {
+  filesToPush,
+  generateProjectFiles,
+  getGenerationPreview,
+  markGenerationPreviewPushed,
+  unlockGenerationPreview,
+  type GeneratedProjectFiles,
+} from './generation-preview'
+import { openRegenerationPullRequest } from './regeneration'
+import {
+  PermanentJobError,
+  type Job,
+  type JobHandlerResult,
+  type JobProgress,
+} from './job-queue'
+
+/**
+ * Project Generation Jobs
+ *
+ * The generate route checks the request and queues a GENERATE_PROJECT job;
+ * a worker then generates the files (or takes them from a reviewed
+ * preview) and pushes them: to a new repository in create mode, or to a
+ * branch with a pull request in update mode (see lib/regeneration).
+ *
+ * Failed attempts are retried by the queue. A repository created by an
+ * earlier attempt is saved on the project right away, so a retry pushes
+ * into it instead of failing to create it again. Once the job is
+ * dead-lettered, the project gets back the status it had before.
+ */
+
+// A type rather than an interface so it can be stored as JSON
+export type GenerateProjectPayload = {
+  projectId: string
+  mode: 'create' | 'update'
+  // Push the files of this preview instead of generating new ones
+  previewId?: string
+  // Ask for new AI output instead of cached
+  bypassCache: boolean
+  // Project status to restore when the job fails for good
+  originalStatus: ProjectStatus
+}
+
+// Shown to the user when a job is dead-lettered for invalid AI code
+const VALIDATION_FAILED_DETAILS =
+  'The AI-generated code contains security vulnerabilities or quality issues that could not be repaired'
+
+/**
+ * Generate a project from its requirements and push it to GitHub
+ * (GENERATE_PROJECT job handler)
+ */
+export async function runGenerateProjectJob(
+  job: Job,
+  progress: JobProgress
+): Promise<JobHandlerResult> {
+  const payload = job.payload as unknown as GenerateProjectPayload
+  const { projectId, mode, previewId } = payload
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId, userId: job.userId },
+      include: {
+        requirements: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    if (!project) {
+      throw new PermanentJobError('Project not found')
+    }
+
+    const accessToken = await getGitHubTokenFromUserId(job.userId)
+
+    if (!accessToken) {
+      throw new PermanentJobError(
+        'GitHub access token not found. Please re-authenticate with GitHub.'
+      )
+    }
+
+    const preview = previewId
+      ? await getGenerationPreview(projectId, previewId)
+      : null
+
+    if (previewId && (!preview || preview.pushedAt)) {
+      throw new PermanentJobError('Preview not found or already pushed')
+    }
+
+    await progress(
+      10,
+      preview ? 'Preparing the reviewed files' : 'Generating project files'
+    )
+
+    // Generate and validate project template and PRD (external AI API
+    // calls), unless the user reviewed a preview of them
+    const generated: GeneratedProjectFiles = preview
+      ? { ...preview, files: filesToPush(preview) }
+      : await generateProjectFiles(
+          project,
+          project.requirements
+            .filter(r => r.answer)
+            .map(r => ({
+              question: r.question,
+              answer: r.answer!,
+              updatedAt: r.updatedAt,
+            })),
+          'GENERATE',
+          {
+            userId: job.userId,
+            projectId,
+            bypassCache: payload.bypassCache,
+          }
+        )
+
+    // Validation history of the AI-generated files, including repairs
+    const attempts = generated.attempts as unknown as Prisma.InputJsonValue
+
+    if (mode === 'update') {
+      await progress(60, 'Opening a pull request with the changes')
+
+      // Push changed files to a branch and open a pull request (external
+      // API calls); the default branch is left untouched
+      const regeneration = await openRegenerationPullRequest(
+        accessToken,
+        project.repository!,
+        project.name,
+        generated.files
+      )
+
+      await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          promptVersions: mergePromptVersions(
+            project.promptVersions,
+            generated.promptVersions
+          ),
+          status: 'READY',
+        },
+      })
+
+      if (preview) await markGenerationPreviewPushed(preview.id)
+
+      return {
+        status: 'done',
+        result: {
+          message: regeneration.pullRequest
+            ? 'Pull request opened with the regenerated files'
+            : 'Repository already matches the regenerated files',
+          repository: { url: project.repository! },
+          pullRequest: regeneration.pullRequest,
+          branch: regeneration.branch,
+          files: regeneration.files,
+          attempts,
+        },
+      }
+    }
+
+    // Reuse the repository an earlier attempt of this job created
+    let repositoryUrl = project.repository
+
+    if (!repositoryUrl) {
+      await progress(50, 'Creating the GitHub repository')
+
+      // Generate repository name from project name
+      const repoName = project.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+
+      // Create GitHub repository (external API call)
+      const repo = await createRepository(
+        accessToken,
+        repoName,
+        project.description || `Generated by ShipSensei: ${project.name}`,
+        false // public by default
+      )
+      repositoryUrl = repo.url
+
+      await prisma.project.update({
+        where: { id: projectId },
+        data: { repository: repositoryUrl },
+      })
+    }
+
+    const location = parseRepositoryUrl(repositoryUrl)
+
+    if (!location) {
+      throw new PermanentJobError(`Invalid repository URL: ${repositoryUrl}`)
+    }
+
+    await progress(60, `Pushing ${generated.files.length} files to GitHub`)
+
+    // Create files in the repository (external API call)
+    await createFiles(
+      accessToken,
+      location.owner,
+      location.repo,
+      generated.files
+    )
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        promptVersions: mergePromptVersions(
+          project.promptVersions,
+          generated.promptVersions
+        ),
+        status: 'READY', // ready for deployment
+      },
+    })
+
+    if (preview) await markGenerationPreviewPushed(preview.id)
+
+    return {
+      status: 'done',
+      result: {
+        message: 'Project generated successfully',
+        repository: { url: repositoryUrl, owner: location.owner },
+        attempts,
+      },
+    }
+  } catch (error) {
+    // Regenerating invalid code again is left to the user
+    if (error instanceof ProjectGenerationError) {
+      throw new PermanentJobError(error.message, {
+        error: 'Code validation failed',
+        validationErrors:
+          error.validationErrors as unknown as Prisma.InputJsonValue,
+        attempts: error.attempts as unknown as Prisma.InputJsonValue,
+        details: VALIDATION_FAILED_DETAILS,
+      })
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Give a project back the status it had before generation, and make the
+ * preview it pushed editable again (GENERATE_PROJECT dead-letter hook)
+ */
+export async function restoreProjectStatus(job: Job): Promise<void> {
+  const { projectId, originalStatus, previewId } =
+    job.payload as unknown as GenerateProjectPayload
+
+  await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      status: originalStatus,
+    },
+  })
+
+  if (previewId) await unlockGenerationPreview(previewId)
+}
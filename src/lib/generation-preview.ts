@@ -0,0 +1,356 @@
+import { createHash } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import type { AICallContext } from './ai-usage'
+import type { GenerationAttempt } from './code-repair'
+import {
+  generateProjectTemplate,
+  ProjectGenerationError,
+} from './project-generator'
+import { recordGenerationRun, type GenerationTrigger } from './generation-runs'
+import {
+  ensureRequirementsDocument,
+  renderRequirementsMarkdown,
+  REQUIREMENTS_DOCUMENT_PATH,
+} from './requirements-document'
+import { resolveStackSelection } from './tech-stack'
+
+/**
+ * Generation Previews (dry runs)
+ *
+ * Instead of pushing straight to GitHub, a project can be generated into a
+ * stored preview: the full file set, the prompt versions behind it and the
+ * validation attempts. Users review the files on the project page, edit
+ * them or exclude the ones they do not want, and then confirm the push,
+ * which sends the preview's files as they are instead of generating again.
+ *
+ * Edits are saved only onto the version they were made on, so concurrent
+ * edits cannot overwrite each other, and a preview is locked once its push
+ * is queued. Content edits also name the content hash of the file they were
+ * made on, so an edit to a file that changed since it was loaded is refused
+ * instead of replacing the newer content.
+ */
+
+// Largest file content a user can save while editing a preview
+export const MAX_PREVIEW_FILE_SIZE = 100_000
+
+export interface PreviewFile {
+  path: string
+  content: string
+  // Left out of the push
+  excluded: boolean
+  // Changed by the user after generation
+  edited: boolean
+}
+
+export interface GenerationPreview {
+  id: string
+  projectId: string
+  templateId: string
+  files: PreviewFile[]
+  promptVersions: Record<string, string | null>
+  attempts: GenerationAttempt[]
+  createdAt: Date
+  updatedAt: Date
+  // Incremented on every edit
+  version: number
+  // Set while a push is queued or running; the files cannot change
+  pushQueuedAt: Date | null
+  // Set once pushed; pushed previews cannot change
+  pushedAt: Date | null
+}
+
+// What the project page lists: file metadata without the contents
+export interface GenerationPreviewSummary {
+  id: string
+  templateId: string
+  files: Array<Omit<PreviewFile, 'content'> & { size: number }>
+  attempts: GenerationAttempt[]
+  createdAt: Date
+  pushedAt: Date | null
+}
+
+// Everything that gets pushed for a project, before it is stored or pushed
+export interface GeneratedProjectFiles {
+  templateId: string
+  files: Array<{ path: string; content: string }>
+  promptVersions: Record<string, string | null>
+  attempts: GenerationAttempt[]
+}
+
+type GenerationPreviewRow = Omit<
+  GenerationPreview,
+  'files' | 'promptVersions' | 'attempts'
+> & {
+  files: Prisma.JsonValue
+  promptVersions: Prisma.JsonValue
+  attempts: Prisma.JsonValue
+}
+
+function toGenerationPreview(row: GenerationPreviewRow): GenerationPreview {
+  return {
+    ...row,
+    files: row.files as unknown as PreviewFile[],
+    promptVersions: row.promptVersions as Record<string, string | null>,
+    attempts: row.attempts as unknown as GenerationAttempt[],
+  }
+}
+
+/**
+ * Generate the project template and requirements document: the files a
+ * push commits to the repository
+ *
+ * Each call is recorded as a generation run, whether it succeeds or not.
+ */
+export async function generateProjectFiles(
+  project: {
+    id: string
+    name: string
+    description: string | null
+    techStack: string | null
+    techStackSelection?: unknown
+  },
+  requirements: Array<{ question: string; answer: string; updatedAt: Date }>,
+  trigger: GenerationTrigger,
+  context?: AICallContext
+): Promise<GeneratedProjectFiles> {
+  const startedAt = Date.now()
+  const stack = resolveStackSelection(project)
+  const run = {
+    projectId: project.id,
+    trigger,
+    requirements: requirements.map(r => ({
+      question: r.question,
+      answer: r.answer,
+    })),
+    techStack: stack,
+  }
+
+  try {
+    const template = await generateProjectTemplate(
+      project.name,
+      project.description || '',
+      run.requirements,
+      stack,
+      context
+    )
+
+    // Reuse the latest PRD unless the answers changed since it was made
+    const requirementsDocument = await ensureRequirementsDocument(
+      project,
+      requirements,
+      context
+    )
+
+    const generated = {
+      templateId: template.templateId,
+      files: [
+        ...template.files,
+        {
+          path: REQUIREMENTS_DOCUMENT_PATH,
+          content: renderRequirementsMarkdown(
+            project.name,
+            requirementsDocument
+          ),
+        },
+      ],
+      promptVersions: {
+        ...template.promptVersions,
+        [REQUIREMENTS_DOCUMENT_PATH]: requirementsDocument.promptVersion,
+      },
+      attempts: template.attempts,
+    }
+
+    await recordGenerationRun({
+      ...run,
+      ...generated,
+      outcome: 'SUCCEEDED',
+      durationMs: Date.now() - startedAt,
+    })
+    return generated
+  } catch (error) {
+    await recordGenerationRun({
+      ...run,
+      outcome: 'FAILED',
+      durationMs: Date.now() - startedAt,
+      attempts:
+        error instanceof ProjectGenerationError ? error.attempts : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+/**
+ * Store generated files as a new preview of the project
+ */
+export async function saveGenerationPreview(
+  projectId: string,
+  generated: GeneratedProjectFiles
+): Promise<GenerationPreview> {
+  const files: PreviewFile[] = generated.files.map(file => ({
+    ...file,
+    excluded: false,
+    edited: false,
+  }))
+
+  const row = await prisma.generationPreview.create({
+    data: {
+      projectId,
+      templateId: generated.templateId,
+      files: files as unknown as Prisma.InputJsonValue,
+      promptVersions: generated.promptVersions as Prisma.InputJsonValue,
+      attempts: generated.attempts as unknown as Prisma.InputJsonValue,
+    },
+  })
+
+  return toGenerationPreview(row)
+}
+
+/**
+ * Load a project's preview (the latest one unless an ID is given)
+ */
+export async function getGenerationPreview(
+  projectId: string,
+  previewId?: string
+): Promise<GenerationPreview | null> {
+  const row = await prisma.generationPreview.findFirst({
+    where: { projectId, ...(previewId !== undefined && { id: previewId }) },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return row ? toGenerationPreview(row) : null
+}
+
+// Hash of a file's content, which edits name to show what they were made on
+export function previewContentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Apply a user's change to one file of a preview; null when the preview
+ * has no file at that path
+ *
+ * Content changes mark the file as edited; the other files are unchanged.
+ */
+export function applyFileChange(
+  files: PreviewFile[],
+  path: string,
+  change: { content?: string; excluded?: boolean }
+): PreviewFile[] | null {
+  if (!files.some(file => file.path === path)) return null
+
+  return files.map(file => {
+    if (file.path !== path) return file
+
+    const contentChanged =
+      change.content !== undefined && change.content !== file.content
+    return {
+      ...file,
+      content: contentChanged ? change.content! : file.content,
+      excluded: change.excluded ?? file.excluded,
+      edited: file.edited || contentChanged,
+    }
+  })
+}
+
+/**
+ * Store the files of a preview after a change made on the given version
+ *
+ * Returns null, and stores nothing, when the preview changed since that
+ * version or was locked for a push.
+ */
+export async function updateGenerationPreviewFiles(
+  preview: Pick<GenerationPreview, 'id' | 'version'>,
+  files: PreviewFile[]
+): Promise<GenerationPreview | null> {
+  const { count } = await prisma.generationPreview.updateMany({
+    where: {
+      id: preview.id,
+      version: preview.version,
+      pushQueuedAt: null,
+      pushedAt: null,
+    },
+    data: {
+      files: files as unknown as Prisma.InputJsonValue,
+      version: { increment: 1 },
+    },
+  })
+
+  if (count === 0) return null
+
+  const row = await prisma.generationPreview.findUniqueOrThrow({
+    where: { id: preview.id },
+  })
+
+  return toGenerationPreview(row)
+}
+
+/**
+ * Lock a preview's files for a queued push; false when it is already
+ * locked or pushed
+ */
+export async function lockGenerationPreview(
+  previewId: string
+): Promise<boolean> {
+  const { count } = await prisma.generationPreview.updateMany({
+    where: { id: previewId, pushQueuedAt: null, pushedAt: null },
+    data: { pushQueuedAt: new Date() },
+  })
+
+  return count > 0
+}
+
+/**
+ * Make a preview editable again after its push failed for good
+ */
+export async function unlockGenerationPreview(
+  previewId: string
+): Promise<void> {
+  await prisma.generationPreview.updateMany({
+    where: { id: previewId, pushedAt: null },
+    data: { pushQueuedAt: null },
+  })
+}
+
+/**
+ * Record that a preview was pushed to GitHub
+ */
+export async function markGenerationPreviewPushed(
+  previewId: string
+): Promise<void> {
+  await prisma.generationPreview.update({
+    where: { id: previewId },
+    data: { pushedAt: new Date() },
+  })
+}
+
+/**
+ * The files a confirmed push commits: everything not excluded, as edited
+ */
+export function filesToPush(
+  preview: GenerationPreview
+): Array<{ path: string; content: string }> {
+  return preview.files
+    .filter(file => !file.excluded)
+    .map(({ path, content }) => ({ path, content }))
+}
+
+/**
+ * File list of a preview without the file contents
+ */
+export function summarizeGenerationPreview(
+  preview: GenerationPreview
+): GenerationPreviewSummary {
+  return {
+    id: preview.id,
+    templateId: preview.templateId,
+    files: preview.files.map(({ content, ...file }) => ({
+      ...file,
+      size: content.length,
+    })),
+    attempts: preview.attempts,
+    createdAt: preview.createdAt,
+    pushedAt: preview.pushedAt,
+  }
+}
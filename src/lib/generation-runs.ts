@@ -0,0 +1,261 @@
+import { createHash } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './logger'
+import type { GenerationAttempt } from './code-repair'
+import type { StackSelection } from './tech-stack'
+import { unifiedDiff } from './text-diff'
+
+/**
+ * Generation Runs
+ *
+ * Every project generation (for a push, a preview or a download) is
+ * recorded with its inputs (the answered requirements and the stack), what
+ * it produced (template, prompt versions, files) and how it went
+ * (validation attempts, duration, outcome). Runs form the project's audit
+ * trail, and any two runs can be diffed file by file to see what changed
+ * between regenerations.
+ */
+
+export const GENERATION_TRIGGERS = ['GENERATE', 'PREVIEW', 'EXPORT'] as const
+
+export type GenerationTrigger = (typeof GENERATION_TRIGGERS)[number]
+
+export type GenerationOutcome = 'SUCCEEDED' | 'FAILED'
+
+// Most recent runs listed per project
+export const MAX_LISTED_RUNS = 50
+
+type QA = { question: string; answer: string }
+
+export interface GenerationRunFile {
+  path: string
+  // sha256 of the content, to spot changed files without comparing them
+  hash: string
+  content: string
+}
+
+export interface GenerationRun {
+  id: string
+  projectId: string
+  trigger: GenerationTrigger
+  outcome: GenerationOutcome
+  durationMs: number
+  requirements: QA[]
+  techStack: StackSelection
+  // null when generation failed before a template was rendered
+  templateId: string | null
+  promptVersions: Record<string, string | null>
+  files: GenerationRunFile[]
+  attempts: GenerationAttempt[]
+  error: string | null
+  createdAt: Date
+}
+
+// What the run history lists: no inputs or file contents
+export type GenerationRunSummary = Pick<
+  GenerationRun,
+  | 'id'
+  | 'trigger'
+  | 'outcome'
+  | 'durationMs'
+  | 'templateId'
+  | 'error'
+  | 'createdAt'
+> & { fileCount: number }
+
+export type FileDiff = {
+  path: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  // Unified diff of changed, added and removed files; null when the file
+  // is too large to compare
+  patch: string | null
+}
+
+export interface GenerationRunDiff {
+  from: string
+  to: string
+  requirementsChanged: boolean
+  techStackChanged: boolean
+  // Artifacts generated with a different prompt version
+  promptVersionChanges: Array<{
+    path: string
+    from: string | null
+    to: string | null
+  }>
+  files: FileDiff[]
+}
+
+type GenerationRunRow = Omit<
+  GenerationRun,
+  'requirements' | 'techStack' | 'promptVersions' | 'files' | 'attempts'
+> & {
+  requirements: Prisma.JsonValue
+  techStack: Prisma.JsonValue
+  promptVersions: Prisma.JsonValue
+  files: Prisma.JsonValue
+  attempts: Prisma.JsonValue
+}
+
+function toGenerationRun(row: GenerationRunRow): GenerationRun {
+  return {
+    ...row,
+    requirements: row.requirements as QA[],
+    techStack: row.techStack as unknown as StackSelection,
+    promptVersions: row.promptVersions as Record<string, string | null>,
+    files: row.files as unknown as GenerationRunFile[],
+    attempts: row.attempts as unknown as GenerationAttempt[],
+  }
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
+/**
+ * Store a finished generation
+ *
+ * Never throws: losing a run record must not fail the user's request.
+ */
+export async function recordGenerationRun(run: {
+  projectId: string
+  trigger: GenerationTrigger
+  outcome: GenerationOutcome
+  durationMs: number
+  requirements: QA[]
+  techStack: StackSelection
+  templateId?: string
+  promptVersions?: Record<string, string | null>
+  files?: Array<{ path: string; content: string }>
+  attempts?: GenerationAttempt[]
+  error?: string
+}): Promise<void> {
+  try {
+    const files: GenerationRunFile[] = (run.files ?? []).map(file => ({
+      path: file.path,
+      hash: hashContent(file.content),
+      content: file.content,
+    }))
+
+    await prisma.generationRun.create({
+      data: {
+        projectId: run.projectId,
+        trigger: run.trigger,
+        outcome: run.outcome,
+        durationMs: Math.round(run.durationMs),
+        requirements: run.requirements,
+        techStack: run.techStack as unknown as Prisma.InputJsonValue,
+        templateId: run.templateId ?? null,
+        promptVersions: (run.promptVersions ?? {}) as Prisma.InputJsonValue,
+        files: files as unknown as Prisma.InputJsonValue,
+        attempts: (run.attempts ?? []) as unknown as Prisma.InputJsonValue,
+        error: run.error ?? null,
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to record generation run', {
+      operation: 'generation_run',
+      metadata: {
+        projectId: run.projectId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+  }
+}
+
+/**
+ * List a project's most recent runs, newest first
+ */
+export async function listGenerationRuns(
+  projectId: string
+): Promise<GenerationRunSummary[]> {
+  const rows = await prisma.generationRun.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_LISTED_RUNS,
+  })
+
+  return rows.map(row => {
+    const run = toGenerationRun(row)
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      outcome: run.outcome,
+      durationMs: run.durationMs,
+      templateId: run.templateId,
+      error: run.error,
+      createdAt: run.createdAt,
+      fileCount: run.files.length,
+    }
+  })
+}
+
+/**
+ * Load one of a project's runs
+ */
+export async function getGenerationRun(
+  projectId: string,
+  runId: string
+): Promise<GenerationRun | null> {
+  const row = await prisma.generationRun.findFirst({
+    where: { id: runId, projectId },
+  })
+
+  return row ? toGenerationRun(row) : null
+}
+
+/**
+ * Compare two runs: what changed in their inputs, and each file's diff
+ * (files sorted by path)
+ */
+export function diffGenerationRuns(
+  from: GenerationRun,
+  to: GenerationRun
+): GenerationRunDiff {
+  const before = new Map(from.files.map(file => [file.path, file]))
+  const after = new Map(to.files.map(file => [file.path, file]))
+  const paths = Array.from(
+    new Set([...from.files, ...to.files].map(file => file.path))
+  ).sort()
+
+  const files = paths.map((path): FileDiff => {
+    const old = before.get(path)
+    const current = after.get(path)
+
+    if (old && current && old.hash === current.hash) {
+      return { path, status: 'unchanged', patch: null }
+    }
+    return {
+      path,
+      status: !old ? 'added' : !current ? 'removed' : 'changed',
+      patch: unifiedDiff(path, old?.content ?? '', current?.content ?? ''),
+    }
+  })
+
+  const versionsBefore = new Map(Object.entries(from.promptVersions))
+  const versionsAfter = new Map(Object.entries(to.promptVersions))
+  const promptVersionChanges = Array.from(
+    new Set([
+      ...Object.keys(from.promptVersions),
+      ...Object.keys(to.promptVersions),
+    ])
+  )
+    .sort()
+    .map(path => ({
+      path,
+      from: versionsBefore.get(path) ?? null,
+      to: versionsAfter.get(path) ?? null,
+    }))
+    .filter(change => change.from !== change.to)
+
+  return {
+    from: from.id,
+    to: to.id,
+    requirementsChanged:
+      JSON.stringify(from.requirements) !== JSON.stringify(to.requirements),
+    techStackChanged:
+      JSON.stringify(from.techStack) !== JSON.stringify(to.techStack),
+    promptVersionChanges,
+    files,
+  }
+}
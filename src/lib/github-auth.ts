@@ -37,7 +37,10 @@ export async function getGitHubTokenFromSession(): Promise<string | null> {
 }
 
 // Core function to get GitHub token from database
-async function getGitHubTokenFromUserId(userId: string): Promise<string | null> {
+// (also used by background jobs, which run without a session)
+export async function getGitHubTokenFromUserId(
+  userId: string
+): Promise<string | null> {
   try {
     // Find GitHub account for this user
     // Prisma will decrypt the access_token automatically via middleware
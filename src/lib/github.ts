@@ -1,9 +1,12 @@
 import { Octokit } from '@octokit/rest'
+import { cassetteFetch } from './cassette'
 
 // Initialize GitHub client with user's OAuth token
+// (requests are recorded and replayed in tests, see cassette)
 export function createGitHubClient(accessToken: string) {
   return new Octokit({
     auth: accessToken,
+    request: { fetch: cassetteFetch('github') },
   })
 }
 
@@ -103,7 +106,8 @@ export async function createOrUpdateFile(
   repo: string,
   path: string,
   content: string,
-  message: string
+  message: string,
+  branch?: string
 ) {
   return withRetry(async () => {
     const octokit = createGitHubClient(accessToken)
@@ -116,6 +120,7 @@ export async function createOrUpdateFile(
         owner,
         repo,
         path,
+        ...(branch && { ref: branch }),
       })
 
       if ('sha' in existingFile) {
@@ -133,6 +138,7 @@ export async function createOrUpdateFile(
       message,
       content: Buffer.from(content).toString('base64'),
       sha, // Required for updates, omitted for creation
+      ...(branch && { branch }),
     })
 
     return data
@@ -140,11 +146,13 @@ export async function createOrUpdateFile(
 }
 
 // Create multiple files in a repository with parallel uploads
+// (on the default branch unless a branch is given)
 export async function createFiles(
   accessToken: string,
   owner: string,
   repo: string,
-  files: Array<{ path: string; content: string }>
+  files: Array<{ path: string; content: string }>,
+  branch?: string
 ) {
   // Validate repository name to prevent injection
   if (!repo || !/^[a-zA-Z0-9._-]+$/.test(repo)) {
@@ -172,7 +180,8 @@ export async function createFiles(
         repo,
         file.path,
         file.content,
-        `Add ${file.path}`
+        `Add ${file.path}`,
+        branch
       )
     })
 
@@ -199,6 +208,127 @@ export async function createFiles(
   return results
 }
 
+// Owner and name of a repository from its GitHub URL
+export function parseRepositoryUrl(
+  url: string
+): { owner: string; repo: string } | null {
+  const match = url.match(
+    /^https:\/\/github\.com\/([a-zA-Z0-9-]+)\/([a-zA-Z0-9._-]+?)(?:\.git)?\/?$/
+  )
+  return match ? { owner: match[1], repo: match[2] } : null
+}
+
+// Get an existing repository
+export async function getRepository(
+  accessToken: string,
+  owner: string,
+  repo: string
+) {
+  const octokit = createGitHubClient(accessToken)
+
+  try {
+    const { data } = await octokit.repos.get({ owner, repo })
+
+    return {
+      url: data.html_url,
+      fullName: data.full_name,
+      owner: data.owner.login,
+      defaultBranch: data.default_branch,
+    }
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'status' in error) {
+      const githubError = error as { status: number; message: string }
+      if (githubError.status === 404) {
+        throw new Error(`Repository "${owner}/${repo}" not found`)
+      }
+    }
+    throw error
+  }
+}
+
+// Get the text of a file on a branch, or null when there is no such file
+export async function getFileContent(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  return withRetry(async () => {
+    const octokit = createGitHubClient(accessToken)
+
+    try {
+      const { data } = await octokit.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+      })
+
+      // Directories and symlinks are not files we generate
+      if (!('content' in data) || data.type !== 'file') return null
+      return Buffer.from(data.content, 'base64').toString('utf8')
+    } catch (error: unknown) {
+      if (
+        error &&
+        typeof error === 'object' &&
+        'status' in error &&
+        (error as { status: number }).status === 404
+      ) {
+        return null
+      }
+      throw error
+    }
+  })
+}
+
+// Create a branch starting at the head of another one
+export async function createBranch(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  branch: string,
+  fromBranch: string
+) {
+  const octokit = createGitHubClient(accessToken)
+
+  const { data: base } = await octokit.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${fromBranch}`,
+  })
+
+  await octokit.git.createRef({
+    owner,
+    repo,
+    ref: `refs/heads/${branch}`,
+    sha: base.object.sha,
+  })
+
+  return { branch, sha: base.object.sha }
+}
+
+// Open a pull request merging one branch into another
+export async function createPullRequest(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  pullRequest: { title: string; body: string; head: string; base: string }
+) {
+  const octokit = createGitHubClient(accessToken)
+
+  const { data } = await octokit.pulls.create({
+    owner,
+    repo,
+    ...pullRequest,
+  })
+
+  return {
+    url: data.html_url,
+    number: data.number,
+  }
+}
+
 // Get user's GitHub profile
 export async function getUserProfile(accessToken: string) {
   const octokit = createGitHubClient(accessToken)
@@ -0,0 +1,462 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './logger'
+
+/**
+ * Background Job Queue
+ *
+ * Long work (generating and pushing a project, following a deployment) is
+ * queued in Postgres instead of running inside the HTTP request or as a
+ * detached promise that dies with a recycled serverless instance. Workers
+ * (the /api/jobs/worker route, called on a schedule) claim due jobs with
+ * SELECT ... FOR UPDATE SKIP LOCKED, so several workers never run the same
+ * job, and report progress that the UI polls through /api/jobs/[id]. A job
+ * whose worker held it too long is claimed again; updates from the old
+ * worker are then ignored (they must match the job's lockedBy).
+ *
+ * A failed job is retried with exponential backoff until it runs out of
+ * attempts or fails with a PermanentJobError; it is then dead-lettered
+ * (status DEAD) with its error kept for inspection. A handler can also ask
+ * to be run again later without using an attempt, to poll external work.
+ */
+
+export const JOB_TYPES = ['GENERATE_PROJECT', 'MONITOR_DEPLOYMENT'] as const
+
+export type JobType = (typeof JOB_TYPES)[number]
+
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD'
+
+export const DEFAULT_MAX_ATTEMPTS = 3
+
+// Delay before the first retry; doubled on each further attempt
+export const RETRY_BASE_DELAY_MS = 30_000
+
+// A job running longer than this is assumed lost with its worker and is
+// claimed again
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000
+
+export interface Job<Payload = Prisma.JsonValue> {
+  id: string
+  type: JobType
+  status: JobStatus
+  userId: string
+  projectId: string | null
+  payload: Payload
+  result: Prisma.JsonValue | null
+  progress: number
+  progressMessage: string | null
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lockedAt: Date | null
+  lockedBy: string | null
+  lastError: string | null
+  finishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// What the status endpoint returns: no payload, worker or lock details
+export type JobSummary = Pick<
+  Job,
+  | 'id'
+  | 'type'
+  | 'status'
+  | 'projectId'
+  | 'result'
+  | 'progress'
+  | 'progressMessage'
+  | 'attempts'
+  | 'maxAttempts'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'finishedAt'
+> & { error: string | null }
+
+export type JobHandlerResult =
+  | { status: 'done'; result?: Prisma.InputJsonValue }
+  // Not finished yet (e.g. a deployment still building): run the job again
+  // later without using an attempt
+  | { status: 'pending'; checkAgainInMs: number }
+
+// Report progress: percent done (0-100) and the current step
+export type JobProgress = (percent: number, message: string) => Promise<void>
+
+export type JobHandler = (
+  job: Job,
+  progress: JobProgress
+) => Promise<JobHandlerResult>
+
+// How workers run one type of job
+export interface JobDefinition {
+  run: JobHandler
+  // Called once the job is dead-lettered, however it failed (including a
+  // worker that stopped in the middle of it), to undo what the job left
+  // behind; errors are logged, not thrown
+  onDeadLetter?: (job: Job) => Promise<void>
+  // Takes up most of a worker run: the worker claims no further jobs after
+  // one, to stay within its time limit
+  longRunning?: boolean
+}
+
+// How a worker left a job: its new status, or LOCK_LOST when the job was
+// claimed again by another worker meanwhile (and left to that worker)
+export type ProcessedJobStatus = JobStatus | 'LOCK_LOST'
+
+/**
+ * Failure that retrying cannot fix: the job is dead-lettered right away,
+ * with the details stored as its result
+ */
+export class PermanentJobError extends Error {
+  constructor(
+    message: string,
+    public details?: Prisma.InputJsonValue
+  ) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+function toJob(row: Omit<Job, 'payload'> & { payload: unknown }): Job {
+  return { ...row, payload: row.payload as Prisma.JsonValue }
+}
+
+/**
+ * Update a job only while the worker still holds its lock
+ *
+ * A worker that ran past JOB_LOCK_TIMEOUT_MS may find its job claimed by
+ * another worker; it must then leave the job to that worker.
+ */
+async function updateLockedJob(
+  job: Pick<Job, 'id' | 'type' | 'lockedBy'>,
+  data: Prisma.JobUpdateManyMutationInput
+): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: job.lockedBy },
+    data,
+  })
+
+  if (count === 0) {
+    logger.warn('Job lock lost', {
+      operation: 'job_queue',
+      metadata: { jobId: job.id, type: job.type, lockedBy: job.lockedBy },
+    })
+  }
+
+  return count > 0
+}
+
+/**
+ * Whether a failure of the running job would dead-letter it
+ */
+export function isFinalAttempt(job: Pick<Job, 'attempts' | 'maxAttempts'>) {
+  return job.attempts >= job.maxAttempts
+}
+
+/**
+ * Delay before retrying a job that failed on the given attempt
+ */
+export function retryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1))
+}
+
+/**
+ * Queue a job for the workers
+ */
+export async function enqueueJob(job: {
+  type: JobType
+  userId: string
+  projectId?: string
+  payload: Prisma.InputJsonValue
+  maxAttempts?: number
+  runAt?: Date
+}): Promise<Job> {
+  const row = await prisma.job.create({
+    data: {
+      type: job.type,
+      userId: job.userId,
+      projectId: job.projectId ?? null,
+      payload: job.payload,
+      maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      ...(job.runAt && { runAt: job.runAt }),
+    },
+  })
+
+  return toJob(row)
+}
+
+type ClaimedJob = Job & {
+  previousStatus: JobStatus
+  previousLockedBy: string | null
+}
+
+/**
+ * Claim up to `limit` due jobs for a worker, oldest first
+ *
+ * Jobs locked by other workers are skipped rather than waited for; jobs
+ * whose worker went away (locked too long) are claimed again.
+ */
+export async function claimJobs(
+  workerId: string,
+  limit: number,
+  now: Date = new Date()
+): Promise<Job[]> {
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS)
+
+  // Claimed rows, with the status and worker they had before
+  const rows: ClaimedJob[] = await prisma.$queryRaw<ClaimedJob[]>`
+    WITH "claimable" AS (
+      SELECT "id", "status" AS "previousStatus", "lockedBy" AS "previousLockedBy"
+      FROM "jobs"
+      WHERE ("status" = 'QUEUED' AND "runAt" <= ${now})
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE "jobs"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = ${now},
+        "lockedBy" = ${workerId},
+        "updatedAt" = ${now}
+    FROM "claimable"
+    WHERE "jobs"."id" = "claimable"."id"
+    RETURNING "jobs".*, "claimable"."previousStatus", "claimable"."previousLockedBy"
+  `
+
+  return rows.map(({ previousStatus, previousLockedBy, ...row }) => {
+    if (previousStatus === 'RUNNING') {
+      // The previous worker's updates are fenced off from now on
+      logger.warn('Job lock expired, claiming the job again', {
+        operation: 'job_queue',
+        metadata: {
+          jobId: row.id,
+          type: row.type,
+          previousLockedBy,
+          lockedBy: workerId,
+        },
+      })
+    }
+    return toJob(row)
+  })
+}
+
+/**
+ * Store a running job's progress
+ *
+ * Never throws: a lost progress update must not fail the job.
+ */
+export async function updateJobProgress(
+  job: Pick<Job, 'id' | 'type' | 'lockedBy'>,
+  percent: number,
+  message: string
+): Promise<void> {
+  try {
+    await updateLockedJob(job, {
+      progress: Math.min(100, Math.max(0, Math.round(percent))),
+      progressMessage: message.slice(0, 255),
+    })
+  } catch (error) {
+    logger.error('Failed to update job progress', {
+      operation: 'job_queue',
+      metadata: {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+  }
+}
+
+/**
+ * Record a handler's outcome: finished, to be checked again later, or
+ * failed (retried with backoff, or dead-lettered)
+ *
+ * Returns LOCK_LOST, and records nothing, when another worker claimed the
+ * job meanwhile.
+ */
+export async function settleJob(
+  job: Job,
+  outcome: JobHandlerResult | { status: 'failed'; error: unknown },
+  now: Date = new Date()
+): Promise<ProcessedJobStatus> {
+  const unlocked = { lockedAt: null, lockedBy: null }
+
+  if (outcome.status === 'done') {
+    const settled = await updateLockedJob(job, {
+      ...unlocked,
+      status: 'SUCCEEDED',
+      result: outcome.result,
+      progress: 100,
+      finishedAt: now,
+    })
+    return settled ? 'SUCCEEDED' : 'LOCK_LOST'
+  }
+
+  if (outcome.status === 'pending') {
+    const settled = await updateLockedJob(job, {
+      ...unlocked,
+      status: 'QUEUED',
+      // Checking again is not a new attempt
+      attempts: Math.max(0, job.attempts - 1),
+      runAt: new Date(now.getTime() + outcome.checkAgainInMs),
+    })
+    return settled ? 'QUEUED' : 'LOCK_LOST'
+  }
+
+  const { error } = outcome
+  const message = error instanceof Error ? error.message : String(error)
+  const permanent = error instanceof PermanentJobError
+
+  if (permanent || isFinalAttempt(job)) {
+    const settled = await updateLockedJob(job, {
+      ...unlocked,
+      status: 'DEAD',
+      lastError: message,
+      ...(permanent &&
+        error.details !== undefined && {
+          result: error.details,
+        }),
+      finishedAt: now,
+    })
+    if (!settled) return 'LOCK_LOST'
+
+    logger.error('Job dead-lettered', {
+      operation: 'job_queue',
+      metadata: { jobId: job.id, type: job.type, attempts: job.attempts },
+    })
+    return 'DEAD'
+  }
+
+  const settled = await updateLockedJob(job, {
+    ...unlocked,
+    status: 'QUEUED',
+    lastError: message,
+    runAt: new Date(now.getTime() + retryDelay(job.attempts)),
+  })
+  return settled ? 'QUEUED' : 'LOCK_LOST'
+}
+
+/**
+ * Run a claimed job with its definition and record the outcome
+ */
+async function runJob(
+  job: Job,
+  definition: JobDefinition | undefined
+): Promise<ProcessedJobStatus> {
+  let status: ProcessedJobStatus
+  if (job.attempts > job.maxAttempts) {
+    // Reclaimed after its worker went away on the last attempt
+    status = await settleJob(job, {
+      status: 'failed',
+      error: new PermanentJobError('Worker stopped while running the job'),
+    })
+  } else {
+    try {
+      if (!definition) {
+        throw new PermanentJobError(`No handler for ${job.type} jobs`)
+      }
+      const outcome = await definition.run(job, (percent, message) =>
+        updateJobProgress(job, percent, message)
+      )
+      status = await settleJob(job, outcome)
+    } catch (error) {
+      status = await settleJob(job, { status: 'failed', error })
+    }
+  }
+
+  if (status === 'DEAD' && definition?.onDeadLetter) {
+    try {
+      await definition.onDeadLetter(job)
+    } catch (error) {
+      logger.error('Failed to clean up after a dead-lettered job', {
+        operation: 'job_queue',
+        metadata: {
+          jobId: job.id,
+          type: job.type,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  }
+
+  return status
+}
+
+/**
+ * Claim due jobs one at a time and run each with the definition for its
+ * type, up to `limit` jobs or until a long-running job finished
+ */
+export async function processJobs(
+  workerId: string,
+  definitions: ReadonlyMap<JobType, JobDefinition>,
+  limit: number
+): Promise<Array<{ id: string; type: JobType; status: ProcessedJobStatus }>> {
+  const processed: Array<{
+    id: string
+    type: JobType
+    status: ProcessedJobStatus
+  }> = []
+
+  // Claiming one job at a time leaves the others to workers with time left
+  while (processed.length < limit) {
+    const [job] = await claimJobs(workerId, 1)
+    if (!job) break
+
+    const definition = definitions.get(job.type)
+    const status = await runJob(job, definition)
+    processed.push({ id: job.id, type: job.type, status })
+
+    if (definition?.longRunning) break
+  }
+
+  return processed
+}
+
+/**
+ * Load a job the user queued
+ */
+export async function getJob(
+  jobId: string,
+  userId: string
+): Promise<Job | null> {
+  const row = await prisma.job.findFirst({ where: { id: jobId, userId } })
+
+  return row ? toJob(row) : null
+}
+
+/**
+ * Find a project's queued or running job of a type, if any
+ */
+export async function findUnfinishedJob(
+  projectId: string,
+  type: JobType
+): Promise<Job | null> {
+  const row = await prisma.job.findFirst({
+    where: { projectId, type, status: { in: ['QUEUED', 'RUNNING'] } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return row ? toJob(row) : null
+}
+
+/**
+ * Job status for the UI: progress, outcome and error
+ */
+export function summarizeJob(job: Job): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    projectId: job.projectId,
+    result: job.result,
+    progress: job.progress,
+    progressMessage: job.progressMessage,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt,
+    error: job.lastError,
+  }
+}
@@ -0,0 +1,680 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { cassetteFetch, getCassetteMode } from './cassette'
+
+/**
+ * Pluggable LLM Provider Layer
+ *
+ * Every AI feature goes through a provider so the model backend can be
+ * swapped by configuration instead of code changes.
+ *
+ * Provider Options (AI_PROVIDER):
+ * 1. anthropic (default) - Anthropic Messages API (ANTHROPIC_API_KEY, ANTHROPIC_MODEL)
+ * 2. openai - Any OpenAI-compatible /chat/completions endpoint
+ *    (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL)
+ * 3. fake - Deterministic local responses, no network or API key required.
+ *    Lets the whole wizard run offline in development and CI.
+ */
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022'
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+
+// Request timeout for OpenAI-compatible endpoints
+const OPENAI_REQUEST_TIMEOUT = 60000 // 60 seconds
+
+export type ProviderName = 'anthropic' | 'openai' | 'fake'
+
+/**
+ * AI operations issued by ShipSensei (used for routing fake responses
+ * and for attributing calls in logs)
+ */
+export type AIOperation =
+  | 'classify'
+  | 'questions'
+  | 'follow-up'
+  | 'suggest'
+  | 'analysis'
+  | 'stack'
+  | 'prd'
+  | 'readme'
+  | 'sitemap'
+  | 'datamodel'
+  | 'homepage'
+  | 'page'
+  | 'component'
+
+export interface CompletionRequest {
+  operation: AIOperation
+  prompt: string
+  maxTokens: number
+  // Registry reference of the prompt ("<id>@<version>"), used in cache keys
+  promptVersion?: string
+  // Cancels the HTTP request (resilient calls abort attempts that time out)
+  signal?: AbortSignal
+}
+
+export interface CompletionUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResult {
+  text: string
+  provider: ProviderName
+  model: string
+  usage: CompletionUsage
+}
+
+/**
+ * Receives incremental text as it is generated
+ */
+export type TokenHandler = (delta: string) => void
+
+/**
+ * Abstract provider interface
+ */
+export interface LLMProvider {
+  readonly name: ProviderName
+  readonly model: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  /**
+   * Stream a completion, invoking onToken for each text delta.
+   * Resolves with the full result once generation finishes.
+   */
+  stream(
+    request: CompletionRequest,
+    onToken: TokenHandler
+  ): Promise<CompletionResult>
+}
+
+/**
+ * Thrown when a provider answers with something other than text
+ */
+export class UnexpectedResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnexpectedResponseError'
+  }
+}
+
+/**
+ * Thrown when an endpoint rejects a request or does not answer in time
+ * (the HTTP status lets callers tell outages from bad requests)
+ */
+export class ProviderRequestError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ProviderRequestError'
+    this.status = status
+  }
+}
+
+// Lazy initialization to avoid import-time failures
+let anthropicClient: Anthropic | null = null
+
+/**
+ * Get or initialize Anthropic client with runtime validation
+ */
+export function getAnthropicClient(): Anthropic {
+  if (!anthropicClient) {
+    // Replayed cassettes need no key (see cassette)
+    if (getCassetteMode() === 'replay') {
+      anthropicClient = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY || 'cassette-replay',
+        fetch: cassetteFetch('anthropic'),
+        maxRetries: 0,
+      })
+      return anthropicClient
+    }
+
+    // Skip validation in test environment or when explicitly disabled
+    if (process.env.NODE_ENV === 'test' && !process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY not available in test environment')
+    }
+
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error(
+        'ANTHROPIC_API_KEY environment variable is required. Please set it in your .env.local file.'
+      )
+    }
+
+    // Retries are left to ai-resilience, which also tries fallback models;
+    // SDK retries inside each attempt would multiply them
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      fetch: cassetteFetch('anthropic'),
+      maxRetries: 0,
+    })
+  }
+
+  return anthropicClient
+}
+
+/**
+ * Anthropic Messages API provider
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  readonly model: string
+
+  constructor(model: string) {
+    this.model = model
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await getAnthropicClient().messages.create(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+      },
+      { signal: request.signal }
+    )
+
+    const content = response.content[0]
+    if (!content || content.type !== 'text') {
+      throw new UnexpectedResponseError('Unexpected response type from Claude')
+    }
+
+    return {
+      text: content.text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    }
+  }
+
+  async stream(
+    request: CompletionRequest,
+    onToken: TokenHandler
+  ): Promise<CompletionResult> {
+    const stream = getAnthropicClient().messages.stream(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+      },
+      { signal: request.signal }
+    )
+
+    stream.on('text', delta => onToken(delta))
+
+    const message = await stream.finalMessage()
+    const text = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('')
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: message.usage?.input_tokens ?? 0,
+        outputTokens: message.usage?.output_tokens ?? 0,
+      },
+    }
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI, Azure-style gateways, Ollama, vLLM, LM Studio, etc.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const
+  readonly model: string
+  private baseUrl: string
+  private apiKey?: string
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '') // Remove trailing slash
+    this.model = model
+    this.apiKey = apiKey
+  }
+
+  private async request(
+    request: CompletionRequest,
+    streaming: boolean
+  ): Promise<{ response: Response; clearTimer: () => void }> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      OPENAI_REQUEST_TIMEOUT
+    )
+    const abort = () => controller.abort(request.signal?.reason)
+    request.signal?.addEventListener('abort', abort)
+    const clearTimer = () => {
+      clearTimeout(timeoutId)
+      request.signal?.removeEventListener('abort', abort)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens,
+          messages: [
+            {
+              role: 'user',
+              content: request.prompt,
+            },
+          ],
+          ...(streaming && {
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+        }),
+        signal: controller.signal,
+      })
+    } catch (error) {
+      clearTimer()
+      // Aborted by the caller: pass its reason on as is
+      if (request.signal?.aborted) throw request.signal.reason
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ProviderRequestError(
+          `Request timeout: OpenAI-compatible endpoint took longer than ${OPENAI_REQUEST_TIMEOUT}ms`,
+          408
+        )
+      }
+      throw error
+    }
+
+    if (!response.ok) {
+      clearTimer()
+      throw new ProviderRequestError(
+        `OpenAI-compatible request failed: ${response.status} ${response.statusText}`,
+        response.status
+      )
+    }
+
+    return { response, clearTimer }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { response, clearTimer } = await this.request(request, false)
+
+    let data
+    try {
+      data = await response.json()
+    } finally {
+      clearTimer()
+    }
+
+    const text = data?.choices?.[0]?.message?.content
+    if (typeof text !== 'string') {
+      throw new UnexpectedResponseError(
+        'Unexpected response format from OpenAI-compatible endpoint'
+      )
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    }
+  }
+
+  async stream(
+    request: CompletionRequest,
+    onToken: TokenHandler
+  ): Promise<CompletionResult> {
+    const { response, clearTimer } = await this.request(request, true)
+
+    if (!response.body) {
+      clearTimer()
+      throw new UnexpectedResponseError(
+        'OpenAI-compatible endpoint returned an empty stream'
+      )
+    }
+
+    let text = ''
+    let usage: CompletionUsage = { inputTokens: 0, outputTokens: 0 }
+
+    try {
+      await readSSELines(response.body, line => {
+        if (!line.startsWith('data:')) return
+        const payload = line.slice('data:'.length).trim()
+        if (!payload || payload === '[DONE]') return
+
+        const chunk = JSON.parse(payload)
+        const delta = chunk?.choices?.[0]?.delta?.content
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta
+          onToken(delta)
+        }
+        if (chunk?.usage) {
+          usage = {
+            inputTokens: chunk.usage.prompt_tokens ?? 0,
+            outputTokens: chunk.usage.completion_tokens ?? 0,
+          }
+        }
+      })
+    } finally {
+      clearTimer()
+    }
+
+    return { text, provider: this.name, model: this.model, usage }
+  }
+}
+
+/**
+ * Read a server-sent event body line by line
+ */
+async function readSSELines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    buffer += decoder.decode(chunk.value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    lines.forEach(line => onLine(line.trim()))
+  }
+
+  if (buffer.trim()) {
+    onLine(buffer.trim())
+  }
+}
+
+/**
+ * Deterministic local provider for offline development and CI
+ *
+ * Returns canned, well-formed responses for each operation so every
+ * downstream parser and validator sees realistic output.
+ */
+class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const
+  readonly model = 'fake-model'
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const text = FAKE_RESPONSES[request.operation]
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: Math.ceil(request.prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    }
+  }
+
+  async stream(
+    request: CompletionRequest,
+    onToken: TokenHandler
+  ): Promise<CompletionResult> {
+    const result = await this.complete(request)
+
+    // Emit word-sized chunks so streaming UIs behave like a real model
+    result.text.match(/\S+\s*|\s+/g)?.forEach(chunk => onToken(chunk))
+
+    return result
+  }
+}
+
+const FAKE_RESPONSES: Record<AIOperation, string> = {
+  classify: JSON.stringify({ projectType: 'OTHER' }),
+  questions: JSON.stringify([
+    'Who is your target user or audience?',
+    "What's the main problem you're trying to solve?",
+    'What are the 3 most important features for your MVP?',
+    'Do you have any design or branding preferences?',
+    'Are there any existing apps or websites similar to what you want?',
+  ]),
+  'follow-up': 'COMPLETE',
+  suggest: JSON.stringify([
+    'Keep it simple for the first version',
+    'Similar to the most popular apps in this space',
+  ]),
+  analysis: JSON.stringify({
+    completeness: 80,
+    summary: 'The answers cover the main users and features.',
+    findings: [],
+  }),
+  stack: JSON.stringify({
+    alternatives: [
+      {
+        name: 'Full-stack starter',
+        components: {
+          framework: 'nextjs',
+          database: 'postgresql',
+          auth: 'nextauth',
+          hosting: 'vercel',
+          styling: 'tailwind',
+          payments: 'none',
+        },
+        rationale:
+          'A single full-stack framework keeps the project simple. Tailwind speeds up styling, Prisma makes the database approachable, and Vercel deploys straight from GitHub.',
+        tradeoffs: ['Needs a hosted PostgreSQL database'],
+      },
+      {
+        name: 'Simplest start',
+        components: {
+          framework: 'nextjs',
+          database: 'sqlite',
+          auth: 'none',
+          hosting: 'vercel',
+          styling: 'tailwind',
+          payments: 'none',
+        },
+        rationale: 'Fewest moving parts for a first version.',
+        tradeoffs: ['No sign-in', 'Move to PostgreSQL before launch'],
+      },
+    ],
+  }),
+  prd: JSON.stringify({
+    summary: 'A simple web app generated offline by ShipSensei.',
+    problem: 'Users need a quick way to get started.',
+    personas: [
+      {
+        name: 'First-time user',
+        description: 'Someone trying the app for the first time',
+        goals: ['Understand what the app does'],
+      },
+    ],
+    userStories: [
+      {
+        persona: 'First-time user',
+        story:
+          'As a first-time user, I want to see what the app offers so that I can decide to sign up.',
+        acceptanceCriteria: ['The home page explains the main features'],
+        priority: 'must',
+      },
+    ],
+    nonGoals: ['Native mobile apps'],
+    openQuestions: [],
+  }),
+  readme: `# My Project
+
+A project generated offline by ShipSensei.
+
+## Getting Started
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+## Tech Stack
+
+- Next.js 14
+- TypeScript
+- Tailwind CSS
+`,
+  homepage: `export default function Home() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-24">
+      <h1 className="text-5xl font-bold mb-6">Welcome</h1>
+      <p className="text-xl text-gray-600">
+        This page was generated offline by ShipSensei.
+      </p>
+    </main>
+  )
+}
+`,
+  sitemap: JSON.stringify({
+    pages: [
+      {
+        route: '/',
+        name: 'Home',
+        purpose: 'Introduce the project and its main features',
+        features: ['Overview of what the app offers'],
+        components: ['FeatureCard'],
+        inNavigation: true,
+      },
+      {
+        route: '/about',
+        name: 'About',
+        purpose: 'Explain who the project is for and how it works',
+        features: ['How it works'],
+        components: [],
+        inNavigation: true,
+      },
+    ],
+    components: [
+      { name: 'FeatureCard', purpose: 'Card with a title and a description' },
+    ],
+  }),
+  datamodel: JSON.stringify({
+    entities: [
+      {
+        name: 'User',
+        description: 'Someone who signed up',
+        fields: [
+          { name: 'email', type: 'String', optional: false, unique: true },
+          { name: 'name', type: 'String', optional: true, unique: false },
+        ],
+        belongsTo: [],
+      },
+      {
+        name: 'Item',
+        description: 'Something a user added',
+        fields: [
+          { name: 'title', type: 'String', optional: false, unique: false },
+          { name: 'done', type: 'Boolean', optional: false, unique: false },
+        ],
+        belongsTo: ['User'],
+      },
+    ],
+  }),
+  page: `export default function Page() {
+  return (
+    <main className="mx-auto max-w-3xl p-12">
+      <h1 className="text-4xl font-bold mb-4">About</h1>
+      <p className="text-gray-600">
+        This page was generated offline by ShipSensei.
+      </p>
+    </main>
+  )
+}
+`,
+  component: `export default function FeatureCard({
+  title = 'Feature',
+  description = 'Generated offline by ShipSensei.',
+}: {
+  title?: string
+  description?: string
+}) {
+  return (
+    <div className="p-6 border border-gray-200 rounded-lg">
+      <h2 className="text-2xl font-semibold mb-2">{title}</h2>
+      <p className="text-gray-600">{description}</p>
+    </div>
+  )
+}
+`,
+}
+
+// Cached provider instance (singleton pattern)
+let cachedProvider: LLMProvider | null = null
+
+/**
+ * Create a provider by name, optionally overriding the configured model
+ *
+ * Endpoint and API key settings still come from the environment.
+ */
+export function createLLMProvider(
+  providerName: string,
+  model?: string
+): LLMProvider {
+  const name = providerName.toLowerCase()
+
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider(
+        model || process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL
+      )
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        process.env.OPENAI_API_KEY
+      )
+    case 'fake':
+      return new FakeProvider()
+    default:
+      throw new Error(
+        `Unknown AI_PROVIDER "${name}". Expected one of: anthropic, openai, fake.`
+      )
+  }
+}
+
+/**
+ * Create a provider from environment configuration
+ */
+function createProviderFromEnv(): LLMProvider {
+  return createLLMProvider(process.env.AI_PROVIDER || 'anthropic')
+}
+
+/**
+ * Get the configured LLM provider (cached singleton)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProviderFromEnv()
+  }
+
+  return cachedProvider
+}
+
+/**
+ * Clear cached provider and client (for testing purposes)
+ */
+export function __clearProviderCache(): void {
+  cachedProvider = null
+  anthropicClient = null
+}
@@ -0,0 +1,250 @@
+import { deflateRawSync, gzipSync } from 'zlib'
+import { toPackageName } from './templates'
+
+/**
+ * Project Archives
+ *
+ * Generated projects can be downloaded instead of pushed to GitHub, so
+ * users who signed in with Google still get their code. The files are
+ * packed into a ZIP or gzipped tar archive under a folder named after the
+ * project, together with a manifest recording the template and the prompt
+ * versions the files were generated with.
+ *
+ * Both formats are written here with zlib only: files are UTF-8 text and
+ * small, so a whole archive is built in memory. CRC-32 is computed here
+ * too, as zlib.crc32 needs Node 20.15 or later.
+ */
+
+export const ARCHIVE_FORMATS = ['zip', 'tar.gz'] as const
+
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number]
+
+// Path of the manifest inside the archive's project folder
+export const ARCHIVE_MANIFEST_PATH = 'shipsensei.json'
+
+const CONTENT_TYPES = new Map<ArchiveFormat, string>([
+  ['zip', 'application/zip'],
+  ['tar.gz', 'application/gzip'],
+])
+
+type ArchiveFile = { path: string; content: string }
+
+export interface ProjectArchive {
+  body: Buffer
+  filename: string
+  contentType: string
+}
+
+/**
+ * shipsensei.json: where the files came from
+ */
+export function renderArchiveManifest(
+  projectName: string,
+  templateId: string,
+  promptVersions: Record<string, string | null>,
+  generatedAt: Date
+): string {
+  return `${JSON.stringify(
+    {
+      name: projectName,
+      generator: 'ShipSensei',
+      template: templateId,
+      generatedAt: generatedAt.toISOString(),
+      promptVersions,
+    },
+    null,
+    2
+  )}\n`
+}
+
+// CRC-32 lookup table (IEEE polynomial, reversed), one entry per byte value
+const CRC32_TABLE = Uint32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc
+})
+
+// CRC-32 checksum of ZIP entries
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data.readUInt8(i)) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date fields of ZIP headers (local time, 2s precision)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * ZIP archive with deflated entries and UTF-8 file names
+ */
+export function createZipArchive(
+  files: ArchiveFile[],
+  modifiedAt: Date = new Date()
+): Buffer {
+  const { time, date } = dosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.path, 'utf8')
+    const data = Buffer.from(file.content, 'utf8')
+    const compressed = deflateRawSync(data)
+    const checksum = crc32(data)
+
+    // Shared by the local and central headers: version needed (2.0),
+    // flags (UTF-8 names), method (deflate), time, date, CRC and sizes
+    const fields = Buffer.alloc(26)
+    fields.writeUInt16LE(20, 0)
+    fields.writeUInt16LE(0x0800, 2)
+    fields.writeUInt16LE(8, 4)
+    fields.writeUInt16LE(time, 6)
+    fields.writeUInt16LE(date, 8)
+    fields.writeUInt32LE(checksum, 10)
+    fields.writeUInt32LE(compressed.length, 14)
+    fields.writeUInt32LE(data.length, 18)
+    fields.writeUInt16LE(name.length, 22)
+    fields.writeUInt16LE(0, 24) // extra field length
+
+    const local = Buffer.alloc(4)
+    local.writeUInt32LE(0x04034b50, 0)
+    localParts.push(local, fields, name, compressed)
+
+    const central = Buffer.alloc(6)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    // Comment length, disk number, attributes and local header offset
+    const location = Buffer.alloc(14)
+    location.writeUInt32LE(offset, 10)
+    centralParts.push(central, fields, location, name)
+
+    offset += local.length + fields.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+// Write an octal tar header field, NUL-terminated
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+) {
+  header.write(
+    `${value.toString(8).padStart(length - 1, '0')}\0`,
+    offset,
+    'ascii'
+  )
+}
+
+// Split a path into the ustar name (100 bytes) and prefix (155 bytes)
+function splitTarPath(path: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: '' }
+
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i)
+    const name = path.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix }
+    }
+  }
+  throw new Error(`Path too long for a tar archive: ${path}`)
+}
+
+/**
+ * Gzipped tar archive (ustar format) of regular files
+ */
+export function createTarGzArchive(
+  files: ArchiveFile[],
+  modifiedAt: Date = new Date()
+): Buffer {
+  const blocks: Buffer[] = []
+  const mtime = Math.floor(modifiedAt.getTime() / 1000)
+
+  for (const file of files) {
+    const data = Buffer.from(file.content, 'utf8')
+    const { name, prefix } = splitTarPath(file.path)
+
+    const header = Buffer.alloc(512)
+    header.write(name, 0, 'utf8')
+    writeOctal(header, 0o644, 100, 8)
+    writeOctal(header, 0, 108, 8) // uid
+    writeOctal(header, 0, 116, 8) // gid
+    writeOctal(header, data.length, 124, 12)
+    writeOctal(header, mtime, 136, 12)
+    header.write('0', 156, 'ascii') // regular file
+    header.write('ustar\u000000', 257, 'ascii')
+    header.write(prefix, 345, 'utf8')
+
+    // The checksum is computed with its own field filled with spaces
+    header.fill(' ', 148, 156)
+    const checksum = header.reduce((sum, byte) => sum + byte, 0)
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii')
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512))
+  }
+
+  // Two empty blocks end the archive
+  blocks.push(Buffer.alloc(1024))
+
+  return gzipSync(Buffer.concat(blocks))
+}
+
+/**
+ * Pack generated files and their manifest into a downloadable archive
+ */
+export function createProjectArchive(
+  format: ArchiveFormat,
+  project: {
+    name: string
+    templateId: string
+    files: ArchiveFile[]
+    promptVersions: Record<string, string | null>
+  },
+  generatedAt: Date = new Date()
+): ProjectArchive {
+  const folder = toPackageName(project.name)
+  const files = [
+    ...project.files,
+    {
+      path: ARCHIVE_MANIFEST_PATH,
+      content: renderArchiveManifest(
+        project.name,
+        project.templateId,
+        project.promptVersions,
+        generatedAt
+      ),
+    },
+  ].map(file => ({ ...file, path: `${folder}/${file.path}` }))
+
+  return {
+    body:
+      format === 'zip'
+        ? createZipArchive(files, generatedAt)
+        : createTarGzArchive(files, generatedAt),
+    filename: `${folder}.${format}`,
+    contentType: CONTENT_TYPES.get(format)!,
+  }
+}
@@ -1,11 +1,78 @@
-import { anthropic } from './ai'
-import { validateTypeScriptCode, validateMarkdown } from './code-validator'
+import { meteredComplete, type AICallContext } from './ai-usage'
+import { evictCachedCompletion } from './ai-cache'
+import { completeStructured, type StructuredResult } from './ai-structured'
+import type { CompletionRequest } from './llm-provider'
+import {
+  renderPrompt,
+  type PromptVariables,
+  type RenderedPrompt,
+} from './prompts'
+import { answerFields, screenPromptInput } from './prompt-safety'
+import { settleGeneratedFile, type GenerationAttempt } from './code-repair'
+import {
+  DEFAULT_STACK_SELECTION,
+  describeStack,
+  getSelectedOption,
+  listSelectedOptions,
+  type StackSelection,
+} from './tech-stack'
+import {
+  dataModelSchema,
+  EMPTY_DATA_MODEL,
+  MAX_ENTITIES,
+  MAX_ENTITY_FIELDS,
+  normalizeDataModel,
+  type DataModel,
+} from './data-model'
+import {
+  MAX_SHARED_COMPONENTS,
+  MAX_SITE_PAGES,
+  normalizeSiteMap,
+  pageComponentName,
+  SINGLE_PAGE_SITE_MAP,
+  siteMapSchema,
+  type SharedComponent,
+  type SiteMap,
+  type SitePage,
+} from './site-map'
+import {
+  jsxText,
+  markdownText,
+  renderTemplateFiles,
+  selectTemplate,
+  templateVariables,
+  tsStringLiteral,
+  type TemplateManifest,
+} from './templates'
 
 export type ProjectTemplate = {
+  // Manifest ID of the template the project was generated from
+  templateId: string
+  // Pages and shared components the files were generated for
+  siteMap: SiteMap
+  // Database entities of the data layer (empty without one)
+  dataModel: DataModel
   files: Array<{
     path: string
     content: string
   }>
+  // Prompt reference ("<id>@<version>") for each AI-generated file path,
+  // the site map and the data model, or null where canned fallback content
+  // was used
+  promptVersions: Record<string, string | null>
+  // Every validation of the AI-generated files, including repairs
+  attempts: GenerationAttempt[]
+}
+
+// AI-generated file content and the prompt that produced it
+// (promptVersion is null when canned fallback content was used)
+type GeneratedContent = {
+  content: string
+  promptVersion: string | null
+  // Canned content, used when the AI output fails validation for good
+  fallback: string
+  // Drops the cached AI response so a rejected file is regenerated next time
+  discard?: () => Promise<void>
 }
 
 export type ValidationError = {
@@ -18,208 +85,69 @@ export type ValidationError = {
 export class ProjectGenerationError extends Error {
   constructor(
     message: string,
-    public validationErrors: ValidationError[]
+    public validationErrors: ValidationError[],
+    public attempts: GenerationAttempt[] = []
   ) {
     super(message)
     this.name = 'ProjectGenerationError'
   }
 }
 
-// Generate package.json content
-function generatePackageJson(projectName: string): string {
-  const sanitizedName = projectName.toLowerCase().replace(/\s+/g, '-')
-
-  return JSON.stringify(
-    {
-      name: sanitizedName,
-      version: '0.1.0',
-      private: true,
-      scripts: {
-        dev: 'next dev',
-        build: 'next build',
-        start: 'next start',
-        lint: 'next lint',
-      },
-      dependencies: {
-        react: '^18.3.1',
-        'react-dom': '^18.3.1',
-        next: '^14.2.18',
-      },
-      devDependencies: {
-        typescript: '^5',
-        '@types/node': '^20',
-        '@types/react': '^18',
-        '@types/react-dom': '^18',
-        tailwindcss: '^3.4.1',
-        postcss: '^8',
-        autoprefixer: '^10.4.20',
-        eslint: '^8',
-        'eslint-config-next': '14.2.18',
-      },
-    },
-    null,
-    2
-  )
-}
-
-// Generate tsconfig.json
-function generateTsConfig(): string {
-  return JSON.stringify(
-    {
-      compilerOptions: {
-        lib: ['dom', 'dom.iterable', 'esnext'],
-        allowJs: true,
-        skipLibCheck: true,
-        strict: true,
-        noEmit: true,
-        esModuleInterop: true,
-        module: 'esnext',
-        moduleResolution: 'bundler',
-        resolveJsonModule: true,
-        isolatedModules: true,
-        jsx: 'preserve',
-        incremental: true,
-        plugins: [
-          {
-            name: 'next',
-          },
-        ],
-        paths: {
-          '@/*': ['./src/*'],
-        },
-      },
-      include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
-      exclude: ['node_modules'],
-    },
-    null,
-    2
-  )
-}
-
-// Generate next.config.js
-function generateNextConfig(): string {
-  return `/** @type {import('next').NextConfig} */
-const nextConfig = {}
-
-export default nextConfig
-`
-}
-
-// Generate tailwind.config.ts
-function generateTailwindConfig(): string {
-  return `import type { Config } from "tailwindcss";
-
-const config: Config = {
-  content: [
-    "./src/pages/**/*.{js,ts,jsx,tsx,mdx}",
-    "./src/components/**/*.{js,ts,jsx,tsx,mdx}",
-    "./src/app/**/*.{js,ts,jsx,tsx,mdx}",
-  ],
-  theme: {
-    extend: {},
-  },
-  plugins: [],
-};
-export default config;
-`
-}
-
-// Generate postcss.config.mjs
-function generatePostCssConfig(): string {
-  return `export default {
-  plugins: {
-    tailwindcss: {},
-    autoprefixer: {},
-  },
-};
-`
-}
-
-// Generate .gitignore
-function generateGitignore(): string {
-  return `# dependencies
-/node_modules
-/.pnp
-.pnp.js
-
-# testing
-/coverage
-
-# next.js
-/.next/
-/out/
-
-# production
-/build
-
-# misc
-.DS_Store
-*.pem
-
-# debug
-npm-debug.log*
-yarn-debug.log*
-yarn-error.log*
-
-# local env files
-.env*.local
-.env
-
-# vercel
-.vercel
-
-# typescript
-*.tsbuildinfo
-next-env.d.ts
-`
-}
-
 // Generate README.md with AI
 async function generateReadme(
   projectName: string,
   projectDescription: string,
-  requirements: Array<{ question: string; answer: string }>
-): Promise<string> {
-  const prompt = `Generate a professional README.md for a Next.js project called "${projectName}".
-
-Description: ${projectDescription}
-
-Requirements summary:
-${requirements.map((r, i) => `${i + 1}. ${r.question}: ${r.answer}`).join('\n')}
-
-Include:
-- Project title and description
-- Features list
-- Getting started instructions
-- Tech stack
-- Folder structure
-
-Return ONLY the markdown content, no code fences.`
+  requirements: Array<{ question: string; answer: string }>,
+  stack: StackSelection,
+  manifest: TemplateManifest,
+  context?: AICallContext
+): Promise<GeneratedContent> {
+  const prompt = renderPrompt('readme', {
+    projectName,
+    projectDescription,
+    requirements,
+    techStack: describeStack(stack),
+    framework: getSelectedOption(stack, 'framework')?.label,
+  })
+  const fallback = readmeFallback(
+    projectName,
+    projectDescription,
+    stack,
+    manifest
+  )
 
   try {
-    const response = await anthropic().messages.create({
-      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    })
+    const request: CompletionRequest = {
+      operation: 'readme',
+      prompt: prompt.text,
+      maxTokens: 2048,
+      promptVersion: prompt.ref,
+    }
+    const response = await meteredComplete(request, context)
 
-    const content = response.content[0]
-    if (content.type === 'text') {
-      return content.text
+    return {
+      content: response.text,
+      promptVersion: prompt.ref,
+      fallback,
+      discard: () => evictCachedCompletion(request),
     }
   } catch (error) {
     console.error('Failed to generate README with AI:', error)
   }
 
-  // Fallback README
-  return `# ${projectName}
+  return { content: fallback, promptVersion: null, fallback }
+}
+
+// Canned README used when the AI is unavailable
+function readmeFallback(
+  projectName: string,
+  projectDescription: string,
+  stack: StackSelection,
+  manifest: TemplateManifest
+): string {
+  return `# ${markdownText(projectName)}
 
-${projectDescription}
+${markdownText(projectDescription)}
 
 ## Getting Started
 
@@ -235,93 +163,160 @@ Then, run the development server:
 npm run dev
 \`\`\`
 
-Open [http://localhost:3000](http://localhost:3000) with your browser to see the result.
+Open [${manifest.devUrl}](${manifest.devUrl}) with your browser to see the result.
 
 ## Tech Stack
 
-- **Next.js 14** - React framework with App Router
 - **TypeScript** - Type safety
-- **Tailwind CSS** - Utility-first styling
+${listSelectedOptions(stack)
+  .map(option => `- **${option.label}** - ${option.summary}`)
+  .join('\n')}
 
 ## Project Structure
 
 \`\`\`
-src/
-├── app/          # Next.js App Router pages
-├── components/   # Reusable components
-└── lib/          # Utility functions
+${manifest.structure.join('\n')}
 \`\`\`
 
 ## Learn More
 
-- [Next.js Documentation](https://nextjs.org/docs)
-- [Tailwind CSS](https://tailwindcss.com/docs)
+${manifest.docs.map(doc => `- [${doc.label}](${doc.url})`).join('\n')}
 `
 }
 
-// Generate home page with AI customization
-async function generateHomePage(
+// Plan the pages and shared components of the app; a single home page
+// if the AI fails
+async function generateSiteMap(
   projectName: string,
-  requirements: Array<{ question: string; answer: string }>
-): Promise<string> {
-  const prompt = `Generate a Next.js 14 App Router page.tsx component for "${projectName}".
+  projectDescription: string,
+  requirements: Array<{ question: string; answer: string }>,
+  context?: AICallContext
+): Promise<StructuredResult<SiteMap>> {
+  const prompt = renderPrompt('site-map', {
+    projectName,
+    projectDescription,
+    requirements,
+    maxPages: MAX_SITE_PAGES,
+    maxComponents: MAX_SHARED_COMPONENTS,
+  })
 
-Requirements:
-${requirements.map((r, i) => `${i + 1}. ${r.question}: ${r.answer}`).join('\n')}
+  try {
+    const result = await completeStructured({
+      operation: 'sitemap',
+      prompt: prompt.text,
+      maxTokens: 1536,
+      schema: siteMapSchema,
+      fallback: SINGLE_PAGE_SITE_MAP,
+      context,
+      promptVersion: prompt.ref,
+    })
 
-Create a simple, professional landing page with:
-- Hero section with project name
-- Brief description
-- 2-3 feature cards based on requirements
-- Tailwind CSS styling
-- TypeScript
-- Use "use client" if needed
+    return { ...result, data: normalizeSiteMap(result.data) }
+  } catch (error) {
+    console.error('Failed to generate site map with AI:', error)
+  }
 
-Return ONLY the React component code, no explanation.`
+  return { data: SINGLE_PAGE_SITE_MAP, fallbackUsed: true, attempts: 1 }
+}
+
+// Infer the database entities the requirements need; an empty model if
+// the AI fails
+async function generateDataModel(
+  projectName: string,
+  projectDescription: string,
+  requirements: Array<{ question: string; answer: string }>,
+  context?: AICallContext
+): Promise<StructuredResult<DataModel>> {
+  const prompt = renderPrompt('data-model', {
+    projectName,
+    projectDescription,
+    requirements,
+    maxEntities: MAX_ENTITIES,
+    maxFields: MAX_ENTITY_FIELDS,
+  })
 
   try {
-    const response = await anthropic().messages.create({
-      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const result = await completeStructured({
+      operation: 'datamodel',
+      prompt: prompt.text,
+      maxTokens: 2048,
+      schema: dataModelSchema,
+      fallback: EMPTY_DATA_MODEL,
+      context,
+      promptVersion: prompt.ref,
     })
 
-    const content = response.content[0]
-    if (content.type === 'text') {
-      // Extract code from potential markdown code blocks
+    return { ...result, data: normalizeDataModel(result.data) }
+  } catch (error) {
+    console.error('Failed to generate data model with AI:', error)
+  }
+
+  return { data: EMPTY_DATA_MODEL, fallbackUsed: true, attempts: 1 }
+}
+
+// Prompt context describing the other pages and shared components
+type SiteMapContext = PromptVariables['page']['siteMap']
+
+// Strip markdown code fences the model may wrap code in
+function extractCode(text: string): string {
+  return (
+    text
       // eslint-disable-next-line security/detect-unsafe-regex
-      const code = content.text
-        // eslint-disable-next-line security/detect-unsafe-regex
-        .replace(/```(?:tsx?|jsx?|typescript|javascript)?\n?/g, '')
-        .replace(/```$/g, '')
-        .trim()
-      return code
+      .replace(/```(?:tsx?|jsx?|typescript|javascript)?\n?/g, '')
+      .replace(/```$/g, '')
+      .trim()
+  )
+}
+
+// Generate a page or component file with AI, or use the fallback code
+async function generateCodeFile(
+  operation: 'homepage' | 'page' | 'component',
+  prompt: RenderedPrompt,
+  fallback: string,
+  context?: AICallContext
+): Promise<GeneratedContent> {
+  try {
+    const request: CompletionRequest = {
+      operation,
+      prompt: prompt.text,
+      maxTokens: 2048,
+      promptVersion: prompt.ref,
+    }
+    const response = await meteredComplete(request, context)
+
+    return {
+      content: extractCode(response.text),
+      promptVersion: prompt.ref,
+      fallback,
+      discard: () => evictCachedCompletion(request),
     }
   } catch (error) {
-    console.error('Failed to generate home page with AI:', error)
+    console.error(`Failed to generate ${operation} with AI:`, error)
   }
 
-  // Fallback home page
+  return { content: fallback, promptVersion: null, fallback }
+}
+
+// Canned home page used when the AI is unavailable
+function homePageFallback(
+  projectName: string,
+  manifest: TemplateManifest
+): string {
   return `export default function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-24">
       <div className="max-w-5xl w-full">
         <h1 className="text-6xl font-bold text-center mb-8">
-          ${projectName}
+          ${jsxText(projectName)}
         </h1>
         <p className="text-xl text-center text-gray-600 mb-12">
-          Welcome to your new Next.js project!
+          Welcome to your new ${manifest.label} project!
         </p>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           <div className="p-6 border border-gray-200 rounded-lg">
             <h2 className="text-2xl font-semibold mb-4">⚡ Fast</h2>
             <p className="text-gray-600">
-              Built with Next.js 14 for optimal performance
+              ${manifest.homePage.tagline}
             </p>
           </div>
           <div className="p-6 border border-gray-200 rounded-lg">
@@ -344,116 +339,294 @@ Return ONLY the React component code, no explanation.`
 `
 }
 
-// Generate complete project template
-export async function generateProjectTemplate(
+// Generate home page with AI customization
+function generateHomePage(
   projectName: string,
-  projectDescription: string,
-  requirements: Array<{ question: string; answer: string }>
-): Promise<ProjectTemplate> {
-  // Generate AI content
-  const [readme, homePage] = await Promise.all([
-    generateReadme(projectName, projectDescription, requirements),
-    generateHomePage(projectName, requirements),
-  ])
-
-  // Validate AI-generated content
-  const validationErrors: ValidationError[] = []
-
-  // Validate README.md
-  const readmeValidation = validateMarkdown(readme)
-  if (!readmeValidation.isValid || readmeValidation.securityIssues.length > 0) {
-    validationErrors.push({
-      file: 'README.md',
-      errors: readmeValidation.errors,
-      warnings: readmeValidation.warnings,
-      securityIssues: readmeValidation.securityIssues,
-    })
-  }
-
-  // Validate page.tsx (React component)
-  const pageValidation = await validateTypeScriptCode(homePage, 'page.tsx', {
-    enableTypeCheck: false, // Skip TypeScript checking to avoid dependency issues
-    enableLinting: false, // Skip ESLint to avoid setup complexity
-    enableSecurityScan: true,
-    maxFileSize: 50_000,
+  requirements: Array<{ question: string; answer: string }>,
+  manifest: TemplateManifest,
+  framework: string,
+  siteMap: SiteMapContext,
+  context?: AICallContext
+): Promise<GeneratedContent> {
+  const prompt = renderPrompt('homepage', {
+    projectName,
+    requirements,
+    page: {
+      framework,
+      path: manifest.homePage.path,
+      notes: manifest.homePage.notes,
+    },
+    siteMap,
   })
 
-  if (!pageValidation.isValid || pageValidation.securityIssues.length > 0) {
-    validationErrors.push({
-      file: 'src/app/page.tsx',
-      errors: pageValidation.errors,
-      warnings: pageValidation.warnings,
-      securityIssues: pageValidation.securityIssues,
-    })
-  }
-
-  // If validation failed, throw error with details
-  if (validationErrors.length > 0) {
-    const hasSecurityIssues = validationErrors.some(
-      e => e.securityIssues.length > 0
-    )
-    const hasCriticalErrors = validationErrors.some(e => e.errors.length > 0)
+  return generateCodeFile(
+    'homepage',
+    prompt,
+    homePageFallback(projectName, manifest),
+    context
+  )
+}
 
-    if (hasSecurityIssues || hasCriticalErrors) {
-      throw new ProjectGenerationError(
-        'AI-generated code failed security and quality validation',
-        validationErrors
-      )
-    }
-  }
+// Generate another page of the site map
+function generatePage(
+  projectName: string,
+  requirements: Array<{ question: string; answer: string }>,
+  page: SitePage,
+  path: string,
+  manifest: TemplateManifest,
+  framework: string,
+  siteMap: SiteMapContext,
+  context?: AICallContext
+): Promise<GeneratedContent> {
+  const prompt = renderPrompt('page', {
+    projectName,
+    requirements,
+    page: { framework, path, notes: manifest.homePage.notes },
+    route: page,
+    siteMap,
+  })
 
-  const files = [
-    // Configuration files
-    { path: 'package.json', content: generatePackageJson(projectName) },
-    { path: 'tsconfig.json', content: generateTsConfig() },
-    { path: 'next.config.js', content: generateNextConfig() },
-    { path: 'tailwind.config.ts', content: generateTailwindConfig() },
-    { path: 'postcss.config.mjs', content: generatePostCssConfig() },
-    { path: '.gitignore', content: generateGitignore() },
-    { path: 'README.md', content: readme },
-
-    // App structure
-    {
-      path: 'src/app/layout.tsx',
-      content: `import type { Metadata } from 'next'
-import './globals.css'
-
-export const metadata: Metadata = {
-  title: '${projectName}',
-  description: '${projectDescription}',
+  const features = page.features.length
+    ? `
+      <ul className="list-disc pl-6 space-y-2 text-gray-700">
+${page.features.map(feature => `        <li>${jsxText(feature)}</li>`).join('\n')}
+      </ul>`
+    : ''
+
+  return generateCodeFile(
+    'page',
+    prompt,
+    `export default function ${pageComponentName(page.route)}() {
+  return (
+    <main className="mx-auto max-w-3xl px-6 py-16">
+      <h1 className="text-4xl font-bold mb-4">${jsxText(page.name)}</h1>
+      <p className="text-lg text-gray-600 mb-8">${jsxText(page.purpose)}</p>${features}
+    </main>
+  )
+}
+`,
+    context
+  )
 }
 
-export default function RootLayout({
+// Generate a component shared by several pages
+function generateSharedComponent(
+  projectName: string,
+  component: SharedComponent,
+  usedOn: string[],
+  path: string,
+  manifest: TemplateManifest,
+  framework: string,
+  context?: AICallContext
+): Promise<GeneratedContent> {
+  const prompt = renderPrompt('component', {
+    projectName,
+    component: { ...component, usedOn },
+    target: { framework, path, notes: manifest.homePage.notes },
+  })
+
+  return generateCodeFile(
+    'component',
+    prompt,
+    `export default function ${component.name}({
+  title = ${tsStringLiteral(component.name)},
   children,
 }: {
-  children: React.ReactNode
+  title?: string
+  children?: React.ReactNode
 }) {
   return (
-    <html lang="en">
-      <body className="font-sans antialiased">{children}</body>
-    </html>
+    <section className="p-6 border border-gray-200 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">{title}</h2>
+      {children ?? <p className="text-gray-600">${jsxText(component.purpose)}</p>}
+    </section>
   )
 }
 `,
-    },
-    { path: 'src/app/page.tsx', content: homePage },
-    {
-      path: 'src/app/globals.css',
-      content: `@tailwind base;
-@tailwind components;
-@tailwind utilities;
-`,
-    },
+    context
+  )
+}
 
-    // Environment example
-    {
-      path: '.env.example',
-      content: `# Add your environment variables here
-# DATABASE_URL=
-# API_KEY=
-`,
-    },
+// Generate a complete project from the template for the selected stack:
+// README, a site map and (with a database) a data model, then one file per
+// page and shared component
+export async function generateProjectTemplate(
+  projectName: string,
+  projectDescription: string,
+  requirements: Array<{ question: string; answer: string }>,
+  stack: StackSelection = DEFAULT_STACK_SELECTION,
+  context?: AICallContext
+): Promise<ProjectTemplate> {
+  // Every generation prompt shares the same user input; screen it once
+  screenPromptInput(
+    'generate',
+    { projectName, projectDescription, ...answerFields(requirements) },
+    context
+  )
+
+  const template = selectTemplate(stack)
+  const { manifest } = template
+  const framework =
+    getSelectedOption(stack, 'framework')?.label ?? manifest.label
+
+  // Generate AI content
+  const [readmeResult, siteMapResult, dataModelResult] = await Promise.all([
+    generateReadme(
+      projectName,
+      projectDescription,
+      requirements,
+      stack,
+      manifest,
+      context
+    ),
+    generateSiteMap(projectName, projectDescription, requirements, context),
+    manifest.dataModel
+      ? generateDataModel(
+          projectName,
+          projectDescription,
+          requirements,
+          context
+        )
+      : null,
+  ])
+  const siteMap = siteMapResult.data
+  const dataModel = dataModelResult?.data ?? EMPTY_DATA_MODEL
+
+  const siteMapContext: SiteMapContext = {
+    pages: siteMap.pages.map(({ route, name, purpose }) => ({
+      route,
+      name,
+      purpose,
+    })),
+    components: siteMap.components,
+    componentImport: manifest.routing.componentImport,
+    linkNote: manifest.routing.linkNote,
+  }
+
+  const codeFiles = await Promise.all([
+    ...siteMap.pages.map(async page => {
+      const path =
+        page.route === '/'
+          ? manifest.homePage.path
+          : manifest.routing.pagePath(page.route, pageComponentName(page.route))
+      const operation = page.route === '/' ? 'homepage' : 'page'
+      const result =
+        page.route === '/'
+          ? await generateHomePage(
+              projectName,
+              requirements,
+              manifest,
+              framework,
+              siteMapContext,
+              context
+            )
+          : await generatePage(
+              projectName,
+              requirements,
+              page,
+              path,
+              manifest,
+              framework,
+              siteMapContext,
+              context
+            )
+      return {
+        path,
+        operation,
+        fileKind: `${framework} page`,
+        result,
+      } as const
+    }),
+    ...siteMap.components.map(async component => {
+      const path = `${manifest.routing.componentDir}/${component.name}.tsx`
+      const usedOn = siteMap.pages
+        .filter(page => page.components.includes(component.name))
+        .map(page => page.name)
+      const result = await generateSharedComponent(
+        projectName,
+        component,
+        usedOn,
+        path,
+        manifest,
+        framework,
+        context
+      )
+      return {
+        path,
+        operation: 'component',
+        fileKind: `${framework} component`,
+        result,
+      } as const
+    }),
+  ])
+
+  // Validate AI-generated content, repairing rejected files
+  const settled = await Promise.all(
+    [
+      {
+        path: 'README.md',
+        operation: 'readme',
+        fileKind: 'project README',
+        result: readmeResult,
+      } as const,
+      ...codeFiles,
+    ].map(({ path, operation, fileKind, result }) =>
+      settleGeneratedFile({ path, operation, fileKind, ...result }, context)
+    )
+  )
+  const attempts = settled.flatMap(file => file.attempts)
+
+  // Only files whose fallback was rejected too are unrecoverable
+  const validationErrors: ValidationError[] = settled.flatMap(file =>
+    file.failure
+      ? [
+          {
+            file: file.path,
+            errors: file.failure.errors,
+            warnings: file.failure.warnings,
+            securityIssues: file.failure.securityIssues,
+          },
+        ]
+      : []
+  )
+  if (validationErrors.length > 0) {
+    throw new ProjectGenerationError(
+      'AI-generated code failed security and quality validation',
+      validationErrors,
+      attempts
+    )
+  }
+
+  const files = [
+    ...renderTemplateFiles(
+      template,
+      templateVariables(
+        projectName,
+        projectDescription,
+        stack,
+        siteMap,
+        dataModel
+      )
+    ),
+    ...settled.map(({ path, content }) => ({ path, content })),
   ]
 
-  return { files }
+  const promptVersions = {
+    siteMap: siteMapResult.promptVersion ?? null,
+    ...(dataModelResult
+      ? { dataModel: dataModelResult.promptVersion ?? null }
+      : {}),
+    ...Object.fromEntries(
+      settled.map(({ path, promptVersion }) => [path, promptVersion])
+    ),
+  }
+
+  return {
+    templateId: manifest.id,
+    siteMap,
+    dataModel,
+    files,
+    promptVersions,
+    attempts,
+  }
 }
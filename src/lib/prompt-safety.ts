@@ -0,0 +1,142 @@
+import { logger } from './logger'
+import type { AICallContext } from './ai-usage'
+
+/**
+ * Prompt-Injection Hardening
+ *
+ * User-supplied text (project name, description, requirement answers) is
+ * interpolated into LLM prompts. Before it goes in, it is sanitized and
+ * fenced in <user_input> tags that the prompts tell the model to treat as
+ * data only. Text that looks like an attempt to steer the model is reported
+ * as a security event; it is not rejected, since the fence already keeps it
+ * from being read as instructions and false positives must not block users.
+ */
+
+export const USER_INPUT_TAG = 'user_input'
+
+// Longest user value interpolated into a prompt (matches the answer limit)
+export const MAX_USER_CONTENT_LENGTH = 5000
+
+// Instruction-like payloads, keyed by the name reported in security events
+const INJECTION_PATTERNS: ReadonlyArray<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'ignore-instructions',
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\b.{0,40}\b(?:previous|prior|above|earlier|all|system)\b.{0,20}\b(?:instructions?|prompts?|rules|directions)\b/i,
+  },
+  {
+    name: 'fake-system-tag',
+    pattern:
+      /<\s*\/?\s*(?:system|assistant|instructions?)\s*>|\[\/?(?:INST|SYS)\]|<\|im_(?:start|end)\|>|<<\/?SYS>>/i,
+  },
+  {
+    name: 'role-prefix',
+    pattern: /^\s*#*\s*(?:system|assistant)\s*:/im,
+  },
+  {
+    name: 'role-override',
+    pattern:
+      /\byou are (?:now|no longer)\b|\bfrom now on,? (?:you|ignore|respond|reply)\b|\bnew (?:system )?instructions?\s*:/i,
+  },
+  {
+    name: 'prompt-leak',
+    pattern:
+      /\b(?:reveal|print|show|repeat|output)\b.{0,30}\b(?:system prompt|your instructions|the prompt above)\b/i,
+  },
+]
+
+// Zero-width and bidirectional control characters used to hide payloads
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g
+
+// Opening or closing fence tags smuggled into user content
+const FENCE_TAG = /<\s*\/?\s*user_input\b[^>]*>/gi
+
+function isControlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return (code < 0x20 && char !== '\n' && char !== '\t') || code === 0x7f
+}
+
+/**
+ * Normalize user content before it is interpolated into a prompt
+ *
+ * Strips control and invisible characters, neutralizes fence tags so the
+ * content cannot close its own fence, and caps the length.
+ */
+export function sanitizeUserContent(
+  text: string,
+  maxLength: number = MAX_USER_CONTENT_LENGTH
+): string {
+  const cleaned = Array.from(text.normalize('NFKC').replace(/\r\n?/g, '\n'))
+    .filter(char => !isControlCharacter(char))
+    .join('')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(FENCE_TAG, '[removed tag]')
+    .trim()
+
+  return cleaned.length > maxLength ? cleaned.slice(0, maxLength) : cleaned
+}
+
+/**
+ * Wrap sanitized user content in the delimiter the prompts refer to
+ */
+export function fenceUserContent(
+  text: string | undefined,
+  maxLength: number = MAX_USER_CONTENT_LENGTH
+): string {
+  return `<${USER_INPUT_TAG}>${sanitizeUserContent(text ?? '', maxLength)}</${USER_INPUT_TAG}>`
+}
+
+/**
+ * Name the injection patterns found in a piece of user content
+ */
+export function detectInjection(text: string): string[] {
+  const normalized = sanitizeUserContent(text, Number.MAX_SAFE_INTEGER)
+
+  return INJECTION_PATTERNS.filter(({ pattern }) =>
+    pattern.test(normalized)
+  ).map(({ name }) => name)
+}
+
+/**
+ * Screen the user-supplied fields of a prompt and report suspicious ones
+ *
+ * Fields are named (e.g. "projectName", "answer_3") so the security event
+ * points at the offending input without copying it into the logs.
+ * Returns the findings for callers that want to act on them.
+ */
+export function screenPromptInput(
+  operation: string,
+  fields: Record<string, string | null | undefined>,
+  context: AICallContext = {}
+): Array<{ field: string; patterns: string[] }> {
+  const findings = Object.entries(fields)
+    .map(([field, value]) => ({
+      field,
+      patterns: value ? detectInjection(value) : [],
+    }))
+    .filter(finding => finding.patterns.length > 0)
+
+  if (findings.length > 0) {
+    logger.logSecurityEvent('prompt_injection_suspected', 'medium', {
+      userId: context.userId,
+      metadata: {
+        aiOperation: operation,
+        projectId: context.projectId,
+        findings,
+      },
+    })
+  }
+
+  return findings
+}
+
+/**
+ * Name requirement answers for screening ("answer_1", "answer_2", ...)
+ */
+export function answerFields(
+  requirements: Array<{ answer: string }>
+): Record<string, string> {
+  return Object.fromEntries(
+    requirements.map((r, i) => [`answer_${i + 1}`, r.answer])
+  )
+}
@@ -0,0 +1,336 @@
+/**
+ * Project-Type Question Flows
+ *
+ * The requirements wizard asks different questions depending on what is
+ * being built: a store needs to know about products and payments, a blog
+ * about authors and publishing. Each project type has a question bank (also
+ * used as the canned fallback), the topics the AI should focus on and a
+ * strategy for follow-up questions.
+ *
+ * The type is chosen by the user when creating a project or inferred from
+ * its name and description (keywords first, the AI classifier otherwise).
+ */
+
+// Mirrors the ProjectType enum in prisma/schema.prisma
+export const PROJECT_TYPES = [
+  'SAAS',
+  'MARKETPLACE',
+  'ECOMMERCE',
+  'BLOG',
+  'INTERNAL_TOOL',
+  'LANDING_PAGE',
+  'PORTFOLIO',
+  'OTHER',
+] as const
+
+export type ProjectType = (typeof PROJECT_TYPES)[number]
+
+export interface QuestionFlow {
+  type: ProjectType
+  label: string
+  // One-line description, used by the classifier prompt and the UI
+  summary: string
+  // Words and phrases in a name/description that suggest this type
+  keywords: string[]
+  // Topics the initial questions should cover
+  focus: string[]
+  // Question bank: examples for the AI and the canned fallback
+  questions: string[]
+  // Guidance for choosing follow-up questions
+  followUpStrategy: string
+}
+
+const QUESTION_FLOWS: Record<ProjectType, QuestionFlow> = {
+  SAAS: {
+    type: 'SAAS',
+    label: 'SaaS app',
+    summary: 'Subscription software people sign up for and use regularly',
+    keywords: [
+      'saas',
+      'subscription',
+      'dashboard',
+      'platform',
+      'workspace',
+      'crm',
+      'analytics',
+      'tracker',
+      'app for teams',
+    ],
+    focus: [
+      'Who signs up and what job they need done',
+      'The core workflow users repeat',
+      'Accounts, teams and permissions',
+      'Pricing plans and what is free',
+    ],
+    questions: [
+      'Who is the main user that signs up, and what job are they trying to get done?',
+      'What is the one workflow they will repeat most often in your app?',
+      'Will people use it alone, or invite teammates with different permissions?',
+      'How do you plan to charge: free, a monthly subscription, or usage-based?',
+      'What data do users need to import, export or connect from other tools?',
+    ],
+    followUpStrategy:
+      'Dig into the core workflow step by step, then accounts and billing. Skip storefront or content-publishing topics.',
+  },
+  MARKETPLACE: {
+    type: 'MARKETPLACE',
+    label: 'Marketplace',
+    summary:
+      'Connects two groups, such as buyers and sellers or clients and providers',
+    keywords: [
+      'marketplace',
+      'buyers',
+      'sellers',
+      'vendors',
+      'listings',
+      'booking',
+      'hire',
+      'freelancers',
+      'rent',
+      'two-sided',
+      'connect',
+    ],
+    focus: [
+      'The two sides of the marketplace and what each wants',
+      'How listings are created and discovered',
+      'How transactions, bookings and payments work',
+      'Trust: reviews, verification and disputes',
+    ],
+    questions: [
+      'Who are the two sides of your marketplace, and which side will you attract first?',
+      'What does a listing contain, and who creates it?',
+      'How do people find what they need: search, categories, a map, or recommendations?',
+      'How does a transaction happen, and do you take a commission?',
+      'How will users trust each other: reviews, verified profiles, or something else?',
+    ],
+    followUpStrategy:
+      'Balance questions between both sides of the marketplace, then cover payments and trust. Avoid single-user productivity topics.',
+  },
+  ECOMMERCE: {
+    type: 'ECOMMERCE',
+    label: 'Online store',
+    summary: 'Sells products directly to customers',
+    keywords: [
+      'store',
+      'shop',
+      'ecommerce',
+      'e-commerce',
+      'products',
+      'sell',
+      'checkout',
+      'cart',
+      'merch',
+      'inventory',
+      'orders',
+    ],
+    focus: [
+      'What is sold and how the catalog is organized',
+      'Checkout, payments and taxes',
+      'Shipping, fulfilment and returns',
+      'Inventory and order management',
+    ],
+    questions: [
+      'What will you sell, and roughly how many products will the store start with?',
+      'Do products have variants such as sizes or colors?',
+      'How should customers pay, and in which currencies?',
+      'How will orders be shipped or delivered, and what is your returns policy?',
+      'Who manages inventory and orders day to day?',
+    ],
+    followUpStrategy:
+      'Follow the buying journey from browsing to delivery. Ask about payments and shipping before nice-to-haves. Never ask about team accounts or subscriptions unless the user mentions them.',
+  },
+  BLOG: {
+    type: 'BLOG',
+    label: 'Blog or content site',
+    summary: 'Publishes articles, posts or other content for readers',
+    keywords: [
+      'blog',
+      'posts',
+      'articles',
+      'newsletter',
+      'magazine',
+      'content',
+      'writing',
+      'publication',
+      'podcast',
+      'recipes',
+    ],
+    focus: [
+      'Topics and audience',
+      'Who writes and how content is published',
+      'How readers discover and follow content',
+      'Comments, newsletters and monetization',
+    ],
+    questions: [
+      'What topics will you publish, and who are your readers?',
+      'Who writes the content, and how often will you publish?',
+      'How should posts be organized: categories, tags, series?',
+      'Do readers need comments, a newsletter signup, or accounts?',
+      'Do you plan to earn money from the content, and how?',
+    ],
+    followUpStrategy:
+      'Focus on the publishing workflow and the reader experience. Skip payments and inventory unless monetization was mentioned.',
+  },
+  INTERNAL_TOOL: {
+    type: 'INTERNAL_TOOL',
+    label: 'Internal tool',
+    summary: 'Used by a team or company to run its own operations',
+    keywords: [
+      'internal',
+      'admin',
+      'back office',
+      'employees',
+      'staff',
+      'team tool',
+      'inventory',
+      'approval',
+      'workflow',
+      'reporting',
+    ],
+    focus: [
+      'Which team uses it and what process it replaces',
+      'The data it manages and where it lives today',
+      'Roles, approvals and access control',
+      'Reports and integrations with existing tools',
+    ],
+    questions: [
+      'Which team will use this tool, and what process does it replace (spreadsheets, email, paper)?',
+      'What records or data will the tool manage?',
+      'Who can view, edit or approve things?',
+      'Which existing tools or data sources should it connect to?',
+      'What reports or summaries does the team need?',
+    ],
+    followUpStrategy:
+      'Map the process being replaced, then roles and data. Marketing, SEO and public sign-up are out of scope.',
+  },
+  LANDING_PAGE: {
+    type: 'LANDING_PAGE',
+    label: 'Landing page',
+    summary:
+      'A single page that presents an offer and collects signups or leads',
+    keywords: [
+      'landing page',
+      'waitlist',
+      'launch',
+      'coming soon',
+      'signup page',
+      'leads',
+      'promo',
+      'event page',
+    ],
+    focus: [
+      'The offer and the audience',
+      'The single action visitors should take',
+      'Sections and content on the page',
+      'Where signups or leads should go',
+    ],
+    questions: [
+      'What are you offering, and who is the page for?',
+      'What is the one thing a visitor should do: join a waitlist, book a call, buy?',
+      'What sections should the page have (features, pricing, testimonials, FAQ)?',
+      'Where should signups or leads be sent?',
+      'Do you have branding, copy or images ready?',
+    ],
+    followUpStrategy:
+      'Keep it to one page. Clarify the call to action and the content, not accounts or data models.',
+  },
+  PORTFOLIO: {
+    type: 'PORTFOLIO',
+    label: 'Portfolio or personal site',
+    summary: 'Showcases a person or studio and their work',
+    keywords: [
+      'portfolio',
+      'personal site',
+      'personal website',
+      'resume',
+      'cv',
+      'showcase',
+      'my work',
+      'photography',
+      'freelance',
+    ],
+    focus: [
+      'Who the site represents and who should see it',
+      'Which work to showcase and how',
+      'How visitors get in touch',
+    ],
+    questions: [
+      'Who is the site about, and who should it impress?',
+      'What work do you want to showcase, and how many pieces?',
+      'Should each project have its own page with details?',
+      'How should visitors contact you or hire you?',
+      'Is there a style or existing site you like?',
+    ],
+    followUpStrategy:
+      'Focus on presentation of the work and the contact path. Skip payments, accounts and admin features.',
+  },
+  OTHER: {
+    type: 'OTHER',
+    label: 'Other',
+    summary: 'Anything that does not fit the other types',
+    keywords: [],
+    focus: [
+      'Who are the users?',
+      'What problem does this solve?',
+      'What are the core features (MVP only)?',
+      'Any specific constraints or preferences?',
+    ],
+    questions: [
+      'Who is your target user or audience?',
+      "What's the main problem you're trying to solve?",
+      'What are the 3 most important features for your MVP?',
+      'Do you have any design or branding preferences?',
+      'Are there any existing apps or websites similar to what you want?',
+    ],
+    followUpStrategy: 'Focus on gaps or ambiguities in the answers so far.',
+  },
+}
+
+const FLOWS_BY_TYPE = new Map(
+  Object.entries(QUESTION_FLOWS) as Array<[ProjectType, QuestionFlow]>
+)
+
+/**
+ * Look up the question flow for a project type
+ */
+export function getQuestionFlow(type: ProjectType): QuestionFlow {
+  return FLOWS_BY_TYPE.get(type) ?? QUESTION_FLOWS.OTHER
+}
+
+/**
+ * List every flow (in PROJECT_TYPES order) for pickers and prompts
+ */
+export function listQuestionFlows(): QuestionFlow[] {
+  return PROJECT_TYPES.map(getQuestionFlow)
+}
+
+/**
+ * Infer a project type from keywords in its name and description
+ *
+ * Returns null when nothing matches or two types match equally well, so
+ * the caller can fall back to the AI classifier.
+ */
+export function classifyProjectTypeByKeywords(
+  name: string,
+  description?: string
+): ProjectType | null {
+  const words = `${name} ${description ?? ''}`
+    .toLowerCase()
+    .match(/[a-z0-9-]+/g)
+  if (!words) return null
+
+  const text = ` ${words.join(' ')} `
+  const scores = listQuestionFlows()
+    .map(flow => ({
+      type: flow.type,
+      score: flow.keywords.filter(keyword => text.includes(` ${keyword} `))
+        .length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  if (scores.length === 0) return null
+  if (scores.length > 1 && scores[0].score === scores[1].score) return null
+
+  return scores[0].type
+}
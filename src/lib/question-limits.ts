@@ -0,0 +1,65 @@
+/**
+ * Requirements Question Limits
+ *
+ * How many questions the requirements chat asks is bounded per plan
+ * (User.plan) and can be tuned per project (Project.minQuestions and
+ * Project.maxQuestions, clamped to the plan's ceiling).
+ *
+ * - minQuestions: answers needed before the user can finish early, and
+ *   before the AI may stop asking follow-ups
+ * - maxQuestions: no follow-up or extra questions are added past this
+ */
+
+export const PLANS = ['FREE', 'PRO'] as const
+
+export type Plan = (typeof PLANS)[number]
+
+export interface QuestionLimits {
+  minQuestions: number
+  maxQuestions: number
+}
+
+type PlanQuestionLimits = QuestionLimits & {
+  // Highest maxQuestions a project on this plan may set
+  ceiling: number
+}
+
+const PLAN_QUESTION_LIMITS = new Map<Plan, PlanQuestionLimits>([
+  ['FREE', { minQuestions: 3, maxQuestions: 10, ceiling: 15 }],
+  ['PRO', { minQuestions: 3, maxQuestions: 15, ceiling: 40 }],
+])
+
+// FREE plan defaults, for callers without a project's limits
+export const DEFAULT_QUESTION_LIMITS: QuestionLimits = {
+  minQuestions: 3,
+  maxQuestions: 10,
+}
+
+// Most questions a single "expand" action can add
+export const MAX_EXPAND_QUESTIONS = 5
+
+/**
+ * Work out the question limits for a project on a plan
+ *
+ * Project settings override the plan defaults but never exceed the plan's
+ * ceiling, and the minimum never exceeds the maximum.
+ */
+export function resolveQuestionLimits(
+  plan: Plan | null | undefined,
+  project: { minQuestions?: number | null; maxQuestions?: number | null }
+): QuestionLimits {
+  const planLimits =
+    PLAN_QUESTION_LIMITS.get(plan ?? 'FREE') ??
+    PLAN_QUESTION_LIMITS.get('FREE')!
+
+  const maxQuestions = Math.min(
+    Math.max(project.maxQuestions ?? planLimits.maxQuestions, 1),
+    planLimits.ceiling
+  )
+  const minQuestions = Math.min(
+    Math.max(project.minQuestions ?? planLimits.minQuestions, 0),
+    maxQuestions
+  )
+
+  return { minQuestions, maxQuestions }
+}
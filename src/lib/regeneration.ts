@@ -0,0 +1,156 @@
+import {
+  createBranch,
+  createFiles,
+  createPullRequest,
+  getFileContent,
+  getRepository,
+  parseRepositoryUrl,
+} from './github'
+
+/**
+ * Regeneration via Pull Request
+ *
+ * Once a project has a repository, generating it again must not overwrite
+ * what the user changed on the default branch. The new file set is compared
+ * with the default branch, the added and changed files are committed to a
+ * fresh branch, and a pull request summarizing them is opened so the user
+ * decides what to merge. Files the generator no longer produces are left
+ * alone.
+ */
+
+export type RegeneratedFileStatus = 'added' | 'changed' | 'unchanged'
+
+export interface RegeneratedFile {
+  path: string
+  status: RegeneratedFileStatus
+}
+
+export interface RegenerationResult {
+  // Both null when the repository already matches the generated files
+  branch: string | null
+  pullRequest: { url: string; number: number } | null
+  files: RegeneratedFile[]
+}
+
+/**
+ * Name of the branch a regeneration is pushed to, unique to the second
+ */
+export function regenerationBranchName(at: Date = new Date()): string {
+  const timestamp = at
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+  return `shipsensei/regenerate-${timestamp}`
+}
+
+/**
+ * Compare generated files with the repository's versions (null when the
+ * repository has no such file), keeping the generated order
+ */
+export function classifyRegeneratedFiles(
+  files: Array<{ path: string; content: string }>,
+  existing: Map<string, string | null>
+): RegeneratedFile[] {
+  return files.map(file => {
+    const current = existing.get(file.path) ?? null
+    return {
+      path: file.path,
+      status:
+        current === null
+          ? 'added'
+          : current === file.content
+            ? 'unchanged'
+            : 'changed',
+    }
+  })
+}
+
+/**
+ * Pull request description: the added and changed files, and how many
+ * were left as they are
+ */
+export function renderPullRequestBody(
+  projectName: string,
+  files: RegeneratedFile[]
+): string {
+  const added = files.filter(file => file.status === 'added')
+  const changed = files.filter(file => file.status === 'changed')
+  const unchanged = files.length - added.length - changed.length
+
+  const sections = [
+    `Regenerated **${projectName}** with ShipSensei from the current requirements and tech stack.`,
+    'Review the changes before merging: nothing on the default branch was overwritten.',
+  ]
+  if (changed.length > 0) {
+    sections.push(
+      `### Changed files (${changed.length})\n\n${changed.map(file => `- \`${file.path}\``).join('\n')}`
+    )
+  }
+  if (added.length > 0) {
+    sections.push(
+      `### Added files (${added.length})\n\n${added.map(file => `- \`${file.path}\``).join('\n')}`
+    )
+  }
+  if (unchanged > 0) {
+    sections.push(
+      `${unchanged} generated file${unchanged === 1 ? ' is' : 's are'} unchanged.`
+    )
+  }
+
+  return `${sections.join('\n\n')}\n`
+}
+
+/**
+ * Push a regenerated file set to a new branch of the project's repository
+ * and open a pull request into the default branch
+ */
+export async function openRegenerationPullRequest(
+  accessToken: string,
+  repositoryUrl: string,
+  projectName: string,
+  files: Array<{ path: string; content: string }>,
+  at: Date = new Date()
+): Promise<RegenerationResult> {
+  const location = parseRepositoryUrl(repositoryUrl)
+  if (!location) {
+    throw new Error(`Invalid repository URL: ${repositoryUrl}`)
+  }
+  const { owner, repo } = location
+
+  const repository = await getRepository(accessToken, owner, repo)
+  const base = repository.defaultBranch
+
+  const existing = new Map<string, string | null>()
+  for (const file of files) {
+    existing.set(
+      file.path,
+      await getFileContent(accessToken, owner, repo, file.path, base)
+    )
+  }
+
+  const regenerated = classifyRegeneratedFiles(files, existing)
+  const outdated = new Set(
+    regenerated
+      .filter(file => file.status !== 'unchanged')
+      .map(file => file.path)
+  )
+  const toPush = files.filter(file => outdated.has(file.path))
+
+  if (toPush.length === 0) {
+    return { branch: null, pullRequest: null, files: regenerated }
+  }
+
+  const branch = regenerationBranchName(at)
+  await createBranch(accessToken, owner, repo, branch, base)
+  await createFiles(accessToken, owner, repo, toPush, branch)
+
+  const pullRequest = await createPullRequest(accessToken, owner, repo, {
+    title: `Regenerate ${projectName}`,
+    body: renderPullRequestBody(projectName, regenerated),
+    head: branch,
+    base,
+  })
+
+  return { branch, pullRequest, files: regenerated }
+}
@@ -0,0 +1,217 @@
+import { z } from 'zod'
+import { completeStructured, type StructuredResult } from './ai-structured'
+import type { AICallContext } from './ai-usage'
+import { renderPrompt } from './prompts'
+import { answerFields, screenPromptInput } from './prompt-safety'
+
+/**
+ * Requirements Analysis
+ *
+ * Reviews the answered requirements before a tech stack is recommended:
+ * scores how complete they are and flags contradictory answers, vague
+ * answers and gaps. Findings point at the Requirement IDs involved so the
+ * project page can show them next to the conversation.
+ *
+ * Unanswered questions and non-answers ("not sure") are found by simple
+ * checks; the AI reviews the rest. If the AI fails, the simple checks are
+ * still returned.
+ */
+
+export const FINDING_TYPES = ['contradiction', 'vague', 'gap'] as const
+export const FINDING_SEVERITIES = ['high', 'medium', 'low'] as const
+
+export type FindingType = (typeof FINDING_TYPES)[number]
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number]
+
+export interface RequirementFinding {
+  type: FindingType
+  severity: FindingSeverity
+  // Requirements involved (empty for gaps no answer covers)
+  requirementIds: string[]
+  message: string
+  suggestion: string
+}
+
+export interface RequirementsAnalysis {
+  // 0-100: how ready the requirements are to build an MVP from
+  completeness: number
+  summary: string
+  findings: RequirementFinding[]
+}
+
+type AnalyzedRequirement = {
+  id: string
+  question: string
+  answer: string | null
+}
+
+// Answers that say nothing about the project
+const NON_ANSWERS =
+  /^(?:idk|i don'?t know|not sure|no idea|dunno|maybe|n\/a|na|tbd|whatever|anything|\?+)[.!]*$/i
+
+// Output schema for the requirements-analysis prompt
+const analysisSchema = z.object({
+  completeness: z.number().int().min(0).max(100),
+  summary: z.string().trim().min(1).max(500),
+  findings: z
+    .array(
+      z.object({
+        type: z.enum(FINDING_TYPES),
+        severity: z.enum(FINDING_SEVERITIES),
+        requirements: z.array(z.string().trim()).max(10),
+        message: z.string().trim().min(1).max(500),
+        suggestion: z.string().trim().min(1).max(500),
+      })
+    )
+    .max(20),
+})
+
+const SEVERITY_ORDER = new Map<FindingSeverity, number>([
+  ['high', 0],
+  ['medium', 1],
+  ['low', 2],
+])
+
+/**
+ * Find unanswered questions and non-answers without calling the AI
+ */
+export function detectUnusableAnswers(
+  requirements: AnalyzedRequirement[]
+): RequirementFinding[] {
+  return requirements.flatMap((requirement): RequirementFinding[] => {
+    const answer = requirement.answer?.trim()
+
+    if (!answer) {
+      return [
+        {
+          type: 'gap',
+          severity: 'medium',
+          requirementIds: [requirement.id],
+          message: 'This question has not been answered yet.',
+          suggestion: `Answer: "${requirement.question}"`,
+        },
+      ]
+    }
+
+    if (NON_ANSWERS.test(answer)) {
+      return [
+        {
+          type: 'vague',
+          severity: 'medium',
+          requirementIds: [requirement.id],
+          message: `"${answer}" does not give enough detail to build from.`,
+          suggestion:
+            'Give your best guess, even a rough one. You can change it later.',
+        },
+      ]
+    }
+
+    return []
+  })
+}
+
+/**
+ * Score completeness as the share of questions with a usable answer
+ */
+function baselineCompleteness(
+  requirements: AnalyzedRequirement[],
+  unusable: RequirementFinding[]
+): number {
+  if (requirements.length === 0) return 0
+
+  const usable = requirements.length - unusable.length
+  return Math.round((usable / requirements.length) * 100)
+}
+
+/**
+ * Analyze requirements for completeness, contradictions, vagueness and gaps
+ */
+export async function analyzeRequirements(
+  projectName: string,
+  projectDescription: string | undefined,
+  requirements: AnalyzedRequirement[],
+  context?: AICallContext
+): Promise<StructuredResult<RequirementsAnalysis>> {
+  const unusable = detectUnusableAnswers(requirements)
+  const unusableIds = new Set(unusable.flatMap(f => f.requirementIds))
+  const baseline = baselineCompleteness(requirements, unusable)
+
+  // Only usable answers go to the model, labelled R1, R2, ... so findings
+  // can be mapped back to Requirement IDs
+  const reviewed = requirements
+    .filter(r => !unusableIds.has(r.id))
+    .map((r, i) => ({
+      ref: `R${i + 1}`,
+      id: r.id,
+      question: r.question,
+      answer: r.answer!,
+    }))
+  const idsByRef = new Map(reviewed.map(r => [r.ref, r.id]))
+
+  const fallback: z.infer<typeof analysisSchema> = {
+    completeness: baseline,
+    summary:
+      unusable.length > 0
+        ? `${unusable.length} of ${requirements.length} questions still need a usable answer.`
+        : 'Every question has an answer.',
+    findings: [],
+  }
+
+  let result: StructuredResult<z.infer<typeof analysisSchema>> = {
+    data: fallback,
+    fallbackUsed: false,
+    attempts: 0,
+  }
+
+  if (reviewed.length > 0) {
+    screenPromptInput(
+      'analysis',
+      { projectName, projectDescription, ...answerFields(reviewed) },
+      context
+    )
+    const prompt = renderPrompt('requirements-analysis', {
+      projectName,
+      projectDescription,
+      requirements: reviewed,
+    })
+
+    result = await completeStructured({
+      operation: 'analysis',
+      prompt: prompt.text,
+      maxTokens: 2048,
+      schema: analysisSchema,
+      fallback,
+      context,
+      promptVersion: prompt.ref,
+    })
+  }
+
+  const aiFindings = result.data.findings.flatMap(
+    ({ requirements: refs, ...finding }): RequirementFinding[] => {
+      const requirementIds = refs
+        .map(ref => idsByRef.get(ref.toUpperCase()))
+        .filter((id): id is string => id !== undefined)
+
+      // A contradiction or vague answer must point at real answers
+      if (requirementIds.length === 0 && finding.type !== 'gap') return []
+
+      return [{ ...finding, requirementIds }]
+    }
+  )
+
+  const findings = [...unusable, ...aiFindings].sort(
+    (a, b) =>
+      (SEVERITY_ORDER.get(a.severity) ?? 0) -
+      (SEVERITY_ORDER.get(b.severity) ?? 0)
+  )
+
+  return {
+    ...result,
+    data: {
+      // Requirements cannot be more complete than their usable answers
+      completeness: Math.min(result.data.completeness, baseline),
+      summary: result.data.summary,
+      findings,
+    },
+  }
+}
@@ -0,0 +1,310 @@
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { completeStructured, type StructuredResult } from './ai-structured'
+import type { AICallContext } from './ai-usage'
+import { renderPrompt } from './prompts'
+import { answerFields, screenPromptInput } from './prompt-safety'
+
+/**
+ * Product Requirements Documents (PRD)
+ *
+ * Turns the answered requirements into a structured PRD: problem, personas,
+ * user stories with acceptance criteria, non-goals and open questions. Each
+ * generation is stored as a new version of the project's document together
+ * with the interview it was built from, so an export always matches the
+ * answers behind it. Documents export as JSON or Markdown, and the latest
+ * one is committed to generated repositories as docs/REQUIREMENTS.md.
+ */
+
+type QA = { question: string; answer: string }
+
+export const USER_STORY_PRIORITIES = ['must', 'should', 'could'] as const
+
+const PRIORITY_LABELS = new Map<string, string>([
+  ['must', 'Must have'],
+  ['should', 'Should have'],
+  ['could', 'Could have'],
+])
+
+// Path of the document inside generated repositories
+export const REQUIREMENTS_DOCUMENT_PATH = 'docs/REQUIREMENTS.md'
+
+const listItem = z.string().trim().min(1).max(500)
+
+// Output schema for the requirements-document prompt
+const requirementsDocumentSchema = z.object({
+  summary: z.string().trim().min(1).max(1000),
+  problem: z.string().trim().min(1).max(2000),
+  personas: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().min(1).max(500),
+        goals: z.array(listItem).max(10),
+      })
+    )
+    .max(10),
+  userStories: z
+    .array(
+      z.object({
+        persona: z.string().trim().min(1).max(100),
+        story: z.string().trim().min(1).max(500),
+        acceptanceCriteria: z.array(listItem).min(1).max(10),
+        priority: z.enum(USER_STORY_PRIORITIES),
+      })
+    )
+    .max(30),
+  nonGoals: z.array(listItem).max(20),
+  openQuestions: z.array(listItem).max(20),
+})
+
+export type RequirementsDocumentContent = z.infer<
+  typeof requirementsDocumentSchema
+> & {
+  // The answered questions the document was generated from
+  interview: QA[]
+}
+
+export interface RequirementsDocument {
+  id: string
+  projectId: string
+  version: number
+  content: RequirementsDocumentContent
+  // Prompt reference that produced it; null for the canned fallback
+  promptVersion: string | null
+  createdAt: Date
+}
+
+type RequirementsDocumentRow = Omit<RequirementsDocument, 'content'> & {
+  content: Prisma.JsonValue
+}
+
+function toRequirementsDocument(
+  row: RequirementsDocumentRow
+): RequirementsDocument {
+  return {
+    ...row,
+    content: row.content as unknown as RequirementsDocumentContent,
+  }
+}
+
+// Used when the model cannot produce a valid document: the interview is
+// still exported, the sections are left for the user to fill in
+function fallbackDocument(
+  projectName: string,
+  projectDescription: string | undefined
+): z.infer<typeof requirementsDocumentSchema> {
+  return {
+    summary: projectDescription || projectName,
+    problem:
+      projectDescription ||
+      'Not described yet. See the discovery interview below.',
+    personas: [],
+    userStories: [],
+    nonGoals: [],
+    openQuestions: [
+      'This document could not be generated automatically. Review the discovery interview and regenerate it.',
+    ],
+  }
+}
+
+/**
+ * Generate a PRD from the answered requirements
+ */
+export async function generateRequirementsDocument(
+  projectName: string,
+  projectDescription: string | undefined,
+  requirements: QA[],
+  context?: AICallContext
+): Promise<StructuredResult<RequirementsDocumentContent>> {
+  screenPromptInput(
+    'prd',
+    { projectName, projectDescription, ...answerFields(requirements) },
+    context
+  )
+  const prompt = renderPrompt('requirements-document', {
+    projectName,
+    projectDescription,
+    requirements,
+  })
+
+  const result = await completeStructured({
+    operation: 'prd',
+    prompt: prompt.text,
+    maxTokens: 4096,
+    schema: requirementsDocumentSchema,
+    fallback: fallbackDocument(projectName, projectDescription),
+    context,
+    promptVersion: prompt.ref,
+  })
+
+  return {
+    ...result,
+    data: { ...result.data, interview: requirements },
+  }
+}
+
+/**
+ * Store a generated document as the project's next version
+ */
+export async function saveRequirementsDocument(
+  projectId: string,
+  result: StructuredResult<RequirementsDocumentContent>
+): Promise<RequirementsDocument> {
+  // The unique (projectId, version) index rejects a concurrent save that
+  // picked the same version number
+  const row = await prisma.$transaction(async tx => {
+    const latest = await tx.requirementsDocument.findFirst({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+
+    return tx.requirementsDocument.create({
+      data: {
+        projectId,
+        version: (latest?.version ?? 0) + 1,
+        content: result.data as unknown as Prisma.InputJsonValue,
+        promptVersion: result.promptVersion ?? null,
+      },
+    })
+  })
+
+  return toRequirementsDocument(row)
+}
+
+/**
+ * Load a stored document (the latest version unless one is given)
+ */
+export async function getRequirementsDocument(
+  projectId: string,
+  version?: number
+): Promise<RequirementsDocument | null> {
+  const row = await prisma.requirementsDocument.findFirst({
+    where: { projectId, ...(version !== undefined && { version }) },
+    orderBy: { version: 'desc' },
+  })
+
+  return row ? toRequirementsDocument(row) : null
+}
+
+/**
+ * List the stored versions of a project's document, newest first
+ */
+export async function listRequirementsDocumentVersions(
+  projectId: string
+): Promise<Array<{ version: number; createdAt: Date }>> {
+  return prisma.requirementsDocument.findMany({
+    where: { projectId },
+    orderBy: { version: 'desc' },
+    select: { version: true, createdAt: true },
+  })
+}
+
+/**
+ * Return the latest document, generating a new version first when there is
+ * none, the answers changed after it was generated, or it is the fallback
+ * document saved while the AI was unavailable (no prompt version)
+ */
+export async function ensureRequirementsDocument(
+  project: { id: string; name: string; description: string | null },
+  requirements: Array<QA & { updatedAt: Date }>,
+  context?: AICallContext
+): Promise<RequirementsDocument> {
+  const latest = await getRequirementsDocument(project.id)
+  const isCurrent =
+    latest !== null &&
+    latest.promptVersion !== null &&
+    latest.content.interview.length === requirements.length &&
+    requirements.every(r => r.updatedAt.getTime() <= latest.createdAt.getTime())
+
+  if (isCurrent) return latest
+
+  const result = await generateRequirementsDocument(
+    project.name,
+    project.description || undefined,
+    requirements.map(r => ({ question: r.question, answer: r.answer })),
+    context
+  )
+
+  return saveRequirementsDocument(project.id, result)
+}
+
+function bulletList(items: string[]): string {
+  return items.length > 0
+    ? items.map(item => `- ${item}`).join('\n')
+    : '_None yet._'
+}
+
+/**
+ * Render a stored document as Markdown
+ */
+export function renderRequirementsMarkdown(
+  projectName: string,
+  document: Pick<RequirementsDocument, 'version' | 'content' | 'createdAt'>
+): string {
+  const { content } = document
+
+  const personas =
+    content.personas.length > 0
+      ? content.personas
+          .map(
+            persona =>
+              `### ${persona.name}\n\n${persona.description}\n\n**Goals**\n\n${bulletList(persona.goals)}`
+          )
+          .join('\n\n')
+      : '_None yet._'
+
+  const userStories =
+    content.userStories.length > 0
+      ? content.userStories
+          .map(
+            (story, i) =>
+              `### ${i + 1}. ${story.story}\n\n` +
+              `**Persona:** ${story.persona} · **Priority:** ${PRIORITY_LABELS.get(story.priority) ?? story.priority}\n\n` +
+              `**Acceptance criteria**\n\n${story.acceptanceCriteria.map(c => `- [ ] ${c}`).join('\n')}`
+          )
+          .join('\n\n')
+      : '_None yet._'
+
+  const interview =
+    content.interview.length > 0
+      ? content.interview
+          .map((qa, i) => `**Q${i + 1}. ${qa.question}**\n\n${qa.answer}`)
+          .join('\n\n')
+      : '_No answers recorded._'
+
+  return `# ${projectName}: Product Requirements
+
+_Version ${document.version}, generated ${document.createdAt.toISOString().slice(0, 10)} by ShipSensei_
+
+## Summary
+
+${content.summary}
+
+## Problem
+
+${content.problem}
+
+## Personas
+
+${personas}
+
+## User Stories
+
+${userStories}
+
+## Non-Goals
+
+${bulletList(content.nonGoals)}
+
+## Open Questions
+
+${bulletList(content.openQuestions)}
+
+## Appendix: Discovery Interview
+
+${interview}
+`
+}
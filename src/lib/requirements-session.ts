@@ -0,0 +1,146 @@
+import { prisma } from './prisma'
+import { generateTopicQuestions, suggestAnswers } from './ai'
+import type { ProjectType } from './question-flows'
+import type { AICallContext } from './ai-usage'
+import type { QuestionLimits } from './question-limits'
+
+/**
+ * Requirements Session Actions
+ *
+ * Besides answering, the user can finish the requirements chat early
+ * ("I'm done, generate now"), which drops open questions and stops
+ * follow-ups, or expand it by asking for a few more questions on a chosen
+ * topic. Both respect the project's question limits (see question-limits).
+ * When stuck on a question, the user can ask for suggested answers.
+ */
+
+export class RequirementsSessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RequirementsSessionError'
+  }
+}
+
+type SessionRequirement = {
+  question: string
+  answer: string | null
+}
+
+function answeredHistory(requirements: SessionRequirement[]) {
+  return requirements
+    .filter(r => r.answer)
+    .map(r => ({ question: r.question, answer: r.answer! }))
+}
+
+/**
+ * End the requirements chat early
+ *
+ * Needs at least minQuestions answers. Open questions are removed so
+ * the project can move on to a tech stack, and no more follow-ups are asked.
+ */
+export async function finishRequirementsSession(
+  projectId: string,
+  requirements: SessionRequirement[],
+  limits: QuestionLimits
+) {
+  const answered = requirements.filter(r => r.answer).length
+
+  if (answered < limits.minQuestions) {
+    throw new RequirementsSessionError(
+      `Answer at least ${limits.minQuestions} questions before finishing`
+    )
+  }
+
+  // Skipped questions stay: the user already saw and settled them
+  await prisma.requirement.deleteMany({
+    where: { projectId, answer: null, skipped: false },
+  })
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { requirementsClosedAt: new Date() },
+  })
+
+  return prisma.requirement.findMany({
+    where: { projectId },
+    orderBy: { order: 'asc' },
+  })
+}
+
+/**
+ * Ask for up to `count` more questions about a topic
+ *
+ * The count is reduced to what is left under maxQuestions.
+ */
+export async function expandRequirementsSession(
+  project: { id: string; name: string },
+  requirements: SessionRequirement[],
+  topic: string,
+  count: number,
+  limits: QuestionLimits,
+  context?: AICallContext
+) {
+  const remaining = limits.maxQuestions - requirements.length
+
+  if (remaining <= 0) {
+    throw new RequirementsSessionError(
+      `This project is limited to ${limits.maxQuestions} questions`
+    )
+  }
+
+  const {
+    data: questions,
+    fallbackUsed,
+    promptVersion,
+  } = await generateTopicQuestions(
+    project.name,
+    answeredHistory(requirements),
+    topic,
+    Math.min(count, remaining),
+    context
+  )
+
+  await prisma.requirement.createMany({
+    data: questions.map((question, index) => ({
+      projectId: project.id,
+      question,
+      answer: null,
+      order: requirements.length + index,
+      promptVersion: promptVersion ?? null,
+    })),
+  })
+
+  const updated = await prisma.requirement.findMany({
+    where: { projectId: project.id },
+    orderBy: { order: 'asc' },
+  })
+
+  return { requirements: updated, fallbackUsed }
+}
+
+/**
+ * Suggest answers for one of the project's questions
+ *
+ * Returns null when the requirement is not part of the project.
+ */
+export async function suggestRequirementAnswers(
+  project: {
+    name: string
+    projectType: ProjectType | null
+    requirements: Array<SessionRequirement & { id: string }>
+  },
+  requirementId: string,
+  context?: AICallContext
+) {
+  const requirement = project.requirements.find(r => r.id === requirementId)
+  if (!requirement) return null
+
+  const { data: suggestions, fallbackUsed } = await suggestAnswers(
+    project.name,
+    requirement.question,
+    answeredHistory(project.requirements),
+    project.projectType,
+    context
+  )
+
+  return { suggestions, fallbackUsed }
+}
@@ -0,0 +1,177 @@
+import { z } from 'zod'
+
+/**
+ * Site Maps for Multi-Page Generation
+ *
+ * Before generating code, the project generator has the AI plan the app
+ * from the answered requirements: which pages the MVP features need, which of them appear
+ * in the navigation, and which UI pieces several pages share. The project
+ * generator then writes one file per page and per shared component, and
+ * the template wires them together with a shared layout and navigation.
+ *
+ * The plan is cleaned up before use (home page first, unique routes,
+ * unknown components dropped). If the AI fails, the site is a single
+ * home page, as before.
+ */
+
+export const MAX_SITE_PAGES = 6
+export const MAX_SHARED_COMPONENTS = 4
+
+export interface SitePage {
+  // "/" for the home page, otherwise e.g. "/menu" or "/orders/new"
+  route: string
+  // Navigation label
+  name: string
+  purpose: string
+  // MVP features shown on the page
+  features: string[]
+  // Shared components the page uses
+  components: string[]
+  inNavigation: boolean
+}
+
+export interface SharedComponent {
+  // PascalCase component and file name
+  name: string
+  purpose: string
+}
+
+export interface SiteMap {
+  pages: SitePage[]
+  components: SharedComponent[]
+}
+
+// Generated by the template, so never planned by the AI
+const RESERVED_COMPONENT_NAMES = ['Navigation', 'Layout']
+
+const HOME_PAGE: SitePage = {
+  route: '/',
+  name: 'Home',
+  purpose: 'Introduce the project and its main features',
+  features: [],
+  components: [],
+  inNavigation: true,
+}
+
+export const SINGLE_PAGE_SITE_MAP: SiteMap = {
+  pages: [HOME_PAGE],
+  components: [],
+}
+
+// Output schema for the site-map prompt (limits are enforced afterwards)
+export const siteMapSchema = z.object({
+  pages: z
+    .array(
+      z.object({
+        route: z
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(/^\/[a-z0-9/-]*$/),
+        name: z.string().trim().min(1).max(40),
+        purpose: z.string().trim().min(1).max(300),
+        features: z.array(z.string().trim().min(1).max(200)).max(8),
+        components: z.array(z.string().trim()).max(MAX_SHARED_COMPONENTS),
+        inNavigation: z.boolean(),
+      })
+    )
+    .min(1)
+    .max(MAX_SITE_PAGES * 2),
+  components: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .trim()
+          .regex(/^[A-Z][A-Za-z0-9]*$/),
+        purpose: z.string().trim().min(1).max(300),
+      })
+    )
+    .max(MAX_SHARED_COMPONENTS * 2),
+})
+
+// "/orders//new/" -> "/orders/new"
+function cleanRoute(route: string): string {
+  const segments = route
+    .split('/')
+    .map(segment => segment.replace(/^-+|-+$/g, ''))
+    .filter(Boolean)
+  return `/${segments.join('/')}`
+}
+
+/**
+ * Put a site map in the shape the generator relies on
+ *
+ * - the home page comes first (one is added if missing)
+ * - routes and page component names are unique ("/orders-new" and
+ *   "/orders/new" would both become OrdersNewPage; the first one is kept)
+ *   and at most MAX_SITE_PAGES pages are kept
+ * - shared components are unique, not reserved, not named like pages and
+ *   at most MAX_SHARED_COMPONENTS are kept
+ * - pages only reference components that exist
+ */
+export function normalizeSiteMap(siteMap: SiteMap): SiteMap {
+  const components: SharedComponent[] = []
+  for (const component of siteMap.components) {
+    if (
+      components.length < MAX_SHARED_COMPONENTS &&
+      !RESERVED_COMPONENT_NAMES.includes(component.name) &&
+      !component.name.endsWith('Page') &&
+      !components.some(existing => existing.name === component.name)
+    ) {
+      components.push(component)
+    }
+  }
+  const componentNames = new Set(components.map(c => c.name))
+
+  const byRoute = new Map<string, SitePage>()
+  for (const page of siteMap.pages) {
+    const route = cleanRoute(page.route)
+    if (!byRoute.has(route)) {
+      byRoute.set(route, {
+        ...page,
+        route,
+        components: Array.from(new Set(page.components)).filter(name =>
+          componentNames.has(name)
+        ),
+      })
+    }
+  }
+
+  const home = byRoute.get('/') ?? HOME_PAGE
+  byRoute.delete('/')
+
+  const pageNames = new Set<string>()
+  const pages = [home, ...Array.from(byRoute.values())]
+    .filter(page => {
+      const name = pageComponentName(page.route)
+      if (pageNames.has(name)) return false
+      pageNames.add(name)
+      return true
+    })
+    .slice(0, MAX_SITE_PAGES)
+
+  return { pages, components }
+}
+
+/**
+ * Name of the React component generated for a page
+ * ("/" -> "HomePage", "/orders/new" -> "OrdersNewPage")
+ */
+export function pageComponentName(route: string): string {
+  if (route === '/') return 'HomePage'
+
+  const words = route.split(/[/-]/).filter(Boolean)
+  const name = words
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+  // Identifiers cannot start with a digit
+  return /^\d/.test(name) ? `Page${name}` : `${name}Page`
+}
+
+/**
+ * Pages shown in the shared navigation
+ */
+export function navigationPages(siteMap: SiteMap): SitePage[] {
+  return siteMap.pages.filter(page => page.inNavigation)
+}
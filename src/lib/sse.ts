@@ -0,0 +1,114 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Shared by streaming API routes (encoding) and client components (decoding).
+ * Must stay free of server-only imports so it can be bundled for the browser.
+ */
+
+export interface SSEMessage {
+  event: string
+  data: unknown
+}
+
+export type SSESend = (event: string, data: unknown) => void
+
+/**
+ * Encode a single event in text/event-stream format
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Create a streaming Response that runs the handler and closes when it settles
+ *
+ * Errors thrown by the handler are reported as an `error` event rather than
+ * tearing down the connection, so clients always receive a terminal event.
+ */
+export function createSSEResponse(
+  handler: (send: SSESend) => Promise<void>,
+  onError?: (error: unknown) => string
+): Response {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        controller.enqueue(encoder.encode(formatSSE(event, data)))
+      }
+
+      try {
+        await handler(send)
+      } catch (error) {
+        send('error', {
+          error: onError ? onError(error) : 'Internal server error',
+        })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    },
+  })
+}
+
+/**
+ * Parse one raw event block ("event: x\ndata: {...}") into a message
+ */
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trim())
+    }
+  }
+
+  if (dataLines.length === 0) return null
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) }
+  } catch {
+    return { event, data: dataLines.join('\n') }
+  }
+}
+
+/**
+ * Read a text/event-stream body, invoking onMessage for each event
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    buffer += decoder.decode(chunk.value, { stream: true })
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() ?? ''
+
+    for (const block of blocks) {
+      const message = parseSSEBlock(block)
+      if (message) onMessage(message)
+    }
+  }
+
+  const trailing = parseSSEBlock(buffer)
+  if (trailing) onMessage(trailing)
+}
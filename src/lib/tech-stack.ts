@@ -0,0 +1,391 @@
+import { z } from 'zod'
+
+/**
+ * Tech Stack Catalog and Selection
+ *
+ * A stack is a choice of one option per component (framework, database,
+ * auth, hosting, styling, payments). The catalog below lists the options
+ * the project generator knows how to scaffold, with the packages, scripts
+ * and environment variables each one adds.
+ *
+ * Some options only work with certain frameworks (a Prisma database
+ * needs a server, @clerk/nextjs needs Next.js); those list the framework
+ * IDs they support, and normalizeStackSelection swaps them out when a
+ * different framework is chosen.
+ *
+ * The AI recommends two or three ranked alternatives built from these
+ * options; the user picks one or swaps individual components, and the
+ * resulting selection is stored on the project (Project.techStackSelection)
+ * for the generator to consume.
+ *
+ * Pure data and helpers only: imported by the project page as well.
+ */
+
+export const STACK_COMPONENTS = [
+  'framework',
+  'database',
+  'auth',
+  'hosting',
+  'styling',
+  'payments',
+] as const
+
+export type StackComponent = (typeof STACK_COMPONENTS)[number]
+
+export interface StackOption {
+  id: string
+  label: string
+  summary: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  scripts?: Record<string, string>
+  // Variables added to the generated .env.example
+  env?: string[]
+  // Framework option IDs this option works with (all when absent)
+  frameworks?: string[]
+}
+
+export const STACK_COMPONENT_LABELS = new Map<StackComponent, string>([
+  ['framework', 'Framework'],
+  ['database', 'Database'],
+  ['auth', 'Authentication'],
+  ['hosting', 'Hosting'],
+  ['styling', 'Styling'],
+  ['payments', 'Payments'],
+])
+
+// Options that need a Next.js server (API routes, server components)
+const NEXTJS_ONLY = ['nextjs']
+
+const PRISMA_PACKAGES = {
+  dependencies: { '@prisma/client': '^5.22.0' },
+  devDependencies: { prisma: '^5.22.0' },
+  scripts: { postinstall: 'prisma generate', 'db:push': 'prisma db push' },
+}
+
+// Options per component; the first one is the default
+const CATALOG = new Map<StackComponent, StackOption[]>([
+  [
+    'framework',
+    [
+      {
+        id: 'nextjs',
+        label: 'Next.js 14',
+        summary: 'React framework for pages and API routes in one project',
+      },
+      {
+        id: 'vite-react',
+        label: 'Vite + React',
+        summary: 'Fast single-page React app served as static files',
+      },
+      {
+        id: 'astro',
+        label: 'Astro',
+        summary: 'Content-focused static site that ships little JavaScript',
+      },
+    ],
+  ],
+  [
+    'database',
+    [
+      {
+        id: 'postgresql',
+        label: 'PostgreSQL + Prisma',
+        summary: 'Reliable relational database with a type-safe client',
+        ...PRISMA_PACKAGES,
+        env: ['DATABASE_URL'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'sqlite',
+        label: 'SQLite + Prisma',
+        summary: 'Single-file database, simplest to start with locally',
+        ...PRISMA_PACKAGES,
+        env: ['DATABASE_URL'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'supabase',
+        label: 'Supabase',
+        summary: 'Hosted Postgres with a dashboard and instant APIs',
+        dependencies: { '@supabase/supabase-js': '^2.45.4' },
+        env: ['NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'none',
+        label: 'No database',
+        summary: 'Static content only; add a database later if needed',
+      },
+    ],
+  ],
+  [
+    'auth',
+    [
+      {
+        id: 'nextauth',
+        label: 'NextAuth.js',
+        summary: 'Open-source sign-in with email, Google, GitHub and more',
+        dependencies: { 'next-auth': '^4.24.10' },
+        env: ['NEXTAUTH_URL', 'NEXTAUTH_SECRET'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'clerk',
+        label: 'Clerk',
+        summary: 'Hosted sign-in with ready-made UI and user management',
+        dependencies: { '@clerk/nextjs': '^5.7.5' },
+        env: ['NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY', 'CLERK_SECRET_KEY'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'none',
+        label: 'No accounts',
+        summary: 'Everything is public; nobody signs in',
+      },
+    ],
+  ],
+  [
+    'hosting',
+    [
+      {
+        id: 'vercel',
+        label: 'Vercel',
+        summary: 'One-click deploys from GitHub, made by the Next.js team',
+      },
+    ],
+  ],
+  [
+    'styling',
+    [
+      {
+        id: 'tailwind',
+        label: 'Tailwind CSS',
+        summary: 'Utility classes for fast, consistent styling',
+      },
+      {
+        id: 'shadcn',
+        label: 'Tailwind CSS + shadcn/ui',
+        summary: 'Tailwind plus copy-in accessible components',
+        dependencies: {
+          'class-variance-authority': '^0.7.0',
+          clsx: '^2.1.1',
+          'lucide-react': '^0.454.0',
+          'tailwind-merge': '^2.5.4',
+        },
+        frameworks: ['nextjs', 'vite-react'],
+      },
+    ],
+  ],
+  [
+    'payments',
+    [
+      {
+        id: 'none',
+        label: 'No payments',
+        summary: 'Nothing is sold in the app',
+      },
+      {
+        id: 'stripe',
+        label: 'Stripe',
+        summary: 'Card payments and subscriptions',
+        dependencies: { stripe: '^17.3.1', '@stripe/stripe-js': '^4.9.0' },
+        env: ['STRIPE_SECRET_KEY', 'NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY'],
+        frameworks: NEXTJS_ONLY,
+      },
+      {
+        id: 'lemonsqueezy',
+        label: 'Lemon Squeezy',
+        summary: 'Payments with sales tax handled for you',
+        dependencies: { '@lemonsqueezy/lemonsqueezy.js': '^3.3.1' },
+        env: ['LEMONSQUEEZY_API_KEY', 'LEMONSQUEEZY_STORE_ID'],
+        frameworks: NEXTJS_ONLY,
+      },
+    ],
+  ],
+])
+
+export type StackSelection = Record<StackComponent, string>
+
+export interface StackAlternative {
+  name: string
+  components: StackSelection
+  rationale: string
+  tradeoffs: string[]
+}
+
+export interface TechStackRecommendation {
+  // Ranked best first; the first alternative is the recommendation
+  alternatives: StackAlternative[]
+}
+
+/**
+ * Options available for a component (the first one is the default),
+ * optionally only those that work with a framework
+ */
+export function getStackOptions(
+  component: StackComponent,
+  framework?: string
+): StackOption[] {
+  const options = CATALOG.get(component) ?? []
+  return framework
+    ? options.filter(option => supportsFramework(option, framework))
+    : options
+}
+
+/**
+ * Whether an option works with a framework option ID
+ */
+export function supportsFramework(
+  option: StackOption,
+  framework: string
+): boolean {
+  return !option.frameworks || option.frameworks.includes(framework)
+}
+
+/**
+ * Look up a catalog option by component and ID
+ */
+export function getStackOption(
+  component: StackComponent,
+  id: string
+): StackOption | undefined {
+  return getStackOptions(component).find(option => option.id === id)
+}
+
+function optionIdSchema(component: StackComponent) {
+  const ids = getStackOptions(component).map(option => option.id)
+  return z.enum(ids as [string, ...string[]])
+}
+
+// One catalog option ID per component
+export const stackSelectionSchema = z.object({
+  framework: optionIdSchema('framework'),
+  database: optionIdSchema('database'),
+  auth: optionIdSchema('auth'),
+  hosting: optionIdSchema('hosting'),
+  styling: optionIdSchema('styling'),
+  payments: optionIdSchema('payments'),
+})
+
+export const DEFAULT_STACK_SELECTION: StackSelection = {
+  framework: 'nextjs',
+  database: 'postgresql',
+  auth: 'nextauth',
+  hosting: 'vercel',
+  styling: 'tailwind',
+  payments: 'none',
+}
+
+/**
+ * Look up the option chosen for a component
+ */
+export function getSelectedOption(
+  selection: StackSelection,
+  component: StackComponent
+): StackOption | undefined {
+  const id = new Map(Object.entries(selection)).get(component)
+  return id ? getStackOption(component, id) : undefined
+}
+
+/**
+ * List the chosen options, leaving out components set to "none"
+ */
+export function listSelectedOptions(selection: StackSelection): StackOption[] {
+  return STACK_COMPONENTS.map(component =>
+    getSelectedOption(selection, component)
+  ).filter(
+    (option): option is StackOption =>
+      option !== undefined && option.id !== 'none'
+  )
+}
+
+/**
+ * Replace options that do not work with the selected framework by the
+ * first option that does (usually "none")
+ */
+export function normalizeStackSelection(
+  selection: StackSelection
+): StackSelection {
+  return Object.fromEntries(
+    STACK_COMPONENTS.map(component => {
+      const selected = getSelectedOption(selection, component)
+      const id =
+        selected && supportsFramework(selected, selection.framework)
+          ? selected.id
+          : getStackOptions(component, selection.framework)[0]?.id
+      return [component, id]
+    })
+  ) as StackSelection
+}
+
+/**
+ * Describe a selection as a one-line stack ("Next.js 14 + Tailwind CSS + ...")
+ */
+export function describeStack(selection: StackSelection): string {
+  return listSelectedOptions(selection)
+    .map(option => option.label)
+    .join(' + ')
+}
+
+/**
+ * Read a stored recommendation (Project.techStack)
+ *
+ * Projects recommended before stacks were structured stored a single
+ * { stack, rationale } pair; it is returned as one alternative on the
+ * default components.
+ */
+export function parseTechStackRecommendation(
+  stored: string | null
+): TechStackRecommendation | null {
+  if (!stored) return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(stored)
+  } catch {
+    return null
+  }
+
+  if (parsed && typeof parsed === 'object' && 'alternatives' in parsed) {
+    return parsed as TechStackRecommendation
+  }
+
+  const legacy = parsed as { stack?: unknown; rationale?: unknown }
+  if (typeof legacy?.stack === 'string') {
+    return {
+      alternatives: [
+        {
+          name: legacy.stack,
+          components: DEFAULT_STACK_SELECTION,
+          rationale:
+            typeof legacy.rationale === 'string' ? legacy.rationale : '',
+          tradeoffs: [],
+        },
+      ],
+    }
+  }
+
+  return null
+}
+
+/**
+ * Work out the stack to generate a project with
+ *
+ * Uses the user's stored selection, then the top recommended alternative,
+ * then the defaults. Options that do not fit the framework are swapped
+ * out (see normalizeStackSelection).
+ */
+export function resolveStackSelection(project: {
+  techStack: string | null
+  techStackSelection?: unknown
+}): StackSelection {
+  const stored = stackSelectionSchema.safeParse(project.techStackSelection)
+  if (stored.success) return normalizeStackSelection(stored.data)
+
+  const recommended = parseTechStackRecommendation(project.techStack)
+    ?.alternatives[0]
+  return recommended
+    ? normalizeStackSelection(recommended.components)
+    : DEFAULT_STACK_SELECTION
+}
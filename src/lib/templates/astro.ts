@@ -0,0 +1,220 @@
+import { navigationPages, pageComponentName } from '../site-map'
+import { htmlText, tsStringLiteral } from './render'
+import {
+  hasNavigation,
+  renderEnvExample,
+  renderGitignore,
+  renderPackageJson,
+  TAILWIND_DIRECTIVES,
+} from './shared'
+import type {
+  TemplateManifest,
+  TemplatePackage,
+  TemplateVariables,
+} from './types'
+
+/**
+ * Astro static site with Tailwind CSS
+ *
+ * Pages are React components that Astro renders to plain HTML at build
+ * time, so they ship no JavaScript. Each route gets a thin .astro file in
+ * src/pages that puts its component in the shared layout.
+ */
+
+const manifest: TemplateManifest = {
+  id: 'astro',
+  label: 'Astro',
+  description: 'Static Astro site with Tailwind CSS and React components',
+  framework: 'astro',
+  packageJson: {
+    type: 'module',
+    scripts: {
+      dev: 'astro dev',
+      build: 'astro build',
+      preview: 'astro preview',
+    },
+    dependencies: {
+      astro: '^4.16.7',
+      '@astrojs/react': '^3.6.2',
+      '@astrojs/tailwind': '^5.1.2',
+      react: '^18.3.1',
+      'react-dom': '^18.3.1',
+      tailwindcss: '^3.4.1',
+    },
+    devDependencies: {
+      typescript: '^5',
+      '@types/react': '^18',
+      '@types/react-dom': '^18',
+    },
+  },
+  homePage: {
+    path: 'src/components/pages/HomePage.tsx',
+    notes: [
+      'It is rendered to static HTML at build time: no hooks, event handlers or browser APIs',
+      'Do not import anything from Next.js',
+    ],
+    tagline: 'Built with Astro, shipping zero JavaScript by default',
+  },
+  routing: {
+    pagePath: (_route, componentName) =>
+      `src/components/pages/${componentName}.tsx`,
+    componentDir: 'src/components',
+    componentImport: '../',
+    linkNote: 'Link between pages with plain <a href="/route"> tags.',
+  },
+  devUrl: 'http://localhost:4321',
+  structure: [
+    'src/',
+    '├── components/   # Shared React components rendered by Astro',
+    '│   └── pages/    # One React component per page',
+    '├── layouts/      # Shared layout and navigation',
+    '├── pages/        # One .astro file per route',
+    '└── styles/       # Tailwind styles',
+  ],
+  docs: [
+    { label: 'Astro Documentation', url: 'https://docs.astro.build' },
+    { label: 'Tailwind CSS', url: 'https://tailwindcss.com/docs' },
+  ],
+}
+
+// One .astro route file per page, e.g. src/pages/orders/new.astro
+function renderRouteFiles({
+  projectName,
+  projectDescription,
+  siteMap,
+}: TemplateVariables): Array<{ path: string; content: string }> {
+  return siteMap.pages.map(page => {
+    const segments = page.route.split('/').filter(Boolean)
+    const file = segments.length === 0 ? 'index' : segments.join('/')
+    // Route files in subdirectories need a longer path back to src/
+    const toSrc = '../'.repeat(Math.max(segments.length, 1))
+    const component = pageComponentName(page.route)
+    const title =
+      page.route === '/' ? projectName : `${page.name} | ${projectName}`
+
+    return {
+      path: `src/pages/${file}.astro`,
+      content: `---
+import Layout from '${toSrc}layouts/Layout.astro'
+import ${component} from '${toSrc}components/pages/${component}'
+---
+
+<Layout
+  title={${tsStringLiteral(title)}}
+  description={${tsStringLiteral(page.route === '/' ? projectDescription : page.purpose)}}
+>
+  <${component} />
+</Layout>
+`,
+    }
+  })
+}
+
+export const astroTemplate: TemplatePackage = {
+  manifest,
+  routeFiles: renderRouteFiles,
+  files: [
+    {
+      path: 'package.json',
+      content: vars => renderPackageJson(manifest, vars),
+    },
+    {
+      path: 'tsconfig.json',
+      content: () =>
+        JSON.stringify(
+          {
+            extends: 'astro/tsconfigs/strict',
+            compilerOptions: {
+              jsx: 'react-jsx',
+              jsxImportSource: 'react',
+            },
+          },
+          null,
+          2
+        ),
+    },
+    {
+      path: 'astro.config.mjs',
+      content: () => `import { defineConfig } from 'astro/config'
+import react from '@astrojs/react'
+import tailwind from '@astrojs/tailwind'
+
+export default defineConfig({
+  integrations: [react(), tailwind({ applyBaseStyles: false })],
+})
+`,
+    },
+    {
+      path: 'tailwind.config.mjs',
+      content: () => `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./src/**/*.{astro,html,js,jsx,ts,tsx,md,mdx}'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+}
+`,
+    },
+    {
+      path: 'src/layouts/Layout.astro',
+      content: vars => {
+        const navigation = hasNavigation(vars)
+
+        return `---
+${navigation ? "import Navigation from '../components/Navigation.astro'\n" : ''}import '../styles/global.css'
+
+interface Props {
+  title: string
+  description: string
+}
+
+const { title, description } = Astro.props
+---
+
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="description" content={description} />
+    <title>{title}</title>
+  </head>
+  <body class="font-sans antialiased">
+    ${navigation ? '<Navigation />\n    ' : ''}<slot />
+  </body>
+</html>
+`
+      },
+    },
+    {
+      path: 'src/components/Navigation.astro',
+      content: vars => {
+        if (!hasNavigation(vars)) return null
+
+        return `<nav class="border-b border-gray-200">
+  <div class="mx-auto flex max-w-5xl flex-wrap items-center gap-6 px-6 py-4">
+    <a href="/" class="mr-auto font-semibold">${htmlText(vars.projectName)}</a>
+${navigationPages(vars.siteMap)
+  .map(
+    page =>
+      `    <a href="${page.route}" class="text-gray-600 hover:text-gray-900">${htmlText(page.name)}</a>`
+  )
+  .join('\n')}
+  </div>
+</nav>
+`
+      },
+    },
+    { path: 'src/styles/global.css', content: () => TAILWIND_DIRECTIVES },
+    {
+      path: '.gitignore',
+      content: () =>
+        renderGitignore(`# astro
+/.astro/
+
+# production
+/dist`),
+    },
+    { path: '.env.example', content: renderEnvExample },
+  ],
+}
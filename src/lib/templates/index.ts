@@ -0,0 +1,118 @@
+import { EMPTY_DATA_MODEL, type DataModel } from '../data-model'
+import { SINGLE_PAGE_SITE_MAP, type SiteMap } from '../site-map'
+import { getSelectedOption, type StackSelection } from '../tech-stack'
+import { astroTemplate } from './astro'
+import { nextjsTemplate } from './nextjs'
+import { nextjsPrismaTemplate } from './nextjs-prisma'
+import { toPackageName } from './render'
+import type { TemplatePackage, TemplateVariables } from './types'
+import { viteReactTemplate } from './vite-react'
+
+/**
+ * Project Template Registry
+ *
+ * Each template is a self-contained package (manifest + file tree) in this
+ * directory. The generator picks one from the selected tech stack: the
+ * first template whose framework matches and whose requirements (e.g. a
+ * Prisma database) the stack meets. More specific templates come first.
+ *
+ * To add a template, create a module exporting a TemplatePackage, add its
+ * framework to the tech stack catalog if it is new, and register it here.
+ */
+
+export * from './render'
+export type {
+  TemplateFile,
+  TemplateManifest,
+  TemplatePackage,
+  TemplateVariables,
+} from './types'
+
+const TEMPLATES: TemplatePackage[] = [
+  nextjsPrismaTemplate,
+  nextjsTemplate,
+  viteReactTemplate,
+  astroTemplate,
+]
+
+/**
+ * All registered templates
+ */
+export function listTemplates(): TemplatePackage[] {
+  return TEMPLATES
+}
+
+/**
+ * Look up a template by manifest ID
+ */
+export function getTemplate(id: string): TemplatePackage | undefined {
+  return TEMPLATES.find(template => template.manifest.id === id)
+}
+
+function meetsRequirements(
+  template: TemplatePackage,
+  stack: StackSelection
+): boolean {
+  return Object.entries(template.manifest.requires ?? {}).every(
+    ([component, ids]) => {
+      const selected = getSelectedOption(
+        stack,
+        component as keyof StackSelection
+      )
+      return selected !== undefined && (ids ?? []).includes(selected.id)
+    }
+  )
+}
+
+/**
+ * Pick the template for a stack selection
+ */
+export function selectTemplate(stack: StackSelection): TemplatePackage {
+  const template = TEMPLATES.find(
+    candidate =>
+      candidate.manifest.framework === stack.framework &&
+      meetsRequirements(candidate, stack)
+  )
+
+  if (!template) {
+    throw new Error(`No project template for framework "${stack.framework}"`)
+  }
+  return template
+}
+
+/**
+ * Build the variables a template is rendered from
+ */
+export function templateVariables(
+  projectName: string,
+  projectDescription: string,
+  stack: StackSelection,
+  siteMap: SiteMap = SINGLE_PAGE_SITE_MAP,
+  dataModel: DataModel = EMPTY_DATA_MODEL
+): TemplateVariables {
+  return {
+    projectName,
+    projectDescription,
+    packageName: toPackageName(projectName),
+    stack,
+    siteMap,
+    dataModel,
+  }
+}
+
+/**
+ * Render a template's file tree and route files, leaving out files that
+ * render to null
+ */
+export function renderTemplateFiles(
+  template: TemplatePackage,
+  vars: TemplateVariables
+): Array<{ path: string; content: string }> {
+  return [
+    ...template.files.flatMap(file => {
+      const content = file.content(vars)
+      return content === null ? [] : [{ path: file.path, content }]
+    }),
+    ...(template.routeFiles?.(vars) ?? []),
+  ]
+}
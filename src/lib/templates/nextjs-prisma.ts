@@ -0,0 +1,92 @@
+import { nextjsFiles, nextjsManifest } from './nextjs'
+import {
+  DATA_INPUT_HELPERS,
+  renderEntityFiles,
+  renderPrismaSchema,
+  renderSeed,
+} from './prisma-data'
+import type { TemplateManifest, TemplatePackage } from './types'
+
+/**
+ * Next.js with a Prisma-backed database (PostgreSQL or SQLite)
+ *
+ * The Next.js tree plus a Prisma schema and a shared client. The Prisma
+ * packages and scripts come from the selected database option. The schema
+ * has a model per entity of the inferred data model, and each entity gets
+ * data-access helpers in src/lib/data and CRUD routes under src/app/api.
+ */
+
+// Prisma datasource provider per catalog database option
+const PRISMA_PROVIDERS = new Map([
+  ['postgresql', 'postgresql'],
+  ['sqlite', 'sqlite'],
+])
+
+const manifest: TemplateManifest = {
+  ...nextjsManifest,
+  id: 'nextjs-prisma',
+  label: 'Next.js + Prisma',
+  description:
+    'Next.js 14 App Router with Tailwind CSS and a Prisma database client',
+  requires: { database: Array.from(PRISMA_PROVIDERS.keys()) },
+  dataModel: true,
+  packageJson: {
+    ...nextjsManifest.packageJson,
+    scripts: {
+      ...nextjsManifest.packageJson.scripts,
+      'db:seed': 'tsx prisma/seed.ts',
+    },
+    devDependencies: {
+      ...nextjsManifest.packageJson.devDependencies,
+      tsx: '^4.19.2',
+    },
+  },
+  structure: [
+    'prisma/',
+    '├── schema.prisma # Database schema',
+    '└── seed.ts       # Sample data (npm run db:seed)',
+    'src/',
+    '├── app/          # Next.js App Router pages',
+    '│   └── api/      # CRUD routes per model',
+    '├── components/   # Reusable components',
+    '└── lib/          # Utility functions and the Prisma client',
+    '    └── data/     # Data-access helpers per model',
+  ],
+  docs: [
+    ...nextjsManifest.docs,
+    { label: 'Prisma', url: 'https://www.prisma.io/docs' },
+  ],
+}
+
+export const nextjsPrismaTemplate: TemplatePackage = {
+  manifest,
+  routeFiles: ({ dataModel }) => renderEntityFiles(dataModel),
+  files: [
+    ...nextjsFiles(manifest),
+    {
+      path: 'prisma/schema.prisma',
+      content: ({ stack, dataModel }) => {
+        const provider = PRISMA_PROVIDERS.get(stack.database)
+        return provider ? renderPrismaSchema(provider, dataModel) : null
+      },
+    },
+    {
+      path: 'prisma/seed.ts',
+      content: ({ stack, dataModel }) =>
+        PRISMA_PROVIDERS.has(stack.database) ? renderSeed(dataModel) : null,
+    },
+    {
+      path: 'src/lib/db.ts',
+      content: () => `import { PrismaClient } from '@prisma/client'
+
+// Reuse one client across hot reloads in development
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient }
+
+export const db = globalForPrisma.prisma ?? new PrismaClient()
+
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = db
+`,
+    },
+    { path: 'src/lib/data/input.ts', content: () => DATA_INPUT_HELPERS },
+  ],
+}
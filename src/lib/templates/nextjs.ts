@@ -0,0 +1,194 @@
+import { tsStringLiteral } from './render'
+import {
+  hasNavigation,
+  POSTCSS_CONFIG,
+  renderEnvExample,
+  renderGitignore,
+  renderPackageJson,
+  renderReactNavigation,
+  renderTailwindConfig,
+  TAILWIND_DIRECTIVES,
+} from './shared'
+import type { TemplateFile, TemplateManifest, TemplatePackage } from './types'
+
+/**
+ * Next.js 14 App Router + Tailwind CSS
+ */
+
+export const nextjsManifest: TemplateManifest = {
+  id: 'nextjs',
+  label: 'Next.js',
+  description: 'Next.js 14 App Router with TypeScript and Tailwind CSS',
+  framework: 'nextjs',
+  packageJson: {
+    scripts: {
+      dev: 'next dev',
+      build: 'next build',
+      start: 'next start',
+      lint: 'next lint',
+    },
+    dependencies: {
+      react: '^18.3.1',
+      'react-dom': '^18.3.1',
+      next: '^14.2.18',
+    },
+    devDependencies: {
+      typescript: '^5',
+      '@types/node': '^20',
+      '@types/react': '^18',
+      '@types/react-dom': '^18',
+      tailwindcss: '^3.4.1',
+      postcss: '^8',
+      autoprefixer: '^10.4.20',
+      eslint: '^8',
+      'eslint-config-next': '14.2.18',
+    },
+  },
+  homePage: {
+    path: 'src/app/page.tsx',
+    notes: ['Use "use client" if needed'],
+    tagline: 'Built with Next.js 14 for optimal performance',
+  },
+  routing: {
+    pagePath: route => `src/app${route}/page.tsx`,
+    componentDir: 'src/components',
+    componentImport: '@/components/',
+    linkNote: 'Link between pages with Link from "next/link".',
+  },
+  devUrl: 'http://localhost:3000',
+  structure: [
+    'src/',
+    '├── app/          # Next.js App Router pages',
+    '├── components/   # Reusable components',
+    '└── lib/          # Utility functions',
+  ],
+  docs: [
+    { label: 'Next.js Documentation', url: 'https://nextjs.org/docs' },
+    { label: 'Tailwind CSS', url: 'https://tailwindcss.com/docs' },
+  ],
+}
+
+/**
+ * The Next.js file tree for a manifest (shared with the Prisma variant)
+ */
+export function nextjsFiles(manifest: TemplateManifest): TemplateFile[] {
+  return [
+    {
+      path: 'package.json',
+      content: vars => renderPackageJson(manifest, vars),
+    },
+    {
+      path: 'tsconfig.json',
+      content: () =>
+        JSON.stringify(
+          {
+            compilerOptions: {
+              lib: ['dom', 'dom.iterable', 'esnext'],
+              allowJs: true,
+              skipLibCheck: true,
+              strict: true,
+              noEmit: true,
+              esModuleInterop: true,
+              module: 'esnext',
+              moduleResolution: 'bundler',
+              resolveJsonModule: true,
+              isolatedModules: true,
+              jsx: 'preserve',
+              incremental: true,
+              plugins: [
+                {
+                  name: 'next',
+                },
+              ],
+              paths: {
+                '@/*': ['./src/*'],
+              },
+            },
+            include: [
+              'next-env.d.ts',
+              '**/*.ts',
+              '**/*.tsx',
+              '.next/types/**/*.ts',
+            ],
+            exclude: ['node_modules'],
+          },
+          null,
+          2
+        ),
+    },
+    {
+      path: 'next.config.js',
+      content: () => `/** @type {import('next').NextConfig} */
+const nextConfig = {}
+
+export default nextConfig
+`,
+    },
+    {
+      path: 'tailwind.config.ts',
+      content: () =>
+        renderTailwindConfig([
+          './src/pages/**/*.{js,ts,jsx,tsx,mdx}',
+          './src/components/**/*.{js,ts,jsx,tsx,mdx}',
+          './src/app/**/*.{js,ts,jsx,tsx,mdx}',
+        ]),
+    },
+    { path: 'postcss.config.mjs', content: () => POSTCSS_CONFIG },
+    {
+      path: '.gitignore',
+      content: () =>
+        renderGitignore(`# next.js
+/.next/
+/out/
+next-env.d.ts
+
+# production
+/build`),
+    },
+    {
+      path: 'src/app/layout.tsx',
+      content: vars => {
+        const { projectName, projectDescription } = vars
+        const navigation = hasNavigation(vars)
+
+        return `import type { Metadata } from 'next'
+${navigation ? "import Navigation from '@/components/Navigation'\n" : ''}import './globals.css'
+
+export const metadata: Metadata = {
+  title: ${tsStringLiteral(projectName)},
+  description: ${tsStringLiteral(projectDescription)},
+}
+
+export default function RootLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <html lang="en">
+      <body className="font-sans antialiased">
+        ${navigation ? '<Navigation />\n        ' : ''}{children}
+      </body>
+    </html>
+  )
+}
+`
+      },
+    },
+    {
+      path: 'src/components/Navigation.tsx',
+      content: vars =>
+        renderReactNavigation(vars, {
+          importLine: "import Link from 'next/link'",
+          hrefProp: 'href',
+        }),
+    },
+    { path: 'src/app/globals.css', content: () => TAILWIND_DIRECTIVES },
+    { path: '.env.example', content: renderEnvExample },
+  ]
+}
+
+export const nextjsTemplate: TemplatePackage = {
+  manifest: nextjsManifest,
+  files: nextjsFiles(nextjsManifest),
+}
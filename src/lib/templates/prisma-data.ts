@@ -0,0 +1,366 @@
+import {
+  camelCase,
+  childEntities,
+  entitiesInDependencyOrder,
+  entityRouteSegment,
+  pluralize,
+  type DataEntity,
+  type DataField,
+  type DataModel,
+} from '../data-model'
+
+// Prisma schema, seed script, data-access helpers and CRUD routes rendered
+// from an inferred data model (Next.js + Prisma template)
+
+// Relation name shared by both sides of a link, e.g. "OrderUser"
+function relationName(child: string, parent: string): string {
+  return `${child}${parent}`
+}
+
+function renderModel(model: DataModel, entity: DataEntity): string {
+  const description = entity.description.replace(/\s+/g, ' ').trim()
+  const lines = [
+    'id String @id @default(cuid())',
+    ...entity.fields.map(
+      field =>
+        `${field.name} ${field.type}${field.optional ? '?' : ''}${field.unique ? ' @unique' : ''}`
+    ),
+    ...entity.belongsTo.flatMap(parent => [
+      `${camelCase(parent)}Id String?`,
+      `${camelCase(parent)} ${parent}? @relation("${relationName(entity.name, parent)}", fields: [${camelCase(parent)}Id], references: [id], onDelete: SetNull)`,
+    ]),
+    ...childEntities(model, entity).map(
+      child =>
+        `${camelCase(pluralize(child.name))} ${child.name}[] @relation("${relationName(child.name, entity.name)}")`
+    ),
+    'createdAt DateTime @default(now())',
+    'updatedAt DateTime @updatedAt',
+  ]
+
+  return `${description ? `/// ${description}\n` : ''}model ${entity.name} {
+${lines.map(line => `  ${line}`).join('\n')}
+}`
+}
+
+/**
+ * prisma/schema.prisma with a model per entity
+ */
+export function renderPrismaSchema(provider: string, model: DataModel): string {
+  const schema = `generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider = "${provider}"
+  url      = env("DATABASE_URL")
+}
+`
+  if (model.entities.length === 0) return schema
+
+  return `${schema}
+${model.entities.map(entity => renderModel(model, entity)).join('\n\n')}
+`
+}
+
+// TypeScript expression for the i-th sample value of a field
+function sampleValue(field: DataField): string {
+  switch (field.type) {
+    case 'String':
+      return `\`Sample ${field.name} \${i}\``
+    case 'Int':
+      return 'i * 10'
+    case 'Float':
+      return 'i * 1.5'
+    case 'Boolean':
+      return 'i % 2 === 0'
+    case 'DateTime':
+      return 'new Date()'
+  }
+}
+
+/**
+ * prisma/seed.ts creating a few sample records per entity, linked to the
+ * records of the entities they belong to
+ */
+export function renderSeed(model: DataModel): string {
+  const ordered = entitiesInDependencyOrder(model)
+  const seeded = new Set<string>()
+
+  const blocks = ordered.map(entity => {
+    const records = camelCase(pluralize(entity.name))
+    const data = [
+      ...entity.fields.map(field => `${field.name}: ${sampleValue(field)}`),
+      // Parents seeded earlier get linked; links in a cycle stay empty
+      ...entity.belongsTo
+        .filter(parent => seeded.has(parent))
+        .map(
+          parent =>
+            `${camelCase(parent)}Id: ${camelCase(pluralize(parent))}[i - 1].id`
+        ),
+    ]
+    seeded.add(entity.name)
+
+    return `  const ${records} = await Promise.all(
+    SAMPLES.map(i =>
+      db.${camelCase(entity.name)}.create({
+        data: {${data.length ? `\n${data.map(line => `          ${line},`).join('\n')}\n        ` : ''}},
+      })
+    )
+  )
+  console.log(\`Seeded \${${records}.length} ${records}\`)`
+  })
+
+  return `import { PrismaClient } from '@prisma/client'
+
+const db = new PrismaClient()
+
+// Sample record numbers
+const SAMPLES = [1, 2, 3]
+
+async function main() {
+${blocks.length ? blocks.join('\n\n') : "  console.log('Nothing to seed yet: add models to prisma/schema.prisma')"}
+}
+
+main()
+  .catch(error => {
+    console.error(error)
+    process.exit(1)
+  })
+  .finally(() => db.$disconnect())
+`
+}
+
+/**
+ * src/lib/data/input.ts: request body validation and Prisma error checks
+ * shared by the generated API routes
+ */
+export const DATA_INPUT_HELPERS = `import { Prisma } from '@prisma/client'
+
+export type FieldType = 'String' | 'Int' | 'Float' | 'Boolean' | 'DateTime'
+
+export type FieldSpec = Record<string, { type: FieldType; optional: boolean }>
+
+export type ParsedInput<T> = { data: T } | { error: string }
+
+function parseValue(type: FieldType, value: unknown): unknown {
+  switch (type) {
+    case 'String':
+      return typeof value === 'string' ? value : undefined
+    case 'Int':
+      return Number.isInteger(value) ? value : undefined
+    case 'Float':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? value
+        : undefined
+    case 'Boolean':
+      return typeof value === 'boolean' ? value : undefined
+    case 'DateTime': {
+      const date = typeof value === 'string' ? new Date(value) : undefined
+      return date && !Number.isNaN(date.getTime()) ? date : undefined
+    }
+  }
+}
+
+/**
+ * Keep the known fields of a JSON body, checking their types. With partial
+ * set (updates), required fields may be left out.
+ */
+export function parseInput<T>(
+  body: unknown,
+  fields: FieldSpec,
+  partial = false
+): ParsedInput<T> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const values = new Map(Object.entries(body))
+  const data: Record<string, unknown> = {}
+
+  for (const [name, { type, optional }] of Object.entries(fields)) {
+    const value = values.get(name)
+    if (value === undefined || (value === null && optional)) {
+      if (!optional && !partial) return { error: \`\${name} is required\` }
+      if (value === null) data[name] = null
+      continue
+    }
+
+    const parsed = parseValue(type, value)
+    if (parsed === undefined) {
+      return { error: \`\${name} must be a \${type}\` }
+    }
+    data[name] = parsed
+  }
+
+  return { data: data as T }
+}
+
+/**
+ * Whether a Prisma call failed with the given error code
+ * (P2025: record not found, P2002: unique constraint, P2003: missing link)
+ */
+export function isPrismaError(error: unknown, code: string): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === code
+  )
+}
+`
+
+/**
+ * Data-access helpers and CRUD API routes for each entity
+ */
+export function renderEntityFiles(
+  model: DataModel
+): Array<{ path: string; content: string }> {
+  return model.entities.flatMap(entity => {
+    const { name } = entity
+    const plural = pluralize(name)
+    const client = `db.${camelCase(name)}`
+    const segment = entityRouteSegment(name)
+    const module = `@/lib/data/${segment}`
+    // "OrderItem" -> "ORDER_ITEM_FIELDS"
+    const fieldsConst = `${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_FIELDS`
+    const fields = Object.fromEntries([
+      ...entity.fields.map(field => [
+        field.name,
+        { type: field.type, optional: field.optional },
+      ]),
+      ...entity.belongsTo.map(parent => [
+        `${camelCase(parent)}Id`,
+        { type: 'String', optional: true },
+      ]),
+    ])
+
+    const helpers = `import type { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { parseInput, type FieldSpec, type ParsedInput } from './input'
+
+// ${name} fields API clients may set
+const ${fieldsConst}: FieldSpec = ${JSON.stringify(fields, null, 2)}
+
+export function list${plural}() {
+  return ${client}.findMany({ orderBy: { createdAt: 'desc' } })
+}
+
+export function get${name}(id: string) {
+  return ${client}.findUnique({ where: { id } })
+}
+
+export function create${name}(data: Prisma.${name}UncheckedCreateInput) {
+  return ${client}.create({ data })
+}
+
+export function update${name}(
+  id: string,
+  data: Prisma.${name}UncheckedUpdateInput
+) {
+  return ${client}.update({ where: { id }, data })
+}
+
+export function delete${name}(id: string) {
+  return ${client}.delete({ where: { id } })
+}
+
+export function parse${name}Input(
+  body: unknown
+): ParsedInput<Prisma.${name}UncheckedCreateInput> {
+  return parseInput(body, ${fieldsConst})
+}
+
+export function parse${name}Update(
+  body: unknown
+): ParsedInput<Prisma.${name}UncheckedUpdateInput> {
+  return parseInput(body, ${fieldsConst}, true)
+}
+`
+
+    const collectionRoute = `import { NextResponse } from 'next/server'
+import { isPrismaError } from '@/lib/data/input'
+import { create${name}, list${plural}, parse${name}Input } from '${module}'
+
+export async function GET() {
+  return NextResponse.json(await list${plural}())
+}
+
+export async function POST(request: Request) {
+  const input = parse${name}Input(await request.json().catch(() => null))
+  if ('error' in input) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await create${name}(input.data), { status: 201 })
+  } catch (error) {
+    if (isPrismaError(error, 'P2002')) {
+      return NextResponse.json({ error: 'Already exists' }, { status: 409 })
+    }
+    if (isPrismaError(error, 'P2003')) {
+      return NextResponse.json(
+        { error: 'Linked record not found' },
+        { status: 400 }
+      )
+    }
+    throw error
+  }
+}
+`
+
+    const itemRoute = `import { NextResponse } from 'next/server'
+import { isPrismaError } from '@/lib/data/input'
+import {
+  delete${name},
+  get${name},
+  parse${name}Update,
+  update${name},
+} from '${module}'
+
+type Context = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: Context) {
+  const record = await get${name}(params.id)
+  if (!record) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  return NextResponse.json(record)
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const input = parse${name}Update(await request.json().catch(() => null))
+  if ('error' in input) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await update${name}(params.id, input.data))
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    if (isPrismaError(error, 'P2002')) {
+      return NextResponse.json({ error: 'Already exists' }, { status: 409 })
+    }
+    throw error
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  try {
+    await delete${name}(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    throw error
+  }
+}
+`
+
+    return [
+      { path: `src/lib/data/${segment}.ts`, content: helpers },
+      { path: `src/app/api/${segment}/route.ts`, content: collectionRoute },
+      { path: `src/app/api/${segment}/[id]/route.ts`, content: itemRoute },
+    ]
+  })
+}
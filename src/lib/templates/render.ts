@@ -0,0 +1,135 @@
+import { builtinModules } from 'module'
+
+/**
+ * Safe Rendering for Template Files
+ *
+ * Template files are plain template literals, so every value coming from
+ * the user (project name, description) must be escaped for the place it
+ * lands in. Each helper below returns text that is safe to drop into one
+ * context:
+ *
+ * - tsStringLiteral: a complete single-quoted TS/JS string literal
+ * - jsxText: text between JSX tags
+ * - jsonValue: any JSON value
+ * - markdownText: inline Markdown (headings, list items, paragraphs)
+ * - yamlString: a complete double-quoted YAML scalar
+ * - htmlText: HTML text and double-quoted attribute values
+ *
+ * toPackageName derives a name npm accepts for new packages.
+ */
+
+// Longest package name npm accepts
+const MAX_PACKAGE_NAME_LENGTH = 214
+
+const DEFAULT_PACKAGE_NAME = 'my-app'
+
+// Names npm refuses even though they match the allowed characters
+const RESERVED_PACKAGE_NAMES = ['node_modules', 'favicon.ico']
+
+// Line and paragraph separators end a JS string literal in older engines
+const JS_STRING_ESCAPES = new Map([
+  ['\\', '\\\\'],
+  ["'", "\\'"],
+  ['\n', '\\n'],
+  ['\r', '\\r'],
+  ['\t', '\\t'],
+  ['\u2028', '\\u2028'],
+  ['\u2029', '\\u2029'],
+])
+
+// Braces open expressions in JSX; < and > open and close tags
+const JSX_TEXT_ESCAPES = new Map([
+  ['&', '&amp;'],
+  ['<', '&lt;'],
+  ['>', '&gt;'],
+  ['{', '&#123;'],
+  ['}', '&#125;'],
+])
+
+const HTML_ESCAPES = new Map([
+  ['&', '&amp;'],
+  ['<', '&lt;'],
+  ['>', '&gt;'],
+  ['"', '&quot;'],
+  ["'", '&#39;'],
+])
+
+function replaceEach(
+  text: string,
+  pattern: RegExp,
+  escapes: Map<string, string>
+): string {
+  return text.replace(pattern, char => escapes.get(char) ?? char)
+}
+
+/**
+ * Quote text as a single-quoted TypeScript/JavaScript string literal
+ */
+export function tsStringLiteral(text: string): string {
+  return `'${replaceEach(text, /[\\'\n\r\t\u2028\u2029]/g, JS_STRING_ESCAPES)}'`
+}
+
+/**
+ * Escape text placed between JSX tags
+ */
+export function jsxText(text: string): string {
+  return replaceEach(text, /[&<>{}]/g, JSX_TEXT_ESCAPES)
+}
+
+/**
+ * Serialize a value as JSON
+ */
+export function jsonValue(value: unknown): string {
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Escape text so Markdown shows it literally, on a single line
+ */
+export function markdownText(text: string): string {
+  return text
+    .replace(/\s*[\r\n]+\s*/g, ' ')
+    .replace(/[\\`*_{}[\]()<>#+\-.!|~]/g, '\\$&')
+}
+
+/**
+ * Quote text as a double-quoted YAML scalar
+ *
+ * JSON strings are valid YAML double-quoted scalars, so this reuses
+ * JSON escaping.
+ */
+export function yamlString(text: string): string {
+  return JSON.stringify(text)
+}
+
+/**
+ * Escape text placed inside HTML, including attribute values
+ */
+export function htmlText(text: string): string {
+  return replaceEach(text, /[&<>"']/g, HTML_ESCAPES)
+}
+
+/**
+ * Derive an npm package name from a project name
+ *
+ * Lowercase, accents stripped, anything outside a-z, 0-9, ".", "_" and
+ * "-" turned into hyphens, no leading "." or "_", at most 214 characters.
+ * Names of Node core modules get an "-app" suffix.
+ */
+export function toPackageName(projectName: string): string {
+  const name = projectName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-._]+/, '')
+    .slice(0, MAX_PACKAGE_NAME_LENGTH)
+    .replace(/[-.]+$/, '')
+
+  if (!name || RESERVED_PACKAGE_NAMES.includes(name)) {
+    return DEFAULT_PACKAGE_NAME
+  }
+  if (builtinModules.includes(name)) return `${name}-app`
+  return name
+}
@@ -0,0 +1,170 @@
+import { navigationPages } from '../site-map'
+import { listSelectedOptions } from '../tech-stack'
+import { jsonValue, tsStringLiteral } from './render'
+import type { TemplateManifest, TemplateVariables } from './types'
+
+// Files most templates share, rendered from the manifest and variables
+
+// Generate package.json content, adding the packages and scripts of the
+// selected stack options to the template's own
+export function renderPackageJson(
+  manifest: TemplateManifest,
+  { packageName, stack }: TemplateVariables
+): string {
+  const options = listSelectedOptions(stack)
+  const { type, scripts, dependencies, devDependencies } = manifest.packageJson
+
+  return JSON.stringify(
+    {
+      name: packageName,
+      version: '0.1.0',
+      private: true,
+      ...(type ? { type } : {}),
+      scripts: {
+        ...scripts,
+        ...Object.assign({}, ...options.map(option => option.scripts)),
+      },
+      dependencies: {
+        ...dependencies,
+        ...Object.assign({}, ...options.map(option => option.dependencies)),
+      },
+      devDependencies: {
+        ...devDependencies,
+        ...Object.assign({}, ...options.map(option => option.devDependencies)),
+      },
+    },
+    null,
+    2
+  )
+}
+
+// Generate .env.example listing the variables the selected stack needs
+export function renderEnvExample({ stack }: TemplateVariables): string {
+  const variables = listSelectedOptions(stack).flatMap(option =>
+    (option.env ?? []).map(name =>
+      name === 'DATABASE_URL' && stack.database === 'sqlite'
+        ? 'DATABASE_URL="file:./dev.db"'
+        : `${name}=`
+    )
+  )
+
+  if (variables.length === 0) {
+    return `# Add your environment variables here
+# API_KEY=
+`
+  }
+
+  return `# Copy to .env and fill in the values
+${Array.from(new Set(variables)).join('\n')}
+`
+}
+
+// Generate .gitignore with the common entries plus framework build output
+export function renderGitignore(buildOutput: string): string {
+  return `# dependencies
+/node_modules
+/.pnp
+.pnp.js
+
+# testing
+/coverage
+
+${buildOutput}
+
+# misc
+.DS_Store
+*.pem
+
+# debug
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+
+# local env files
+.env*.local
+.env
+
+# vercel
+.vercel
+
+# typescript
+*.tsbuildinfo
+`
+}
+
+// Tailwind configuration scanning the given source globs
+export function renderTailwindConfig(content: string[]): string {
+  return `import type { Config } from "tailwindcss";
+
+const config: Config = {
+  content: [
+${content.map(glob => `    "${glob}",`).join('\n')}
+  ],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+export default config;
+`
+}
+
+export const TAILWIND_DIRECTIVES = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`
+
+export const POSTCSS_CONFIG = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`
+
+/**
+ * Whether the app has enough pages to need a navigation bar
+ */
+export function hasNavigation({ siteMap }: TemplateVariables): boolean {
+  return navigationPages(siteMap).length > 1
+}
+
+// Generate the shared navigation bar for React-based templates, or null
+// for single-page apps
+export function renderReactNavigation(
+  vars: TemplateVariables,
+  link: { importLine: string; hrefProp: 'href' | 'to' }
+): string | null {
+  if (!hasNavigation(vars)) return null
+
+  const links = navigationPages(vars.siteMap).map(page => ({
+    href: page.route,
+    label: page.name,
+  }))
+
+  return `${link.importLine}
+
+const links = ${jsonValue(links)}
+
+export default function Navigation() {
+  return (
+    <nav className="border-b border-gray-200">
+      <div className="mx-auto flex max-w-5xl flex-wrap items-center gap-6 px-6 py-4">
+        <Link ${link.hrefProp}="/" className="mr-auto font-semibold">
+          {${tsStringLiteral(vars.projectName)}}
+        </Link>
+        {links.map(link => (
+          <Link
+            key={link.href}
+            ${link.hrefProp}={link.href}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            {link.label}
+          </Link>
+        ))}
+      </div>
+    </nav>
+  )
+}
+`
+}
@@ -0,0 +1,87 @@
+import type { DataModel } from '../data-model'
+import type { SiteMap } from '../site-map'
+import type { StackComponent, StackSelection } from '../tech-stack'
+
+/**
+ * Values every template file is rendered from
+ */
+export interface TemplateVariables {
+  projectName: string
+  projectDescription: string
+  // npm package name derived from the project name
+  packageName: string
+  stack: StackSelection
+  // Pages and shared components of the app
+  siteMap: SiteMap
+  // Database entities (empty unless the template has a data layer)
+  dataModel: DataModel
+}
+
+/**
+ * One file of a template's tree; content returns null to leave the file out
+ */
+export interface TemplateFile {
+  path: string
+  content: (vars: TemplateVariables) => string | null
+}
+
+export interface TemplateManifest {
+  id: string
+  label: string
+  description: string
+  // Catalog framework option the template scaffolds
+  framework: string
+  // Options other components must have for the template to be picked,
+  // e.g. a Prisma-backed database
+  requires?: Partial<Record<StackComponent, string[]>>
+  // Whether the template renders a database layer from an inferred data
+  // model, so the generator should infer one
+  dataModel?: boolean
+  // Base package.json before the selected stack options are merged in
+  packageJson: {
+    type?: 'module'
+    scripts: Record<string, string>
+    dependencies: Record<string, string>
+    devDependencies: Record<string, string>
+  }
+  // The AI-generated landing page
+  homePage: {
+    path: string
+    // Framework-specific instructions for the page and component prompts
+    notes: string[]
+    // One-line reason the framework was a good pick (fallback page)
+    tagline: string
+  }
+  // Where the other AI-generated pages and shared components go
+  routing: {
+    // File of the page component for a route (other than "/")
+    pagePath: (route: string, componentName: string) => string
+    // Directory of shared components
+    componentDir: string
+    // Import path prefix pages use for shared components
+    componentImport: string
+    // How pages link to each other
+    linkNote: string
+  }
+  // Shown in the fallback README
+  devUrl: string
+  structure: string[]
+  docs: Array<{ label: string; url: string }>
+}
+
+/**
+ * A self-contained project template: its manifest and file tree
+ *
+ * README.md, the pages and the shared components are generated by the AI
+ * from the manifest; every other file comes from the tree. routeFiles adds
+ * per-route or per-entity files the tree cannot list up front (e.g. Astro
+ * route files, CRUD API routes).
+ */
+export interface TemplatePackage {
+  manifest: TemplateManifest
+  files: TemplateFile[]
+  routeFiles?: (vars: TemplateVariables) => Array<{
+    path: string
+    content: string
+  }>
+}
@@ -0,0 +1,224 @@
+import { pageComponentName } from '../site-map'
+import { htmlText, jsonValue } from './render'
+import {
+  hasNavigation,
+  POSTCSS_CONFIG,
+  renderEnvExample,
+  renderGitignore,
+  renderPackageJson,
+  renderReactNavigation,
+  renderTailwindConfig,
+  TAILWIND_DIRECTIVES,
+} from './shared'
+import type { TemplateManifest, TemplatePackage } from './types'
+
+/**
+ * Vite + React single-page app with Tailwind CSS
+ *
+ * Pages are routed on the client with React Router; vercel.json sends
+ * every path to index.html so deep links work once deployed.
+ */
+
+const manifest: TemplateManifest = {
+  id: 'vite-react',
+  label: 'Vite + React',
+  description: 'Single-page React app built with Vite and Tailwind CSS',
+  framework: 'vite-react',
+  packageJson: {
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'tsc && vite build',
+      preview: 'vite preview',
+    },
+    dependencies: {
+      react: '^18.3.1',
+      'react-dom': '^18.3.1',
+      'react-router-dom': '^6.28.0',
+    },
+    devDependencies: {
+      typescript: '^5',
+      '@types/react': '^18',
+      '@types/react-dom': '^18',
+      vite: '^5.4.10',
+      '@vitejs/plugin-react': '^4.3.3',
+      tailwindcss: '^3.4.1',
+      postcss: '^8',
+      autoprefixer: '^10.4.20',
+    },
+  },
+  homePage: {
+    path: 'src/pages/HomePage.tsx',
+    notes: [
+      'Pages are rendered by the React Router routes in src/App.tsx',
+      'Do not import anything from Next.js',
+    ],
+    tagline: 'Built with Vite for instant reloads and fast builds',
+  },
+  routing: {
+    pagePath: (_route, componentName) => `src/pages/${componentName}.tsx`,
+    componentDir: 'src/components',
+    componentImport: '../components/',
+    linkNote:
+      'Link between pages with Link from "react-router-dom" (to="/route").',
+  },
+  devUrl: 'http://localhost:5173',
+  structure: [
+    'index.html        # Page shell',
+    'src/',
+    '├── components/   # Shared components and navigation',
+    '├── pages/        # One component per route',
+    '├── App.tsx       # Routes',
+    '├── main.tsx      # Mounts the app',
+    '└── index.css     # Tailwind styles',
+  ],
+  docs: [
+    { label: 'Vite Documentation', url: 'https://vite.dev/guide/' },
+    { label: 'React Documentation', url: 'https://react.dev/learn' },
+    { label: 'Tailwind CSS', url: 'https://tailwindcss.com/docs' },
+  ],
+}
+
+export const viteReactTemplate: TemplatePackage = {
+  manifest,
+  files: [
+    {
+      path: 'package.json',
+      content: vars => renderPackageJson(manifest, vars),
+    },
+    {
+      path: 'tsconfig.json',
+      content: () =>
+        JSON.stringify(
+          {
+            compilerOptions: {
+              target: 'ES2020',
+              lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+              module: 'ESNext',
+              skipLibCheck: true,
+              moduleResolution: 'bundler',
+              resolveJsonModule: true,
+              isolatedModules: true,
+              noEmit: true,
+              jsx: 'react-jsx',
+              strict: true,
+            },
+            include: ['src'],
+          },
+          null,
+          2
+        ),
+    },
+    {
+      path: 'vite.config.ts',
+      content: () => `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+  plugins: [react()],
+})
+`,
+    },
+    {
+      path: 'index.html',
+      content: ({ projectName, projectDescription }) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="description" content="${htmlText(projectDescription)}" />
+    <title>${htmlText(projectName)}</title>
+  </head>
+  <body class="font-sans antialiased">
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    },
+    {
+      path: 'tailwind.config.ts',
+      content: () =>
+        renderTailwindConfig(['./index.html', './src/**/*.{js,ts,jsx,tsx}']),
+    },
+    { path: 'postcss.config.js', content: () => POSTCSS_CONFIG },
+    {
+      path: 'src/main.tsx',
+      content: () => `import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import App from './App'
+import './index.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+)
+`,
+    },
+    {
+      path: 'src/App.tsx',
+      content: vars => {
+        const navigation = hasNavigation(vars)
+        const pages = vars.siteMap.pages.map(page => ({
+          route: page.route,
+          component: pageComponentName(page.route),
+        }))
+
+        return `import { BrowserRouter, Route, Routes } from 'react-router-dom'
+${navigation ? "import Navigation from './components/Navigation'\n" : ''}${pages
+          .map(
+            page => `import ${page.component} from './pages/${page.component}'`
+          )
+          .join('\n')}
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      ${navigation ? '<Navigation />\n      ' : ''}<Routes>
+${pages
+  .map(
+    page =>
+      `        <Route path=${jsonValue(page.route)} element={<${page.component} />} />`
+  )
+  .join('\n')}
+      </Routes>
+    </BrowserRouter>
+  )
+}
+`
+      },
+    },
+    {
+      path: 'src/components/Navigation.tsx',
+      content: vars =>
+        renderReactNavigation(vars, {
+          importLine: "import { Link } from 'react-router-dom'",
+          hrefProp: 'to',
+        }),
+    },
+    { path: 'src/index.css', content: () => TAILWIND_DIRECTIVES },
+    {
+      path: 'src/vite-env.d.ts',
+      content: () => `/// <reference types="vite/client" />
+`,
+    },
+    {
+      // Serve index.html for every route so the client router can take over
+      path: 'vercel.json',
+      content: () =>
+        JSON.stringify(
+          { rewrites: [{ source: '/(.*)', destination: '/index.html' }] },
+          null,
+          2
+        ),
+    },
+    {
+      path: '.gitignore',
+      content: () =>
+        renderGitignore(`# production
+/dist`),
+    },
+    { path: '.env.example', content: renderEnvExample },
+  ],
+}
@@ -0,0 +1,149 @@
+/**
+ * Line Diffs
+ *
+ * Unified diffs of two versions of a text file, for comparing the files of
+ * two generation runs. Lines are matched with a longest common subsequence
+ * after trimming the lines both versions start and end with; files too
+ * large for that are reported as not diffable instead.
+ */
+
+// Largest LCS table (changed lines of one version x the other) computed
+export const MAX_DIFF_CELLS = 4_000_000
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3
+
+export type DiffLine = {
+  type: 'context' | 'added' | 'removed'
+  text: string
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return []
+  const lines = text.split('\n')
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * Every line of both versions, marked as kept, added or removed; null when
+ * the files are too large to compare
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] | null {
+  const before = splitLines(oldText)
+  const after = splitLines(newText)
+
+  let start = 0
+  while (
+    start < before.length &&
+    start < after.length &&
+    before.at(start) === after.at(start)
+  ) {
+    start++
+  }
+  let end = 0
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before.at(-1 - end) === after.at(-1 - end)
+  ) {
+    end++
+  }
+
+  const removed = before.slice(start, before.length - end)
+  const added = after.slice(start, after.length - end)
+  const n = removed.length
+  const m = added.length
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) return null
+
+  // lcs[i * (m + 1) + j]: common lines of removed[i..] and added[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        removed.at(i) === added.at(j)
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+    }
+  }
+
+  const context = (text: string): DiffLine => ({ type: 'context', text })
+  const lines: DiffLine[] = before.slice(0, start).map(context)
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && removed.at(i) === added.at(j)) {
+      lines.push(context(added.at(j)!))
+      i++
+      j++
+    } else if (
+      i < n &&
+      (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+    ) {
+      // Removals come before additions where both keep the most lines
+      lines.push({ type: 'removed', text: removed.at(i)! })
+      i++
+    } else {
+      lines.push({ type: 'added', text: added.at(j)! })
+      j++
+    }
+  }
+
+  lines.push(...before.slice(before.length - end).map(context))
+  return lines
+}
+
+/**
+ * Unified diff ("--- a/path", "+++ b/path", "@@" hunks) of two versions
+ * of a file: "" when they are the same, null when too large to compare
+ */
+export function unifiedDiff(
+  path: string,
+  oldText: string,
+  newText: string
+): string | null {
+  const lines = diffLines(oldText, newText)
+  if (lines === null) return null
+
+  const changed = lines.flatMap((line, index) =>
+    line.type === 'context' ? [] : [index]
+  )
+  if (changed.length === 0) return ''
+
+  // Group changes whose context overlaps into hunks of line indexes
+  const hunks: Array<{ from: number; to: number }> = []
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES)
+    const to = Math.min(lines.length, index + CONTEXT_LINES + 1)
+    const last = hunks.at(-1)
+    if (last && from <= last.to) {
+      last.to = to
+    } else {
+      hunks.push({ from, to })
+    }
+  }
+
+  const output = [`--- a/${path}`, `+++ b/${path}`]
+  for (const { from, to } of hunks) {
+    // Line numbers where the hunk starts in each version
+    const preceding = lines.slice(0, from)
+    const oldStart = preceding.filter(l => l.type !== 'added').length + 1
+    const newStart = preceding.filter(l => l.type !== 'removed').length + 1
+
+    const hunk = lines.slice(from, to)
+    const oldCount = hunk.filter(l => l.type !== 'added').length
+    const newCount = hunk.filter(l => l.type !== 'removed').length
+
+    output.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+      ...hunk.map(
+        line =>
+          `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`
+      )
+    )
+  }
+
+  return `${output.join('\n')}\n`
+}
@@ -1,10 +1,14 @@
 // Vercel deployment integration using REST API
 // https://vercel.com/docs/rest-api
 
+import { cassetteFetch } from './cassette'
+
 // Request timeout configuration
 const REQUEST_TIMEOUT = 30000 // 30 seconds
 const DEPLOYMENT_CHECK_TIMEOUT = 10000 // 10 seconds per status check
 
+const vercelFetch = cassetteFetch('vercel')
+
 /**
  * Create fetch with timeout and proper error handling
  */
@@ -18,7 +22,8 @@ async function fetchWithTimeout(
   const timeoutId = setTimeout(() => controller.abort(), timeout)
 
   try {
-    const response = await fetch(url, {
+    // Recorded and replayed in tests (see cassette)
+    const response = await vercelFetch(url, {
       ...fetchOptions,
       signal: controller.signal,
     })
@@ -18,6 +18,47 @@ import { withRequestId, createRequestLogger } from '@/lib/edge-logger'
  * For persistent rate limiting, move to API routes with database backing.
  */
 
+// Project endpoints whose POST requests call the AI
+// (/api/projects/[id]/<endpoint>); new AI endpoints must be added here to
+// get the AI rate limit
+const AI_ENDPOINTS = [
+  'generate',
+  'recommend-stack',
+  'preview',
+  'prd',
+  'analyze-requirements',
+  'export',
+]
+
+// Chat endpoints, where only some actions call the AI
+const CHAT_ENDPOINTS = ['chat', 'chat/stream']
+
+// Chat actions that always call the AI. Answers and skips only do when they
+// complete the questions, which cannot be known here, so they get the
+// general limit
+const AI_CHAT_ACTIONS = ['start', 'suggest', 'expand']
+
+async function isAIRequest(
+  request: NextRequest,
+  pathname: string
+): Promise<boolean> {
+  if (request.method !== 'POST') return false
+
+  const [, endpoint] = pathname.match(/^\/api\/projects\/[^/]+\/(.+)$/) ?? []
+  if (endpoint === undefined) return false
+  if (AI_ENDPOINTS.includes(endpoint)) return true
+  if (!CHAT_ENDPOINTS.includes(endpoint)) return false
+
+  try {
+    // Read a copy so the route still receives the body
+    const body = await request.clone().json()
+    return AI_CHAT_ACTIONS.includes(body?.action)
+  } catch {
+    // Unreadable bodies are rejected by the route before any AI call
+    return false
+  }
+}
+
 export async function middleware(request: NextRequest) {
   const startTime = Date.now()
   const { pathname } = request.nextUrl
@@ -49,7 +90,7 @@ export async function middleware(request: NextRequest) {
   let limit = 100 // General API: 100/min
   let windowMs = 60 * 1000 // 1 minute
 
-  if (pathname.includes('/generate') || pathname.includes('/recommend-stack')) {
+  if (await isAIRequest(request, pathname)) {
     // AI endpoints: 10/min
     limit = 10
   } else if (pathname.includes('/deploy')) {